@@ -0,0 +1,54 @@
+import fs from 'fs';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { vi } from 'vitest';
+import { createApp } from '../server/app';
+import { openDatabase } from '../server/db';
+import { createProviders } from '../server/providers';
+import { startFakeGemini, type FakeReply } from '../test/fakeGemini';
+
+export interface TestServer {
+  gemini: Awaited<ReturnType<typeof startFakeGemini>>;
+  close(): Promise<void>;
+}
+
+// The real API on a fresh database, with Gemini pointed at the fake. The
+// page's relative /api requests are routed to it, keeping the session cookie
+// the way a browser would.
+export async function startTestServer(override?: (prompt: string, call: number) => FakeReply | undefined): Promise<TestServer> {
+  const gemini = await startFakeGemini(override);
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sale-squid-e2e-'));
+  const db = openDatabase(path.join(dir, 'test.db'));
+  const { app, close } = createApp({
+    providers: createProviders({ geminiApiKey: 'test-key', geminiBaseUrl: gemini.baseUrl }),
+    db,
+    worker: { pollMs: 20, retryDelayMs: 20, maxAttempts: 2 },
+    scheduler: { watchDir: dir },
+  });
+  const server = http.createServer(app);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const realFetch = globalThis.fetch;
+  let cookie = '';
+  vi.stubGlobal('fetch', async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    if (typeof input !== 'string' || !input.startsWith('/')) return realFetch(input, init);
+    const res = await realFetch(origin + input, { ...init, headers: { ...(init.headers as Record<string, string>), cookie } });
+    const setCookie = res.headers.get('set-cookie');
+    if (setCookie) cookie = setCookie.split(';')[0];
+    return res;
+  });
+
+  return {
+    gemini,
+    async close() {
+      vi.unstubAllGlobals();
+      await new Promise(resolve => server.close(resolve));
+      await gemini.close();
+      close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    },
+  };
+}
@@ -0,0 +1,92 @@
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import App from '../src/App';
+import { SAMPLE_REVIEWS } from '../test/sampleReport';
+import { startTestServer, type TestServer } from './harness';
+
+let server: TestServer | null = null;
+
+async function signUpAndPaste(reviews = SAMPLE_REVIEWS) {
+  const user = userEvent.setup();
+  render(<App />);
+  await user.click(within(screen.getByRole('banner')).getByRole('button', { name: 'Get Started' }));
+  await user.type(screen.getByPlaceholderText('Name'), 'Ana');
+  await user.type(screen.getByPlaceholderText('Email'), 'ana@example.com');
+  await user.type(screen.getByPlaceholderText(/Password/), 'correct horse battery');
+  await user.click(screen.getByRole('button', { name: 'Sign Up' }));
+  await screen.findByRole('button', { name: /Ana's Workspace/ });
+
+  await user.click(screen.getByPlaceholderText(/Paste your customer reviews here/));
+  await user.paste(reviews);
+  // The model picker offers Gemini once the server lists it.
+  await screen.findByRole('option', { name: /gemini-3-flash-preview/ });
+  return user;
+}
+
+describe('paste to report', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+  });
+
+  it('signs up, analyzes pasted reviews with Gemini and saves the report', async () => {
+    server = await startTestServer();
+    const user = await signUpAndPaste();
+
+    await user.click(screen.getByRole('button', { name: /Generate Sales Strategy/ }));
+
+    expect(await screen.findByRole('heading', { name: 'Customer Pain Points' }, { timeout: 10_000 })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Generate Sales Strategy/ })).toBeEnabled();
+    expect(screen.getByRole('heading', { name: 'Sales Blockers' })).toBeInTheDocument();
+    expect(screen.getByRole('heading', { name: 'Strategic Sales Growth Plan' })).toBeInTheDocument();
+    expect(screen.getByText(/Average score .* across 5 reviews/)).toBeInTheDocument();
+
+    // One prompt for a handful of reviews, carrying every one of them.
+    expect(server.gemini.prompts).toHaveLength(1);
+    for (const review of SAMPLE_REVIEWS.split('\n')) expect(server.gemini.prompts[0]).toContain(review);
+
+    await user.click(screen.getByRole('button', { name: /History/ }));
+    const history = await screen.findByRole('complementary');
+    expect(await within(history).findByText(/Shipping took three weeks/)).toBeInTheDocument();
+  });
+
+  it('repairs a malformed response before rendering', async () => {
+    server = await startTestServer((_prompt, call) => (call === 1 ? { text: '{"sentiment": "Negative", "painPoints": [' } : undefined));
+    const user = await signUpAndPaste();
+
+    await user.click(screen.getByRole('button', { name: /Generate Sales Strategy/ }));
+
+    expect(await screen.findByRole('heading', { name: 'Customer Pain Points' }, { timeout: 10_000 })).toBeInTheDocument();
+    expect(server.gemini.prompts).toHaveLength(2);
+    expect(server.gemini.prompts[1]).toContain('Your previous response could not be used');
+  });
+
+  it('says so when the model keeps returning malformed JSON', async () => {
+    server = await startTestServer(() => ({ text: 'Here is your analysis: it went well.' }));
+    const user = await signUpAndPaste();
+
+    await user.click(screen.getByRole('button', { name: /Generate Sales Strategy/ }));
+
+    expect(await screen.findByText(/did not match the report format/, undefined, { timeout: 10_000 })).toBeInTheDocument();
+    expect(screen.queryByRole('heading', { name: 'Customer Pain Points' })).not.toBeInTheDocument();
+  });
+
+  it('retries a rate-limited model, then explains the quota error', async () => {
+    server = await startTestServer(() => ({
+      status: 429,
+      body: { error: { code: 429, message: 'Resource has been exhausted.', status: 'RESOURCE_EXHAUSTED' } },
+    }));
+    const user = await signUpAndPaste();
+
+    await user.click(screen.getByRole('button', { name: /Generate Sales Strategy/ }));
+
+    expect(await screen.findByText(/quota or rate limit was reached/, undefined, { timeout: 10_000 })).toBeInTheDocument();
+    expect(server.gemini.prompts).toHaveLength(2);
+  });
+});
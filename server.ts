@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import dotenv from 'dotenv';
+import express from 'express';
+import path from 'path';
+import { createServer as createViteServer } from 'vite';
+import { createApp } from './server/app';
+import { openDatabase } from './server/db';
+import { createProviders } from './server/providers';
+import type { SmtpOptions } from './server/smtp';
+
+dotenv.config({ path: ['.env.local', '.env'], quiet: true });
+
+const PORT = Number(process.env.PORT) || 3000;
+
+// Comma-separated env lists, e.g. OPENAI_MODELS="llama3.1,qwen2.5".
+const list = (value?: string) => value?.split(',').map(s => s.trim()).filter(Boolean);
+
+// Email digests need SMTP_HOST. A local catcher such as MailHog takes
+// SMTP_HOST=localhost SMTP_PORT=1025 with nothing else set.
+function smtpFromEnv(): SmtpOptions | undefined {
+  const host = process.env.SMTP_HOST;
+  if (!host) return undefined;
+  const port = Number(process.env.SMTP_PORT) || 587;
+  const security = process.env.SMTP_SECURITY;
+  return {
+    host,
+    port,
+    security: security === 'tls' || security === 'starttls' || security === 'none'
+      ? security
+      : port === 465 ? 'tls' : process.env.SMTP_USER ? 'starttls' : 'none',
+    user: process.env.SMTP_USER,
+    pass: process.env.SMTP_PASS,
+    from: process.env.SMTP_FROM || 'Sale Squid <reports@localhost>',
+  };
+}
+
+async function startServer() {
+  const providers = createProviders({
+    geminiApiKey: process.env.GEMINI_API_KEY,
+    geminiBaseUrl: process.env.GEMINI_BASE_URL,
+    geminiModels: list(process.env.GEMINI_MODELS),
+    openAiBaseUrl: process.env.OPENAI_BASE_URL,
+    openAiApiKey: process.env.OPENAI_API_KEY,
+    openAiModels: list(process.env.OPENAI_MODELS),
+  });
+  const allowHosts = list(process.env.OUTBOUND_ALLOW_HOSTS);
+  const db = openDatabase(process.env.DATABASE_PATH || path.join('data', 'sale-squid.db'));
+  const { app } = createApp({
+    providers,
+    db,
+    scheduler: { watchDir: process.env.WATCH_DIR || undefined, allowHosts },
+    deliverer: { smtp: smtpFromEnv(), allowHosts },
+  });
+
+  if (process.env.NODE_ENV !== 'production') {
+    const vite = await createViteServer({
+      server: { middlewareMode: true },
+      appType: 'spa',
+    });
+    app.use(vite.middlewares);
+  } else {
+    const distPath = path.join(process.cwd(), 'dist');
+    app.use(express.static(distPath));
+    app.get('*', (_req, res) => {
+      res.sendFile(path.join(distPath, 'index.html'));
+    });
+  }
+
+  app.listen(PORT, '0.0.0.0', () => {
+    console.log(`Sale Squid running on http://localhost:${PORT}`);
+  });
+}
+
+startServer();
@@ -0,0 +1,158 @@
+import { ApiError } from '@google/genai';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseReviewText } from '../src/lib/reviews';
+import { fakeAnswer, geminiChunks, SAMPLE_REVIEWS } from '../test/fakeGemini';
+import { MAX_BATCH_REVIEWS, runAnalysis } from './analysis';
+import { AnalysisError, toAnalysisError } from './errors';
+import { createGeminiProvider } from './providers/gemini';
+
+const { generateContentStream } = vi.hoisted(() => ({ generateContentStream: vi.fn() }));
+
+vi.mock('@google/genai', async importOriginal => ({
+  ...(await importOriginal<typeof import('@google/genai')>()),
+  GoogleGenAI: vi.fn(() => ({ models: { generateContentStream } })),
+}));
+
+interface StreamCall {
+  contents: string;
+  config: { responseSchema: object };
+}
+
+// The mocked SDK answers every call the way the fake analyst would.
+const answerWithFake = async ({ contents, config }: StreamCall) => geminiChunks(await fakeAnswer(contents, config.responseSchema));
+
+const reviews = parseReviewText(SAMPLE_REVIEWS);
+const request = { reviews, language: 'English', reportLanguage: 'English' };
+const provider = () => createGeminiProvider({ apiKey: 'test-key' });
+
+describe('runAnalysis with Gemini', () => {
+  beforeEach(() => {
+    generateContentStream.mockReset();
+  });
+
+  it('builds a report from a valid response', async () => {
+    generateContentStream.mockImplementation(answerWithFake);
+    const onUsage = vi.fn();
+    const onPartial = vi.fn();
+
+    const result = await runAnalysis(provider(), request, { model: 'gemini-2.5-flash', onUsage, onPartial });
+
+    expect(generateContentStream).toHaveBeenCalledTimes(1);
+    expect(result.sentiment).toEqual(expect.any(String));
+    expect(result.painPoints.length).toBeGreaterThan(0);
+    expect(result.salesBlockers.length).toBeGreaterThan(0);
+    // Every finding is grounded in the reviews it cites.
+    for (const finding of [...result.painPoints, ...result.salesBlockers]) {
+      expect(finding.evidence.length).toBe(finding.frequency);
+      expect(finding.evidence.every(i => i >= 0 && i < reviews.length)).toBe(true);
+    }
+    expect(result.growthProjection).toHaveLength(6);
+    expect(result.growthProjection[5]).toEqual({ month: expect.any(String), current: expect.any(Number), projected: expect.any(Number) });
+    expect(result.reviewInsights).toHaveLength(reviews.length);
+    expect(result.annualIncrementPlan).not.toBe('');
+    expect(onUsage).toHaveBeenCalledWith({ inputTokens: 120, outputTokens: 100 });
+    expect(onPartial).toHaveBeenCalled();
+  });
+
+  it('maps large inputs batch by batch before the final pass', async () => {
+    generateContentStream.mockImplementation(answerWithFake);
+    const many = Array.from({ length: MAX_BATCH_REVIEWS + 10 }, (_, i) => reviews[i % reviews.length]);
+    const stages: string[] = [];
+
+    const result = await runAnalysis(provider(), { ...request, reviews: many }, {
+      model: 'gemini-2.5-flash',
+      onProgress: progress => stages.push(`${progress.stage} ${progress.completedBatches}/${progress.totalBatches}`),
+    });
+
+    expect(generateContentStream).toHaveBeenCalledTimes(3);
+    expect(stages).toEqual(['map 0/2', 'map 1/2', 'map 2/2', 'reduce 2/2']);
+    expect(result.growthProjection).toHaveLength(6);
+    expect(result.painPoints[0].frequency).toBeGreaterThan(1);
+  });
+
+  it('starts no more batches once one fails, and aborts the ones in flight', async () => {
+    const signals: AbortSignal[] = [];
+    generateContentStream.mockImplementation(async ({ config }: { config: { abortSignal: AbortSignal } }) => {
+      signals.push(config.abortSignal);
+      if (signals.length === 1) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+        throw new ApiError({ message: 'Invalid argument', status: 400 });
+      }
+      return new Promise((_, reject) => config.abortSignal.addEventListener('abort', () => reject(config.abortSignal.reason)));
+    });
+    const many = Array.from({ length: MAX_BATCH_REVIEWS * 6 }, (_, i) => reviews[i % reviews.length]);
+
+    const error = await runAnalysis(provider(), { ...request, reviews: many }, { model: 'gemini-2.5-flash' }).catch(err => err);
+
+    expect(error.message).toMatch(/Invalid argument/);
+    // Three batches run at a time; the other three never start.
+    expect(generateContentStream).toHaveBeenCalledTimes(3);
+    expect(signals.every(signal => signal.aborted)).toBe(true);
+  });
+
+  it('asks the model to repair malformed JSON', async () => {
+    generateContentStream
+      .mockResolvedValueOnce(geminiChunks('{"sentiment": "Negative", "painPoints": ['))
+      .mockImplementation(answerWithFake);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const result = await runAnalysis(provider(), request, { model: 'gemini-2.5-flash' });
+
+    expect(generateContentStream).toHaveBeenCalledTimes(2);
+    const repair: string = generateContentStream.mock.calls[1][0].contents;
+    expect(repair).toContain('Your previous response could not be used');
+    expect(repair).toContain('{"sentiment": "Negative", "painPoints": [');
+    expect(result.growthProjection).toHaveLength(6);
+    warn.mockRestore();
+  });
+
+  it('repairs a response that breaks the schema', async () => {
+    generateContentStream
+      .mockImplementationOnce(async (call: StreamCall) => {
+        const answer = JSON.parse(await fakeAnswer(call.contents, call.config.responseSchema));
+        return geminiChunks(JSON.stringify({ ...answer, growthProjection: answer.growthProjection.slice(0, 5) }));
+      })
+      .mockImplementation(answerWithFake);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const result = await runAnalysis(provider(), request, { model: 'gemini-2.5-flash' });
+
+    expect(generateContentStream.mock.calls[1][0].contents).toMatch(/growthProjection must have at least 6 items/);
+    expect(result.growthProjection).toHaveLength(6);
+    warn.mockRestore();
+  });
+
+  it('gives up when the repair is malformed too', async () => {
+    generateContentStream.mockImplementation(async () => geminiChunks('Sorry, I cannot help with that.'));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const error = await runAnalysis(provider(), request, { model: 'gemini-2.5-flash' }).catch(err => err);
+
+    expect(error).toBeInstanceOf(AnalysisError);
+    expect(error.category).toBe('invalid_json');
+    expect(generateContentStream).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+
+  it.each([
+    [new ApiError({ message: 'Quota exceeded', status: 429 }), 'quota'],
+    [new ApiError({ message: 'Service unavailable', status: 503 }), 'network'],
+    [Object.assign(new TypeError('fetch failed'), { cause: { code: 'ECONNREFUSED' } }), 'network'],
+    [new Error('Something else'), 'unknown'],
+  ])('surfaces %s as a %s error', async (thrown, category) => {
+    generateContentStream.mockRejectedValue(thrown);
+
+    const error = await runAnalysis(provider(), request, { model: 'gemini-2.5-flash' }).catch(err => err);
+
+    expect(toAnalysisError(error).category).toBe(category);
+    expect(generateContentStream).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops before calling the model once aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(runAnalysis(provider(), request, { model: 'gemini-2.5-flash', signal: controller.signal })).rejects.toThrow();
+    expect(generateContentStream).not.toHaveBeenCalled();
+  });
+});
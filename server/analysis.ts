@@ -0,0 +1,524 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Type } from "@google/genai";
+import { groundFinding, mergeFindings, SEVERITIES, type RawFinding } from '../src/lib/findings';
+import { DEFAULT_REPORT_LANGUAGE } from '../src/lib/i18n';
+import { EFFORTS, groundInitiatives, QUARTERS, type RawInitiative } from '../src/lib/initiatives';
+import { competitorsIn, groundPositioning, ownFindings, ownInsights, restrictFinding, type RawPositioning } from '../src/lib/positioning';
+import { DEFAULT_TEMPLATE, DEFAULT_TEMPLATES, EMPTY_PROFILE, renderTemplate } from '../src/lib/promptTemplates';
+import { formatReviewsForPrompt } from '../src/lib/reviews';
+import { ASPECTS, groundInsights, type RawInsight } from '../src/lib/sentiment';
+import type { AnalysisProgress, AnalysisResult, AnalyzeRequest, BusinessProfile, Finding, ReviewRecord, TemplateId, TokenUsage } from '../src/types';
+import { AnalysisError } from './errors';
+import type { ModelProvider } from './providers/types';
+import { parsePartialJson } from './partialJson';
+import { parseModelOutput } from './validation';
+
+// Free text comes back in the report language; quotes, keys and enum values don't.
+const findingListSchema = (reportLanguage: string) => ({
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      text: { type: Type.STRING, description: `Short, specific description in ${reportLanguage}` },
+      severity: { type: Type.STRING, enum: SEVERITIES, description: "Impact on sales" },
+      reviewNumbers: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: "The [#n] numbers of every review that raises it" },
+      quotes: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Up to 3 short verbatim excerpts from those reviews, in their original language" }
+    },
+    required: ["text", "severity", "reviewNumbers", "quotes"]
+  }
+});
+
+const reviewInsightsSchema = {
+  type: Type.ARRAY,
+  description: "One entry for every review",
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      reviewNumber: { type: Type.NUMBER, minimum: 1, description: "The review's [#n] number" },
+      score: { type: Type.NUMBER, minimum: -1, maximum: 1, description: "Sentiment from -1 (very negative) to 1 (very positive)" },
+      aspects: { type: Type.ARRAY, items: { type: Type.STRING, enum: ASPECTS } }
+    },
+    required: ["reviewNumber", "score", "aspects"]
+  }
+};
+
+// Blockers are named by their exact text and linked to the report's blockers afterwards.
+const initiativesSchema = (reportLanguage: string) => ({
+  type: Type.ARRAY,
+  description: "The growth plan broken down into concrete initiatives a team can pick up",
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      title: { type: Type.STRING, description: `Short, actionable task title in ${reportLanguage}` },
+      pillar: { type: Type.STRING, description: `The growth plan pillar it belongs to, in ${reportLanguage}` },
+      ownerRole: { type: Type.STRING, description: `The role that should own it, e.g. Head of Sales, in ${reportLanguage}` },
+      quarter: { type: Type.STRING, enum: QUARTERS, description: "Target quarter" },
+      effort: { type: Type.STRING, enum: EFFORTS },
+      expectedImpact: { type: Type.STRING, description: `Expected effect on sales, in ${reportLanguage}` },
+      addresses: { type: Type.ARRAY, items: { type: Type.STRING }, description: "The sales blockers it addresses, copied exactly from the sales blocker descriptions" }
+    },
+    required: ["title", "pillar", "ownerRole", "quarter", "effort", "expectedImpact", "addresses"]
+  }
+});
+
+// Single-pass items cite reviews like other findings; reduce-pass items name
+// the per-brand findings they draw on, since that pass never sees the reviews.
+const positioningListSchema = (reportLanguage: string, competitors: string[], description: string, citesReviews: boolean) => ({
+  type: Type.ARRAY,
+  description,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      text: { type: Type.STRING, description: `Short, specific description in ${reportLanguage}` },
+      competitor: { type: Type.STRING, enum: competitors, description: "The competitor it compares us against" },
+      severity: { type: Type.STRING, enum: SEVERITIES, description: "How much it matters for sales" },
+      ...(citesReviews
+        ? {
+            reviewNumbers: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: "The [#n] numbers of the reviews on both sides that show it" },
+            quotes: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Up to 3 short verbatim excerpts from those reviews, in their original language" }
+          }
+        : {
+            basedOn: { type: Type.ARRAY, items: { type: Type.STRING }, description: "The findings listed above that it draws on, from both sides, copied exactly" }
+          })
+    },
+    required: ["text", "competitor", "severity", ...(citesReviews ? ["reviewNumbers", "quotes"] : ["basedOn"])]
+  }
+});
+
+const positioningSchema = (reportLanguage: string, competitors: string[], citesReviews: boolean) => ({
+  type: Type.OBJECT,
+  properties: {
+    opportunities: positioningListSchema(reportLanguage, competitors, "Where a competitor is weaker than us: what its customers complain about that ours don't, or praise us for", citesReviews),
+    threats: positioningListSchema(reportLanguage, competitors, "Where a competitor beats us: what its customers praise that ours complain about or miss", citesReviews),
+    featureGaps: positioningListSchema(reportLanguage, competitors, "Features customers get or ask for at a competitor that we don't offer", citesReviews),
+    pricePerception: { type: Type.STRING, description: `How customers see our prices and each competitor's against what they get, in ${reportLanguage} Markdown` }
+  },
+  required: ["opportunities", "threats", "featureGaps", "pricePerception"]
+});
+
+const strategyProperties = (reportLanguage: string) => ({
+  sentiment: { type: Type.STRING, description: `Overall sentiment in a few words, in ${reportLanguage}` },
+  marketingStrategy: { type: Type.STRING, description: `Markdown, in ${reportLanguage}` },
+  salesStrategy: { type: Type.STRING, description: `Markdown, in ${reportLanguage}` },
+  annualIncrementPlan: { type: Type.STRING, description: `Professional Strategic Sales Growth Plan with pillars and milestones, in ${reportLanguage} Markdown` },
+  growthProjection: {
+    type: Type.ARRAY,
+    minItems: "6",
+    maxItems: "6",
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        month: { type: Type.STRING, description: `Month label in ${reportLanguage}` },
+        current: { type: Type.NUMBER, minimum: -100, maximum: 100, description: "Current growth rate %" },
+        projected: { type: Type.NUMBER, minimum: -100, maximum: 100, description: "Projected growth rate % after strategy" }
+      },
+      required: ["month", "current", "projected"]
+    }
+  },
+  initiatives: initiativesSchema(reportLanguage)
+});
+
+const strategyRequired = ["sentiment", "marketingStrategy", "salesStrategy", "annualIncrementPlan", "growthProjection", "initiatives"];
+
+// Competitor reviews in the input add the positioning report.
+export const analysisSchema = (reportLanguage: string, competitors: string[] = []) => ({
+  type: Type.OBJECT,
+  properties: {
+    painPoints: findingListSchema(reportLanguage),
+    salesBlockers: findingListSchema(reportLanguage),
+    reviewInsights: reviewInsightsSchema,
+    ...strategyProperties(reportLanguage),
+    ...(competitors.length > 0 && { positioning: positioningSchema(reportLanguage, competitors, true) })
+  },
+  required: ["painPoints", "salesBlockers", "reviewInsights", ...strategyRequired, ...(competitors.length > 0 ? ["positioning"] : [])]
+});
+
+// The reduce pass only writes strategy; its findings come from the merged batches.
+export const strategySchema = (reportLanguage: string, competitors: string[] = []) => ({
+  type: Type.OBJECT,
+  properties: {
+    ...strategyProperties(reportLanguage),
+    ...(competitors.length > 0 && { positioning: positioningSchema(reportLanguage, competitors, false) })
+  },
+  required: [...strategyRequired, ...(competitors.length > 0 ? ["positioning"] : [])]
+});
+
+// Kept small enough that one batch fits comfortably in a single prompt.
+export const MAX_BATCH_REVIEWS = 150;
+export const MAX_BATCH_CHARS = 30_000;
+const MAP_CONCURRENCY = 3;
+// How many merged findings of each kind the final report keeps.
+const TOP_FINDINGS = 12;
+
+// With competitors, batches also collect what customers praise, so the reduce
+// pass can weigh each brand's strengths against the others' complaints.
+export const batchSchema = (reportLanguage: string, competitors: string[] = []) => ({
+  type: Type.OBJECT,
+  properties: {
+    painPoints: findingListSchema(reportLanguage),
+    salesBlockers: findingListSchema(reportLanguage),
+    ...(competitors.length > 0 && { strengths: findingListSchema(reportLanguage) }),
+    reviewInsights: reviewInsightsSchema,
+    sentiment: { type: Type.STRING, description: "One-sentence summary of the batch's overall sentiment" }
+  },
+  required: ["painPoints", "salesBlockers", ...(competitors.length > 0 ? ["strengths"] : []), "reviewInsights", "sentiment"]
+});
+
+interface RawBatch {
+  painPoints?: RawFinding[];
+  salesBlockers?: RawFinding[];
+  strengths?: RawFinding[];
+  reviewInsights?: RawInsight[];
+  sentiment?: string;
+}
+
+// Strategy fields as the model returns them, before initiatives and positioning are grounded.
+type RawStrategy = Omit<AnalysisResult, 'painPoints' | 'salesBlockers' | 'reviewInsights' | 'initiatives' | 'positioning'> & {
+  initiatives?: RawInitiative[];
+  positioning?: RawPositioning;
+};
+
+// One brand's side of the comparison after merging; null is our business.
+interface BrandFindings {
+  competitor: string | null;
+  strengths: Finding[];
+  painPoints: Finding[];
+}
+
+interface MergedFindings {
+  painPoints: Finding[];
+  salesBlockers: Finding[];
+  sentiment: string;
+  // Only when competitor reviews were read alongside ours.
+  brands: BrandFindings[];
+}
+
+const EVIDENCE_INSTRUCTIONS = `For every pain point and sales blocker, cite the [#n] number of each review that raises it and quote up to 3 short excerpts copied exactly from those reviews. Rate its severity for sales (low, medium, high or critical). Do not list anything no review supports.`;
+
+const INSIGHT_INSTRUCTIONS = `Also score every single review's sentiment from -1 (very negative) to 1 (very positive) and tag it with the aspects it discusses: ${ASPECTS.join(', ')}.`;
+
+// The workspace's template and business profile as they were when the analysis was submitted.
+export interface AnalysisContext {
+  template: { id: TemplateId; version: number; body: string };
+  profile: BusinessProfile;
+}
+
+// Without a context the default e-commerce template is used with no profile.
+export type AnalysisInput = AnalyzeRequest & { context?: AnalysisContext };
+
+export interface AnalysisOptions {
+  // Which of the provider's models to call.
+  model: string;
+  signal?: AbortSignal;
+  onProgress?: (progress: AnalysisProgress) => void;
+  // Receives the report so far while the final pass streams in.
+  onPartial?: (partial: Partial<AnalysisResult>) => void;
+  // Called after every model call, batches and repairs included.
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+// Each partial carries the whole report so far, so they are sent at most this often.
+const PARTIAL_INTERVAL_MS = 250;
+
+// Turns streamed text into throttled partial reports; text that doesn't parse
+// yet is skipped, since validation and repair handle the final response.
+function partialReporter<T>(toPartial: (raw: T) => Partial<AnalysisResult>, onPartial?: (partial: Partial<AnalysisResult>) => void) {
+  if (!onPartial) return undefined;
+  let last = 0;
+  return (text: string) => {
+    const now = Date.now();
+    if (now - last < PARTIAL_INTERVAL_MS) return;
+    last = now;
+    try {
+      const raw = parsePartialJson(text);
+      if (raw && typeof raw === 'object' && !Array.isArray(raw)) onPartial(toPartial(raw as T));
+    } catch {
+      // Malformed so far; wait for the complete response.
+    }
+  };
+}
+
+// What kind of strategy to write, from the workspace's template and profile.
+const strategyBrief = (context: AnalysisContext | undefined, reviewCount: number, reportLanguage: string) =>
+  renderTemplate(
+    context?.template.body ?? DEFAULT_TEMPLATES[DEFAULT_TEMPLATE].body,
+    context?.profile ?? EMPTY_PROFILE,
+    { reviewCount, reportLanguage },
+  );
+
+// Reviews tagged with a competitor are read alongside ours but never count as ours.
+const competitorContext = (competitors: string[]) =>
+  `Reviews tagged "competitor: <name>" are about that competitor (${competitors.join(', ')}); untagged reviews are about our business.`;
+
+const POSITIONING_FOCUS = `Then position our business against each competitor:
+        7. Opportunities: where the competitor is weaker than us, so its unhappy customers are ours to win.
+        8. Threats: where the competitor beats us.
+        9. Feature gaps: features customers get or ask for at the competitor that we don't offer.
+        10. Price perception: how customers see our prices and each competitor's against what they get.
+        Write the marketing strategy explicitly against this positioning: how to message each opportunity to the competitor's customers, and how to answer each threat and close each feature gap.`;
+
+// The reviews may be in any language; everything written about them is in the report language.
+const outputLanguage = (reportLanguage: string) =>
+  `Write every finding, summary, strategy and month label in ${reportLanguage}, translating from the reviews' language where needed. Keep quotes exactly as written in the reviews, and keep JSON keys, severities and aspects in English as listed.`;
+
+export function buildAnalysisPrompt({ reviews, language, reportLanguage = DEFAULT_REPORT_LANGUAGE, context }: AnalysisInput) {
+  const competitors = competitorsIn(reviews);
+  const comparison = competitors.length
+    ? `
+        ${competitorContext(competitors)} Pain points and sales blockers are about our business only, so cite only untagged reviews for them; score every review, competitors' included.
+        For every opportunity, threat and feature gap, name the competitor, cite the [#n] numbers of the reviews on both sides that show it and quote up to 3 short excerpts copied exactly from them.
+        `
+    : '';
+  return `Analyze the following customer reviews (Input Language: ${language}).
+        
+        Reviews (one per line, with rating, date, product and source when known):
+        ${formatReviewsForPrompt(reviews)}
+        ${comparison}
+        ${EVIDENCE_INSTRUCTIONS}
+        ${INSIGHT_INSTRUCTIONS}
+        
+        ${strategyBrief(context, reviews.length, reportLanguage)}
+        ${competitors.length ? POSITIONING_FOCUS : ''}
+        
+        ${outputLanguage(reportLanguage)}`;
+}
+
+// Competitors come from the whole input, since one batch may hold reviews of only some of them.
+export function buildBatchPrompt(batch: ReviewRecord[], offset: number, index: number, total: number, language: string, reportLanguage = DEFAULT_REPORT_LANGUAGE, competitors: string[] = []) {
+  const comparison = competitors.length
+    ? `
+        ${competitorContext(competitors)} List pain points for every brand, but never cite reviews of two brands for the same item. Sales blockers are about our business only. Also list what customers praise as strengths, per brand in the same way.`
+    : '';
+  return `You are reading batch ${index + 1} of ${total} from a larger set of customer reviews (Input Language: ${language}).
+        
+        Reviews (one per line, with rating, date, product and source when known):
+        ${formatReviewsForPrompt(batch, offset)}
+        
+        List every distinct customer pain point and every sales blocker (anything stopping or discouraging a purchase) raised in this batch, each with a short, specific description in ${reportLanguage}.${comparison}
+        ${EVIDENCE_INSTRUCTIONS}
+        ${INSIGHT_INSTRUCTIONS}
+        Finally, summarize the batch's overall sentiment in one sentence.
+        
+        ${outputLanguage(reportLanguage)}`;
+}
+
+const formatFindings = (findings: Finding[]) =>
+  findings.map(f => `- ${f.text} (${f.severity} severity, raised in ${f.frequency} reviews)`).join('\n') || '- None found';
+
+const brandName = (competitor: string | null) => (competitor === null ? 'Our business' : `Competitor "${competitor}"`);
+
+// Each brand's merged strengths and complaints, for the positioning to be drawn from.
+function formatBrands(brands: BrandFindings[]) {
+  return brands
+    .map(b => `${brandName(b.competitor)}, what customers praise:
+        ${formatFindings(b.strengths)}
+        
+        ${brandName(b.competitor)}, what customers complain about:
+        ${formatFindings(b.painPoints)}`)
+    .join('\n        \n        ');
+}
+
+export function buildReducePrompt(merged: MergedFindings, reviewCount: number, batchCount: number, language: string, reportLanguage = DEFAULT_REPORT_LANGUAGE, context?: AnalysisContext) {
+  return `The findings below were extracted from ${reviewCount} customer reviews (Input Language: ${language}), read in ${batchCount} batches, with the number of reviews that raised each issue. Weight issues by how often they occur.
+        
+        Pain points:
+        ${formatFindings(merged.painPoints)}
+        
+        Sales blockers:
+        ${formatFindings(merged.salesBlockers)}
+        
+        Sentiment by batch:
+        ${merged.sentiment}
+        ${merged.brands.length ? `
+        ${formatBrands(merged.brands)}
+        
+        For every opportunity, threat and feature gap, name the competitor and list in basedOn the findings above it draws on, from both sides, copied exactly.
+        ` : ''}
+        ${strategyBrief(context, reviewCount, reportLanguage)}
+        ${merged.brands.length ? POSITIONING_FOCUS : ''}
+        
+        ${outputLanguage(reportLanguage)}`;
+}
+
+// Splits reviews into consecutive batches bounded by review count and prompt size.
+export function splitIntoBatches(reviews: ReviewRecord[], maxReviews = MAX_BATCH_REVIEWS, maxChars = MAX_BATCH_CHARS) {
+  const batches: ReviewRecord[][] = [];
+  let current: ReviewRecord[] = [];
+  let chars = 0;
+  for (const review of reviews) {
+    if (current.length > 0 && (current.length >= maxReviews || chars + review.text.length > maxChars)) {
+      batches.push(current);
+      current = [];
+      chars = 0;
+    }
+    current.push(review);
+    chars += review.text.length;
+  }
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
+
+interface ModelCall {
+  provider: ModelProvider;
+  model: string;
+  signal?: AbortSignal;
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+// How many times an invalid response is sent back to the model to be fixed.
+const MAX_REPAIRS = 1;
+
+export function buildRepairPrompt(prompt: string, output: string, issues: string[]) {
+  return `${prompt}
+        
+        Your previous response could not be used:
+        ${issues.map(issue => `- ${issue}`).join('\n')}
+        
+        Previous response:
+        ${output.slice(0, MAX_BATCH_CHARS)}
+        
+        Return the complete corrected JSON object, keeping everything that was already valid.`;
+}
+
+// Calls the model and checks the output against `schema`; invalid output is
+// retried with a repair prompt that lists what was wrong.
+async function generate<T>(call: ModelCall, prompt: string, schema: object, onText?: (text: string) => void): Promise<T> {
+  const { provider, model, signal, onUsage } = call;
+  let request = prompt;
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    const text = await provider.generateJson({ model, prompt: request, schema, signal, onText, onUsage });
+    const { value, issues } = parseModelOutput(text, schema);
+    if (issues.length === 0) return value as T;
+    if (attempt >= MAX_REPAIRS) throw new AnalysisError('invalid_json', issues[0]);
+    console.warn(`Model output failed validation, requesting a repair: ${issues.slice(0, 3).join('; ')}`);
+    request = buildRepairPrompt(prompt, text, issues);
+  }
+}
+
+// Runs `task` over `items` with at most `limit` in flight, preserving result order.
+// The first failure stops the rest: no new item is started, and the tasks still
+// running see their signal abort, so a failed run doesn't go on spending tokens.
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  signal: AbortSignal | undefined,
+  task: (item: T, index: number, signal: AbortSignal) => Promise<R>
+) {
+  const results = new Array<R>(items.length);
+  const failure = new AbortController();
+  const combined = signal ? AbortSignal.any([signal, failure.signal]) : failure.signal;
+  let failed = false;
+  let next = 0;
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await task(items[index], index, combined);
+      } catch (err) {
+        failed = true;
+        failure.abort(err);
+        throw err;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// Small inputs go to the model in one prompt. Larger ones are mapped batch by
+// batch into counted findings, merged and deduped here, then reduced into the
+// final strategy from the merged findings. Competitor reviews are read the same
+// way; only our own reviews feed the pain points, blockers and sentiment.
+export async function runAnalysis(provider: ModelProvider, request: AnalysisInput, { model, signal, onProgress, onPartial, onUsage }: AnalysisOptions): Promise<AnalysisResult> {
+  const call: ModelCall = { provider, model, signal, onUsage };
+  const { reviews, reportLanguage = DEFAULT_REPORT_LANGUAGE } = request;
+  const competitors = competitorsIn(reviews);
+  const ground = (raw: RawFinding[] | undefined) =>
+    (raw ?? []).map(f => groundFinding(f, reviews)).filter(f => f.text);
+  const groundOwn = (raw: RawFinding[] | undefined) => ownFindings(ground(raw), reviews);
+  const batches = splitIntoBatches(reviews);
+
+  if (batches.length === 1) {
+    onProgress?.({ stage: 'reduce', completedBatches: 1, totalBatches: 1 });
+    // Only the fields that have started arriving are included.
+    const streamed = partialReporter<Partial<RawStrategy> & RawBatch>(raw => ({
+      ...raw,
+      ...(raw.painPoints && { painPoints: groundOwn(raw.painPoints) }),
+      ...(raw.salesBlockers && { salesBlockers: groundOwn(raw.salesBlockers) }),
+      ...(raw.reviewInsights && { reviewInsights: ownInsights(groundInsights(raw.reviewInsights, reviews), reviews) }),
+      ...(raw.initiatives && { initiatives: groundInitiatives(raw.initiatives, groundOwn(raw.salesBlockers)) }),
+      ...(raw.positioning && { positioning: groundPositioning(raw.positioning, reviews, groundInsights(raw.reviewInsights, reviews)) }),
+    }), onPartial);
+    const raw = await generate<RawStrategy & RawBatch>(call, buildAnalysisPrompt(request), analysisSchema(reportLanguage, competitors), streamed);
+    const salesBlockers = groundOwn(raw.salesBlockers);
+    const insights = groundInsights(raw.reviewInsights, reviews);
+    const { positioning, ...strategy } = raw;
+    return {
+      ...strategy,
+      painPoints: groundOwn(raw.painPoints),
+      salesBlockers,
+      reviewInsights: ownInsights(insights, reviews),
+      initiatives: groundInitiatives(raw.initiatives, salesBlockers),
+      ...(competitors.length > 0 && { positioning: groundPositioning(positioning, reviews, insights) }),
+    };
+  }
+
+  let completed = 0;
+  onProgress?.({ stage: 'map', completedBatches: 0, totalBatches: batches.length });
+  const offsets = batches.map((_, i) => batches.slice(0, i).reduce((n, b) => n + b.length, 0));
+  const findings = await mapWithConcurrency(batches, MAP_CONCURRENCY, signal, async (batch, i, batchSignal) => {
+    const prompt = buildBatchPrompt(batch, offsets[i], i, batches.length, request.language, reportLanguage, competitors);
+    const result = await generate<RawBatch>({ ...call, signal: batchSignal }, prompt, batchSchema(reportLanguage, competitors));
+    onProgress?.({ stage: 'map', completedBatches: ++completed, totalBatches: batches.length });
+    return result;
+  });
+
+  // Batches may list the same issue for several brands; each brand keeps only its own evidence.
+  const top = (list: Finding[]) => list.sort((a, b) => b.frequency - a.frequency).slice(0, TOP_FINDINGS);
+  const painPoints = mergeFindings(findings.map(f => ground(f.painPoints)));
+  const strengths = competitors.length ? mergeFindings(findings.map(f => ground(f.strengths))) : [];
+  const forBrand = (list: Finding[], competitor: string | null) =>
+    top(list.map(f => restrictFinding(f, reviews, competitor)).filter(f => f.frequency > 0));
+  const merged: MergedFindings = {
+    painPoints: top(ownFindings(painPoints, reviews)),
+    salesBlockers: top(ownFindings(mergeFindings(findings.map(f => ground(f.salesBlockers))), reviews)),
+    sentiment: findings.map((f, i) => `- Batch ${i + 1}: ${f.sentiment ?? 'n/a'}`).join('\n'),
+    brands: competitors.length
+      ? [null, ...competitors].map(competitor => ({
+          competitor,
+          strengths: forBrand(strengths, competitor),
+          painPoints: forBrand(painPoints, competitor),
+        }))
+      : [],
+  };
+  onProgress?.({ stage: 'reduce', completedBatches: batches.length, totalBatches: batches.length });
+  const insights = groundInsights(findings.flatMap(f => f.reviewInsights ?? []), reviews);
+  // The merged findings are final already; only the strategy is still to come.
+  const known = {
+    painPoints: merged.painPoints,
+    salesBlockers: merged.salesBlockers,
+    reviewInsights: ownInsights(insights, reviews),
+  };
+  onPartial?.(known);
+  // Positioning items are grounded through the brand findings they name.
+  const sources = merged.brands.flatMap(b => [...b.strengths, ...b.painPoints]);
+  const prompt = buildReducePrompt(merged, reviews.length, batches.length, request.language, reportLanguage, request.context);
+  const streamed = partialReporter<Partial<RawStrategy>>(raw => ({
+    ...raw,
+    ...known,
+    ...(raw.initiatives && { initiatives: groundInitiatives(raw.initiatives, known.salesBlockers) }),
+    ...(raw.positioning && { positioning: groundPositioning(raw.positioning, reviews, insights, sources) }),
+  }), onPartial);
+  const { positioning, ...strategy } = await generate<RawStrategy>(call, prompt, strategySchema(reportLanguage, competitors), streamed);
+  return {
+    ...strategy,
+    ...known,
+    initiatives: groundInitiatives(strategy.initiatives, known.salesBlockers),
+    ...(competitors.length > 0 && { positioning: groundPositioning(positioning, reviews, insights, sources) }),
+  };
+}
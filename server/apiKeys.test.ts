@@ -0,0 +1,58 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createApp } from './app';
+import { openDatabase } from './db';
+import { createProviders } from './providers';
+import { createWorkspaceStore } from './workspaces';
+
+describe('API access', () => {
+  let stop: () => Promise<void>;
+
+  afterEach(() => stop());
+
+  async function start() {
+    const db = openDatabase(':memory:');
+    const { app, close } = createApp({ providers: createProviders({}), db });
+    const server = http.createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    stop = async () => {
+      await new Promise(resolve => server.close(resolve));
+      close();
+    };
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const signup = await fetch(`${base}/api/auth/signup`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email: 'ana@example.com', name: 'Ana', password: 'correct horse battery' }),
+    });
+    const cookie = signup.headers.get('set-cookie')!.split(';')[0];
+    const [workspace] = await (await fetch(`${base}/api/workspaces`, { headers: { cookie } })).json();
+    const createKey = () => fetch(`${base}/api/workspaces/${workspace.id}/keys`, {
+      method: 'POST',
+      headers: { cookie, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'ETL' }),
+    });
+    const callApi = (secret: string) => fetch(`${base}/api/v1/reports/missing`, { headers: { Authorization: `Bearer ${secret}` } });
+    return { workspaces: createWorkspaceStore(db), workspaceId: workspace.id as string, createKey, callApi };
+  }
+
+  it('is refused on plans without it', async () => {
+    const { createKey } = await start();
+    const res = await createKey();
+    expect(res.status).toBe(402);
+    expect((await res.json()).error).toMatch(/part of the Enterprise plan/);
+  });
+
+  it('lets Enterprise keys call the API until the plan changes', async () => {
+    const { workspaces, workspaceId, createKey, callApi } = await start();
+    workspaces.setPlan(workspaceId, 'enterprise');
+    const created = await createKey();
+    expect(created.status).toBe(201);
+    const { secret } = await created.json();
+    expect((await callApi(secret)).status).toBe(404);
+
+    workspaces.setPlan(workspaceId, 'pro');
+    expect((await callApi(secret)).status).toBe(402);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomBytes, randomUUID } from 'crypto';
+import type { NextFunction, Request, Response } from 'express';
+import { PLANS } from '../src/lib/plans';
+import type { ApiKey, CreatedApiKey, PlanId } from '../src/types';
+import { hashToken } from './auth';
+import type { Db } from './db';
+import type { RateLimiter } from './rateLimit';
+
+// Requests per minute for a new key, and the most a key may be given.
+export const DEFAULT_RATE_LIMIT = 60;
+export const MAX_RATE_LIMIT = 600;
+
+// Why a workspace on `plan` can't create or use keys, worded for a 402 response; null when it can.
+export function apiAccessRefusal(plan: PlanId): string | null {
+  return PLANS[plan].apiAccess ? null : `API access is part of the ${PLANS.enterprise.name} plan. Contact sales to use API keys.`;
+}
+
+const SECRET_PREFIX = 'ssk_';
+// Shown in lists: the fixed prefix plus the first few random characters.
+const VISIBLE_LENGTH = SECRET_PREFIX.length + 6;
+
+interface ApiKeyRow {
+  id: string;
+  workspace_id: string;
+  name: string;
+  prefix: string;
+  rate_limit: number;
+  created_by: string | null;
+  created_at: string;
+  last_used_at: string | null;
+  author: string | null;
+}
+
+// Who an API request acts as: the key, its workspace, and the user who made the key.
+export interface ApiCaller {
+  key: ApiKey;
+  workspaceId: string;
+  userId: string | null;
+}
+
+const toKey = (row: ApiKeyRow): ApiKey => ({
+  id: row.id,
+  name: row.name,
+  prefix: row.prefix,
+  rateLimit: row.rate_limit,
+  createdBy: row.author,
+  createdAt: row.created_at,
+  lastUsedAt: row.last_used_at,
+});
+
+const SELECT_WITH_AUTHOR = 'SELECT api_keys.*, users.name AS author FROM api_keys LEFT JOIN users ON users.id = api_keys.created_by';
+
+export function createApiKeyStore(db: Db) {
+  return {
+    // The returned secret is the only copy; like session tokens, only its hash is stored.
+    create(workspaceId: string, name: string, rateLimit: number, userId: string): CreatedApiKey {
+      const secret = `${SECRET_PREFIX}${randomBytes(24).toString('base64url')}`;
+      const id = randomUUID();
+      db.prepare(`INSERT INTO api_keys (id, workspace_id, name, prefix, key_hash, rate_limit, created_by, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)`)
+        .run(id, workspaceId, name.trim(), secret.slice(0, VISIBLE_LENGTH), hashToken(secret), rateLimit, userId, new Date().toISOString());
+      const row = db.prepare(`${SELECT_WITH_AUTHOR} WHERE api_keys.id = ?`).get(id) as ApiKeyRow;
+      return { ...toKey(row), secret };
+    },
+
+    list(workspaceId: string): ApiKey[] {
+      const rows = db.prepare(`${SELECT_WITH_AUTHOR} WHERE workspace_id = ? ORDER BY api_keys.created_at`).all(workspaceId) as ApiKeyRow[];
+      return rows.map(toKey);
+    },
+
+    // Revoking deletes the key; jobs it submitted keep running and stay readable in the app.
+    revoke(workspaceId: string, id: string): boolean {
+      return db.prepare('DELETE FROM api_keys WHERE id = ? AND workspace_id = ?').run(id, workspaceId).changes > 0;
+    },
+
+    // Returns null for an unknown or revoked key, and records when a key was last used.
+    authenticate(secret: string): ApiCaller | null {
+      const row = db.prepare(`${SELECT_WITH_AUTHOR} WHERE key_hash = ?`).get(hashToken(secret)) as ApiKeyRow | undefined;
+      if (!row) return null;
+      const now = new Date().toISOString();
+      db.prepare('UPDATE api_keys SET last_used_at = ? WHERE id = ?').run(now, row.id);
+      return { key: toKey({ ...row, last_used_at: now }), workspaceId: row.workspace_id, userId: row.created_by };
+    },
+  };
+}
+
+export type ApiKeyStore = ReturnType<typeof createApiKeyStore>;
+
+// Rejects requests without a valid "Authorization: Bearer <key>" header, then
+// applies the key's per-minute limit. Every response carries the limit headers.
+export function requireApiKey(keys: ApiKeyStore, limiter: RateLimiter) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? '');
+    const caller = match ? keys.authenticate(match[1]) : null;
+    if (!caller) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      res.status(401).json({ error: 'Send a valid API key in the header "Authorization: Bearer <key>".' });
+      return;
+    }
+    const limit = limiter.take(caller.key.id, caller.key.rateLimit);
+    res.setHeader('X-RateLimit-Limit', String(limit.limit));
+    res.setHeader('X-RateLimit-Remaining', String(limit.remaining));
+    res.setHeader('X-RateLimit-Reset', String(Math.ceil(limit.resetAt / 1000)));
+    if (!limit.allowed) {
+      const wait = Math.max(1, Math.ceil((limit.resetAt - Date.now()) / 1000));
+      res.setHeader('Retry-After', String(wait));
+      res.status(429).json({ error: `This key is limited to ${limit.limit} requests a minute. Try again in ${wait} seconds.` });
+      return;
+    }
+    res.locals.apiCaller = caller;
+    next();
+  };
+}
+
+export const currentCaller = (res: Response) => res.locals.apiCaller as ApiCaller;
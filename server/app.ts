@@ -0,0 +1,235 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import express, { type Response } from 'express';
+import { createRedactor, redactReviews, redactTitle, restoreStreamed, restoreText } from '../src/lib/redaction';
+import type { AnalysisEvent, ChatEvent } from '../src/types';
+import { createApiKeyStore } from './apiKeys';
+import { createAccountStore, currentUser, requireUser } from './auth';
+import { createBusinessContextStore } from './businessContext';
+import { normalizeMessages, runChat } from './chat';
+import type { Db } from './db';
+import { createDeliverer, type DelivererOptions } from './deliverer';
+import { toAnalysisError } from './errors';
+import { createJobStore } from './jobs';
+import { createNotificationStore } from './notifications';
+import { describeProviders } from './providers';
+import type { ProviderEntry } from './providers/types';
+import { createRateLimiter } from './rateLimit';
+import { createRedactionStore } from './redaction';
+import { createReportStore } from './reports';
+import { planRefusal, readAnalyzeBody, selectFromBody } from './requestBody';
+import { authRouter } from './routes/auth';
+import { jobsRouter } from './routes/jobs';
+import { notificationsRouter } from './routes/notifications';
+import { reportAccess, reportsRouter } from './routes/reports';
+import { schedulesRouter } from './routes/schedules';
+import { v1Router } from './routes/v1';
+import { workspacesRouter } from './routes/workspaces';
+import { createScheduler, DEFAULT_WATCH_DIR, type SchedulerOptions } from './scheduler';
+import { createScheduleStore } from './schedules';
+import { createUsageStore } from './usage';
+import { createJobWorker, type WorkerOptions } from './worker';
+import { createWorkspaceStore, workspaceAccess } from './workspaces';
+
+export interface AppDeps {
+  providers: ProviderEntry[];
+  db: Db;
+  // Tuning for the background job worker, e.g. shorter retry waits in tests.
+  worker?: WorkerOptions;
+  // Where folder schedules read from, how often they're checked, and how feeds are fetched.
+  scheduler?: SchedulerOptions;
+  // SMTP settings for the email digest, hosts webhooks may reach on a private
+  // network, and tuning for webhook and email retries.
+  deliverer?: DelivererOptions;
+}
+
+// Starts a newline-delimited JSON response. Closing the connection (the
+// client's Stop button, or leaving the page) aborts the returned signal.
+function openEventStream<E>(res: Response) {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  res.setHeader('Content-Type', 'application/x-ndjson');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.flushHeaders();
+  return { signal: controller.signal, send: (event: E) => res.write(`${JSON.stringify(event)}\n`) };
+}
+
+// Builds the API without binding a port or serving the frontend, so the
+// same app can be mounted by server.ts or driven directly with a fake provider.
+// `close` stops the background worker, scheduler and deliverer, then closes the database.
+export function createApp({ providers, db, worker: workerOptions, scheduler: schedulerOptions, deliverer: delivererOptions }: AppDeps) {
+  const app = express();
+  const reports = createReportStore(db);
+  const accounts = createAccountStore(db);
+  const workspaces = createWorkspaceStore(db);
+  const usage = createUsageStore(db);
+  const apiKeys = createApiKeyStore(db);
+  const jobs = createJobStore(db);
+  const businessContext = createBusinessContextStore(db);
+  const redaction = createRedactionStore(db);
+  const limiter = createRateLimiter();
+  const notifications = createNotificationStore(db);
+  const deliverer = createDeliverer({ notifications, workspaces, ...delivererOptions });
+  deliverer.start();
+  const worker = createJobWorker({ providers, jobs, reports, usage, onReport: deliverer.reportFinished, ...workerOptions });
+  worker.start();
+  const schedules = createScheduleStore(db);
+  const watchDir = schedulerOptions?.watchDir ?? DEFAULT_WATCH_DIR;
+  const scheduler = createScheduler({
+    providers, schedules, jobs, worker, usage, workspaces, redaction, businessContext, ...schedulerOptions, watchDir,
+  });
+  scheduler.start();
+  const signedIn = requireUser(accounts);
+  const access = reportAccess(reports, workspaces);
+  const canAnalyze = workspaceAccess(workspaces, 'editor', 'Viewers cannot run analyses in this workspace.');
+  app.use(express.json({ limit: '20mb' }));
+
+  app.get('/api/health', (_req, res) => {
+    res.json({ status: 'ok' });
+  });
+
+  app.get('/api/models', (_req, res) => {
+    res.json(describeProviders(providers));
+  });
+
+  app.use('/api/auth', authRouter(accounts, workspaces, reports));
+
+  app.post('/api/analyze', signedIn, async (req, res) => {
+    const user = currentUser(res);
+    const workspaceId = typeof req.body?.workspaceId === 'string'
+      ? req.body.workspaceId
+      : workspaces.listFor(user.id).find(w => w.role === 'editor')?.id ?? '';
+    if (!canAnalyze(res, workspaceId)) return;
+    const body = readAnalyzeBody(providers, req.body);
+    if ('error' in body) {
+      res.status(400).json({ error: body.error });
+      return;
+    }
+    const { reviews, language, reportLanguage, title, template, entry, model } = body;
+    // 402: a Pro feature on a Starter plan, or the plan's monthly reviews would be exceeded.
+    const plan = workspaces.planOf(workspaceId)!;
+    const refusal = planRefusal(body, plan);
+    if (refusal) {
+      res.status(402).json({ error: refusal });
+      return;
+    }
+    const metered = usage.start(workspaceId, user.id, 'analysis', plan, reviews.length);
+    if ('error' in metered) {
+      res.status(402).json({ error: metered.error });
+      return;
+    }
+    // Redacted before the job is stored, so the worker hands the model placeholders only.
+    // A title the user typed is redacted too, with the same placeholders.
+    const rules = redaction.rules(workspaceId);
+    const redacted = redactReviews(reviews, rules);
+    const job = jobs.create({
+      workspaceId,
+      source: 'app',
+      apiKeyId: null,
+      createdBy: user.id,
+      usageId: metered.id,
+      request: {
+        ...redacted,
+        ...(title && redactTitle(title, rules, redacted.redactions)),
+        language,
+        reportLanguage,
+        provider: entry.id,
+        model,
+        context: businessContext.forAnalysis(workspaceId, template),
+      },
+    });
+
+    // The job runs in the worker and outlives this response: closing the tab
+    // only stops the stream, and Stop cancels through /api/jobs/:id/cancel.
+    const { signal, send } = openEventStream<AnalysisEvent>(res);
+    send({ type: 'job', job });
+    await new Promise<void>(resolve => {
+      const unsubscribe = worker.subscribe(job.id, event => {
+        send(event);
+        if (event.type === 'report' || event.type === 'error') {
+          // Delivered while the user watched, so there's nothing to notify them about.
+          jobs.markSeen(job.id, user.id);
+          unsubscribe();
+          resolve();
+        }
+      });
+      signal.addEventListener('abort', () => {
+        unsubscribe();
+        resolve();
+      });
+      worker.wake();
+    });
+    res.end();
+  });
+
+  // Follow-up questions about a saved report, answered from its reviews and results.
+  // Viewers can ask too; only pinning an answer changes the report.
+  app.post('/api/reports/:id/chat', signedIn, async (req, res) => {
+    const messages = normalizeMessages(req.body?.messages);
+    if (!messages) {
+      res.status(400).json({ error: 'Request body must include "messages", ending with a non-empty user message.' });
+      return;
+    }
+    const selected = selectFromBody(providers, req.body);
+    if ('error' in selected) {
+      res.status(400).json({ error: selected.error });
+      return;
+    }
+    const report = access(req, res, 'viewer');
+    if (!report) return;
+    const metered = usage.start(report.workspaceId, currentUser(res).id, 'question', workspaces.planOf(report.workspaceId)!);
+    if ('error' in metered) {
+      res.status(402).json({ error: metered.error });
+      return;
+    }
+    const { signal, send } = openEventStream<ChatEvent>(res);
+
+    // The report is stored redacted already. The conversation is redacted with the
+    // same placeholders, and the answer is restored before it reaches the client.
+    const redactor = createRedactor(redaction.rules(report.workspaceId), report.redactions);
+    const redactedMessages = messages.map(message => ({ ...message, content: redactor.redact(message.content) }));
+
+    // The client gets only what's new in each chunk.
+    let sent = 0;
+    try {
+      const answer = await runChat(selected.entry.provider, report, redactedMessages, {
+        model: selected.model,
+        signal,
+        onText: text => {
+          const shown = restoreStreamed(text, redactor.redactions);
+          send({ type: 'delta', text: shown.slice(sent) });
+          sent = shown.length;
+        },
+        onUsage: tokens => usage.addTokens(metered.id, tokens),
+      });
+      send({ type: 'done', answer: restoreText(answer, redactor.redactions) });
+    } catch (err) {
+      if (signal.aborted) return;
+      console.error(err);
+      const error = toAnalysisError(err);
+      send({ type: 'error', error: error.message, category: error.category });
+    }
+    res.end();
+  });
+
+  app.use('/api/reports', signedIn, reportsRouter(reports, workspaces, redaction));
+  app.use('/api/workspaces', signedIn, workspacesRouter(workspaces, accounts, usage, apiKeys, businessContext, redaction));
+  app.use('/api/workspaces/:id', signedIn, notificationsRouter({ notifications, deliverer, workspaces, emailAvailable: !!delivererOptions?.smtp, allowHosts: delivererOptions?.allowHosts }));
+  app.use('/api/jobs', signedIn, jobsRouter(jobs, worker, workspaces));
+  app.use('/api/schedules', signedIn, schedulesRouter({ providers, schedules, scheduler, workspaces, watchDir }));
+  app.use('/api/v1', v1Router({ providers, reports, workspaces, usage, apiKeys, businessContext, redaction, jobs, worker, limiter }));
+
+  const close = () => {
+    worker.stop();
+    scheduler.stop();
+    deliverer.stop();
+    db.close();
+  };
+
+  return { app, close };
+}
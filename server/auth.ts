@@ -0,0 +1,137 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from 'crypto';
+import type { NextFunction, Request, Response } from 'express';
+import { promisify } from 'util';
+import type { User } from '../src/types';
+import type { Db } from './db';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export const SESSION_COOKIE = 'sale_squid_session';
+const SESSION_DAYS = 30;
+const KEY_LENGTH = 64;
+export const MIN_PASSWORD_LENGTH = 8;
+
+interface UserRow {
+  id: string;
+  email: string;
+  name: string;
+  password_hash: string;
+  created_at: string;
+}
+
+// Stored as "scrypt:<salt>:<key>", both base64.
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt:${salt.toString('base64')}:${key.toString('base64')}`;
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [scheme, salt, key] = stored.split(':');
+  if (scheme !== 'scrypt' || !salt || !key) return false;
+  const expected = Buffer.from(key, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Only a hash of each session token is stored, so a copy of the database can't be used to sign in.
+export const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const toUser = (row: UserRow): User => ({ id: row.id, email: row.email, name: row.name });
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export function createAccountStore(db: Db) {
+  return {
+    // Returns null when the email is already registered.
+    async register({ email, name, password }: { email: string; name: string; password: string }): Promise<User | null> {
+      const row: UserRow = {
+        id: randomUUID(),
+        email: normalizeEmail(email),
+        name: name.trim(),
+        password_hash: await hashPassword(password),
+        created_at: new Date().toISOString(),
+      };
+      // OR IGNORE also covers a second signup for the same email racing this one.
+      const inserted = db.prepare(`INSERT OR IGNORE INTO users (id, email, name, password_hash, created_at)
+        VALUES (@id, @email, @name, @password_hash, @created_at)`).run(row);
+      return inserted.changes > 0 ? toUser(row) : null;
+    },
+
+    // Returns null for an unknown email or a wrong password alike.
+    async authenticate(email: string, password: string): Promise<User | null> {
+      const row = db.prepare('SELECT * FROM users WHERE email = ?').get(normalizeEmail(email)) as UserRow | undefined;
+      if (!row || !(await verifyPassword(password, row.password_hash))) return null;
+      return toUser(row);
+    },
+
+    findByEmail(email: string): User | null {
+      const row = db.prepare('SELECT * FROM users WHERE email = ?').get(normalizeEmail(email)) as UserRow | undefined;
+      return row ? toUser(row) : null;
+    },
+
+    count(): number {
+      return (db.prepare('SELECT COUNT(*) AS n FROM users').get() as { n: number }).n;
+    },
+
+    // Returns the token for the session cookie; expired sessions are cleared out on the way.
+    startSession(userId: string) {
+      const token = randomBytes(32).toString('base64url');
+      const now = new Date();
+      const expires = new Date(now.getTime() + SESSION_DAYS * 24 * 60 * 60 * 1000);
+      db.prepare('DELETE FROM sessions WHERE expires_at <= ?').run(now.toISOString());
+      db.prepare('INSERT INTO sessions (token_hash, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)')
+        .run(hashToken(token), userId, now.toISOString(), expires.toISOString());
+      return { token, expires };
+    },
+
+    userForSession(token: string): User | null {
+      const row = db.prepare(`SELECT users.* FROM sessions JOIN users ON users.id = sessions.user_id
+        WHERE sessions.token_hash = ? AND sessions.expires_at > ?`).get(hashToken(token), new Date().toISOString()) as UserRow | undefined;
+      return row ? toUser(row) : null;
+    },
+
+    endSession(token: string) {
+      db.prepare('DELETE FROM sessions WHERE token_hash = ?').run(hashToken(token));
+    },
+  };
+}
+
+export type AccountStore = ReturnType<typeof createAccountStore>;
+
+export function sessionToken(req: Request): string | null {
+  for (const part of (req.headers.cookie ?? '').split(';')) {
+    const [name, ...value] = part.trim().split('=');
+    if (name === SESSION_COOKIE) return decodeURIComponent(value.join('='));
+  }
+  return null;
+}
+
+export function setSessionCookie(req: Request, res: Response, { token, expires }: { token: string; expires: Date }) {
+  res.cookie(SESSION_COOKIE, token, { httpOnly: true, sameSite: 'lax', secure: req.secure, path: '/', expires });
+}
+
+export function clearSessionCookie(res: Response) {
+  res.clearCookie(SESSION_COOKIE, { path: '/' });
+}
+
+// Rejects requests without a valid session; handlers read the user with `currentUser`.
+export function requireUser(accounts: AccountStore) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const token = sessionToken(req);
+    const user = token ? accounts.userForSession(token) : null;
+    if (!user) {
+      res.status(401).json({ error: 'Sign in to continue.' });
+      return;
+    }
+    res.locals.user = user;
+    next();
+  };
+}
+
+export const currentUser = (res: Response) => res.locals.user as User;
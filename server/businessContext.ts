@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DEFAULT_TEMPLATES, EMPTY_PROFILE, normalizeProfile, TEMPLATE_IDS } from '../src/lib/promptTemplates';
+import type { BusinessProfile, PromptTemplate, PromptTemplateVersion, TemplateId } from '../src/types';
+import type { AnalysisContext } from './analysis';
+import type { Db } from './db';
+
+interface VersionRow {
+  template: TemplateId;
+  version: number;
+  body: string;
+  created_at: string;
+  author: string | null;
+}
+
+const SELECT_WITH_AUTHOR = `SELECT prompt_templates.*, users.name AS author FROM prompt_templates
+  LEFT JOIN users ON users.id = prompt_templates.created_by`;
+
+// A workspace that never saved a template reads the built-in one as version 0.
+function toTemplate(id: TemplateId, row: VersionRow | undefined): PromptTemplate {
+  const body = row?.body ?? DEFAULT_TEMPLATES[id].body;
+  return {
+    id,
+    name: DEFAULT_TEMPLATES[id].name,
+    version: row?.version ?? 0,
+    body,
+    isDefault: body === DEFAULT_TEMPLATES[id].body,
+    updatedAt: row?.created_at ?? null,
+    updatedBy: row?.author ?? null,
+  };
+}
+
+// Each workspace's Business Profile and its versions of the prompt templates.
+export function createBusinessContextStore(db: Db) {
+  const latest = (workspaceId: string, id: TemplateId) =>
+    db.prepare(`${SELECT_WITH_AUTHOR} WHERE workspace_id = ? AND template = ? ORDER BY version DESC LIMIT 1`)
+      .get(workspaceId, id) as VersionRow | undefined;
+
+  const store = {
+    profile(workspaceId: string): BusinessProfile {
+      const row = db.prepare('SELECT profile FROM business_profiles WHERE workspace_id = ?').get(workspaceId) as { profile: string } | undefined;
+      return row ? normalizeProfile(JSON.parse(row.profile)) : EMPTY_PROFILE;
+    },
+
+    saveProfile(workspaceId: string, profile: BusinessProfile, userId: string): BusinessProfile {
+      db.prepare(`INSERT INTO business_profiles (workspace_id, profile, updated_by, updated_at) VALUES (?, ?, ?, ?)
+        ON CONFLICT (workspace_id) DO UPDATE SET profile = excluded.profile, updated_by = excluded.updated_by, updated_at = excluded.updated_at`)
+        .run(workspaceId, JSON.stringify(profile), userId, new Date().toISOString());
+      return profile;
+    },
+
+    template(workspaceId: string, id: TemplateId): PromptTemplate {
+      return toTemplate(id, latest(workspaceId, id));
+    },
+
+    templates(workspaceId: string): PromptTemplate[] {
+      return TEMPLATE_IDS.map(id => store.template(workspaceId, id));
+    },
+
+    // Newest first.
+    versions(workspaceId: string, id: TemplateId): PromptTemplateVersion[] {
+      const rows = db.prepare(`${SELECT_WITH_AUTHOR} WHERE workspace_id = ? AND template = ? ORDER BY version DESC`)
+        .all(workspaceId, id) as VersionRow[];
+      return rows.map(row => ({ version: row.version, body: row.body, createdAt: row.created_at, createdBy: row.author }));
+    },
+
+    // Saves a new version, unless the body is unchanged. Resetting saves the default as the next version.
+    saveTemplate(workspaceId: string, id: TemplateId, body: string, userId: string): PromptTemplate {
+      const current = store.template(workspaceId, id);
+      if (body === current.body) return current;
+      db.prepare(`INSERT INTO prompt_templates (workspace_id, template, version, body, created_by, created_at)
+        VALUES (?, ?, ?, ?, ?, ?)`)
+        .run(workspaceId, id, current.version + 1, body, userId, new Date().toISOString());
+      return store.template(workspaceId, id);
+    },
+
+    // What a job is submitted with, so later edits don't change an analysis already queued.
+    forAnalysis(workspaceId: string, id: TemplateId): AnalysisContext {
+      const { version, body } = store.template(workspaceId, id);
+      return { template: { id, version, body }, profile: store.profile(workspaceId) };
+    },
+  };
+  return store;
+}
+
+export type BusinessContextStore = ReturnType<typeof createBusinessContextStore>;
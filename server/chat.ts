@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { formatReviewsForPrompt } from '../src/lib/reviews';
+import type { AnalysisResult, ChatMessage, Finding, SavedReport, TokenUsage } from '../src/types';
+import { MAX_BATCH_CHARS } from './analysis';
+import { AnalysisError } from './errors';
+import type { ModelProvider } from './providers/types';
+
+// Older turns are dropped so a long conversation can't crowd out the reviews.
+export const MAX_CHAT_MESSAGES = 12;
+export const MAX_MESSAGE_CHARS = 4_000;
+
+export interface ChatOptions {
+  model: string;
+  signal?: AbortSignal;
+  onText?: (text: string) => void;
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+// Reviews cited as evidence come first; the rest fill whatever room is left.
+// Each keeps its original [#n] number so answers can cite it.
+function reviewContext({ reviews, result }: SavedReport) {
+  const { opportunities = [], threats = [], featureGaps = [] } = result.positioning ?? {};
+  const cited = new Set([...result.painPoints, ...result.salesBlockers, ...opportunities, ...threats, ...featureGaps].flatMap(f => f.evidence));
+  const order = [...reviews.keys()].sort((a, b) => Number(cited.has(b)) - Number(cited.has(a)) || a - b);
+  const included: number[] = [];
+  let chars = 0;
+  for (const index of order) {
+    chars += reviews[index].text.length;
+    if (included.length > 0 && chars > MAX_BATCH_CHARS) break;
+    included.push(index);
+  }
+  const lines = included.sort((a, b) => a - b).map(i => formatReviewsForPrompt([reviews[i]], i));
+  const note = included.length < reviews.length ? ` (${included.length} of ${reviews.length} shown)` : '';
+  return { lines: lines.join('\n'), note };
+}
+
+const formatFindings = (findings: Finding[]) =>
+  findings
+    .map(f => `- ${f.text} (${f.severity} severity, raised in ${f.frequency} reviews: ${f.evidence.map(i => `[#${i + 1}]`).join(', ')})`)
+    .join('\n') || '- None found';
+
+function formatPositioning({ positioning }: AnalysisResult) {
+  if (!positioning) return '';
+  const withCompetitor = (findings: typeof positioning.opportunities) =>
+    formatFindings(findings.map(f => ({ ...f, text: `[${f.competitor}] ${f.text}` })));
+  return `
+Positioning against ${positioning.competitors.join(', ')} (reviews tagged "competitor: <name>" are theirs, the rest are ours):
+
+Opportunities:
+${withCompetitor(positioning.opportunities)}
+
+Threats:
+${withCompetitor(positioning.threats)}
+
+Feature gaps:
+${withCompetitor(positioning.featureGaps)}
+
+Price perception:
+${positioning.pricePerception}
+`;
+}
+
+const formatConversation = (messages: ChatMessage[]) =>
+  messages.map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`).join('\n\n');
+
+export function buildChatPrompt(report: SavedReport, messages: ChatMessage[]) {
+  const { result } = report;
+  const reviews = reviewContext(report);
+  return `You are a sales and marketing analyst helping a team act on an analysis of their customer reviews. Answer the user's last message using the reviews and the analysis below. Cite reviews by their [#n] number when you rely on them, and say so when the reviews don't cover something rather than guessing. Reply in ${report.reportLanguage} Markdown.
+
+Reviews${reviews.note}:
+${reviews.lines}
+
+Sentiment: ${result.sentiment}
+
+Pain points:
+${formatFindings(result.painPoints)}
+
+Sales blockers:
+${formatFindings(result.salesBlockers)}
+${formatPositioning(result)}
+Marketing strategy:
+${result.marketingStrategy}
+
+Sales strategy:
+${result.salesStrategy}
+
+Strategic Sales Growth Plan:
+${result.annualIncrementPlan}
+
+Conversation:
+${formatConversation(messages.slice(-MAX_CHAT_MESSAGES))}`;
+}
+
+// Answers the last message in `messages`, streaming the Markdown through `onText`.
+export async function runChat(provider: ModelProvider, report: SavedReport, messages: ChatMessage[], { model, signal, onText, onUsage }: ChatOptions) {
+  const answer = await provider.generateText({ model, prompt: buildChatPrompt(report, messages), signal, onText, onUsage });
+  if (!answer.trim()) throw new AnalysisError('unknown', 'empty answer');
+  return answer.trim();
+}
+
+// Checks the conversation sent by the client; returns null when it can't be used.
+export function normalizeMessages(input: unknown): ChatMessage[] | null {
+  if (!Array.isArray(input) || input.length === 0) return null;
+  const messages: ChatMessage[] = [];
+  for (const item of input) {
+    const { role, content } = (item ?? {}) as Partial<ChatMessage>;
+    if ((role !== 'user' && role !== 'assistant') || typeof content !== 'string' || !content.trim()) return null;
+    messages.push({ role, content: content.slice(0, MAX_MESSAGE_CHARS) });
+  }
+  return messages.at(-1)!.role === 'user' ? messages : null;
+}
@@ -0,0 +1,260 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+
+export type Db = Database.Database;
+
+// Append-only: each entry runs once, tracked through PRAGMA user_version.
+const migrations: string[] = [
+  `CREATE TABLE reports (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    reviews TEXT NOT NULL,
+    language TEXT NOT NULL,
+    model TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    result TEXT NOT NULL
+  );
+  CREATE INDEX reports_created_at ON reports (created_at DESC);`,
+  // Reports from before the Report Language selector were all written in English.
+  `ALTER TABLE reports ADD COLUMN report_language TEXT NOT NULL DEFAULT 'English';`,
+  `CREATE TABLE report_pins (
+    id TEXT PRIMARY KEY,
+    report_id TEXT NOT NULL REFERENCES reports (id) ON DELETE CASCADE,
+    question TEXT NOT NULL,
+    answer TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX report_pins_report_id ON report_pins (report_id, created_at);`,
+  // Reports from before accounts have no workspace until the first user signs up and adopts them.
+  `CREATE TABLE users (
+    id TEXT PRIMARY KEY,
+    email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    name TEXT NOT NULL,
+    password_hash TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE sessions (
+    token_hash TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    created_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL
+  );
+  CREATE INDEX sessions_user_id ON sessions (user_id);
+  CREATE TABLE workspaces (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE workspace_members (
+    workspace_id TEXT NOT NULL REFERENCES workspaces (id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    role TEXT NOT NULL CHECK (role IN ('viewer', 'editor')),
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (workspace_id, user_id)
+  );
+  CREATE INDEX workspace_members_user_id ON workspace_members (user_id);
+  ALTER TABLE reports ADD COLUMN workspace_id TEXT REFERENCES workspaces (id) ON DELETE CASCADE;
+  ALTER TABLE reports ADD COLUMN created_by TEXT REFERENCES users (id) ON DELETE SET NULL;
+  CREATE INDEX reports_workspace_id ON reports (workspace_id, created_at DESC);`,
+  // Usage is kept per call rather than as running totals, so any period can be summed later.
+  `ALTER TABLE workspaces ADD COLUMN plan TEXT NOT NULL DEFAULT 'starter';
+  CREATE TABLE usage_events (
+    id TEXT PRIMARY KEY,
+    workspace_id TEXT NOT NULL REFERENCES workspaces (id) ON DELETE CASCADE,
+    user_id TEXT REFERENCES users (id) ON DELETE SET NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('analysis', 'question')),
+    reviews INTEGER NOT NULL DEFAULT 0,
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX usage_events_workspace_id ON usage_events (workspace_id, created_at);`,
+  // Keys are stored as hashes; only the prefix is kept for telling them apart.
+  `CREATE TABLE api_keys (
+    id TEXT PRIMARY KEY,
+    workspace_id TEXT NOT NULL REFERENCES workspaces (id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    prefix TEXT NOT NULL,
+    key_hash TEXT NOT NULL UNIQUE,
+    rate_limit INTEGER NOT NULL,
+    created_by TEXT REFERENCES users (id) ON DELETE SET NULL,
+    created_at TEXT NOT NULL,
+    last_used_at TEXT
+  );
+  CREATE INDEX api_keys_workspace_id ON api_keys (workspace_id);
+  CREATE TABLE analysis_jobs (
+    id TEXT PRIMARY KEY,
+    workspace_id TEXT NOT NULL REFERENCES workspaces (id) ON DELETE CASCADE,
+    api_key_id TEXT REFERENCES api_keys (id) ON DELETE SET NULL,
+    status TEXT NOT NULL CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+    request TEXT NOT NULL,
+    progress TEXT,
+    report_id TEXT REFERENCES reports (id) ON DELETE SET NULL,
+    error TEXT,
+    error_category TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX analysis_jobs_workspace_id ON analysis_jobs (workspace_id, created_at DESC);`,
+  // Every analysis now runs as a job. Jobs before this came only from the API.
+  `ALTER TABLE analysis_jobs ADD COLUMN source TEXT NOT NULL DEFAULT 'api' CHECK (source IN ('app', 'api'));
+  ALTER TABLE analysis_jobs ADD COLUMN title TEXT NOT NULL DEFAULT '';
+  ALTER TABLE analysis_jobs ADD COLUMN created_by TEXT REFERENCES users (id) ON DELETE SET NULL;
+  ALTER TABLE analysis_jobs ADD COLUMN usage_id TEXT;
+  ALTER TABLE analysis_jobs ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0;
+  ALTER TABLE analysis_jobs ADD COLUMN run_at TEXT;
+  ALTER TABLE analysis_jobs ADD COLUMN seen_at TEXT;
+  UPDATE analysis_jobs SET run_at = created_at;
+  CREATE INDEX analysis_jobs_due ON analysis_jobs (status, run_at);
+  CREATE INDEX analysis_jobs_created_by ON analysis_jobs (created_by, created_at DESC);`,
+  // Template versions are only ever added; the highest one is current.
+  `CREATE TABLE business_profiles (
+    workspace_id TEXT PRIMARY KEY REFERENCES workspaces (id) ON DELETE CASCADE,
+    profile TEXT NOT NULL,
+    updated_by TEXT REFERENCES users (id) ON DELETE SET NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE prompt_templates (
+    workspace_id TEXT NOT NULL REFERENCES workspaces (id) ON DELETE CASCADE,
+    template TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    body TEXT NOT NULL,
+    created_by TEXT REFERENCES users (id) ON DELETE SET NULL,
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (workspace_id, template, version)
+  );`,
+  // Reports keep the originals their placeholders stand for; reviews and results hold the placeholders.
+  `CREATE TABLE redaction_rules (
+    workspace_id TEXT PRIMARY KEY REFERENCES workspaces (id) ON DELETE CASCADE,
+    rules TEXT NOT NULL,
+    updated_by TEXT REFERENCES users (id) ON DELETE SET NULL,
+    updated_at TEXT NOT NULL
+  );
+  ALTER TABLE reports ADD COLUMN redactions TEXT NOT NULL DEFAULT '{}';`,
+  // SQLite can't change a CHECK constraint in place, so the jobs table is
+  // rebuilt to accept jobs started by a schedule.
+  `CREATE TABLE analysis_jobs_new (
+    id TEXT PRIMARY KEY,
+    workspace_id TEXT NOT NULL REFERENCES workspaces (id) ON DELETE CASCADE,
+    api_key_id TEXT REFERENCES api_keys (id) ON DELETE SET NULL,
+    source TEXT NOT NULL CHECK (source IN ('app', 'api', 'schedule')),
+    title TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+    request TEXT NOT NULL,
+    progress TEXT,
+    report_id TEXT REFERENCES reports (id) ON DELETE SET NULL,
+    error TEXT,
+    error_category TEXT,
+    created_by TEXT REFERENCES users (id) ON DELETE SET NULL,
+    usage_id TEXT,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    run_at TEXT NOT NULL,
+    seen_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  INSERT INTO analysis_jobs_new (id, workspace_id, api_key_id, source, title, status, request, progress, report_id, error,
+      error_category, created_by, usage_id, attempts, run_at, seen_at, created_at, updated_at)
+    SELECT id, workspace_id, api_key_id, source, title, status, request, progress, report_id, error,
+      error_category, created_by, usage_id, attempts, run_at, seen_at, created_at, updated_at FROM analysis_jobs;
+  DROP TABLE analysis_jobs;
+  ALTER TABLE analysis_jobs_new RENAME TO analysis_jobs;
+  CREATE INDEX analysis_jobs_workspace_id ON analysis_jobs (workspace_id, created_at DESC);
+  CREATE INDEX analysis_jobs_due ON analysis_jobs (status, run_at);
+  CREATE INDEX analysis_jobs_created_by ON analysis_jobs (created_by, created_at DESC);
+  CREATE TABLE analysis_schedules (
+    id TEXT PRIMARY KEY,
+    workspace_id TEXT NOT NULL REFERENCES workspaces (id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    source TEXT NOT NULL,
+    frequency TEXT NOT NULL CHECK (frequency IN ('hourly', 'daily', 'weekly')),
+    template TEXT NOT NULL,
+    language TEXT NOT NULL,
+    report_language TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    enabled INTEGER NOT NULL DEFAULT 1,
+    cursor TEXT NOT NULL DEFAULT '{}',
+    next_run_at TEXT NOT NULL,
+    last_run_at TEXT,
+    created_by TEXT REFERENCES users (id) ON DELETE SET NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX analysis_schedules_workspace_id ON analysis_schedules (workspace_id, created_at);
+  CREATE INDEX analysis_schedules_due ON analysis_schedules (enabled, next_run_at);
+  CREATE TABLE schedule_runs (
+    id TEXT PRIMARY KEY,
+    schedule_id TEXT NOT NULL REFERENCES analysis_schedules (id) ON DELETE CASCADE,
+    job_id TEXT REFERENCES analysis_jobs (id) ON DELETE SET NULL,
+    status TEXT NOT NULL CHECK (status IN ('queued', 'skipped', 'failed')),
+    review_count INTEGER NOT NULL,
+    error TEXT,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX schedule_runs_schedule_id ON schedule_runs (schedule_id, created_at);`,
+  // Deliveries are the retry log: one row per report and destination, with every attempt in `attempts`.
+  `CREATE TABLE webhooks (
+    id TEXT PRIMARY KEY,
+    workspace_id TEXT NOT NULL REFERENCES workspaces (id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    secret TEXT NOT NULL,
+    enabled INTEGER NOT NULL DEFAULT 1,
+    created_by TEXT REFERENCES users (id) ON DELETE SET NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX webhooks_workspace_id ON webhooks (workspace_id, created_at);
+  CREATE TABLE digest_settings (
+    workspace_id TEXT PRIMARY KEY REFERENCES workspaces (id) ON DELETE CASCADE,
+    enabled INTEGER NOT NULL DEFAULT 0,
+    recipients TEXT NOT NULL DEFAULT '[]',
+    updated_by TEXT REFERENCES users (id) ON DELETE SET NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE deliveries (
+    id TEXT PRIMARY KEY,
+    workspace_id TEXT NOT NULL REFERENCES workspaces (id) ON DELETE CASCADE,
+    channel TEXT NOT NULL CHECK (channel IN ('webhook', 'email')),
+    webhook_id TEXT REFERENCES webhooks (id) ON DELETE CASCADE,
+    event TEXT NOT NULL,
+    target TEXT NOT NULL,
+    report_id TEXT REFERENCES reports (id) ON DELETE SET NULL,
+    report_title TEXT,
+    payload TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('pending', 'sending', 'succeeded', 'failed')),
+    attempts TEXT NOT NULL DEFAULT '[]',
+    next_attempt_at TEXT,
+    created_at TEXT NOT NULL,
+    delivered_at TEXT
+  );
+  CREATE INDEX deliveries_workspace_id ON deliveries (workspace_id, created_at DESC);
+  CREATE INDEX deliveries_due ON deliveries (status, next_attempt_at);`,
+];
+
+function migrate(db: Db) {
+  const version = db.pragma('user_version', { simple: true }) as number;
+  for (let i = version; i < migrations.length; i++) {
+    db.transaction(() => {
+      db.exec(migrations[i]);
+      db.pragma(`user_version = ${i + 1}`);
+    })();
+  }
+}
+
+// Pass ':memory:' for a throwaway database.
+export function openDatabase(file: string): Db {
+  if (file !== ':memory:') {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+  }
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  migrate(db);
+  return db;
+}
@@ -0,0 +1,196 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createHmac } from 'crypto';
+import type { DeliveryAttempt, SavedReport, Webhook } from '../src/types';
+import { digestEmail, webhookPayload } from './digest';
+import type { AttemptOutcome, ClaimedDelivery, NewDelivery, NotificationStore } from './notifications';
+import { createOutbound, refusalOf } from './outbound';
+import { sendMail, SmtpError, type MailMessage, type SmtpOptions } from './smtp';
+import type { WorkspaceStore } from './workspaces';
+
+export interface DelivererOptions {
+  // Digests are only sent when the server has SMTP settings.
+  smtp?: SmtpOptions;
+  // Webhooks are posted through this, e.g. to a local receiver in tests.
+  fetch?: typeof fetch;
+  // Hosts on a private network that webhooks may still be sent to.
+  allowHosts?: string[];
+  // How often due deliveries, such as retries, are looked for.
+  pollMs?: number;
+  // Tries per delivery, the first included.
+  maxAttempts?: number;
+  // Wait before the first retry; each later one waits twice as long.
+  retryDelayMs?: number;
+}
+
+export interface DelivererDeps extends DelivererOptions {
+  notifications: NotificationStore;
+  workspaces: WorkspaceStore;
+}
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+// Enough of a failed response's body to tell what the receiver objected to.
+const ERROR_BODY_CHARS = 300;
+
+// Receivers check `v1` against an HMAC-SHA256 of "<t>.<body>" with the webhook's secret.
+export function signPayload(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)) {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+// A 4xx other than a timeout or rate limit means the receiver won't take this payload, however often it's sent.
+const isPermanent = (status: number) => status >= 400 && status < 500 && status !== 408 && status !== 429;
+
+// Sends finished reports to the workspace's webhooks and digest recipients in
+// the background. Deliveries live in SQLite, like jobs, so retries survive restarts.
+export function createDeliverer({
+  notifications,
+  workspaces,
+  smtp,
+  fetch: send = fetch,
+  allowHosts,
+  pollMs = 5_000,
+  maxAttempts = 6,
+  retryDelayMs = 60_000,
+}: DelivererDeps) {
+  let timer: NodeJS.Timeout | null = null;
+  let sending = false;
+  let stopped = false;
+  const outbound = createOutbound(allowHosts);
+
+  const postWebhook = async ({ delivery, payload, secret }: ClaimedDelivery): Promise<Omit<DeliveryAttempt, 'at'> & { permanent: boolean }> => {
+    let res: Response;
+    let internal: boolean;
+    try {
+      // Checked again on every try, since the host's address can change after the webhook is added.
+      const target = await outbound.check(delivery.target);
+      if ('error' in target) return { responseStatus: null, error: target.error, permanent: true };
+      internal = target.internal;
+      res = await send(delivery.target, outbound.pin({
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'SaleSquid-Webhooks/1',
+          'X-Sale-Squid-Event': delivery.event,
+          'X-Sale-Squid-Delivery': delivery.id,
+          'X-Sale-Squid-Signature': signPayload(secret!, payload),
+        },
+        body: payload,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      }));
+    } catch (err) {
+      const refused = refusalOf(err);
+      if (refused) return { responseStatus: null, error: refused, permanent: true };
+      return { responseStatus: null, error: `Couldn't reach the webhook: ${(err as Error).message}`, permanent: false };
+    }
+    if (res.ok) return { responseStatus: res.status, error: null, permanent: false };
+    // An internal host's body could be anything on the server's network, so only its status is kept.
+    const body = internal ? '' : (await res.text().catch(() => '')).trim().slice(0, ERROR_BODY_CHARS);
+    return { responseStatus: res.status, error: `The webhook answered ${res.status}${body ? `: ${body}` : '.'}`, permanent: isPermanent(res.status) };
+  };
+
+  const sendDigest = async ({ payload }: ClaimedDelivery): Promise<Omit<DeliveryAttempt, 'at'> & { permanent: boolean }> => {
+    if (!smtp) return { responseStatus: null, error: 'Email is not set up on this server.', permanent: true };
+    try {
+      const reply = await sendMail(smtp, JSON.parse(payload) as MailMessage);
+      return { responseStatus: reply.code, error: null, permanent: false };
+    } catch (err) {
+      const code = err instanceof SmtpError ? err.code : 0;
+      return { responseStatus: code || null, error: (err as Error).message, permanent: err instanceof SmtpError && err.permanent };
+    }
+  };
+
+  const deliver = async (claimed: ClaimedDelivery) => {
+    const { delivery } = claimed;
+    const at = new Date().toISOString();
+    const { permanent, ...attempt } = delivery.channel === 'webhook' ? await postWebhook(claimed) : await sendDigest(claimed);
+    const tries = delivery.attempts.length + 1;
+    const outcome: AttemptOutcome = !attempt.error
+      ? { status: 'succeeded' }
+      : permanent || tries >= maxAttempts
+        ? { status: 'failed' }
+        : { status: 'pending', nextAttemptAt: new Date(Date.now() + retryDelayMs * 2 ** (tries - 1)) };
+    notifications.recordAttempt(delivery.id, { at, ...attempt }, outcome);
+  };
+
+  // One delivery at a time; a slow receiver only delays the others.
+  async function tick() {
+    if (sending || stopped) return;
+    sending = true;
+    try {
+      let claimed: ClaimedDelivery | null;
+      while ((claimed = notifications.claim())) await deliver(claimed);
+    } catch (err) {
+      console.error(err);
+    } finally {
+      sending = false;
+    }
+  }
+
+  const wake = () => {
+    setImmediate(() => void tick());
+  };
+
+  return {
+    start() {
+      stopped = false;
+      notifications.requeueInterrupted();
+      timer = setInterval(() => void tick(), pollMs);
+      timer.unref();
+      wake();
+    },
+
+    // A delivery already being sent finishes; nothing new is picked up.
+    stop() {
+      stopped = true;
+      if (timer) clearInterval(timer);
+    },
+
+    wake,
+
+    // Queues a finished report for every enabled webhook and, when it's on, the digest.
+    reportFinished(report: SavedReport) {
+      const workspace = { id: report.workspaceId, name: workspaces.nameOf(report.workspaceId) ?? '' };
+      const common = { workspaceId: workspace.id, event: 'analysis.completed' as const, reportId: report.id, reportTitle: report.title };
+      const webhooks = notifications.webhooks(workspace.id).filter(webhook => webhook.enabled);
+      const body = JSON.stringify(webhookPayload('analysis.completed', workspace, report));
+      const deliveries: NewDelivery[] = webhooks.map(webhook => ({
+        ...common, channel: 'webhook', webhookId: webhook.id, target: webhook.url, payload: body,
+      }));
+      const digest = notifications.digest(workspace.id);
+      if (smtp && digest.enabled && digest.recipients.length) {
+        deliveries.push({
+          ...common,
+          channel: 'email',
+          target: digest.recipients.join(', '),
+          payload: JSON.stringify(digestEmail(workspace.name, report, digest.recipients)),
+        });
+      }
+      if (!deliveries.length) return;
+      notifications.enqueue(deliveries);
+      wake();
+    },
+
+    // Sends a test payload to one webhook, enabled or not.
+    ping(workspaceId: string, webhook: Webhook) {
+      const workspace = { id: workspaceId, name: workspaces.nameOf(workspaceId) ?? '' };
+      const [delivery] = notifications.enqueue([{
+        workspaceId,
+        channel: 'webhook',
+        event: 'ping',
+        webhookId: webhook.id,
+        target: webhook.url,
+        payload: JSON.stringify(webhookPayload('ping', workspace)),
+      }]);
+      wake();
+      return delivery;
+    },
+  };
+}
+
+export type Deliverer = ReturnType<typeof createDeliverer>;
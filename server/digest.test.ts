@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_REDACTION_RULES, redactReviews, redactTitle, restoreReport } from '../src/lib/redaction';
+import { SAMPLE_RESULT } from '../test/sampleReport';
+import { createAccountStore } from './auth';
+import { openDatabase } from './db';
+import { digestEmail, webhookPayload } from './digest';
+import { createReportStore, defaultTitle } from './reports';
+import { createWorkspaceStore } from './workspaces';
+
+const PERSONAL = /jane\.doe@example\.com|Mike/;
+
+async function saveReport(title?: string) {
+  const db = openDatabase(':memory:');
+  const user = (await createAccountStore(db).register({ email: 'ana@example.com', name: 'Ana', password: 'correct horse' }))!;
+  const workspace = createWorkspaceStore(db).create('Shop', user.id);
+  const redacted = redactReviews(
+    [{ text: 'Email me at jane.doe@example.com, our driver Mike was rude' }, { text: 'Mike never rang the bell' }],
+    DEFAULT_REDACTION_RULES
+  );
+  const request = { ...redacted, ...(title && redactTitle(title, DEFAULT_REDACTION_RULES, redacted.redactions)) };
+  return createReportStore(db).create({
+    ...request,
+    language: 'English',
+    reportLanguage: 'English',
+    model: 'gemini-2.5-flash',
+    result: SAMPLE_RESULT,
+    workspaceId: workspace.id,
+    createdBy: user.id,
+  });
+}
+
+describe('outbound summaries', () => {
+  it('keep personal data out of a default title', async () => {
+    const report = await saveReport();
+    const payload = JSON.stringify(webhookPayload('analysis.completed', { id: report.workspaceId, name: 'Shop' }, report));
+    const email = digestEmail('Shop', report, ['team@example.com']);
+
+    expect(report.title).toBe('Email me at [EMAIL_1], our driver [NAME_1] was rude');
+    expect(payload).not.toMatch(PERSONAL);
+    expect(email.subject).not.toMatch(PERSONAL);
+    expect(email.html + email.text).not.toMatch(PERSONAL);
+    // The app still shows the originals.
+    expect(restoreReport(report).title).toBe('Email me at jane.doe@example.com, our driver Mike was rude');
+  });
+
+  it('keep personal data out of a title the user typed', async () => {
+    const report = await saveReport('Follow up with Mike and call 555-867-5309');
+    const payload = webhookPayload('analysis.completed', { id: report.workspaceId, name: 'Shop' }, report);
+
+    expect(payload.report?.title).toBe('Follow up with [NAME_1] and call [PHONE_1]');
+    expect(payload.text).not.toMatch(/Mike|555/);
+    expect(restoreReport(report).title).toBe('Follow up with Mike and call 555-867-5309');
+  });
+
+  it('drop a placeholder the title would cut in half', () => {
+    const title = defaultTitle([{ text: `${'x'.repeat(52)} mail [EMAIL_12] today` }]);
+    expect(title).toBe(`${'x'.repeat(52)} mail…`);
+  });
+});
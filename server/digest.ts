@@ -0,0 +1,159 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { summarizeSentiment } from '../src/lib/compare';
+import { escapeHtml, renderMarkdown } from '../src/lib/export';
+import { SEVERITIES } from '../src/lib/findings';
+import { languageAttributes, reportLabels } from '../src/lib/i18n';
+import type { DeliveryEvent, Finding, GrowthPoint, SavedReport, Severity } from '../src/types';
+import type { MailMessage } from './smtp';
+
+// Findings sent per list; the full report stays in the app.
+const TOP_FINDINGS = 5;
+
+interface FindingSummary {
+  text: string;
+  severity: Severity;
+  frequency: number;
+}
+
+// The JSON body every webhook is sent. `text` is a one-line summary, so chat
+// tools that post a payload's `text` show something readable as is.
+export interface WebhookPayload {
+  event: DeliveryEvent;
+  createdAt: string;
+  text: string;
+  workspace: { id: string; name: string };
+  // Null for a test ping.
+  report: {
+    id: string;
+    title: string;
+    createdAt: string;
+    model: string;
+    language: string;
+    reportLanguage: string;
+    reviewCount: number;
+    summary: {
+      sentiment: string;
+      averageSentiment: number;
+      positiveShare: number;
+      negativeShare: number;
+      painPoints: FindingSummary[];
+      salesBlockers: FindingSummary[];
+      annualIncrementPlan: string;
+      growthProjection: GrowthPoint[];
+    };
+  } | null;
+}
+
+// Most severe first, then the most cited.
+const topFindings = (findings: Finding[]): FindingSummary[] =>
+  [...findings]
+    .sort((a, b) => SEVERITIES.indexOf(b.severity) - SEVERITIES.indexOf(a.severity) || b.frequency - a.frequency)
+    .slice(0, TOP_FINDINGS)
+    .map(({ text, severity, frequency }) => ({ text, severity, frequency }));
+
+const signed = (score: number) => `${score >= 0 ? '+' : ''}${score.toFixed(2)}`;
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+// Placeholders from redaction stay in: the payload leaves the app, and the mapping doesn't go with it.
+export function webhookPayload(event: DeliveryEvent, workspace: { id: string; name: string }, report?: SavedReport): WebhookPayload {
+  const createdAt = new Date().toISOString();
+  if (!report) {
+    return { event, createdAt, text: `Test from Sale Squid: webhooks for ${workspace.name} reach this endpoint.`, workspace, report: null };
+  }
+  const { result } = report;
+  const sentiment = summarizeSentiment(result.reviewInsights);
+  const salesBlockers = topFindings(result.salesBlockers);
+  const top = salesBlockers[0] ? ` Top blocker: ${salesBlockers[0].text}.` : '';
+  return {
+    event,
+    createdAt,
+    text: `Analysis finished: ${report.title} (${report.reviews.length} reviews, average sentiment ${signed(sentiment.average)}).${top}`,
+    workspace,
+    report: {
+      id: report.id,
+      title: report.title,
+      createdAt: report.createdAt,
+      model: report.model,
+      language: report.language,
+      reportLanguage: report.reportLanguage,
+      reviewCount: report.reviews.length,
+      summary: {
+        sentiment: result.sentiment,
+        averageSentiment: sentiment.average,
+        positiveShare: sentiment.positiveShare,
+        negativeShare: sentiment.negativeShare,
+        painPoints: topFindings(result.painPoints),
+        salesBlockers,
+        annualIncrementPlan: result.annualIncrementPlan,
+        growthProjection: result.growthProjection,
+      },
+    },
+  };
+}
+
+// Email clients ignore style sheets, so every element is styled inline.
+const STYLES = {
+  body: 'margin:0;padding:0;background:#f8fafc;',
+  card: 'max-width:600px;margin:0 auto;padding:32px 24px;font-family:Inter,Segoe UI,Helvetica,Arial,sans-serif;color:#0f172a;line-height:1.6;font-size:15px;',
+  brand: 'margin:0 0 8px;font-size:12px;font-weight:700;letter-spacing:.05em;text-transform:uppercase;color:#4f46e5;',
+  title: 'margin:0 0 4px;font-size:22px;',
+  meta: 'margin:0 0 24px;font-size:13px;color:#64748b;',
+  heading: 'margin:28px 0 8px;padding-bottom:6px;border-bottom:1px solid #e2e8f0;font-size:17px;color:#4338ca;',
+  stats: 'margin:0 0 8px;font-size:14px;',
+  finding: 'margin:0 0 8px;',
+  detail: 'font-size:13px;color:#64748b;',
+};
+
+// The summary emailed when an analysis finishes: sentiment, the top sales blockers and the plan.
+export function digestEmail(workspaceName: string, report: SavedReport, recipients: string[]): MailMessage {
+  const { result } = report;
+  const labels = reportLabels(report.reportLanguage);
+  const sentiment = summarizeSentiment(result.reviewInsights);
+  const blockers = topFindings(result.salesBlockers);
+  const { lang, dir } = languageAttributes(report.reportLanguage);
+  const meta = `${workspaceName} · ${labels.reviewCount(report.reviews.length)} · ${report.model}`;
+  const stats = `${labels.averageScore(signed(sentiment.average), sentiment.reviewCount)} · ${percent(sentiment.positiveShare)} positive · ${percent(sentiment.negativeShare)} negative`;
+  const blockerLine = (b: FindingSummary) => `${labels.severity[b.severity]} · ${labels.reviewCount(b.frequency)}`;
+
+  const html = `<!doctype html>
+<html lang="${lang}" dir="${dir}">
+<head><meta charset="UTF-8" /><title>${escapeHtml(report.title)}</title></head>
+<body style="${STYLES.body}">
+<div style="${STYLES.card}">
+<p style="${STYLES.brand}">Sale Squid</p>
+<h1 style="${STYLES.title}">${escapeHtml(report.title)}</h1>
+<p style="${STYLES.meta}">${escapeHtml(meta)}</p>
+<h2 style="${STYLES.heading}">${escapeHtml(labels.sentiment)}</h2>
+<p style="${STYLES.stats}"><strong>${escapeHtml(stats)}</strong></p>
+${renderMarkdown(result.sentiment)}
+<h2 style="${STYLES.heading}">${escapeHtml(labels.salesBlockers)}</h2>
+${blockers.length
+    ? `<ol>${blockers.map(b => `<li style="${STYLES.finding}"><strong>${escapeHtml(b.text)}</strong><br /><span style="${STYLES.detail}">${escapeHtml(blockerLine(b))}</span></li>`).join('')}</ol>`
+    : '<p>—</p>'}
+<h2 style="${STYLES.heading}">${escapeHtml(labels.growthPlan)}</h2>
+${renderMarkdown(result.annualIncrementPlan)}
+</div>
+</body>
+</html>`;
+
+  const text = [
+    report.title,
+    meta,
+    '',
+    labels.sentiment.toUpperCase(),
+    stats,
+    result.sentiment,
+    '',
+    labels.salesBlockers.toUpperCase(),
+    ...(blockers.length ? blockers.map((b, i) => `${i + 1}. ${b.text} (${blockerLine(b)})`) : ['—']),
+    '',
+    labels.growthPlan.toUpperCase(),
+    result.annualIncrementPlan,
+  ].join('\n');
+
+  return { to: recipients, subject: `${report.title} · ${workspaceName}`, html, text };
+}
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ApiError } from "@google/genai";
+import type { AnalysisErrorCategory } from '../src/types';
+
+// What the user is told for each category; the underlying error is only logged.
+const MESSAGES: Record<AnalysisErrorCategory, string> = {
+  quota: 'The model quota or rate limit was reached. Wait a minute and try again.',
+  safety: 'The model declined to analyze these reviews because of its safety filters.',
+  invalid_json: 'The model returned a response that did not match the report format, even after a repair attempt.',
+  network: 'Could not reach the model service. Check the connection and try again.',
+  unknown: 'Failed to analyze reviews.',
+};
+
+export class AnalysisError extends Error {
+  constructor(readonly category: AnalysisErrorCategory, detail?: string, options?: { cause?: unknown }) {
+    super(detail ? `${MESSAGES[category]} (${detail})` : MESSAGES[category], options);
+    this.name = 'AnalysisError';
+  }
+}
+
+// A non-2xx response from a provider that talks plain HTTP rather than through an SDK.
+export class ProviderHttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'ProviderHttpError';
+  }
+}
+
+const NETWORK_CODES = new Set(['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'ETIMEDOUT', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_SOCKET']);
+
+export function categorize(err: unknown): AnalysisErrorCategory {
+  if (err instanceof AnalysisError) return err.category;
+  if (err instanceof ApiError || err instanceof ProviderHttpError) {
+    if (err.status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(err.message)) return 'quota';
+    if (err.status >= 500) return 'network';
+    return 'unknown';
+  }
+  const code = (err as { cause?: { code?: string } })?.cause?.code ?? (err as { code?: string })?.code;
+  if (code && NETWORK_CODES.has(code)) return 'network';
+  if (err instanceof TypeError && /fetch failed|network/i.test(err.message)) return 'network';
+  return 'unknown';
+}
+
+// Normalizes anything thrown during an analysis into a categorized AnalysisError.
+export function toAnalysisError(err: unknown): AnalysisError {
+  if (err instanceof AnalysisError) return err;
+  return new AnalysisError(categorize(err), undefined, { cause: err });
+}
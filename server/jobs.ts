@@ -0,0 +1,177 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomUUID } from 'crypto';
+import type { AnalysisErrorCategory, AnalysisJob, AnalysisProgress, JobSource, JobStatus, Redactions, ReviewRecord } from '../src/types';
+import type { AnalysisContext } from './analysis';
+import type { Db } from './db';
+import { defaultTitle } from './reports';
+
+// Everything needed to run the analysis, fixed when the job is submitted.
+export interface JobRequest {
+  // Already redacted; `redactions` holds what the placeholders stand for.
+  reviews: ReviewRecord[];
+  redactions?: Redactions;
+  language: string;
+  reportLanguage: string;
+  title?: string;
+  provider: string;
+  model: string;
+  // Missing from jobs queued before business profiles and templates existed.
+  context?: AnalysisContext;
+}
+
+export interface NewJob {
+  workspaceId: string;
+  source: JobSource;
+  apiKeyId: string | null;
+  createdBy: string | null;
+  // The usage event its reviews were counted under.
+  usageId: string;
+  request: JobRequest;
+}
+
+// A job the worker has taken, with what it needs to run it.
+export interface ClaimedJob {
+  job: AnalysisJob;
+  request: JobRequest;
+  createdBy: string | null;
+  usageId: string | null;
+}
+
+interface JobRow {
+  id: string;
+  workspace_id: string;
+  api_key_id: string | null;
+  source: JobSource;
+  title: string;
+  status: JobStatus;
+  request: string;
+  progress: string | null;
+  report_id: string | null;
+  error: string | null;
+  error_category: AnalysisErrorCategory | null;
+  created_by: string | null;
+  usage_id: string | null;
+  attempts: number;
+  run_at: string;
+  seen_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Finished jobs the submitter hasn't looked at stop being offered after a week.
+const UNSEEN_DAYS = 7;
+
+const toJob = (row: JobRow): AnalysisJob => ({
+  id: row.id,
+  workspaceId: row.workspace_id,
+  source: row.source,
+  title: row.title,
+  status: row.status,
+  attempts: row.attempts,
+  retryAt: row.status === 'queued' && row.attempts > 0 ? row.run_at : null,
+  progress: row.progress ? JSON.parse(row.progress) : null,
+  reportId: row.report_id,
+  error: row.error,
+  errorCategory: row.error_category,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+type Updatable = Pick<JobRow, 'status' | 'progress' | 'report_id' | 'error' | 'error_category' | 'run_at'>;
+
+export function createJobStore(db: Db) {
+  const row = (id: string) => db.prepare('SELECT * FROM analysis_jobs WHERE id = ?').get(id) as JobRow | undefined;
+
+  const find = (id: string): AnalysisJob | null => {
+    const found = row(id);
+    return found ? toJob(found) : null;
+  };
+
+  const update = (id: string, fields: Partial<Updatable>) => {
+    const columns = Object.keys(fields).map(column => `${column} = @${column}`).join(', ');
+    db.prepare(`UPDATE analysis_jobs SET ${columns}, updated_at = @updated_at WHERE id = @id`)
+      .run({ ...fields, id, updated_at: new Date().toISOString() });
+    return find(id)!;
+  };
+
+  return {
+    create({ workspaceId, source, apiKeyId, createdBy, usageId, request }: NewJob): AnalysisJob {
+      const now = new Date().toISOString();
+      const id = randomUUID();
+      db.prepare(`INSERT INTO analysis_jobs (id, workspace_id, api_key_id, source, title, status, request, created_by, usage_id, run_at, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, 'queued', ?, ?, ?, ?, ?, ?)`)
+        .run(id, workspaceId, apiKeyId, source, request.title?.trim() || defaultTitle(request.reviews), JSON.stringify(request), createdBy, usageId, now, now, now);
+      return find(id)!;
+    },
+
+    find,
+
+    // Returns null when the job doesn't exist or belongs to another workspace.
+    get(workspaceId: string, id: string): AnalysisJob | null {
+      const job = find(id);
+      return job?.workspaceId === workspaceId ? job : null;
+    },
+
+    // Takes the oldest job that is due and marks it running, or returns null.
+    claim(now = new Date()): ClaimedJob | null {
+      return db.transaction(() => {
+        const due = db.prepare(`SELECT * FROM analysis_jobs WHERE status = 'queued' AND run_at <= ?
+          ORDER BY run_at, created_at LIMIT 1`).get(now.toISOString()) as JobRow | undefined;
+        if (!due) return null;
+        db.prepare(`UPDATE analysis_jobs SET status = 'running', attempts = attempts + 1, progress = NULL, updated_at = ? WHERE id = ?`)
+          .run(now.toISOString(), due.id);
+        return { job: find(due.id)!, request: JSON.parse(due.request), createdBy: due.created_by, usageId: due.usage_id };
+      })();
+    },
+
+    // Takes a job that hasn't started, so it can be failed before the worker claims it.
+    takeQueued(id: string): { usageId: string | null } | null {
+      const taken = db.prepare(`UPDATE analysis_jobs SET status = 'running', updated_at = ? WHERE id = ? AND status = 'queued' RETURNING usage_id`)
+        .get(new Date().toISOString(), id) as { usage_id: string | null } | undefined;
+      return taken ? { usageId: taken.usage_id } : null;
+    },
+
+    setProgress(id: string, progress: AnalysisProgress) {
+      update(id, { progress: JSON.stringify(progress) });
+    },
+
+    succeed(id: string, reportId: string) {
+      return update(id, { status: 'succeeded', report_id: reportId, error: null, error_category: null });
+    },
+
+    // Puts the job back in the queue until `runAt`, keeping why the last attempt failed.
+    retry(id: string, runAt: Date, error: string, category: AnalysisErrorCategory) {
+      return update(id, { status: 'queued', run_at: runAt.toISOString(), error, error_category: category });
+    },
+
+    fail(id: string, error: string, category: AnalysisErrorCategory) {
+      return update(id, { status: 'failed', error, error_category: category });
+    },
+
+    // Jobs cut off by a restart run again from the start.
+    requeueInterrupted(): number {
+      return db.prepare(`UPDATE analysis_jobs SET status = 'queued', progress = NULL, updated_at = ? WHERE status = 'running'`)
+        .run(new Date().toISOString()).changes;
+    },
+
+    // The user's analyzer jobs that are still going or finished without being looked at.
+    forSubmitter(userId: string): AnalysisJob[] {
+      const since = new Date(Date.now() - UNSEEN_DAYS * 24 * 60 * 60 * 1000).toISOString();
+      const rows = db.prepare(`SELECT * FROM analysis_jobs WHERE created_by = ? AND source = 'app' AND created_at >= ?
+        AND (status IN ('queued', 'running') OR seen_at IS NULL) ORDER BY created_at DESC`).all(userId, since) as JobRow[];
+      return rows.map(toJob);
+    },
+
+    // Only the submitter's own acknowledgement counts; returns false otherwise.
+    markSeen(id: string, userId: string): boolean {
+      return db.prepare(`UPDATE analysis_jobs SET seen_at = ? WHERE id = ? AND created_by = ? AND status IN ('succeeded', 'failed')`)
+        .run(new Date().toISOString(), id, userId).changes > 0;
+    },
+  };
+}
+
+export type JobStore = ReturnType<typeof createJobStore>;
@@ -0,0 +1,208 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomBytes, randomUUID } from 'crypto';
+import type { Delivery, DeliveryAttempt, DeliveryChannel, DeliveryEvent, DeliveryStatus, DigestSettings, Webhook } from '../src/types';
+import type { Db } from './db';
+
+export const MAX_WEBHOOKS = 10;
+export const MAX_RECIPIENTS = 20;
+
+// Deliveries shown in the log, newest first.
+const LOG_LIMIT = 100;
+
+const SECRET_PREFIX = 'whsec_';
+
+interface WebhookRow {
+  id: string;
+  workspace_id: string;
+  url: string;
+  description: string;
+  secret: string;
+  enabled: number;
+  created_by: string | null;
+  created_at: string;
+  author: string | null;
+}
+
+interface DeliveryRow {
+  id: string;
+  workspace_id: string;
+  channel: DeliveryChannel;
+  webhook_id: string | null;
+  event: DeliveryEvent;
+  target: string;
+  report_id: string | null;
+  report_title: string | null;
+  payload: string;
+  status: DeliveryStatus;
+  attempts: string;
+  next_attempt_at: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
+export interface NewDelivery {
+  workspaceId: string;
+  channel: DeliveryChannel;
+  event: DeliveryEvent;
+  webhookId?: string;
+  target: string;
+  reportId?: string;
+  reportTitle?: string;
+  // The webhook's JSON body, or the email as JSON.
+  payload: string;
+}
+
+// A delivery the deliverer has taken, with what it needs to send it.
+export interface ClaimedDelivery {
+  delivery: Delivery;
+  payload: string;
+  // The webhook's signing secret; null for email.
+  secret: string | null;
+}
+
+// What happens after an attempt: done, tried again at `nextAttemptAt`, or given up on.
+export type AttemptOutcome = { status: 'succeeded' } | { status: 'failed' } | { status: 'pending'; nextAttemptAt: Date };
+
+const toWebhook = (row: WebhookRow): Webhook => ({
+  id: row.id,
+  url: row.url,
+  description: row.description,
+  secret: row.secret,
+  enabled: row.enabled === 1,
+  createdBy: row.author,
+  createdAt: row.created_at,
+});
+
+const toDelivery = (row: DeliveryRow): Delivery => ({
+  id: row.id,
+  channel: row.channel,
+  event: row.event,
+  target: row.target,
+  reportId: row.report_id,
+  reportTitle: row.report_title,
+  status: row.status,
+  attempts: JSON.parse(row.attempts),
+  nextAttemptAt: row.next_attempt_at,
+  createdAt: row.created_at,
+  deliveredAt: row.delivered_at,
+});
+
+const SELECT_WITH_AUTHOR = 'SELECT webhooks.*, users.name AS author FROM webhooks LEFT JOIN users ON users.id = webhooks.created_by';
+
+// Each workspace's webhooks and email digest, and the log of what was sent to them.
+export function createNotificationStore(db: Db) {
+  const webhook = (workspaceId: string, id: string): Webhook | null => {
+    const row = db.prepare(`${SELECT_WITH_AUTHOR} WHERE webhooks.id = ? AND workspace_id = ?`).get(id, workspaceId) as WebhookRow | undefined;
+    return row ? toWebhook(row) : null;
+  };
+
+  const find = (id: string) => db.prepare('SELECT * FROM deliveries WHERE id = ?').get(id) as DeliveryRow | undefined;
+
+  return {
+    webhooks(workspaceId: string): Webhook[] {
+      const rows = db.prepare(`${SELECT_WITH_AUTHOR} WHERE workspace_id = ? ORDER BY webhooks.created_at`).all(workspaceId) as WebhookRow[];
+      return rows.map(toWebhook);
+    },
+
+    webhook,
+
+    // The secret is kept, unlike API keys', because every payload is signed with it.
+    createWebhook(workspaceId: string, url: string, description: string, userId: string): Webhook {
+      const id = randomUUID();
+      db.prepare(`INSERT INTO webhooks (id, workspace_id, url, description, secret, created_by, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)`)
+        .run(id, workspaceId, url, description.trim(), `${SECRET_PREFIX}${randomBytes(24).toString('base64url')}`, userId, new Date().toISOString());
+      return webhook(workspaceId, id)!;
+    },
+
+    setWebhookEnabled(workspaceId: string, id: string, enabled: boolean): Webhook | null {
+      db.prepare('UPDATE webhooks SET enabled = ? WHERE id = ? AND workspace_id = ?').run(Number(enabled), id, workspaceId);
+      return webhook(workspaceId, id);
+    },
+
+    // Its deliveries go too, pending ones included.
+    removeWebhook(workspaceId: string, id: string): boolean {
+      return db.prepare('DELETE FROM webhooks WHERE id = ? AND workspace_id = ?').run(id, workspaceId).changes > 0;
+    },
+
+    digest(workspaceId: string): DigestSettings {
+      const row = db.prepare('SELECT enabled, recipients FROM digest_settings WHERE workspace_id = ?').get(workspaceId) as
+        { enabled: number; recipients: string } | undefined;
+      return row ? { enabled: row.enabled === 1, recipients: JSON.parse(row.recipients) } : { enabled: false, recipients: [] };
+    },
+
+    saveDigest(workspaceId: string, settings: DigestSettings, userId: string): DigestSettings {
+      db.prepare(`INSERT INTO digest_settings (workspace_id, enabled, recipients, updated_by, updated_at) VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT (workspace_id) DO UPDATE SET enabled = excluded.enabled, recipients = excluded.recipients,
+          updated_by = excluded.updated_by, updated_at = excluded.updated_at`)
+        .run(workspaceId, Number(settings.enabled), JSON.stringify(settings.recipients), userId, new Date().toISOString());
+      return settings;
+    },
+
+    enqueue(deliveries: NewDelivery[]): Delivery[] {
+      return db.transaction(() => deliveries.map(delivery => {
+        const id = randomUUID();
+        const now = new Date().toISOString();
+        db.prepare(`INSERT INTO deliveries (id, workspace_id, channel, webhook_id, event, target, report_id, report_title, payload, status,
+            next_attempt_at, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?)`)
+          .run(id, delivery.workspaceId, delivery.channel, delivery.webhookId ?? null, delivery.event, delivery.target,
+            delivery.reportId ?? null, delivery.reportTitle ?? null, delivery.payload, now, now);
+        return toDelivery(find(id)!);
+      }))();
+    },
+
+    deliveries(workspaceId: string): Delivery[] {
+      const rows = db.prepare('SELECT * FROM deliveries WHERE workspace_id = ? ORDER BY created_at DESC LIMIT ?')
+        .all(workspaceId, LOG_LIMIT) as DeliveryRow[];
+      return rows.map(toDelivery);
+    },
+
+    // Takes the oldest delivery that is due and marks it sending, or returns null.
+    claim(now = new Date()): ClaimedDelivery | null {
+      return db.transaction(() => {
+        const due = db.prepare(`SELECT * FROM deliveries WHERE status = 'pending' AND next_attempt_at <= ?
+          ORDER BY next_attempt_at, created_at LIMIT 1`).get(now.toISOString()) as DeliveryRow | undefined;
+        if (!due) return null;
+        db.prepare(`UPDATE deliveries SET status = 'sending' WHERE id = ?`).run(due.id);
+        const secret = due.webhook_id
+          ? (db.prepare('SELECT secret FROM webhooks WHERE id = ?').get(due.webhook_id) as { secret: string }).secret
+          : null;
+        return { delivery: toDelivery({ ...due, status: 'sending' }), payload: due.payload, secret };
+      })();
+    },
+
+    // Adds the attempt to the log and moves the delivery on.
+    recordAttempt(id: string, attempt: DeliveryAttempt, outcome: AttemptOutcome): Delivery | null {
+      const row = find(id);
+      if (!row) return null;
+      const attempts = [...JSON.parse(row.attempts), attempt];
+      db.prepare('UPDATE deliveries SET status = ?, attempts = ?, next_attempt_at = ?, delivered_at = ? WHERE id = ?')
+        .run(
+          outcome.status,
+          JSON.stringify(attempts),
+          outcome.status === 'pending' ? outcome.nextAttemptAt.toISOString() : null,
+          outcome.status === 'succeeded' ? attempt.at : null,
+          id,
+        );
+      return toDelivery(find(id)!);
+    },
+
+    // Tries a failed delivery once more, from the log. Null unless it failed.
+    redeliver(workspaceId: string, id: string): Delivery | null {
+      const changed = db.prepare(`UPDATE deliveries SET status = 'pending', next_attempt_at = ?
+        WHERE id = ? AND workspace_id = ? AND status = 'failed'`).run(new Date().toISOString(), id, workspaceId).changes;
+      return changed ? toDelivery(find(id)!) : null;
+    },
+
+    // Deliveries cut off by a restart are sent again.
+    requeueInterrupted(): number {
+      return db.prepare(`UPDATE deliveries SET status = 'pending' WHERE status = 'sending'`).run().changes;
+    },
+  };
+}
+
+export type NotificationStore = ReturnType<typeof createNotificationStore>;
@@ -0,0 +1,437 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { SEVERITIES } from '../src/lib/findings';
+import { REPORT_LANGUAGES } from '../src/lib/i18n';
+import { EFFORTS, QUARTERS } from '../src/lib/initiatives';
+import { DEFAULT_TEMPLATE, TEMPLATE_IDS } from '../src/lib/promptTemplates';
+import { ASPECTS } from '../src/lib/sentiment';
+
+export const API_VERSION = '1.0.0';
+
+// Formats served by GET /reports/{id}/export.
+export const EXPORT_FORMATS = ['markdown', 'html', 'json'] as const;
+export type ApiExportFormat = typeof EXPORT_FORMATS[number];
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const string = { type: 'string' };
+const dateTime = { type: 'string', format: 'date-time' };
+const integer = { type: 'integer' };
+const indices = (description: string) => ({ type: 'array', items: integer, description });
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: ref('Error') } },
+});
+
+const json = (description: string, schema: object) => ({
+  description,
+  content: { 'application/json': { schema } },
+});
+
+const idParameter = (description: string) => ({ name: 'id', in: 'path', required: true, description, schema: string });
+
+const schemas = {
+  Error: {
+    type: 'object',
+    properties: { error: { ...string, description: 'What went wrong, worded for people.' } },
+    required: ['error'],
+  },
+  ReviewRecord: {
+    type: 'object',
+    properties: {
+      text: string,
+      rating: { type: 'number' },
+      date: string,
+      product: string,
+      source: string,
+      competitor: {
+        ...string,
+        description: "Name of the competitor the review is about. Leave out for the workspace's own reviews; Pro and Enterprise plans only.",
+      },
+    },
+    required: ['text'],
+  },
+  AnalyzeRequest: {
+    type: 'object',
+    properties: {
+      reviews: {
+        description: 'Review records, or plain text with one review per line.',
+        oneOf: [{ type: 'array', items: ref('ReviewRecord'), minItems: 1 }, { ...string, minLength: 1 }],
+      },
+      language: { ...string, description: "Language the reviews are written in. Defaults to 'Auto-detect'." },
+      reportLanguage: { ...string, enum: REPORT_LANGUAGES, default: 'English' },
+      title: { ...string, description: 'Title of the saved report. Defaults to the start of the first review.' },
+      template: {
+        ...string,
+        enum: TEMPLATE_IDS,
+        default: DEFAULT_TEMPLATE,
+        description: "Analysis type. The workspace's current version of that prompt template is used, with its Business Profile.",
+      },
+      provider: { ...string, description: 'Provider id from GET /api/models. Defaults to the first available one.' },
+      model: { ...string, description: "One of the provider's models. Defaults to its first." },
+    },
+    required: ['reviews'],
+  },
+  AnalysisProgress: {
+    type: 'object',
+    properties: {
+      stage: { ...string, enum: ['map', 'reduce'] },
+      completedBatches: integer,
+      totalBatches: integer,
+    },
+    required: ['stage', 'completedBatches', 'totalBatches'],
+  },
+  AnalysisJob: {
+    type: 'object',
+    properties: {
+      id: string,
+      workspaceId: string,
+      source: { ...string, enum: ['app', 'api', 'schedule'] },
+      title: { ...string, description: 'The title the report will be saved under.' },
+      status: { ...string, enum: ['queued', 'running', 'succeeded', 'failed'] },
+      attempts: { ...integer, description: 'Runs started so far. Rate-limit and network failures are retried with exponential backoff.' },
+      retryAt: { type: ['string', 'null'], format: 'date-time', description: 'When a job waiting to retry runs next.' },
+      progress: { oneOf: [ref('AnalysisProgress'), { type: 'null' }] },
+      reportId: { type: ['string', 'null'], description: 'Set once the job has succeeded.' },
+      error: { type: ['string', 'null'], description: 'Why it failed, or why the last attempt failed while it waits to retry.' },
+      errorCategory: { type: ['string', 'null'], enum: ['quota', 'safety', 'invalid_json', 'network', 'unknown', null] },
+      createdAt: dateTime,
+      updatedAt: dateTime,
+    },
+    required: ['id', 'workspaceId', 'source', 'title', 'status', 'attempts', 'retryAt', 'progress', 'reportId', 'error', 'errorCategory', 'createdAt', 'updatedAt'],
+  },
+  Finding: {
+    type: 'object',
+    properties: {
+      text: string,
+      frequency: { ...integer, description: 'Number of distinct reviews cited as evidence.' },
+      severity: { ...string, enum: SEVERITIES },
+      evidence: indices('0-based indices into the analyzed reviews.'),
+      quotes: { type: 'array', items: string, description: 'Verbatim excerpts from those reviews.' },
+    },
+    required: ['text', 'frequency', 'severity', 'evidence', 'quotes'],
+  },
+  PositioningFinding: {
+    allOf: [ref('Finding'), { type: 'object', properties: { competitor: string }, required: ['competitor'] }],
+  },
+  BrandScore: {
+    type: 'object',
+    properties: {
+      competitor: { type: ['string', 'null'], description: "Null for the workspace's own reviews." },
+      reviews: integer,
+      average: { type: 'number', minimum: -1, maximum: 1 },
+      aspects: {
+        type: 'object',
+        description: 'Average sentiment for each aspect its reviews discuss.',
+        additionalProperties: { type: 'number' },
+      },
+    },
+    required: ['competitor', 'reviews', 'average', 'aspects'],
+  },
+  Positioning: {
+    type: 'object',
+    properties: {
+      competitors: { type: 'array', items: string },
+      opportunities: { type: 'array', items: ref('PositioningFinding'), description: 'Where a competitor is weaker.' },
+      threats: { type: 'array', items: ref('PositioningFinding'), description: 'Where a competitor beats the business.' },
+      featureGaps: { type: 'array', items: ref('PositioningFinding'), description: 'What customers praise competitors for that the business lacks.' },
+      pricePerception: { ...string, description: 'Markdown.' },
+      scorecard: { type: 'array', items: ref('BrandScore') },
+    },
+    required: ['competitors', 'opportunities', 'threats', 'featureGaps', 'pricePerception', 'scorecard'],
+  },
+  ReviewInsight: {
+    type: 'object',
+    properties: {
+      index: { ...integer, description: '0-based index into the analyzed reviews.' },
+      score: { type: 'number', minimum: -1, maximum: 1 },
+      aspects: { type: 'array', items: { ...string, enum: ASPECTS } },
+    },
+    required: ['index', 'score', 'aspects'],
+  },
+  GrowthPoint: {
+    type: 'object',
+    properties: { month: string, current: { type: 'number' }, projected: { type: 'number' } },
+    required: ['month', 'current', 'projected'],
+  },
+  Initiative: {
+    type: 'object',
+    properties: {
+      title: string,
+      pillar: string,
+      ownerRole: string,
+      quarter: { ...string, enum: QUARTERS },
+      effort: { ...string, enum: EFFORTS },
+      expectedImpact: string,
+      blockers: indices("0-based indices into the report's sales blockers."),
+    },
+    required: ['title', 'pillar', 'ownerRole', 'quarter', 'effort', 'expectedImpact', 'blockers'],
+  },
+  AnalysisResult: {
+    type: 'object',
+    properties: {
+      painPoints: { type: 'array', items: ref('Finding') },
+      sentiment: string,
+      salesBlockers: { type: 'array', items: ref('Finding') },
+      marketingStrategy: { ...string, description: 'Markdown.' },
+      salesStrategy: { ...string, description: 'Markdown.' },
+      growthProjection: { type: 'array', items: ref('GrowthPoint') },
+      annualIncrementPlan: { ...string, description: 'Markdown.' },
+      initiatives: { type: 'array', items: ref('Initiative') },
+      reviewInsights: { type: 'array', items: ref('ReviewInsight'), description: "The workspace's own reviews only." },
+      positioning: { ...ref('Positioning'), description: 'Present when reviews named competitors.' },
+    },
+    required: ['painPoints', 'sentiment', 'salesBlockers', 'marketingStrategy', 'salesStrategy', 'growthProjection', 'annualIncrementPlan', 'initiatives', 'reviewInsights'],
+  },
+  ReportSummary: {
+    type: 'object',
+    properties: {
+      id: string,
+      title: string,
+      language: string,
+      reportLanguage: string,
+      model: string,
+      createdAt: dateTime,
+      workspaceId: string,
+      createdBy: { type: ['string', 'null'], description: 'Name of the user who ran it, or who made the API key.' },
+    },
+    required: ['id', 'title', 'language', 'reportLanguage', 'model', 'createdAt', 'workspaceId', 'createdBy'],
+  },
+  Report: {
+    allOf: [
+      ref('ReportSummary'),
+      {
+        type: 'object',
+        properties: {
+          reviews: { type: 'array', items: ref('ReviewRecord'), description: 'As the model saw them, with personal data replaced by placeholders such as [EMAIL_1].' },
+          result: ref('AnalysisResult'),
+          pins: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { id: string, question: string, answer: string, createdAt: dateTime },
+              required: ['id', 'question', 'answer', 'createdAt'],
+            },
+          },
+          redactions: {
+            type: 'object',
+            additionalProperties: string,
+            description: "What each placeholder in the reviews and results stands for, per the workspace's redaction rules.",
+          },
+        },
+        required: ['reviews', 'result', 'pins', 'redactions'],
+      },
+    ],
+  },
+  FindingSummary: {
+    type: 'object',
+    properties: { text: string, severity: { ...string, enum: SEVERITIES }, frequency: integer },
+    required: ['text', 'severity', 'frequency'],
+  },
+  WebhookPayload: {
+    type: 'object',
+    properties: {
+      event: { ...string, enum: ['analysis.completed', 'ping'] },
+      createdAt: dateTime,
+      text: { ...string, description: 'A one-line summary for chat tools that post a payload\'s "text".' },
+      workspace: { type: 'object', properties: { id: string, name: string }, required: ['id', 'name'] },
+      report: {
+        type: ['object', 'null'],
+        description: 'Null for a test ping. Text keeps the placeholders of redacted personal data.',
+        properties: {
+          id: string,
+          title: string,
+          createdAt: dateTime,
+          model: string,
+          language: string,
+          reportLanguage: string,
+          reviewCount: integer,
+          summary: {
+            type: 'object',
+            properties: {
+              sentiment: string,
+              averageSentiment: { type: 'number', description: 'From -1 to 1.' },
+              positiveShare: { type: 'number' },
+              negativeShare: { type: 'number' },
+              painPoints: { type: 'array', items: ref('FindingSummary'), description: 'The five most severe, then most cited.' },
+              salesBlockers: { type: 'array', items: ref('FindingSummary'), description: 'The five most severe, then most cited.' },
+              annualIncrementPlan: string,
+              growthProjection: { type: 'array', items: ref('GrowthPoint') },
+            },
+            required: ['sentiment', 'averageSentiment', 'positiveShare', 'negativeShare', 'painPoints', 'salesBlockers', 'annualIncrementPlan', 'growthProjection'],
+          },
+        },
+        required: ['id', 'title', 'createdAt', 'model', 'language', 'reportLanguage', 'reviewCount', 'summary'],
+      },
+    },
+    required: ['event', 'createdAt', 'text', 'workspace', 'report'],
+  },
+};
+
+// Sent to the webhooks added under Notifications in the app, not called by API clients.
+const webhooks = {
+  'analysis.completed': {
+    post: {
+      summary: 'An analysis in the workspace finished',
+      description: 'Answer with any 2xx status. Timeouts, 408, 429 and 5xx answers are retried with growing waits; other 4xx answers are not. ' +
+        'The X-Sale-Squid-Signature header is "t=<unix seconds>,v1=<hex>", where v1 is the HMAC-SHA256 of "<t>.<raw body>" keyed with the webhook\'s secret.',
+      parameters: [
+        { name: 'X-Sale-Squid-Event', in: 'header', required: true, schema: { ...string, enum: ['analysis.completed', 'ping'] } },
+        { name: 'X-Sale-Squid-Delivery', in: 'header', required: true, description: 'Stays the same across retries.', schema: string },
+        { name: 'X-Sale-Squid-Signature', in: 'header', required: true, schema: string },
+      ],
+      requestBody: { required: true, content: { 'application/json': { schema: ref('WebhookPayload') } } },
+      responses: { 200: { description: 'Received.' } },
+    },
+  },
+};
+
+const rateLimitHeaders = {
+  'X-RateLimit-Limit': { description: "Requests the key may make per minute.", schema: integer },
+  'X-RateLimit-Remaining': { description: 'Requests left in the current minute.', schema: integer },
+  'X-RateLimit-Reset': { description: 'When the current minute ends, in Unix seconds.', schema: integer },
+};
+
+// Answers every authenticated operation can give besides its own.
+const common = {
+  401: errorResponse('The API key is missing, unknown or revoked.'),
+  402: errorResponse("The workspace's plan doesn't include API access."),
+  429: {
+    ...errorResponse("The key's per-minute rate limit is used up."),
+    headers: { 'Retry-After': { description: 'Seconds until the limit resets.', schema: integer } },
+  },
+};
+
+const reportNotFound = errorResponse("No report with this id in the key's workspace.");
+
+// The document served at GET /api/v1/openapi.json.
+export function openApiDocument() {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Sale Squid API',
+      version: API_VERSION,
+      description: 'Submit reviews for analysis, poll the job, then fetch the saved report. ' +
+        'Create an API key under Workspaces > API Keys on the Enterprise plan; requests act in that key\'s workspace and count against its plan.',
+    },
+    servers: [{ url: '/api/v1' }],
+    security: [{ apiKey: [] }],
+    paths: {
+      '/analyses': {
+        post: {
+          summary: 'Submit reviews for analysis',
+          description: 'Starts an analysis job and returns at once. Poll the job until it succeeds or fails.',
+          operationId: 'createAnalysis',
+          requestBody: { required: true, content: { 'application/json': { schema: ref('AnalyzeRequest') } } },
+          responses: {
+            202: {
+              ...json('The job was queued.', ref('AnalysisJob')),
+              headers: { Location: { description: 'URL of the job.', schema: string }, ...rateLimitHeaders },
+            },
+            ...common,
+            400: errorResponse('The request body is invalid.'),
+            402: errorResponse(
+              "The workspace's plan doesn't include API access, or the reviews would go over the plan's monthly limit or name competitors on the Starter plan."
+            ),
+          },
+        },
+      },
+      '/analyses/{id}': {
+        get: {
+          summary: 'Get an analysis job',
+          operationId: 'getAnalysis',
+          parameters: [idParameter('Job id.')],
+          responses: {
+            200: { ...json('The job.', ref('AnalysisJob')), headers: rateLimitHeaders },
+            404: errorResponse("No job with this id in the key's workspace."),
+            ...common,
+          },
+        },
+      },
+      '/analyses/{id}/cancel': {
+        post: {
+          summary: 'Stop an analysis job',
+          description: 'A queued job fails at once; a running one stops shortly after. Its reviews no longer count against the plan.',
+          operationId: 'cancelAnalysis',
+          parameters: [idParameter('Job id.')],
+          responses: {
+            202: { ...json('Cancellation was requested.', ref('AnalysisJob')), headers: rateLimitHeaders },
+            404: errorResponse("No job with this id in the key's workspace."),
+            409: errorResponse('The job has already finished.'),
+            ...common,
+          },
+        },
+      },
+      '/reports': {
+        get: {
+          summary: 'List saved reports',
+          operationId: 'listReports',
+          parameters: [{ name: 'q', in: 'query', description: 'Matches titles and review text.', schema: string }],
+          responses: {
+            200: { ...json('Reports in the workspace, newest first.', { type: 'array', items: ref('ReportSummary') }), headers: rateLimitHeaders },
+            ...common,
+          },
+        },
+      },
+      '/reports/{id}': {
+        get: {
+          summary: 'Get a report with its reviews and result',
+          operationId: 'getReport',
+          parameters: [idParameter('Report id.')],
+          responses: {
+            200: { ...json('The report.', ref('Report')), headers: rateLimitHeaders },
+            404: reportNotFound,
+            ...common,
+          },
+        },
+      },
+      '/reports/{id}/result': {
+        get: {
+          summary: "Get only a report's analysis result",
+          operationId: 'getReportResult',
+          parameters: [idParameter('Report id.')],
+          responses: {
+            200: { ...json('The analysis result.', ref('AnalysisResult')), headers: rateLimitHeaders },
+            404: reportNotFound,
+            ...common,
+          },
+        },
+      },
+      '/reports/{id}/export': {
+        get: {
+          summary: 'Export a report',
+          description: 'The same documents as the Export menu in the app, without the chart image or revenue forecast.',
+          operationId: 'exportReport',
+          parameters: [
+            idParameter('Report id.'),
+            { name: 'format', in: 'query', required: true, schema: { ...string, enum: EXPORT_FORMATS } },
+          ],
+          responses: {
+            200: {
+              description: 'The exported document, sent as an attachment.',
+              headers: rateLimitHeaders,
+              content: {
+                'text/markdown': { schema: string },
+                'text/html': { schema: string },
+                'application/json': { schema: ref('AnalysisResult') },
+              },
+            },
+            400: errorResponse('The format is missing or unsupported.'),
+            404: reportNotFound,
+            ...common,
+          },
+        },
+      },
+    },
+    webhooks,
+    components: {
+      securitySchemes: {
+        apiKey: { type: 'http', scheme: 'bearer', description: 'A workspace API key, sent as "Authorization: Bearer ssk_...".' },
+      },
+      schemas,
+    },
+  };
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createAccountStore } from './auth';
+import { openDatabase } from './db';
+import { createDeliverer } from './deliverer';
+import { createNotificationStore } from './notifications';
+import { checkTarget } from './outbound';
+import { createWorkspaceStore } from './workspaces';
+
+describe('checkTarget', () => {
+  it.each([
+    'http://127.0.0.1:8080/hook',
+    'http://10.1.2.3/hook',
+    'http://192.168.0.10/hook',
+    'http://169.254.169.254/latest/meta-data',
+    'http://[::1]/hook',
+    'http://[fe80::1]/hook',
+    'http://[::ffff:127.0.0.1]/hook',
+    'http://0.0.0.0/hook',
+  ])('refuses %s', async url => {
+    expect(await checkTarget(url)).toMatchObject({ error: expect.stringContaining('private network') });
+  });
+
+  it('allows public addresses', async () => {
+    expect(await checkTarget('https://93.184.215.14/hook')).toEqual({ internal: false });
+  });
+
+  it('allows an internal host that is listed', async () => {
+    expect(await checkTarget('http://127.0.0.1:8080/hook', ['127.0.0.1'])).toEqual({ internal: true });
+    expect(await checkTarget('http://[::1]/hook', ['::1'])).toEqual({ internal: true });
+  });
+});
+
+describe('webhook deliveries', () => {
+  async function deliverTo(url: string, allowHosts?: string[]) {
+    const db = openDatabase(':memory:');
+    const user = (await createAccountStore(db).register({ email: 'ana@example.com', name: 'Ana', password: 'correct horse' }))!;
+    const workspaces = createWorkspaceStore(db);
+    const workspace = workspaces.create('Shop', user.id);
+    const notifications = createNotificationStore(db);
+    const webhook = notifications.createWebhook(workspace.id, url, '', user.id);
+    const send = vi.fn(async () => new Response('secret internal page', { status: 500 }));
+    const deliverer = createDeliverer({ notifications, workspaces, fetch: send, allowHosts });
+    deliverer.ping(workspace.id, webhook);
+    await vi.waitFor(() => expect(notifications.deliveries(workspace.id)[0].attempts).toHaveLength(1));
+    return { send, delivery: notifications.deliveries(workspace.id)[0] };
+  }
+
+  it('are never sent to an internal host', async () => {
+    const { send, delivery } = await deliverTo('http://169.254.169.254/latest/meta-data');
+    expect(send).not.toHaveBeenCalled();
+    expect(delivery.status).toBe('failed');
+    expect(delivery.attempts[0].error).toMatch(/private network/);
+  });
+
+  it("don't show an allowed internal host's error body", async () => {
+    const { send, delivery } = await deliverTo('http://127.0.0.1:9/hook', ['127.0.0.1']);
+    expect(send).toHaveBeenCalledOnce();
+    expect(delivery.attempts[0]).toMatchObject({ responseStatus: 500, error: 'The webhook answered 500.' });
+  });
+});
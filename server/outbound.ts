@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import dns from 'dns';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { Agent } from 'undici';
+
+// Loopback, private, link-local (cloud metadata lives there), shared, multicast
+// and reserved ranges. IPv4-mapped IPv6 addresses are checked as IPv4.
+const INTERNAL = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) INTERNAL.addSubnet(network, prefix, 'ipv4');
+for (const [network, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) INTERNAL.addSubnet(network, prefix, 'ipv6');
+
+export const isInternalAddress = (address: string) => INTERNAL.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+
+const hostOf = (url: URL) => url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+
+const isAllowed = (allowHosts: readonly string[], host: string) => allowHosts.some(entry => entry.toLowerCase() === host.toLowerCase());
+
+const refusal = (hostname: string) => `${hostname} is on a private network. Add it to OUTBOUND_ALLOW_HOSTS to allow it.`;
+
+const REFUSED = 'EPRIVATEADDRESS';
+
+// The refusal behind a failed fetch, when the dispatcher wouldn't connect.
+export const refusalOf = (err: unknown) => {
+  const cause = (err as Error | undefined)?.cause as NodeJS.ErrnoException | undefined;
+  return cause?.code === REFUSED ? cause.message : null;
+};
+
+const resolve = (lookup: LookupFunction, host: string) =>
+  new Promise<string[]>((done, fail) =>
+    lookup(host, { all: true }, (err, address) =>
+      err ? fail(err) : done(Array.isArray(address) ? address.map(entry => entry.address) : [address])
+    )
+  );
+
+// Whether the server may send a request to `url`. Users pick webhook and feed
+// URLs, so hosts that resolve to an internal address are refused unless
+// `allowHosts` names them, e.g. a receiver on localhost during development.
+// `internal` marks an allowed host that is internal all the same, whose
+// answers shouldn't be shown back to users. Throws when the host doesn't resolve.
+export async function checkTarget(
+  url: string,
+  allowHosts: readonly string[] = [],
+  lookup: LookupFunction = dns.lookup
+): Promise<{ error: string } | { internal: boolean }> {
+  const parsed = new URL(url);
+  const host = hostOf(parsed);
+  const addresses = isIP(host) ? [host] : await resolve(lookup, host);
+  const internal = addresses.some(isInternalAddress);
+  if (internal && !isAllowed(allowHosts, host)) return { error: refusal(parsed.hostname) };
+  return { internal };
+}
+
+// Checks targets, and pins requests to a dispatcher that applies the same rule
+// to the addresses it actually connects to. Checking alone isn't
+// enough: the host is looked up again to connect, and a short-lived DNS answer
+// could point somewhere internal by then.
+export function createOutbound(allowHosts: readonly string[] = [], lookup: LookupFunction = dns.lookup) {
+  const pinned: LookupFunction = (hostname, options, callback) =>
+    lookup(hostname, options, (err, address, family) => {
+      const addresses = Array.isArray(address) ? address.map(entry => entry.address) : [address];
+      if (!err && !isAllowed(allowHosts, hostname) && addresses.some(isInternalAddress)) {
+        callback(Object.assign(new Error(refusal(hostname)), { code: REFUSED }), address, family);
+        return;
+      }
+      callback(err, address, family);
+    });
+  const dispatcher = new Agent({ connect: { lookup: pinned } });
+  return {
+    check: (url: string) => checkTarget(url, allowHosts, lookup),
+    // Request options for fetch that connect through the dispatcher. Node's
+    // fetch takes undici's `dispatcher`, which the DOM RequestInit type leaves out.
+    pin: (init: RequestInit) => ({ ...init, dispatcher }) as RequestInit,
+  };
+}
+
+export type Outbound = ReturnType<typeof createOutbound>;
@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+const INCOMPLETE = Symbol('incomplete');
+const LITERAL = /-?\d+(?:\.\d*)?(?:[eE][+-]?\d*)?|true|false|null/y;
+
+// Parses a JSON document that may be cut off anywhere, as it is mid-stream.
+// Open objects, arrays and strings are closed where the text ends; strings keep
+// whatever has arrived, while a number or literal that may still be growing,
+// and an object key with no value yet, are left out. Throws on text that can
+// never become valid JSON.
+export function parsePartialJson(text: string): unknown {
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && ' \t\n\r'.includes(text[pos])) pos++;
+  };
+  const fail = (): never => {
+    throw new SyntaxError(`Unexpected ${JSON.stringify(text[pos])} at position ${pos}`);
+  };
+
+  function string(): { value: string; complete: boolean } {
+    const start = ++pos;
+    // End of the last fully received character or escape sequence.
+    let safe = start;
+    while (pos < text.length) {
+      const c = text[pos];
+      if (c === '"') {
+        pos++;
+        return { value: JSON.parse(text.slice(start - 1, pos)), complete: true };
+      }
+      if (c === '\\') {
+        const length = text[pos + 1] === 'u' ? 6 : 2;
+        if (pos + length > text.length) break;
+        pos += length;
+      } else {
+        pos++;
+      }
+      safe = pos;
+    }
+    pos = text.length;
+    return { value: JSON.parse(`"${text.slice(start, safe)}"`), complete: false };
+  }
+
+  function literal(): unknown {
+    LITERAL.lastIndex = pos;
+    const match = LITERAL.exec(text);
+    if (!match) {
+      // A prefix of true/false/null, or a lone minus sign, still being written.
+      const rest = text.slice(pos);
+      if (['true', 'false', 'null', '-'].some(word => word.startsWith(rest))) {
+        pos = text.length;
+        return INCOMPLETE;
+      }
+      return fail();
+    }
+    pos += match[0].length;
+    // A number at the very end may still have digits to come.
+    return pos === text.length ? INCOMPLETE : JSON.parse(match[0]);
+  }
+
+  function array(): unknown[] {
+    pos++;
+    const items: unknown[] = [];
+    while (true) {
+      skipWhitespace();
+      if (pos >= text.length) return items;
+      if (text[pos] === ']') {
+        pos++;
+        return items;
+      }
+      if (text[pos] === ',') {
+        pos++;
+        continue;
+      }
+      const item = value();
+      if (item !== INCOMPLETE) items.push(item);
+    }
+  }
+
+  function object(): Record<string, unknown> {
+    pos++;
+    const entries: Record<string, unknown> = {};
+    while (true) {
+      skipWhitespace();
+      if (pos >= text.length) return entries;
+      if (text[pos] === '}') {
+        pos++;
+        return entries;
+      }
+      if (text[pos] === ',') {
+        pos++;
+        continue;
+      }
+      if (text[pos] !== '"') fail();
+      const key = string();
+      skipWhitespace();
+      if (!key.complete || pos >= text.length) return entries;
+      if (text[pos] !== ':') fail();
+      pos++;
+      const item = value();
+      if (item !== INCOMPLETE) entries[key.value] = item;
+    }
+  }
+
+  function value(): unknown {
+    skipWhitespace();
+    if (pos >= text.length) return INCOMPLETE;
+    if (text[pos] === '{') return object();
+    if (text[pos] === '[') return array();
+    if (text[pos] === '"') return string().value;
+    return literal();
+  }
+
+  const result = value();
+  return result === INCOMPLETE ? undefined : result;
+}
@@ -0,0 +1,102 @@
+import { ApiError, FinishReason, GoogleGenAI } from '@google/genai';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { geminiChunks } from '../../test/fakeGemini';
+import { AnalysisError, categorize } from '../errors';
+import { createGeminiProvider } from './gemini';
+
+const { generateContentStream } = vi.hoisted(() => ({ generateContentStream: vi.fn() }));
+
+vi.mock('@google/genai', async importOriginal => ({
+  ...(await importOriginal<typeof import('@google/genai')>()),
+  GoogleGenAI: vi.fn(() => ({ models: { generateContentStream } })),
+}));
+
+const schema = { type: 'object', properties: { sentiment: { type: 'string' } } };
+
+describe('createGeminiProvider', () => {
+  beforeEach(() => {
+    generateContentStream.mockReset();
+    vi.mocked(GoogleGenAI).mockClear();
+  });
+
+  it('streams the answer and reports token usage', async () => {
+    generateContentStream.mockResolvedValue(geminiChunks('{"sentiment":"Mostly negative"}', 10));
+    const provider = createGeminiProvider({ apiKey: 'key', baseUrl: 'http://localhost:9999' });
+    const onText = vi.fn();
+    const onUsage = vi.fn();
+    const signal = new AbortController().signal;
+
+    const text = await provider.generateJson({ model: 'gemini-2.5-flash', prompt: 'Analyze', schema, signal, onText, onUsage });
+
+    expect(text).toBe('{"sentiment":"Mostly negative"}');
+    expect(onText).toHaveBeenCalledTimes(4);
+    expect(onText).toHaveBeenNthCalledWith(1, '{"sentimen');
+    expect(onUsage).toHaveBeenCalledWith({ inputTokens: 120, outputTokens: 100 });
+    expect(GoogleGenAI).toHaveBeenCalledWith({ apiKey: 'key', httpOptions: { baseUrl: 'http://localhost:9999' } });
+    expect(generateContentStream).toHaveBeenCalledWith({
+      model: 'gemini-2.5-flash',
+      contents: 'Analyze',
+      config: { responseMimeType: 'application/json', responseSchema: schema, abortSignal: signal },
+    });
+  });
+
+  it('creates the client once, on first use', async () => {
+    generateContentStream.mockImplementation(async () => geminiChunks('Hello'));
+    const provider = createGeminiProvider({ apiKey: 'key' });
+    expect(GoogleGenAI).not.toHaveBeenCalled();
+
+    await provider.generateText({ model: 'gemini-2.5-flash', prompt: 'Hi' });
+    await provider.generateText({ model: 'gemini-2.5-flash', prompt: 'Hi again' });
+
+    expect(GoogleGenAI).toHaveBeenCalledTimes(1);
+    expect(generateContentStream.mock.calls[1][0].config).not.toHaveProperty('responseSchema');
+  });
+
+  it('answers an empty JSON response with an empty object', async () => {
+    generateContentStream.mockResolvedValue(geminiChunks(''));
+    const provider = createGeminiProvider({ apiKey: 'key' });
+    await expect(provider.generateJson({ model: 'gemini-2.5-flash', prompt: 'Analyze', schema })).resolves.toBe('{}');
+  });
+
+  it('estimates usage when the response has no totals', async () => {
+    generateContentStream.mockResolvedValue((async function* () {
+      yield { text: 'Some answer' };
+    })());
+    const onUsage = vi.fn();
+    await createGeminiProvider({ apiKey: 'key' }).generateText({ model: 'gemini-2.5-flash', prompt: 'Question', onUsage });
+    expect(onUsage).toHaveBeenCalledWith({ inputTokens: expect.any(Number), outputTokens: expect.any(Number) });
+  });
+
+  it('turns a blocked prompt into a safety error', async () => {
+    generateContentStream.mockResolvedValue((async function* () {
+      yield { promptFeedback: { blockReason: 'PROHIBITED_CONTENT' } };
+    })());
+    const error = await createGeminiProvider({ apiKey: 'key' })
+      .generateJson({ model: 'gemini-2.5-flash', prompt: 'Analyze', schema })
+      .catch(err => err);
+    expect(error).toBeInstanceOf(AnalysisError);
+    expect(error.category).toBe('safety');
+  });
+
+  it('stops on a safety finish reason partway through', async () => {
+    const onText = vi.fn();
+    generateContentStream.mockResolvedValue((async function* () {
+      yield { text: '{"sentiment":' };
+      yield { candidates: [{ finishReason: FinishReason.SAFETY }] };
+    })());
+    const error = await createGeminiProvider({ apiKey: 'key' })
+      .generateJson({ model: 'gemini-2.5-flash', prompt: 'Analyze', schema, onText })
+      .catch(err => err);
+    expect(categorize(error)).toBe('safety');
+    expect(onText).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes SDK errors through for the caller to categorize', async () => {
+    generateContentStream.mockRejectedValue(new ApiError({ message: 'RESOURCE_EXHAUSTED', status: 429 }));
+    const error = await createGeminiProvider({ apiKey: 'key' })
+      .generateJson({ model: 'gemini-2.5-flash', prompt: 'Analyze', schema })
+      .catch(err => err);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(categorize(error)).toBe('quota');
+  });
+});
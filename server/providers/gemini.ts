@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { FinishReason, GoogleGenAI } from "@google/genai";
+import { AnalysisError } from '../errors';
+import { estimateUsage } from '../usage';
+import type { GenerateTextRequest, ModelProvider } from './types';
+
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+];
+
+export const GEMINI_MODELS = ["gemini-3-flash-preview", "gemini-3-pro-preview", "gemini-2.5-flash", "gemini-2.5-pro"];
+
+export interface GeminiOptions {
+  apiKey: string;
+  // Points the SDK at another host, e.g. a local fake Gemini server.
+  baseUrl?: string;
+}
+
+export function createGeminiProvider({ apiKey, baseUrl }: GeminiOptions): ModelProvider {
+  // Created on first use so the server can boot (and serve the UI) without a key.
+  let ai: GoogleGenAI | null = null;
+  const client = () => {
+    ai ??= new GoogleGenAI({
+      apiKey,
+      ...(baseUrl ? { httpOptions: { baseUrl } } : {}),
+    });
+    return ai;
+  };
+
+  const stream = async ({ model, prompt, signal, onText, onUsage }: GenerateTextRequest, config: object) => {
+    const chunks = await client().models.generateContentStream({
+      model,
+      contents: prompt,
+      config: { ...config, abortSignal: signal },
+    });
+    let text = '';
+    // The last chunk carries the totals for the whole call.
+    let usage: { promptTokenCount?: number; candidatesTokenCount?: number; thoughtsTokenCount?: number } | undefined;
+    for await (const chunk of chunks) {
+      usage = chunk.usageMetadata ?? usage;
+      const blockReason = chunk.promptFeedback?.blockReason;
+      const finishReason = chunk.candidates?.[0]?.finishReason;
+      if (blockReason || BLOCKED_FINISH_REASONS.includes(finishReason)) {
+        throw new AnalysisError('safety', blockReason ?? finishReason);
+      }
+      if (chunk.text) {
+        text += chunk.text;
+        onText?.(text);
+      }
+    }
+    onUsage?.(usage?.promptTokenCount !== undefined
+      ? { inputTokens: usage.promptTokenCount, outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0) }
+      : estimateUsage(prompt, text));
+    return text;
+  };
+
+  return {
+    async generateJson({ schema, ...request }) {
+      const text = await stream(request, { responseMimeType: "application/json", responseSchema: schema });
+      return text || '{}';
+    },
+
+    generateText(request) {
+      return stream(request, {});
+    },
+  };
+}
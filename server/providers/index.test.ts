@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { createProviders, selectModel } from '.';
+
+describe('selectModel', () => {
+  it('falls back to the first configured provider', () => {
+    const selected = selectModel(createProviders({ geminiApiKey: 'test-key' }));
+    expect(selected).toMatchObject({ entry: { id: 'gemini' }, model: 'gemini-3-flash-preview' });
+  });
+
+  it('never falls back to the offline demo', () => {
+    expect(selectModel(createProviders({}))).toEqual({ error: 'No model provider is configured.' });
+  });
+
+  it('uses the offline demo when it is named', () => {
+    expect(selectModel(createProviders({}), 'mock')).toMatchObject({ entry: { id: 'mock' } });
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ProviderInfo } from '../../src/types';
+import { createGeminiProvider, GEMINI_MODELS } from './gemini';
+import { createMockProvider, MOCK_MODEL } from './mock';
+import { createOpenAiProvider } from './openai';
+import type { ProviderEntry } from './types';
+
+export interface ProvidersConfig {
+  geminiApiKey?: string;
+  geminiBaseUrl?: string;
+  geminiModels?: string[];
+  openAiBaseUrl?: string;
+  openAiApiKey?: string;
+  openAiModels?: string[];
+}
+
+// Every provider is listed so the picker can explain why one is unavailable.
+export function createProviders(config: ProvidersConfig): ProviderEntry[] {
+  return [
+    {
+      id: 'gemini',
+      label: 'Google Gemini',
+      models: config.geminiModels?.length ? config.geminiModels : GEMINI_MODELS,
+      unavailableReason: config.geminiApiKey ? undefined : 'Set GEMINI_API_KEY to enable',
+      provider: createGeminiProvider({ apiKey: config.geminiApiKey || '', baseUrl: config.geminiBaseUrl }),
+    },
+    {
+      id: 'openai',
+      label: 'OpenAI-compatible',
+      models: config.openAiModels?.length ? config.openAiModels : ['gpt-4o-mini'],
+      unavailableReason: config.openAiBaseUrl ? undefined : 'Set OPENAI_BASE_URL to enable',
+      provider: createOpenAiProvider({ baseUrl: config.openAiBaseUrl || '', apiKey: config.openAiApiKey }),
+    },
+    {
+      id: 'mock',
+      label: 'Offline demo',
+      models: [MOCK_MODEL],
+      provider: createMockProvider(),
+    },
+  ];
+}
+
+export function describeProviders(entries: ProviderEntry[]): ProviderInfo[] {
+  return entries.map(({ id, label, models, unavailableReason }) => ({
+    id,
+    label,
+    models,
+    available: !unavailableReason,
+    ...(unavailableReason ? { unavailableReason } : {}),
+  }));
+}
+
+// Resolves the picker's choice, falling back to the first usable provider and
+// its first model. The offline demo is never a fallback, so a server without
+// keys can't quietly answer API callers with canned reports; it must be named.
+// Returns an error message when the choice can't be used.
+export function selectModel(entries: ProviderEntry[], providerId?: string, model?: string) {
+  const entry = providerId
+    ? entries.find(e => e.id === providerId)
+    : entries.find(e => !e.unavailableReason && e.id !== 'mock');
+  if (!entry) return { error: providerId ? `Unknown provider "${providerId}".` : 'No model provider is configured.' };
+  if (entry.unavailableReason) return { error: `${entry.label} is not available: ${entry.unavailableReason}.` };
+  if (model && !entry.models.includes(model)) return { error: `${entry.label} does not offer model "${model}".` };
+  return { entry, model: model || entry.models[0] };
+}
@@ -0,0 +1,20 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Converts the Gemini response schemas the analysis uses (upper-case `Type`
+// names, string item counts) into standard JSON Schema for other providers.
+export function toJsonSchema(schema: object): Record<string, unknown> {
+  const node = schema as Record<string, unknown>;
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(node)) {
+    if (key === 'type' && typeof value === 'string') out.type = value.toLowerCase();
+    else if ((key === 'minItems' || key === 'maxItems') && typeof value === 'string') out[key] = Number(value);
+    else if (key === 'items' && value && typeof value === 'object') out.items = toJsonSchema(value);
+    else if (key === 'properties' && value && typeof value === 'object') {
+      out.properties = Object.fromEntries(Object.entries(value).map(([name, child]) => [name, toJsonSchema(child)]));
+    } else out[key] = value;
+  }
+  return out;
+}
@@ -0,0 +1,385 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Aspect, Severity } from '../../src/types';
+import { estimateUsage } from '../usage';
+import type { ModelProvider } from './types';
+
+export const MOCK_MODEL = 'mock-analyst';
+
+export interface MockOptions {
+  // Pause between streamed chunks so the UI visibly fills in; 0 for tests.
+  chunkDelayMs?: number;
+}
+
+interface PromptReview {
+  number: number;
+  text: string;
+  rating?: number;
+  competitor?: string;
+}
+
+interface MockFinding {
+  text: string;
+  severity: Severity;
+  reviewNumbers: number[];
+  quotes: string[];
+}
+
+// Keyword rules standing in for a model's reading of each review.
+const ASPECT_RULES: [Aspect, RegExp][] = [
+  ['shipping', /ship|deliver|arriv|package|courier|tracking/i],
+  ['checkout', /checkout|cart|payment|discount code|coupon/i],
+  ['support', /support|customer service|respond|refund|email|agent/i],
+  ['pricing', /price|pricey|expensive|cheap|cost|subscription/i],
+  ['app stability', /crash|bug|freez|\bapp\b|slow to load|website/i],
+  ['search', /search|find|filter/i],
+  ['product quality', /quality|broke|defect|durable|material|product/i],
+];
+
+const POSITIVE_WORDS = /\b(love|great|excellent|amazing|perfect|happy|good|better|fast|easy|recommend|quality)\b/gi;
+const NEGATIVE_WORDS = /\b(slow|late|never|crash\w*|broke\w*|bad|poor|terrible|confusing|difficult|frustrat\w*|expensive|didn't|gave up|wish|worst|disappoint\w*|without)\b/gi;
+
+const PAIN_POINTS: Record<Aspect, string> = {
+  shipping: 'Slow shipping with little or no delivery updates',
+  checkout: 'Checkout is long, confusing or error-prone',
+  support: 'Customer support is slow to respond',
+  pricing: 'Prices feel high compared to competitors',
+  'app stability': 'The app or website is slow or crashes',
+  search: 'Products are hard to find with search',
+  'product quality': 'Product quality is inconsistent',
+  other: 'General dissatisfaction with the experience',
+};
+
+const STRENGTHS: Record<Aspect, string> = {
+  shipping: 'Fast, reliable delivery',
+  checkout: 'Quick and easy checkout',
+  support: 'Helpful, responsive customer support',
+  pricing: 'Good value for the price',
+  'app stability': 'A fast, dependable app and website',
+  search: 'Products are easy to find',
+  'product quality': 'High product quality',
+  other: 'A pleasant overall experience',
+};
+
+// Only issues that stop or discourage a purchase count as blockers.
+const BLOCKERS: Partial<Record<Aspect, string>> = {
+  checkout: 'Friction at checkout leads to abandoned carts',
+  pricing: 'Price-sensitive shoppers leave for cheaper alternatives',
+  'app stability': 'Crashes and slow pages interrupt purchases',
+  search: 'Shoppers cannot find what they want to buy',
+  shipping: 'Long delivery times put off repeat orders',
+};
+
+const REVIEW_LINE = /^\s*\[#(\d+)\](?:\s*\(([^)]*)\))?\s*(.*)$/gm;
+const FINDING_LINE = /^\s*- (.+) \((low|medium|high|critical) severity, raised in (\d+) reviews\)$/gm;
+// Chat prompts also list the [#n] reviews behind each finding.
+const CITED_FINDING_LINE = /^\s*- (.+) \((low|medium|high|critical) severity, raised in (\d+) reviews: ([^)]*)\)$/gm;
+const USER_LINE = /^User: (.*)$/gm;
+// Business Profile fields, as the prompt templates list them.
+const PROFILE_LINE = /^\s*- (Industry|Target segments|Sales channels): (.+)$/gm;
+// The reduce pass lists each brand's findings under headings like these.
+const BRAND_HEADING = /^\s*(?:Our business|Competitor "([^"]+)"), what customers (praise|complain about):\s*$/;
+
+function parseReviews(prompt: string): PromptReview[] {
+  return [...prompt.matchAll(REVIEW_LINE)].map(([, number, meta, text]) => {
+    const stars = meta?.match(/(\d+(?:\.\d+)?)★/);
+    const competitor = meta?.match(/competitor: ([^|]+)/)?.[1].trim();
+    return {
+      number: Number(number),
+      text: text.trim(),
+      ...(stars ? { rating: Number(stars[1]) } : {}),
+      ...(competitor ? { competitor } : {}),
+    };
+  });
+}
+
+function scoreReview(review: PromptReview) {
+  const positive = review.text.match(POSITIVE_WORDS)?.length ?? 0;
+  const negative = review.text.match(NEGATIVE_WORDS)?.length ?? 0;
+  const fromWords = positive + negative ? (positive - negative) / (positive + negative) : 0;
+  const score = review.rating === undefined ? fromWords : (fromWords + (review.rating - 3) / 2) / 2;
+  return Math.round(Math.max(-1, Math.min(1, score)) * 100) / 100;
+}
+
+function aspectsOf(review: PromptReview): Aspect[] {
+  const aspects = ASPECT_RULES.filter(([, pattern]) => pattern.test(review.text)).map(([aspect]) => aspect);
+  return aspects.length ? aspects : ['other'];
+}
+
+function severityFor(share: number): Severity {
+  if (share >= 0.4) return 'critical';
+  if (share >= 0.25) return 'high';
+  if (share >= 0.1) return 'medium';
+  return 'low';
+}
+
+// The opening words of a review, which are by construction a verbatim excerpt.
+const excerpt = (text: string) => text.split(/\s+/).slice(0, 8).join(' ');
+
+function analyzeReviews(reviews: PromptReview[]) {
+  const insights = reviews.map(r => ({ reviewNumber: r.number, score: scoreReview(r), aspects: aspectsOf(r) }));
+  const negativeByAspect = new Map<Aspect, PromptReview[]>();
+  const positiveByAspect = new Map<Aspect, PromptReview[]>();
+  reviews.forEach((review, i) => {
+    const byAspect = insights[i].score < 0 ? negativeByAspect : insights[i].score > 0 ? positiveByAspect : null;
+    for (const aspect of byAspect ? insights[i].aspects : []) byAspect!.set(aspect, [...(byAspect!.get(aspect) ?? []), review]);
+  });
+
+  const finding = (text: string, cited: PromptReview[]): MockFinding => ({
+    text,
+    severity: severityFor(cited.length / Math.max(1, reviews.length)),
+    reviewNumbers: cited.map(r => r.number),
+    quotes: cited.slice(0, 3).map(r => excerpt(r.text)),
+  });
+  const rank = (byAspect: Map<Aspect, PromptReview[]>) => [...byAspect.entries()].sort((a, b) => b[1].length - a[1].length);
+  const ranked = rank(negativeByAspect);
+  const average = insights.reduce((sum, i) => sum + i.score, 0) / Math.max(1, insights.length);
+
+  return {
+    reviewInsights: insights,
+    painPoints: ranked.map(([aspect, cited]) => finding(PAIN_POINTS[aspect], cited)),
+    salesBlockers: ranked.filter(([aspect]) => BLOCKERS[aspect]).map(([aspect, cited]) => finding(BLOCKERS[aspect]!, cited)),
+    strengths: rank(positiveByAspect).map(([aspect, cited]) => finding(STRENGTHS[aspect], cited)),
+    average,
+  };
+}
+
+// One brand's praise and complaints by aspect, read from its reviews or from the reduce prompt.
+interface BrandSide {
+  competitor: string | null;
+  praised: Map<Aspect, MockFinding>;
+  complaints: Map<Aspect, MockFinding>;
+}
+
+const aspectOf = (text: string, names: Record<Aspect, string>) =>
+  (Object.keys(names) as Aspect[]).find(aspect => names[aspect] === text);
+
+function sideFrom(competitor: string | null, strengths: MockFinding[], painPoints: MockFinding[]): BrandSide {
+  const byAspect = (findings: MockFinding[], names: Record<Aspect, string>) =>
+    new Map(findings.flatMap(f => {
+      const aspect = aspectOf(f.text, names);
+      // "Other" says nothing a competitor could be compared on.
+      return aspect && aspect !== 'other' ? [[aspect, f] as const] : [];
+    }));
+  return { competitor, praised: byAspect(strengths, STRENGTHS), complaints: byAspect(painPoints, PAIN_POINTS) };
+}
+
+// Reads the per-brand finding lists back out of a reduce prompt.
+function parseBrandSides(prompt: string): BrandSide[] {
+  const lists = new Map<string | null, { strengths: MockFinding[]; painPoints: MockFinding[] }>();
+  let current: MockFinding[] | null = null;
+  for (const line of prompt.split('\n')) {
+    const heading = line.match(BRAND_HEADING);
+    if (heading) {
+      const competitor = heading[1] ?? null;
+      if (!lists.has(competitor)) lists.set(competitor, { strengths: [], painPoints: [] });
+      current = heading[2] === 'praise' ? lists.get(competitor)!.strengths : lists.get(competitor)!.painPoints;
+      continue;
+    }
+    const found = current && [...line.matchAll(FINDING_LINE)][0];
+    if (found) current!.push({ text: found[1], severity: found[2] as Severity, reviewNumbers: [], quotes: [] });
+    else if (line.trim() && !line.trim().startsWith('- None')) current = null;
+  }
+  return [...lists.entries()].map(([competitor, l]) => sideFrom(competitor, l.strengths, l.painPoints));
+}
+
+// Opportunities, threats and feature gaps from comparing each competitor's aspects with ours.
+// Items cite reviews when the prompt had them, and the brand findings they draw on otherwise.
+function positioning(sides: BrandSide[], citesReviews: boolean) {
+  const [ours, ...competitors] = sides;
+  const item = (text: string, competitor: string, sources: (MockFinding | undefined)[]) => {
+    const used = sources.filter((s): s is MockFinding => !!s);
+    const severity = used[0]?.severity ?? 'medium';
+    return citesReviews
+      ? { text, competitor, severity, reviewNumbers: [...new Set(used.flatMap(s => s.reviewNumbers))], quotes: used.flatMap(s => s.quotes).slice(0, 3) }
+      : { text, competitor, severity, basedOn: used.map(s => s.text) };
+  };
+  const opportunities = [];
+  const threats = [];
+  const featureGaps = [];
+  for (const them of competitors) {
+    const name = them.competitor!;
+    for (const [aspect, complaint] of them.complaints) {
+      if (!ours?.complaints.has(aspect)) {
+        opportunities.push(item(`${name}'s customers complain about ${aspect}, which ours don't raise`, name, [complaint, ours?.praised.get(aspect)]));
+      }
+    }
+    for (const [aspect, praise] of them.praised) {
+      if (ours?.complaints.has(aspect)) {
+        threats.push(item(`${name} is praised for ${aspect}, which our customers complain about`, name, [praise, ours.complaints.get(aspect)]));
+      } else if (!ours?.praised.has(aspect)) {
+        featureGaps.push(item(`${name}'s customers value ${aspect}, which ours never mention`, name, [praise]));
+      }
+    }
+  }
+  const priceLine = (side: BrandSide) => {
+    const label = side.competitor ?? 'Our business';
+    if (side.complaints.has('pricing')) return `- **${label}**: customers find prices high for what they get.`;
+    if (side.praised.has('pricing')) return `- **${label}**: customers see good value for the price.`;
+    return `- **${label}**: price rarely comes up.`;
+  };
+  return { opportunities, threats, featureGaps, pricePerception: sides.map(priceLine).join('\n') };
+}
+
+function describeSentiment(average: number) {
+  if (average > 0.2) return 'Mostly positive';
+  if (average < -0.2) return 'Mostly negative';
+  return 'Mixed';
+}
+
+// Opens the strategies with what the Business Profile says, so a filled-in profile shows up in the demo.
+function tailoring(prompt: string) {
+  const profile = Object.fromEntries([...prompt.matchAll(PROFILE_LINE)].map(([, field, value]) => [field, value.trim()]));
+  const parts = [
+    profile.Industry && profile.Industry,
+    profile['Target segments'] && `selling to ${profile['Target segments']}`,
+    profile['Sales channels'] && `through ${profile['Sales channels']}`,
+  ].filter(Boolean);
+  return parts.length ? `Tailored to the business profile (${parts.join('; ')}).\n\n` : '';
+}
+
+function strategy(issues: { text: string; severity: Severity }[], average: number, against?: ReturnType<typeof positioning>, tailored = '') {
+  const top = issues.slice(0, 3);
+  const list = top.map(i => `- **${i.text}** (${i.severity} severity)`).join('\n') || '- No major issues found';
+  const start = Math.round((1 + Math.max(0, average) * 2) * 10) / 10;
+  const competitive = against
+    ? `\n\n### Against the competition\n\n${[
+        ...against.opportunities.map(o => `- **Win over:** ${o.text}.`),
+        ...against.threats.map(t => `- **Counter:** ${t.text}.`),
+        ...against.featureGaps.map(g => `- **Close the gap:** ${g.text}.`),
+      ].join('\n') || '- No clear gaps between the brands.'}`
+    : '';
+  return {
+    sentiment: describeSentiment(average),
+    marketingStrategy: `${tailored}Lead messaging with what customers already praise, and address the top concerns head-on:\n\n${list}\n\nPublish a short "what we fixed" update as each issue is resolved.${competitive}`,
+    salesStrategy: `${tailored}Prioritize fixes by how many reviews raise them:\n\n${list}\n\nTrack conversion at each affected step before and after the fix.`,
+    annualIncrementPlan: `### Q1: Fix the biggest blockers\n${list}\n\n### Q2: Sales enablement\nEquip support and sales with answers to recurring objections.\n\n### Q3: Market expansion\nReinvest savings into acquisition channels with the best reviews.\n\n### Q4: Customer lifetime value\nLaunch loyalty and repeat-purchase incentives.`,
+    growthProjection: Array.from({ length: 6 }, (_, i) => ({
+      month: `Month ${i + 1}`,
+      current: start,
+      projected: Math.round((start + (i + 1) * 0.3 * Math.max(1, top.length)) * 10) / 10,
+    })),
+  };
+}
+
+const PILLARS = ['Sales Enablement', 'Market Expansion', 'Customer Lifetime Value'];
+const OWNERS = ['Head of Product', 'Head of Sales', 'Marketing Lead', 'Customer Success Lead'];
+
+// One initiative per blocker, worst first, plus the loyalty work the plan ends on.
+function initiatives(blockers: { text: string; severity: Severity }[]) {
+  const fixes = blockers.slice(0, 6).map((blocker, i) => ({
+    title: `Remove the blocker: ${blocker.text}`,
+    pillar: PILLARS[i % PILLARS.length],
+    ownerRole: OWNERS[i % OWNERS.length],
+    quarter: `Q${Math.min(4, i + 1)}`,
+    effort: blocker.severity === 'critical' || blocker.severity === 'high' ? 'high' : blocker.severity,
+    expectedImpact: `Recover sales lost to a ${blocker.severity}-severity blocker`,
+    addresses: [blocker.text],
+  }));
+  return [
+    ...fixes,
+    {
+      title: 'Launch a loyalty and repeat-purchase program',
+      pillar: 'Customer Lifetime Value',
+      ownerRole: 'Marketing Lead',
+      quarter: 'Q4',
+      effort: 'medium',
+      expectedImpact: 'More repeat orders from existing customers',
+      addresses: [],
+    },
+  ];
+}
+
+const words = (text: string) => new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(w => w.length > 3));
+
+// Answers from the findings that share words with the question, or the top
+// three when none do.
+function chatAnswer(prompt: string) {
+  const question = [...prompt.matchAll(USER_LINE)].at(-1)?.[1].trim() ?? '';
+  const findings = [...prompt.matchAll(CITED_FINDING_LINE)].map(([, text, severity, count, cited]) => ({ text, severity, count, cited }));
+  const asked = words(question);
+  const related = findings.filter(f => [...words(f.text)].some(w => asked.has(w)));
+  const relevant = (related.length ? related : findings).slice(0, 3);
+  if (relevant.length === 0) return `The reviews in this report don't raise any issues related to "${question}".`;
+  const list = relevant.map(f => `- **${f.text}** (${f.severity} severity, ${f.count} reviews: ${f.cited})`).join('\n');
+  return `Here is what the reviews say that bears on "${question}":\n\n${list}\n\n### Suggested next steps\n\n1. Fix the highest-severity issue first and tell the customers who raised it.\n2. Measure the affected step before and after the change.\n3. Re-run the analysis on new reviews to confirm the complaints drop.`;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Reads the reviews (or merged findings) back out of the prompt and answers
+// with keyword-based results. The same prompt always gets the same answer,
+// so the app can be demoed and tested without network access or a key.
+export function createMockProvider({ chunkDelayMs = 40 }: MockOptions = {}): ModelProvider {
+  // Sends the answer in about ten chunks, like a model streaming its output.
+  const stream = async (text: string, signal?: AbortSignal, onText?: (text: string) => void) => {
+    const chunkSize = Math.max(64, Math.ceil(text.length / 10));
+    for (let end = chunkSize; end < text.length; end += chunkSize) {
+      if (chunkDelayMs) await sleep(chunkDelayMs, signal);
+      signal?.throwIfAborted();
+      onText?.(text.slice(0, end));
+    }
+    onText?.(text);
+    return text;
+  };
+
+  return {
+    async generateJson({ prompt, schema, signal, onText, onUsage }) {
+      signal?.throwIfAborted();
+      const reviews = parseReviews(prompt);
+      // Each brand is read on its own; competitors' pain points only matter to the batch pass.
+      const brands = [null, ...new Set(reviews.flatMap(r => (r.competitor ? [r.competitor] : [])))];
+      const sides = brands.map(competitor => ({ competitor, ...analyzeReviews(reviews.filter(r => (r.competitor ?? null) === competitor)) }));
+      const analysis = sides[0];
+      // The reduce pass lists merged findings instead of reviews.
+      const findingsIn = (text: string) => [...text.matchAll(FINDING_LINE)].map(([, text, severity]) => ({ text, severity: severity as Severity }));
+      const merged = findingsIn(prompt.split('Sentiment by batch:')[0]);
+      const mergedBlockers = findingsIn(prompt.split('Sales blockers:')[1]?.split('Sentiment by batch:')[0] ?? '');
+      const issues = reviews.length ? [...analysis.salesBlockers, ...analysis.painPoints] : merged;
+      const against = brands.length > 1
+        ? positioning(sides.map(s => sideFrom(s.competitor, s.strengths, s.painPoints)), true)
+        : reviews.length ? undefined : positioning(parseBrandSides(prompt), false);
+      const everything: Record<string, unknown> = {
+        painPoints: sides.flatMap(s => s.painPoints),
+        salesBlockers: analysis.salesBlockers,
+        strengths: sides.flatMap(s => s.strengths),
+        reviewInsights: sides.flatMap(s => s.reviewInsights),
+        ...strategy(
+          issues,
+          analysis.average,
+          against?.opportunities.length || against?.threats.length || against?.featureGaps.length ? against : undefined,
+          tailoring(prompt),
+        ),
+        initiatives: initiatives(reviews.length ? analysis.salesBlockers : mergedBlockers),
+        positioning: against,
+      };
+
+      // Answer with exactly the fields the requested schema asks for.
+      const properties = Object.keys((schema as { properties?: object }).properties ?? {});
+      const text = await stream(JSON.stringify(Object.fromEntries(properties.map(key => [key, everything[key]]))), signal, onText);
+      onUsage?.(estimateUsage(prompt, text));
+      return text;
+    },
+
+    async generateText({ prompt, signal, onText, onUsage }) {
+      signal?.throwIfAborted();
+      const text = await stream(chatAnswer(prompt), signal, onText);
+      onUsage?.(estimateUsage(prompt, text));
+      return text;
+    },
+  };
+}
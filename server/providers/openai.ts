@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AnalysisError, ProviderHttpError } from '../errors';
+import { estimateUsage } from '../usage';
+import { toJsonSchema } from './jsonSchema';
+import type { GenerateTextRequest, ModelProvider } from './types';
+
+export interface OpenAiOptions {
+  // e.g. https://api.openai.com/v1, or a local server such as http://localhost:11434/v1
+  baseUrl: string;
+  // Local servers usually accept any key, or none.
+  apiKey?: string;
+}
+
+interface ChatChunk {
+  choices?: { delta?: { content?: string }; finish_reason?: string | null }[];
+  // Only on the final chunk, and only from servers that honor `stream_options`.
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+}
+
+// Any server that speaks the OpenAI chat completions API. The schema is sent
+// both as `response_format` and in the system prompt, since not every
+// compatible server enforces `response_format`.
+export function createOpenAiProvider({ baseUrl, apiKey }: OpenAiOptions): ModelProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const complete = async ({ model, prompt, signal, onText, onUsage }: GenerateTextRequest, system: string | null, extra: object) => {
+    const res = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        stream: true,
+        stream_options: { include_usage: true },
+        messages: [
+          ...(system ? [{ role: 'system', content: system }] : []),
+          { role: 'user', content: prompt },
+        ],
+        ...extra,
+      }),
+      signal,
+    });
+    if (!res.ok || !res.body) {
+      const detail = await res.text().catch(() => '');
+      throw new ProviderHttpError(res.status, `Chat completion failed with status ${res.status}: ${detail.slice(0, 500)}`);
+    }
+
+    // Server-sent events: one `data: {...}` line per chunk, then `data: [DONE]`.
+    const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    let text = '';
+    let usage: ChatChunk['usage'];
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop()!;
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+        const chunk = JSON.parse(data) as ChatChunk;
+        usage = chunk.usage ?? usage;
+        const choice = chunk.choices?.[0];
+        if (choice?.finish_reason === 'content_filter') throw new AnalysisError('safety', 'content_filter');
+        if (choice?.delta?.content) {
+          text += choice.delta.content;
+          onText?.(text);
+        }
+      }
+    }
+    onUsage?.(usage?.prompt_tokens !== undefined
+      ? { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens ?? 0 }
+      : estimateUsage(`${system ?? ''}${prompt}`, text));
+    return text;
+  };
+
+  return {
+    async generateJson({ schema, ...request }) {
+      const jsonSchema = toJsonSchema(schema);
+      const text = await complete(
+        request,
+        `Respond with a single JSON object that matches this JSON Schema, and nothing else:\n${JSON.stringify(jsonSchema)}`,
+        { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: jsonSchema } } },
+      );
+      // Some models wrap JSON in a Markdown code fence despite instructions.
+      return text.trim().replace(/^```(?:json)?\s*|\s*```$/g, '') || '{}';
+    },
+
+    generateText(request) {
+      return complete(request, null, {});
+    },
+  };
+}
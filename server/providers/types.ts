@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { TokenUsage } from '../../src/types';
+
+export interface GenerateTextRequest {
+  model: string;
+  prompt: string;
+  signal?: AbortSignal;
+  // Called with all the text received so far, each time more streams in.
+  onText?: (text: string) => void;
+  // Called once the call finishes with the tokens it consumed, for metering.
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface GenerateJsonRequest extends GenerateTextRequest {
+  schema: object;
+}
+
+// Anything that can turn a prompt plus a response schema into a JSON string,
+// or a prompt into free-form Markdown for follow-up chat.
+// The server only talks to models through this, so a fake can be swapped in.
+// Providers that can't stream may skip `onText` and just return the full text.
+export interface ModelProvider {
+  generateJson(request: GenerateJsonRequest): Promise<string>;
+  generateText(request: GenerateTextRequest): Promise<string>;
+}
+
+// A provider as offered in the model picker.
+export interface ProviderEntry {
+  id: string;
+  label: string;
+  models: string[];
+  // Set when the provider can't be used, e.g. because its API key is missing.
+  unavailableReason?: string;
+  provider: ModelProvider;
+}
@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Epoch milliseconds when the current window ends.
+  resetAt: number;
+}
+
+// Counts requests per key in fixed windows. Counts live in memory, so they
+// apply per server process and start over after a restart.
+export function createRateLimiter(windowMs = 60_000) {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  return {
+    take(key: string, limit: number, now = Date.now()): RateLimitResult {
+      let window = windows.get(key);
+      if (!window || now - window.start >= windowMs) {
+        window = { start: now, count: 0 };
+        windows.set(key, window);
+      }
+      const allowed = window.count < limit;
+      if (allowed) window.count++;
+      return { allowed, limit, remaining: limit - window.count, resetAt: window.start + windowMs };
+    },
+  };
+}
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
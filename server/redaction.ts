@@ -0,0 +1,27 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DEFAULT_REDACTION_RULES, normalizeRedactionRules } from '../src/lib/redaction';
+import type { RedactionRules } from '../src/types';
+import type { Db } from './db';
+
+// What each workspace redacts. One that never saved rules redacts every kind.
+export function createRedactionStore(db: Db) {
+  return {
+    rules(workspaceId: string): RedactionRules {
+      const row = db.prepare('SELECT rules FROM redaction_rules WHERE workspace_id = ?').get(workspaceId) as { rules: string } | undefined;
+      return row ? normalizeRedactionRules(JSON.parse(row.rules)) : DEFAULT_REDACTION_RULES;
+    },
+
+    saveRules(workspaceId: string, rules: RedactionRules, userId: string): RedactionRules {
+      db.prepare(`INSERT INTO redaction_rules (workspace_id, rules, updated_by, updated_at) VALUES (?, ?, ?, ?)
+        ON CONFLICT (workspace_id) DO UPDATE SET rules = excluded.rules, updated_by = excluded.updated_by, updated_at = excluded.updated_at`)
+        .run(workspaceId, JSON.stringify(rules), userId, new Date().toISOString());
+      return rules;
+    },
+  };
+}
+
+export type RedactionStore = ReturnType<typeof createRedactionStore>;
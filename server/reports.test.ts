@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_REDACTION_RULES, redactReviews } from '../src/lib/redaction';
+import { SAMPLE_RESULT } from '../test/sampleReport';
+import { createAccountStore } from './auth';
+import { openDatabase } from './db';
+import { createReportStore } from './reports';
+import { createWorkspaceStore } from './workspaces';
+
+describe('report search', () => {
+  it('matches redacted originals but not the placeholders keying them', async () => {
+    const db = openDatabase(':memory:');
+    const user = (await createAccountStore(db).register({ email: 'ana@example.com', name: 'Ana', password: 'correct horse' }))!;
+    const workspace = createWorkspaceStore(db).create('Shop', user.id);
+    const reports = createReportStore(db);
+    reports.create({
+      ...redactReviews([{ text: 'Email me at jane.doe@example.com' }], DEFAULT_REDACTION_RULES),
+      language: 'English',
+      reportLanguage: 'English',
+      model: 'gemini-2.5-flash',
+      result: SAMPLE_RESULT,
+      workspaceId: workspace.id,
+      createdBy: user.id,
+    });
+    const search = (text: string) => reports.list(workspace.id, text).length;
+
+    expect(search('jane.doe')).toBe(1);
+    expect(search('EMAIL_1]":"jane')).toBe(0);
+  });
+});
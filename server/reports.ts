@@ -0,0 +1,192 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomUUID } from 'crypto';
+import { normalizeFindings } from '../src/lib/findings';
+import { normalizeInitiatives } from '../src/lib/initiatives';
+import { normalizePositioning } from '../src/lib/positioning';
+import { normalizeReviews } from '../src/lib/reviews';
+import type { AnalysisResult, Pin, Redactions, ReportSummary, ReviewRecord, SavedReport } from '../src/types';
+import type { Db } from './db';
+
+interface ReportRow {
+  id: string;
+  title: string;
+  reviews: string;
+  language: string;
+  report_language: string;
+  model: string;
+  created_at: string;
+  result: string;
+  workspace_id: string;
+  created_by: string | null;
+  redactions: string;
+}
+
+// Rows as read back, with the author's name joined in.
+type ReadRow = ReportRow & { author: string | null };
+type SummaryRow = Omit<ReadRow, 'reviews' | 'result' | 'redactions'>;
+
+interface PinRow {
+  id: string;
+  report_id: string;
+  question: string;
+  answer: string;
+  created_at: string;
+}
+
+export interface NewReport {
+  title?: string;
+  reviews: ReviewRecord[];
+  language: string;
+  reportLanguage: string;
+  model: string;
+  result: AnalysisResult;
+  // Placeholders in the reviews; none when nothing was redacted.
+  redactions?: Redactions;
+  workspaceId: string;
+  // Null for API runs whose key has outlived the user who made it.
+  createdBy: string | null;
+}
+
+const TITLE_LENGTH = 60;
+
+// First review's text, shortened. It stays redacted like the review, since titles
+// leave the app in webhooks and digests; a placeholder the cut would split is dropped.
+export function defaultTitle(reviews: ReviewRecord[]) {
+  const line = reviews[0]?.text || 'Untitled analysis';
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH - 1).replace(/\[[A-Z]*(?:_\d*)?$/, '').trimEnd()}…` : line;
+}
+
+function toSummary(row: SummaryRow): ReportSummary {
+  return {
+    id: row.id,
+    title: row.title,
+    language: row.language,
+    reportLanguage: row.report_language,
+    model: row.model,
+    createdAt: row.created_at,
+    workspaceId: row.workspace_id,
+    createdBy: row.author,
+  };
+}
+
+// Reports saved before structured import hold the raw textarea text.
+function parseStoredReviews(raw: string): ReviewRecord[] {
+  try {
+    return normalizeReviews(JSON.parse(raw)) ?? normalizeReviews(raw)!;
+  } catch {
+    return normalizeReviews(raw)!;
+  }
+}
+
+export function parseStoredResult(raw: string): AnalysisResult {
+  const result = JSON.parse(raw);
+  return {
+    ...result,
+    painPoints: normalizeFindings(result.painPoints),
+    salesBlockers: normalizeFindings(result.salesBlockers),
+    reviewInsights: Array.isArray(result.reviewInsights) ? result.reviewInsights : [],
+    initiatives: normalizeInitiatives(result.initiatives),
+    positioning: normalizePositioning(result.positioning),
+  };
+}
+
+function toPin(row: PinRow): Pin {
+  return { id: row.id, question: row.question, answer: row.answer, createdAt: row.created_at };
+}
+
+function toReport(row: ReadRow, pins: Pin[]): SavedReport {
+  return {
+    ...toSummary(row),
+    reviews: parseStoredReviews(row.reviews),
+    result: parseStoredResult(row.result),
+    pins,
+    redactions: JSON.parse(row.redactions),
+  };
+}
+
+const SELECT_WITH_AUTHOR = 'SELECT reports.*, users.name AS author FROM reports LEFT JOIN users ON users.id = reports.created_by';
+
+export function createReportStore(db: Db) {
+  const pinsOf = (reportId: string) =>
+    (db.prepare('SELECT * FROM report_pins WHERE report_id = ? ORDER BY created_at').all(reportId) as PinRow[]).map(toPin);
+
+  const get = (id: string): SavedReport | null => {
+    const row = db.prepare(`${SELECT_WITH_AUTHOR} WHERE reports.id = ?`).get(id) as ReadRow | undefined;
+    return row ? toReport(row, pinsOf(id)) : null;
+  };
+
+  return {
+    create(report: NewReport): SavedReport {
+      const row: ReportRow = {
+        id: randomUUID(),
+        title: report.title?.trim() || defaultTitle(report.reviews),
+        reviews: JSON.stringify(report.reviews),
+        language: report.language,
+        report_language: report.reportLanguage,
+        model: report.model,
+        created_at: new Date().toISOString(),
+        result: JSON.stringify(report.result),
+        workspace_id: report.workspaceId,
+        created_by: report.createdBy,
+        redactions: JSON.stringify(report.redactions ?? {}),
+      };
+      db.prepare(`INSERT INTO reports (id, title, reviews, language, report_language, model, created_at, result, workspace_id, created_by, redactions)
+        VALUES (@id, @title, @reviews, @language, @report_language, @model, @created_at, @result, @workspace_id, @created_by, @redactions)`).run(row);
+      return get(row.id)!;
+    },
+
+    // Matches the search text against titles, the review text and the redacted
+    // originals, leaving out the JSON keys and quotes around those.
+    list(workspaceId: string, search = ''): ReportSummary[] {
+      const pattern = `%${search.trim().replace(/[\\%_]/g, c => `\\${c}`)}%`;
+      const rows = db.prepare(`SELECT reports.id, title, language, report_language, model, reports.created_at, workspace_id, users.name AS author
+        FROM reports LEFT JOIN users ON users.id = reports.created_by
+        WHERE workspace_id = ? AND (title LIKE ? ESCAPE '\\' OR reviews LIKE ? ESCAPE '\\'
+          OR EXISTS (SELECT 1 FROM json_each(reports.redactions) WHERE value LIKE ? ESCAPE '\\'))
+        ORDER BY reports.created_at DESC`).all(workspaceId, pattern, pattern, pattern) as SummaryRow[];
+      return rows.map(toSummary);
+    },
+
+    get,
+
+    // Reports saved before accounts existed belong to no workspace until one adopts them.
+    adoptUnassigned(workspaceId: string): number {
+      return db.prepare('UPDATE reports SET workspace_id = ? WHERE workspace_id IS NULL').run(workspaceId).changes;
+    },
+
+    // `redactions` is the report's map extended with whatever the new title added.
+    rename(id: string, title: string, redactions: Redactions): boolean {
+      return db.prepare('UPDATE reports SET title = ?, redactions = ? WHERE id = ?')
+        .run(title.trim(), JSON.stringify(redactions), id).changes > 0;
+    },
+
+    remove(id: string): boolean {
+      return db.prepare('DELETE FROM reports WHERE id = ?').run(id).changes > 0;
+    },
+
+    // Returns null when the report doesn't exist.
+    addPin(reportId: string, pin: { question: string; answer: string }): Pin | null {
+      if (!db.prepare('SELECT 1 FROM reports WHERE id = ?').get(reportId)) return null;
+      const row: PinRow = {
+        id: randomUUID(),
+        report_id: reportId,
+        question: pin.question.trim(),
+        answer: pin.answer.trim(),
+        created_at: new Date().toISOString(),
+      };
+      db.prepare(`INSERT INTO report_pins (id, report_id, question, answer, created_at)
+        VALUES (@id, @report_id, @question, @answer, @created_at)`).run(row);
+      return toPin(row);
+    },
+
+    removePin(reportId: string, pinId: string): boolean {
+      return db.prepare('DELETE FROM report_pins WHERE id = ? AND report_id = ?').run(pinId, reportId).changes > 0;
+    },
+  };
+}
+
+export type ReportStore = ReturnType<typeof createReportStore>;
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DEFAULT_REPORT_LANGUAGE, isReportLanguage } from '../src/lib/i18n';
+import { PLANS } from '../src/lib/plans';
+import { competitorsIn, MAX_COMPETITORS } from '../src/lib/positioning';
+import { DEFAULT_TEMPLATE, isTemplateId, TEMPLATE_IDS } from '../src/lib/promptTemplates';
+import { normalizeReviews } from '../src/lib/reviews';
+import type { PlanId, ReviewRecord, TemplateId } from '../src/types';
+import { selectModel } from './providers';
+import type { ProviderEntry } from './providers/types';
+
+// The picker's provider and model from a request body, or the first usable ones.
+export const selectFromBody = (providers: ProviderEntry[], body: Record<string, unknown>) =>
+  selectModel(
+    providers,
+    typeof body.provider === 'string' ? body.provider : undefined,
+    typeof body.model === 'string' ? body.model : undefined,
+  );
+
+export interface AnalyzeBody {
+  reviews: ReviewRecord[];
+  language: string;
+  reportLanguage: string;
+  title?: string;
+  template: TemplateId;
+  entry: ProviderEntry;
+  model: string;
+}
+
+// Validates an analysis request from the app or the public API. Errors are
+// worded for a 400 response.
+export function readAnalyzeBody(providers: ProviderEntry[], body: unknown): AnalyzeBody | { error: string } {
+  const fields = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  const reviews = normalizeReviews(fields.reviews);
+  if (!reviews?.length) {
+    return { error: 'Request body must include "reviews" as review records or non-empty text.' };
+  }
+  const competitors = competitorsIn(reviews);
+  if (competitors.length > MAX_COMPETITORS) {
+    return { error: `Reviews name ${competitors.length} competitors; an analysis can compare at most ${MAX_COMPETITORS}.` };
+  }
+  if (competitors.length && reviews.every(r => r.competitor)) {
+    return { error: 'Include your own reviews, without "competitor", alongside the competitors\' reviews.' };
+  }
+  const reportLanguage = fields.reportLanguage ?? DEFAULT_REPORT_LANGUAGE;
+  if (!isReportLanguage(reportLanguage)) {
+    return { error: `Unsupported report language "${reportLanguage}".` };
+  }
+  const template = fields.template ?? DEFAULT_TEMPLATE;
+  if (!isTemplateId(template)) {
+    return { error: `"template" must be one of ${TEMPLATE_IDS.join(', ')}.` };
+  }
+  const selected = selectFromBody(providers, fields);
+  if ('error' in selected) return { error: selected.error };
+  return {
+    reviews,
+    language: typeof fields.language === 'string' && fields.language ? fields.language : 'Auto-detect',
+    reportLanguage,
+    title: typeof fields.title === 'string' ? fields.title : undefined,
+    template,
+    entry: selected.entry,
+    model: selected.model,
+  };
+}
+
+// Why the workspace's plan can't run this analysis, worded for a 402 response; null when it can.
+export function planRefusal({ reviews }: Pick<AnalyzeBody, 'reviews'>, plan: PlanId): string | null {
+  if (competitorsIn(reviews).length && !PLANS[plan].competitorAnalysis) {
+    return `Competitor analysis is part of the ${PLANS.pro.name} plan. Upgrade the workspace to analyze competitors' reviews.`;
+  }
+  return null;
+}
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router, type Request, type Response } from 'express';
+import type { Account, User } from '../../src/types';
+import {
+  clearSessionCookie,
+  currentUser,
+  MIN_PASSWORD_LENGTH,
+  requireUser,
+  sessionToken,
+  setSessionCookie,
+  type AccountStore,
+} from '../auth';
+import type { ReportStore } from '../reports';
+import type { WorkspaceStore } from '../workspaces';
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function authRouter(accounts: AccountStore, workspaces: WorkspaceStore, reports: ReportStore) {
+  const router = Router();
+  const account = (user: User): Account => ({ user, workspaces: workspaces.listFor(user.id) });
+  const signIn = (req: Request, res: Response, user: User) =>
+    setSessionCookie(req, res, accounts.startSession(user.id));
+
+  // Every new account gets a workspace of its own; the very first one also
+  // takes over the reports saved before accounts existed.
+  router.post('/signup', async (req, res) => {
+    const { email, name, password } = (req.body ?? {}) as { email?: unknown; name?: unknown; password?: unknown };
+    if (typeof email !== 'string' || !EMAIL.test(email.trim())) {
+      res.status(400).json({ error: 'Enter a valid email address.' });
+      return;
+    }
+    if (typeof name !== 'string' || !name.trim()) {
+      res.status(400).json({ error: 'Enter your name.' });
+      return;
+    }
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      res.status(400).json({ error: `Passwords must be at least ${MIN_PASSWORD_LENGTH} characters.` });
+      return;
+    }
+    const user = await accounts.register({ email, name, password });
+    if (!user) {
+      res.status(409).json({ error: 'An account with this email already exists.' });
+      return;
+    }
+    const workspace = workspaces.create(`${user.name}'s Workspace`, user.id);
+    if (accounts.count() === 1) reports.adoptUnassigned(workspace.id);
+    signIn(req, res, user);
+    res.status(201).json(account(user));
+  });
+
+  router.post('/login', async (req, res) => {
+    const { email, password } = (req.body ?? {}) as { email?: unknown; password?: unknown };
+    const user = typeof email === 'string' && typeof password === 'string'
+      ? await accounts.authenticate(email, password)
+      : null;
+    if (!user) {
+      res.status(401).json({ error: 'Incorrect email or password.' });
+      return;
+    }
+    signIn(req, res, user);
+    res.json(account(user));
+  });
+
+  router.post('/logout', (req, res) => {
+    const token = sessionToken(req);
+    if (token) accounts.endSession(token);
+    clearSessionCookie(res);
+    res.status(204).end();
+  });
+
+  router.get('/me', requireUser(accounts), (_req, res) => {
+    res.json(account(currentUser(res)));
+  });
+
+  return router;
+}
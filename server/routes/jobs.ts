@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from 'express';
+import { currentUser } from '../auth';
+import type { JobStore } from '../jobs';
+import type { JobWorker } from '../worker';
+import { workspaceAccess, type WorkspaceStore } from '../workspaces';
+
+export function jobsRouter(jobs: JobStore, worker: JobWorker, workspaces: WorkspaceStore) {
+  const router = Router();
+  const canStop = workspaceAccess(workspaces, 'editor', 'Viewers cannot stop analyses in this workspace.');
+
+  // The signed-in user's own analyses that are running, or finished while they were away.
+  router.get('/', (_req, res) => {
+    res.json(jobs.forSubmitter(currentUser(res).id));
+  });
+
+  // Stops the finished-job notification from coming back.
+  router.post('/:id/seen', (req, res) => {
+    if (!jobs.markSeen(req.params.id, currentUser(res).id)) {
+      res.status(404).json({ error: 'Job not found.' });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  // The analyzer's Stop button. A running job stops shortly after; its reviews are refunded.
+  router.post('/:id/cancel', (req, res) => {
+    const job = jobs.find(req.params.id);
+    if (!job) {
+      res.status(404).json({ error: 'Job not found.' });
+      return;
+    }
+    if (!canStop(res, job.workspaceId, 'Job not found.')) return;
+    if (!worker.cancel(job.id)) {
+      res.status(409).json({ error: 'The analysis has already finished.' });
+      return;
+    }
+    res.status(202).end();
+  });
+
+  return router;
+}
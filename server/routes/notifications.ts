@@ -0,0 +1,167 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router, type Request, type Response } from 'express';
+import type { NotificationSettings } from '../../src/types';
+import { currentUser, normalizeEmail } from '../auth';
+import type { Deliverer } from '../deliverer';
+import { MAX_RECIPIENTS, MAX_WEBHOOKS, type NotificationStore } from '../notifications';
+import { checkTarget } from '../outbound';
+import { workspaceAccess, type WorkspaceStore } from '../workspaces';
+
+export interface NotificationsDeps {
+  notifications: NotificationStore;
+  deliverer: Deliverer;
+  workspaces: WorkspaceStore;
+  // Whether the server can send the email digest.
+  emailAvailable: boolean;
+  // Hosts on a private network that webhooks may still point at.
+  allowHosts?: string[];
+}
+
+// Angle brackets and commas are ruled out too, since recipients end up in a To header.
+const EMAIL = /^[^\s@<>,]+@[^\s@<>,]+\.[^\s@<>,]+$/;
+
+const MAX_DESCRIPTION_CHARS = 200;
+
+function readUrl(value: unknown): string | null {
+  try {
+    const url = new URL(String(value));
+    return ['http:', 'https:'].includes(url.protocol) ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+// Mounted under /api/workspaces/:id. Webhook URLs and secrets are as good as
+// credentials, so everything here is for editors only.
+export function notificationsRouter({ notifications, deliverer, workspaces, emailAvailable, allowHosts }: NotificationsDeps) {
+  const router = Router({ mergeParams: true });
+
+  const editor = workspaceAccess(workspaces, 'editor', 'Only editors can manage webhooks and email digests.');
+  // The workspace id from the mount path, or null once a 404 or 403 has been sent.
+  const access = (req: Request, res: Response) => (editor(res, req.params.id) ? req.params.id : null);
+
+  router.get('/notifications', (req, res) => {
+    const workspaceId = access(req, res);
+    if (!workspaceId) return;
+    const settings: NotificationSettings = {
+      webhooks: notifications.webhooks(workspaceId),
+      digest: notifications.digest(workspaceId),
+      emailAvailable,
+    };
+    res.json(settings);
+  });
+
+  router.post('/webhooks', async (req, res) => {
+    const { url, description = '' } = (req.body ?? {}) as { url?: unknown; description?: unknown };
+    const target = readUrl(url);
+    if (!target) {
+      res.status(400).json({ error: 'Request body must include an http or https "url".' });
+      return;
+    }
+    if (typeof description !== 'string' || description.length > MAX_DESCRIPTION_CHARS) {
+      res.status(400).json({ error: `"description" must be text of at most ${MAX_DESCRIPTION_CHARS} characters.` });
+      return;
+    }
+    const workspaceId = access(req, res);
+    if (!workspaceId) return;
+    // A host that doesn't resolve yet is let through; every delivery checks again.
+    const check = await checkTarget(target, allowHosts).catch(() => null);
+    if (check && 'error' in check) {
+      res.status(400).json({ error: check.error });
+      return;
+    }
+    if (notifications.webhooks(workspaceId).length >= MAX_WEBHOOKS) {
+      res.status(409).json({ error: `A workspace can have at most ${MAX_WEBHOOKS} webhooks. Delete one to add another.` });
+      return;
+    }
+    res.status(201).json(notifications.createWebhook(workspaceId, target, description, currentUser(res).id));
+  });
+
+  router.patch('/webhooks/:webhookId', (req, res) => {
+    const { enabled } = (req.body ?? {}) as { enabled?: unknown };
+    if (typeof enabled !== 'boolean') {
+      res.status(400).json({ error: 'Request body must include "enabled" as true or false.' });
+      return;
+    }
+    const workspaceId = access(req, res);
+    if (!workspaceId) return;
+    const webhook = notifications.setWebhookEnabled(workspaceId, req.params.webhookId, enabled);
+    if (!webhook) {
+      res.status(404).json({ error: 'Webhook not found.' });
+      return;
+    }
+    res.json(webhook);
+  });
+
+  router.delete('/webhooks/:webhookId', (req, res) => {
+    const workspaceId = access(req, res);
+    if (!workspaceId) return;
+    if (!notifications.removeWebhook(workspaceId, req.params.webhookId)) {
+      res.status(404).json({ error: 'Webhook not found.' });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  // Queues a signed "ping" payload; the result shows up in the delivery log.
+  router.post('/webhooks/:webhookId/test', (req, res) => {
+    const workspaceId = access(req, res);
+    if (!workspaceId) return;
+    const webhook = notifications.webhook(workspaceId, req.params.webhookId);
+    if (!webhook) {
+      res.status(404).json({ error: 'Webhook not found.' });
+      return;
+    }
+    res.status(202).json(deliverer.ping(workspaceId, webhook));
+  });
+
+  router.put('/digest', (req, res) => {
+    const { enabled, recipients } = (req.body ?? {}) as { enabled?: unknown; recipients?: unknown };
+    if (typeof enabled !== 'boolean' || !Array.isArray(recipients) || !recipients.every(r => typeof r === 'string')) {
+      res.status(400).json({ error: 'Request body must include "enabled" as true or false and "recipients" as a list of email addresses.' });
+      return;
+    }
+    const cleaned = [...new Set((recipients as string[]).map(normalizeEmail).filter(Boolean))];
+    const invalid = cleaned.find(r => !EMAIL.test(r));
+    if (invalid) {
+      res.status(400).json({ error: `"${invalid}" is not an email address.` });
+      return;
+    }
+    if (cleaned.length > MAX_RECIPIENTS) {
+      res.status(400).json({ error: `A digest can go to at most ${MAX_RECIPIENTS} recipients.` });
+      return;
+    }
+    if (enabled && !cleaned.length) {
+      res.status(400).json({ error: 'Add at least one recipient to turn the digest on.' });
+      return;
+    }
+    const workspaceId = access(req, res);
+    if (!workspaceId) return;
+    res.json(notifications.saveDigest(workspaceId, { enabled, recipients: cleaned }, currentUser(res).id));
+  });
+
+  // The retry log, newest first.
+  router.get('/deliveries', (req, res) => {
+    const workspaceId = access(req, res);
+    if (!workspaceId) return;
+    res.json(notifications.deliveries(workspaceId));
+  });
+
+  router.post('/deliveries/:deliveryId/retry', (req, res) => {
+    const workspaceId = access(req, res);
+    if (!workspaceId) return;
+    const delivery = notifications.redeliver(workspaceId, req.params.deliveryId);
+    if (!delivery) {
+      res.status(409).json({ error: 'Only failed deliveries can be retried.' });
+      return;
+    }
+    deliverer.wake();
+    res.status(202).json(delivery);
+  });
+
+  return router;
+}
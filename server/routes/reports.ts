@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { redactTitle } from '../../src/lib/redaction';
+import type { SavedReport, WorkspaceRole } from '../../src/types';
+import { currentUser } from '../auth';
+import type { RedactionStore } from '../redaction';
+import type { ReportStore } from '../reports';
+import { workspaceAccess, type WorkspaceStore } from '../workspaces';
+
+// Loads the report in `:id` if the user's role in its workspace allows `needed`,
+// otherwise answers 404 (not a member, so no hint it exists) or 403 and returns null.
+export function reportAccess(reports: ReportStore, workspaces: WorkspaceStore) {
+  const forbidden = 'Viewers cannot change reports in this workspace.';
+  const checks = { viewer: workspaceAccess(workspaces, 'viewer', forbidden), editor: workspaceAccess(workspaces, 'editor', forbidden) };
+  return (req: Request, res: Response, needed: WorkspaceRole): SavedReport | null => {
+    const report = reports.get(req.params.id);
+    if (!report) {
+      res.status(404).json({ error: 'Report not found.' });
+      return null;
+    }
+    return checks[needed](res, report.workspaceId, 'Report not found.') ? report : null;
+  };
+}
+
+export function reportsRouter(reports: ReportStore, workspaces: WorkspaceStore, redaction: RedactionStore) {
+  const router = Router();
+  const access = reportAccess(reports, workspaces);
+
+  router.get('/', (req, res) => {
+    const workspaceId = typeof req.query.workspace === 'string' ? req.query.workspace : '';
+    if (!workspaces.roleOf(workspaceId, currentUser(res).id)) {
+      res.status(404).json({ error: 'Workspace not found.' });
+      return;
+    }
+    const search = typeof req.query.q === 'string' ? req.query.q : '';
+    res.json(reports.list(workspaceId, search));
+  });
+
+  router.get('/:id', (req, res) => {
+    const report = access(req, res, 'viewer');
+    if (report) res.json(report);
+  });
+
+  router.patch('/:id', (req, res) => {
+    const { title } = req.body as { title?: unknown };
+    if (typeof title !== 'string' || !title.trim()) {
+      res.status(400).json({ error: 'Request body must include a non-empty "title".' });
+      return;
+    }
+    const report = access(req, res, 'editor');
+    if (!report) return;
+    // Redacted like the reviews, since the title is sent out with webhooks and digests.
+    const redacted = redactTitle(title, redaction.rules(report.workspaceId), report.redactions);
+    reports.rename(report.id, redacted.title, redacted.redactions);
+    res.json(reports.get(report.id));
+  });
+
+  router.post('/:id/pins', (req, res) => {
+    const { question, answer } = req.body as { question?: unknown; answer?: unknown };
+    if (typeof question !== 'string' || typeof answer !== 'string' || !answer.trim()) {
+      res.status(400).json({ error: 'Request body must include a "question" and a non-empty "answer".' });
+      return;
+    }
+    if (!access(req, res, 'editor')) return;
+    res.status(201).json(reports.addPin(req.params.id, { question, answer }));
+  });
+
+  router.delete('/:id/pins/:pinId', (req, res) => {
+    if (!access(req, res, 'editor')) return;
+    if (!reports.removePin(req.params.id, req.params.pinId)) {
+      res.status(404).json({ error: 'Pin not found.' });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  router.delete('/:id', (req, res) => {
+    if (!access(req, res, 'editor')) return;
+    reports.remove(req.params.id);
+    res.status(204).end();
+  });
+
+  return router;
+}
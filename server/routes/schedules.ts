@@ -0,0 +1,184 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'fs/promises';
+import { Router, type Response } from 'express';
+import { DEFAULT_REPORT_LANGUAGE, isReportLanguage } from '../../src/lib/i18n';
+import { DEFAULT_TEMPLATE, isTemplateId, TEMPLATE_IDS } from '../../src/lib/promptTemplates';
+import type { AnalysisSchedule, ScheduleSource, WorkspaceRole } from '../../src/types';
+import { currentUser } from '../auth';
+import type { ProviderEntry } from '../providers/types';
+import { selectFromBody } from '../requestBody';
+import type { Scheduler } from '../scheduler';
+import { FREQUENCY_HOURS, isFrequency, type ScheduleChanges, type ScheduleStore } from '../schedules';
+import { resolveFolder } from '../sources';
+import { workspaceAccess, type WorkspaceStore } from '../workspaces';
+
+export interface SchedulesDeps {
+  providers: ProviderEntry[];
+  schedules: ScheduleStore;
+  scheduler: Scheduler;
+  workspaces: WorkspaceStore;
+  watchDir: string;
+}
+
+const MAX_SCHEDULES = 20;
+
+const FREQUENCIES = Object.keys(FREQUENCY_HOURS).join(', ');
+
+// A source from a request body, or why it can't be used, worded for a 400 response.
+async function readSource(value: unknown, watchDir: string): Promise<ScheduleSource | { error: string }> {
+  const source = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  if (source.type === 'folder') {
+    const folder = typeof source.path === 'string' ? source.path.trim() : '';
+    const dir = folder && resolveFolder(watchDir, folder);
+    if (!dir) return { error: '"source.path" must be a folder inside the watch directory.' };
+    const stat = await fs.stat(dir).catch(() => null);
+    if (!stat?.isDirectory()) return { error: `Folder "${folder}" doesn't exist in the watch directory.` };
+    return { type: 'folder', path: folder };
+  }
+  if (source.type === 'feed') {
+    let url: URL | null = null;
+    try {
+      url = new URL(String(source.url));
+    } catch {
+      // Reported below.
+    }
+    if (!url || !['http:', 'https:'].includes(url.protocol)) return { error: '"source.url" must be an http or https feed URL.' };
+    return { type: 'feed', url: url.toString() };
+  }
+  return { error: '"source" must be {"type": "folder", "path"} or {"type": "feed", "url"}.' };
+}
+
+// Schedules that pull new reviews from a folder or feed and analyze them on their own.
+export function schedulesRouter({ providers, schedules, scheduler, workspaces, watchDir }: SchedulesDeps) {
+  const router = Router();
+
+  const forbidden = 'Only editors can manage schedules.';
+  const checks = { viewer: workspaceAccess(workspaces, 'viewer', forbidden), editor: workspaceAccess(workspaces, 'editor', forbidden) };
+  const allowed = (workspaceId: string, res: Response, needed: WorkspaceRole) => checks[needed](res, workspaceId);
+
+  // Schedules in a workspace the user isn't in answer 404, the same as missing ones.
+  const scheduleFor = (id: string, res: Response, needed: WorkspaceRole): AnalysisSchedule | null => {
+    const schedule = schedules.get(id);
+    if (!schedule) {
+      res.status(404).json({ error: 'Schedule not found.' });
+      return null;
+    }
+    return checks[needed](res, schedule.workspaceId, 'Schedule not found.') ? schedule : null;
+  };
+
+  router.get('/', (req, res) => {
+    const workspaceId = typeof req.query.workspace === 'string' ? req.query.workspace : '';
+    if (!allowed(workspaceId, res, 'viewer')) return;
+    res.json(schedules.list(workspaceId));
+  });
+
+  router.post('/', async (req, res) => {
+    const fields = (req.body ?? {}) as Record<string, unknown>;
+    const workspaceId = typeof fields.workspaceId === 'string' ? fields.workspaceId : '';
+    if (!allowed(workspaceId, res, 'editor')) return;
+    const name = typeof fields.name === 'string' ? fields.name.trim() : '';
+    if (!name) {
+      res.status(400).json({ error: 'Request body must include a non-empty "name".' });
+      return;
+    }
+    const frequency = fields.frequency ?? 'daily';
+    if (!isFrequency(frequency)) {
+      res.status(400).json({ error: `"frequency" must be one of ${FREQUENCIES}.` });
+      return;
+    }
+    const template = fields.template ?? DEFAULT_TEMPLATE;
+    if (!isTemplateId(template)) {
+      res.status(400).json({ error: `"template" must be one of ${TEMPLATE_IDS.join(', ')}.` });
+      return;
+    }
+    const reportLanguage = fields.reportLanguage ?? DEFAULT_REPORT_LANGUAGE;
+    if (!isReportLanguage(reportLanguage)) {
+      res.status(400).json({ error: `Unsupported report language "${reportLanguage}".` });
+      return;
+    }
+    const selected = selectFromBody(providers, fields);
+    if ('error' in selected) {
+      res.status(400).json({ error: selected.error });
+      return;
+    }
+    const source = await readSource(fields.source, watchDir);
+    if ('error' in source) {
+      res.status(400).json({ error: source.error });
+      return;
+    }
+    if (schedules.list(workspaceId).length >= MAX_SCHEDULES) {
+      res.status(409).json({ error: `A workspace can have at most ${MAX_SCHEDULES} schedules. Delete one to add another.` });
+      return;
+    }
+    res.status(201).json(schedules.create({
+      workspaceId,
+      name,
+      source,
+      frequency,
+      template,
+      language: typeof fields.language === 'string' && fields.language ? fields.language : 'Auto-detect',
+      reportLanguage,
+      provider: selected.entry.id,
+      model: selected.model,
+      createdBy: currentUser(res).id,
+    }));
+  });
+
+  router.patch('/:id', (req, res) => {
+    const { name, frequency, enabled } = (req.body ?? {}) as Record<string, unknown>;
+    const changes: ScheduleChanges = {};
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        res.status(400).json({ error: '"name" must be non-empty.' });
+        return;
+      }
+      changes.name = name;
+    }
+    if (frequency !== undefined) {
+      if (!isFrequency(frequency)) {
+        res.status(400).json({ error: `"frequency" must be one of ${FREQUENCIES}.` });
+        return;
+      }
+      changes.frequency = frequency;
+    }
+    if (enabled !== undefined) {
+      if (typeof enabled !== 'boolean') {
+        res.status(400).json({ error: '"enabled" must be true or false.' });
+        return;
+      }
+      changes.enabled = enabled;
+    }
+    if (!scheduleFor(req.params.id, res, 'editor')) return;
+    res.json(schedules.update(req.params.id, changes));
+  });
+
+  // Its runs go too; the reports they made stay in the workspace.
+  router.delete('/:id', (req, res) => {
+    if (!scheduleFor(req.params.id, res, 'editor')) return;
+    schedules.remove(req.params.id);
+    res.status(204).end();
+  });
+
+  // Pulls and queues at once. The analysis itself still runs in the background.
+  router.post('/:id/run', async (req, res) => {
+    if (!scheduleFor(req.params.id, res, 'editor')) return;
+    const run = scheduler.runNow(req.params.id);
+    if (!run) {
+      res.status(409).json({ error: 'This schedule is already pulling new reviews.' });
+      return;
+    }
+    res.status(201).json(await run);
+  });
+
+  // The timeline, oldest first, for the trend chart.
+  router.get('/:id/runs', (req, res) => {
+    if (!scheduleFor(req.params.id, res, 'viewer')) return;
+    res.json(schedules.runs(req.params.id));
+  });
+
+  return router;
+}
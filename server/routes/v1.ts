@@ -0,0 +1,171 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router, type Response } from 'express';
+import { reportToHtml, reportToMarkdown, slugify } from '../../src/lib/export';
+import { redactReviews, redactTitle } from '../../src/lib/redaction';
+import type { SavedReport } from '../../src/types';
+import { apiAccessRefusal, currentCaller, requireApiKey, type ApiKeyStore } from '../apiKeys';
+import type { BusinessContextStore } from '../businessContext';
+import type { JobStore } from '../jobs';
+import { EXPORT_FORMATS, openApiDocument, type ApiExportFormat } from '../openapi';
+import type { ProviderEntry } from '../providers/types';
+import type { RateLimiter } from '../rateLimit';
+import type { RedactionStore } from '../redaction';
+import type { ReportStore } from '../reports';
+import { planRefusal, readAnalyzeBody } from '../requestBody';
+import type { UsageStore } from '../usage';
+import type { JobWorker } from '../worker';
+import type { WorkspaceStore } from '../workspaces';
+
+export interface V1Deps {
+  providers: ProviderEntry[];
+  reports: ReportStore;
+  workspaces: WorkspaceStore;
+  usage: UsageStore;
+  apiKeys: ApiKeyStore;
+  businessContext: BusinessContextStore;
+  redaction: RedactionStore;
+  jobs: JobStore;
+  worker: JobWorker;
+  limiter: RateLimiter;
+}
+
+const EXPORT_TYPES: Record<ApiExportFormat, { extension: string; type: string }> = {
+  markdown: { extension: 'md', type: 'text/markdown; charset=utf-8' },
+  html: { extension: 'html', type: 'text/html; charset=utf-8' },
+  json: { extension: 'json', type: 'application/json; charset=utf-8' },
+};
+
+const isExportFormat = (format: unknown): format is ApiExportFormat => EXPORT_FORMATS.includes(format as ApiExportFormat);
+
+// The versioned public API, for scripts and ETL jobs rather than the app.
+// Keys belong to one workspace and act as editors in it.
+export function v1Router({ providers, reports, workspaces, usage, apiKeys, businessContext, redaction, jobs, worker, limiter }: V1Deps) {
+  const router = Router();
+
+  router.get('/openapi.json', (_req, res) => {
+    res.json(openApiDocument());
+  });
+
+  router.use(requireApiKey(apiKeys, limiter));
+
+  // Keys made before a workspace left a plan with API access stop working with it.
+  router.use((_req, res, next) => {
+    const refusal = apiAccessRefusal(workspaces.planOf(currentCaller(res).workspaceId)!);
+    if (refusal) {
+      res.status(402).json({ error: refusal });
+      return;
+    }
+    next();
+  });
+
+  // Reports in other workspaces answer 404, the same as reports that don't exist.
+  const reportFor = (id: string, res: Response): SavedReport | null => {
+    const report = reports.get(id);
+    if (!report || report.workspaceId !== currentCaller(res).workspaceId) {
+      res.status(404).json({ error: 'Report not found.' });
+      return null;
+    }
+    return report;
+  };
+
+  router.post('/analyses', (req, res) => {
+    const { key, workspaceId, userId } = currentCaller(res);
+    const body = readAnalyzeBody(providers, req.body);
+    if ('error' in body) {
+      res.status(400).json({ error: body.error });
+      return;
+    }
+    const { reviews, language, reportLanguage, title, template, entry, model } = body;
+    const plan = workspaces.planOf(workspaceId)!;
+    const refusal = planRefusal(body, plan);
+    if (refusal) {
+      res.status(402).json({ error: refusal });
+      return;
+    }
+    const metered = usage.start(workspaceId, userId, 'analysis', plan, reviews.length);
+    if ('error' in metered) {
+      res.status(402).json({ error: metered.error });
+      return;
+    }
+    const rules = redaction.rules(workspaceId);
+    const redacted = redactReviews(reviews, rules);
+    const job = jobs.create({
+      workspaceId,
+      source: 'api',
+      apiKeyId: key.id,
+      createdBy: userId,
+      usageId: metered.id,
+      request: {
+        ...redacted,
+        ...(title && redactTitle(title, rules, redacted.redactions)),
+        language,
+        reportLanguage,
+        provider: entry.id,
+        model,
+        context: businessContext.forAnalysis(workspaceId, template),
+      },
+    });
+    // The caller polls GET /analyses/:id while the worker runs it.
+    worker.wake();
+
+    res.status(202).location(`${req.baseUrl}/analyses/${job.id}`).json(job);
+  });
+
+  router.get('/analyses/:id', (req, res) => {
+    const job = jobs.get(currentCaller(res).workspaceId, req.params.id);
+    if (!job) {
+      res.status(404).json({ error: 'Job not found.' });
+      return;
+    }
+    res.json(job);
+  });
+
+  router.post('/analyses/:id/cancel', (req, res) => {
+    const job = jobs.get(currentCaller(res).workspaceId, req.params.id);
+    if (!job) {
+      res.status(404).json({ error: 'Job not found.' });
+      return;
+    }
+    if (!worker.cancel(job.id)) {
+      res.status(409).json({ error: 'The analysis has already finished.' });
+      return;
+    }
+    res.status(202).json(jobs.find(job.id));
+  });
+
+  router.get('/reports', (req, res) => {
+    const search = typeof req.query.q === 'string' ? req.query.q : '';
+    res.json(reports.list(currentCaller(res).workspaceId, search));
+  });
+
+  router.get('/reports/:id', (req, res) => {
+    const report = reportFor(req.params.id, res);
+    if (report) res.json(report);
+  });
+
+  router.get('/reports/:id/result', (req, res) => {
+    const report = reportFor(req.params.id, res);
+    if (report) res.json(report.result);
+  });
+
+  router.get('/reports/:id/export', (req, res) => {
+    const { format } = req.query;
+    if (!isExportFormat(format)) {
+      res.status(400).json({ error: `Query parameter "format" must be one of ${EXPORT_FORMATS.join(', ')}.` });
+      return;
+    }
+    const report = reportFor(req.params.id, res);
+    if (!report) return;
+    const { extension, type } = EXPORT_TYPES[format];
+    const body = format === 'markdown' ? reportToMarkdown(report)
+      : format === 'html' ? reportToHtml(report)
+      : JSON.stringify(report.result, null, 2);
+    res.type(type).attachment(`${slugify(report.title)}.${extension}`).send(body);
+  });
+
+  return router;
+}
@@ -0,0 +1,271 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router, type Request, type Response } from 'express';
+import type { WorkspaceRole } from '../../src/types';
+import { DEFAULT_REPORT_LANGUAGE, isReportLanguage } from '../../src/lib/i18n';
+import { isPlanId, PLANS, SELF_SERVE_PLANS } from '../../src/lib/plans';
+import { DEFAULT_TEMPLATES, isTemplateId, MAX_TEMPLATE_CHARS, normalizeProfile, TEMPLATE_VARIABLES, unknownVariables } from '../../src/lib/promptTemplates';
+import { MAX_REDACTION_TERMS, normalizeRedactionRules, redactReviews } from '../../src/lib/redaction';
+import { normalizeReviews } from '../../src/lib/reviews';
+import { buildAnalysisPrompt } from '../analysis';
+import { apiAccessRefusal, DEFAULT_RATE_LIMIT, MAX_RATE_LIMIT, type ApiKeyStore } from '../apiKeys';
+import { currentUser, type AccountStore } from '../auth';
+import type { BusinessContextStore } from '../businessContext';
+import type { RedactionStore } from '../redaction';
+import type { UsageStore } from '../usage';
+import { isRole, workspaceAccess, type WorkspaceStore } from '../workspaces';
+
+// Stands in for the reviews when a template is previewed before any are loaded.
+const PREVIEW_REVIEWS = [{ text: '(your reviews go here, one per line)' }];
+
+export function workspacesRouter(workspaces: WorkspaceStore, accounts: AccountStore, usage: UsageStore, apiKeys: ApiKeyStore, context: BusinessContextStore, redaction: RedactionStore) {
+  const router = Router();
+
+  const forbidden = 'Only editors can manage this workspace.';
+  const checks = { viewer: workspaceAccess(workspaces, 'viewer', forbidden), editor: workspaceAccess(workspaces, 'editor', forbidden) };
+  const access = (req: Request, res: Response, needed: WorkspaceRole) => checks[needed](res, req.params.id);
+
+  // Demoting or removing the last editor would leave nobody able to manage the workspace.
+  const isLastEditor = (workspaceId: string, userId: string) =>
+    workspaces.roleOf(workspaceId, userId) === 'editor' && workspaces.editorCount(workspaceId) === 1;
+
+  router.get('/', (_req, res) => {
+    res.json(workspaces.listFor(currentUser(res).id));
+  });
+
+  router.post('/', (req, res) => {
+    const { name } = (req.body ?? {}) as { name?: unknown };
+    if (typeof name !== 'string' || !name.trim()) {
+      res.status(400).json({ error: 'Request body must include a non-empty "name".' });
+      return;
+    }
+    res.status(201).json(workspaces.create(name, currentUser(res).id));
+  });
+
+  router.patch('/:id', (req, res) => {
+    const { name } = (req.body ?? {}) as { name?: unknown };
+    if (typeof name !== 'string' || !name.trim()) {
+      res.status(400).json({ error: 'Request body must include a non-empty "name".' });
+      return;
+    }
+    if (!access(req, res, 'editor')) return;
+    workspaces.rename(req.params.id, name);
+    res.json(workspaces.listFor(currentUser(res).id).find(w => w.id === req.params.id));
+  });
+
+  router.get('/:id/usage', (req, res) => {
+    if (!access(req, res, 'viewer')) return;
+    res.json(usage.summary(req.params.id, workspaces.planOf(req.params.id)!));
+  });
+
+  // Billing stub: the plan changes at once and nothing is charged.
+  router.put('/:id/plan', (req, res) => {
+    const { plan } = (req.body ?? {}) as { plan?: unknown };
+    if (!isPlanId(plan)) {
+      res.status(400).json({ error: `Request body must include a "plan" of ${Object.keys(PLANS).join(', ')}.` });
+      return;
+    }
+    if (!SELF_SERVE_PLANS.includes(plan)) {
+      res.status(400).json({ error: `The ${PLANS[plan].name} plan is set up by our sales team.` });
+      return;
+    }
+    if (!access(req, res, 'editor')) return;
+    workspaces.setPlan(req.params.id, plan);
+    res.json(usage.summary(req.params.id, plan));
+  });
+
+  // Keys for the public API act as editors, so only editors can see or manage them.
+  router.get('/:id/keys', (req, res) => {
+    if (!access(req, res, 'editor')) return;
+    res.json(apiKeys.list(req.params.id));
+  });
+
+  router.post('/:id/keys', (req, res) => {
+    const { name, rateLimit = DEFAULT_RATE_LIMIT } = (req.body ?? {}) as { name?: unknown; rateLimit?: unknown };
+    if (typeof name !== 'string' || !name.trim()) {
+      res.status(400).json({ error: 'Request body must include a non-empty "name".' });
+      return;
+    }
+    if (!Number.isInteger(rateLimit) || (rateLimit as number) < 1 || (rateLimit as number) > MAX_RATE_LIMIT) {
+      res.status(400).json({ error: `"rateLimit" must be a whole number of requests per minute from 1 to ${MAX_RATE_LIMIT}.` });
+      return;
+    }
+    if (!access(req, res, 'editor')) return;
+    const refusal = apiAccessRefusal(workspaces.planOf(req.params.id)!);
+    if (refusal) {
+      res.status(402).json({ error: refusal });
+      return;
+    }
+    res.status(201).json(apiKeys.create(req.params.id, name, rateLimit as number, currentUser(res).id));
+  });
+
+  router.delete('/:id/keys/:keyId', (req, res) => {
+    if (!access(req, res, 'editor')) return;
+    if (!apiKeys.revoke(req.params.id, req.params.keyId)) {
+      res.status(404).json({ error: 'API key not found.' });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  router.get('/:id/profile', (req, res) => {
+    if (!access(req, res, 'viewer')) return;
+    res.json(context.profile(req.params.id));
+  });
+
+  router.put('/:id/profile', (req, res) => {
+    if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+      res.status(400).json({ error: 'Request body must be a business profile object.' });
+      return;
+    }
+    if (!access(req, res, 'editor')) return;
+    res.json(context.saveProfile(req.params.id, normalizeProfile(req.body), currentUser(res).id));
+  });
+
+  router.get('/:id/templates', (req, res) => {
+    if (!access(req, res, 'viewer')) return;
+    res.json(context.templates(req.params.id));
+  });
+
+  router.get('/:id/templates/:template/versions', (req, res) => {
+    if (!access(req, res, 'viewer')) return;
+    if (!isTemplateId(req.params.template)) {
+      res.status(404).json({ error: 'Template not found.' });
+      return;
+    }
+    res.json(context.versions(req.params.id, req.params.template));
+  });
+
+  // Every change is kept as a new version; the body must only use known variables.
+  router.put('/:id/templates/:template', (req, res) => {
+    const { body } = (req.body ?? {}) as { body?: unknown };
+    if (typeof body !== 'string' || !body.trim() || body.length > MAX_TEMPLATE_CHARS) {
+      res.status(400).json({ error: `Request body must include a "body" of 1 to ${MAX_TEMPLATE_CHARS.toLocaleString('en-US')} characters.` });
+      return;
+    }
+    const unknown = unknownVariables(body);
+    if (unknown.length) {
+      res.status(400).json({
+        error: `Unknown variables: ${unknown.map(v => `{{${v}}}`).join(', ')}. Use ${TEMPLATE_VARIABLES.map(v => `{{${v.name}}}`).join(', ')}.`,
+      });
+      return;
+    }
+    if (!access(req, res, 'editor')) return;
+    if (!isTemplateId(req.params.template)) {
+      res.status(404).json({ error: 'Template not found.' });
+      return;
+    }
+    res.json(context.saveTemplate(req.params.id, req.params.template, body.trim(), currentUser(res).id));
+  });
+
+  router.post('/:id/templates/:template/reset', (req, res) => {
+    if (!access(req, res, 'editor')) return;
+    if (!isTemplateId(req.params.template)) {
+      res.status(404).json({ error: 'Template not found.' });
+      return;
+    }
+    const { template } = req.params;
+    res.json(context.saveTemplate(req.params.id, template, DEFAULT_TEMPLATES[template].body, currentUser(res).id));
+  });
+
+  // The full single-pass prompt, from an unsaved body and profile when given, else the saved ones.
+  router.post('/:id/templates/:template/preview', (req, res) => {
+    if (!access(req, res, 'viewer')) return;
+    if (!isTemplateId(req.params.template)) {
+      res.status(404).json({ error: 'Template not found.' });
+      return;
+    }
+    const fields = (req.body ?? {}) as Record<string, unknown>;
+    const saved = context.forAnalysis(req.params.id, req.params.template);
+    const reviews = normalizeReviews(fields.reviews);
+    const prompt = buildAnalysisPrompt({
+      reviews: reviews?.length ? redactReviews(reviews, redaction.rules(req.params.id)).reviews : PREVIEW_REVIEWS,
+      language: typeof fields.language === 'string' && fields.language ? fields.language : 'Auto-detect',
+      reportLanguage: isReportLanguage(fields.reportLanguage) ? fields.reportLanguage : DEFAULT_REPORT_LANGUAGE,
+      context: {
+        template: { ...saved.template, ...(typeof fields.body === 'string' && { body: fields.body }) },
+        profile: fields.profile === undefined ? saved.profile : normalizeProfile(fields.profile),
+      },
+    });
+    res.json({ prompt });
+  });
+
+  router.get('/:id/redaction', (req, res) => {
+    if (!access(req, res, 'viewer')) return;
+    res.json(redaction.rules(req.params.id));
+  });
+
+  // Applies to analyses submitted from now on; saved reports keep their placeholders.
+  router.put('/:id/redaction', (req, res) => {
+    const { kinds, terms } = (req.body ?? {}) as { kinds?: unknown; terms?: unknown };
+    if (!Array.isArray(kinds) || !Array.isArray(terms) || terms.length > MAX_REDACTION_TERMS) {
+      res.status(400).json({ error: `Request body must include "kinds" and up to ${MAX_REDACTION_TERMS} "terms".` });
+      return;
+    }
+    if (!access(req, res, 'editor')) return;
+    res.json(redaction.saveRules(req.params.id, normalizeRedactionRules({ kinds, terms }), currentUser(res).id));
+  });
+
+  router.get('/:id/members', (req, res) => {
+    if (!access(req, res, 'viewer')) return;
+    res.json(workspaces.members(req.params.id));
+  });
+
+  // Members are added by the email they signed up with.
+  router.post('/:id/members', (req, res) => {
+    const { email, role = 'viewer' } = (req.body ?? {}) as { email?: unknown; role?: unknown };
+    if (typeof email !== 'string' || !email.trim() || !isRole(role)) {
+      res.status(400).json({ error: 'Request body must include an "email" and a "role" of viewer or editor.' });
+      return;
+    }
+    if (!access(req, res, 'editor')) return;
+    const user = accounts.findByEmail(email);
+    if (!user) {
+      res.status(404).json({ error: 'No account uses that email. Ask them to sign up first.' });
+      return;
+    }
+    if (!workspaces.addMember(req.params.id, user.id, role)) {
+      res.status(409).json({ error: `${user.name} is already a member.` });
+      return;
+    }
+    res.status(201).json(workspaces.members(req.params.id).find(m => m.userId === user.id));
+  });
+
+  router.patch('/:id/members/:userId', (req, res) => {
+    const { role } = (req.body ?? {}) as { role?: unknown };
+    if (!isRole(role)) {
+      res.status(400).json({ error: 'Request body must include a "role" of viewer or editor.' });
+      return;
+    }
+    if (!access(req, res, 'editor')) return;
+    if (role === 'viewer' && isLastEditor(req.params.id, req.params.userId)) {
+      res.status(400).json({ error: 'A workspace needs at least one editor.' });
+      return;
+    }
+    if (!workspaces.setRole(req.params.id, req.params.userId, role)) {
+      res.status(404).json({ error: 'Member not found.' });
+      return;
+    }
+    res.json(workspaces.members(req.params.id).find(m => m.userId === req.params.userId));
+  });
+
+  // Editors can remove anyone; everyone can leave.
+  router.delete('/:id/members/:userId', (req, res) => {
+    const leaving = req.params.userId === currentUser(res).id;
+    if (!access(req, res, leaving ? 'viewer' : 'editor')) return;
+    if (isLastEditor(req.params.id, req.params.userId)) {
+      res.status(400).json({ error: 'A workspace needs at least one editor.' });
+      return;
+    }
+    if (!workspaces.removeMember(req.params.id, req.params.userId)) {
+      res.status(404).json({ error: 'Member not found.' });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  return router;
+}
@@ -0,0 +1,150 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import path from 'path';
+import { redactReviews } from '../src/lib/redaction';
+import type { AnalysisSchedule, ScheduleRun } from '../src/types';
+import type { BusinessContextStore } from './businessContext';
+import type { JobStore } from './jobs';
+import { createOutbound } from './outbound';
+import { selectModel } from './providers';
+import type { ProviderEntry } from './providers/types';
+import type { RedactionStore } from './redaction';
+import { planRefusal } from './requestBody';
+import type { ClaimedSchedule, ScheduleStore } from './schedules';
+import { pullReviews, type PullResult } from './sources';
+import type { UsageStore } from './usage';
+import type { JobWorker } from './worker';
+import type { WorkspaceStore } from './workspaces';
+
+export interface SchedulerOptions {
+  // Folder sources are paths inside this directory.
+  watchDir?: string;
+  // How often due schedules are looked for.
+  pollMs?: number;
+  // Feed requests go through this, e.g. to a fixture server in tests.
+  fetch?: typeof fetch;
+  // Hosts on a private network that feeds may still be read from.
+  allowHosts?: string[];
+}
+
+export interface SchedulerDeps extends SchedulerOptions {
+  providers: ProviderEntry[];
+  schedules: ScheduleStore;
+  jobs: JobStore;
+  worker: JobWorker;
+  usage: UsageStore;
+  workspaces: WorkspaceStore;
+  redaction: RedactionStore;
+  businessContext: BusinessContextStore;
+}
+
+export const DEFAULT_WATCH_DIR = path.join('data', 'watch');
+
+const runTitle = (schedule: AnalysisSchedule, at: Date) =>
+  `${schedule.name} · ${at.toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })}`;
+
+// Pulls new reviews for due schedules and queues them as analysis jobs for
+// the worker. The source's cursor only moves on once a job is queued, so
+// reviews refused for the plan's quota are pulled again next time.
+export function createScheduler({
+  providers,
+  schedules,
+  jobs,
+  worker,
+  usage,
+  workspaces,
+  redaction,
+  businessContext,
+  watchDir = DEFAULT_WATCH_DIR,
+  pollMs = 60_000,
+  fetch,
+  allowHosts,
+}: SchedulerDeps) {
+  const pulling = new Set<string>();
+  const outbound = createOutbound(allowHosts);
+  let timer: NodeJS.Timeout | null = null;
+
+  const fail = (scheduleId: string, error: string, reviewCount = 0) =>
+    schedules.addRun({ scheduleId, status: 'failed', reviewCount, error });
+
+  const submit = ({ schedule, createdBy }: ClaimedSchedule, { reviews, cursor }: PullResult): ScheduleRun => {
+    const { workspaceId } = schedule;
+    const selected = selectModel(providers, schedule.provider, schedule.model);
+    if ('error' in selected) return fail(schedule.id, selected.error, reviews.length);
+    const plan = workspaces.planOf(workspaceId)!;
+    const refusal = planRefusal({ reviews }, plan);
+    if (refusal) return fail(schedule.id, refusal, reviews.length);
+    const metered = usage.start(workspaceId, createdBy, 'analysis', plan, reviews.length);
+    if ('error' in metered) return fail(schedule.id, metered.error, reviews.length);
+    const job = jobs.create({
+      workspaceId,
+      source: 'schedule',
+      apiKeyId: null,
+      createdBy,
+      usageId: metered.id,
+      request: {
+        ...redactReviews(reviews, redaction.rules(workspaceId)),
+        language: schedule.language,
+        reportLanguage: schedule.reportLanguage,
+        title: runTitle(schedule, new Date()),
+        provider: selected.entry.id,
+        model: selected.model,
+        context: businessContext.forAnalysis(workspaceId, schedule.template),
+      },
+    });
+    schedules.saveCursor(schedule.id, cursor);
+    worker.wake();
+    return schedules.addRun({ scheduleId: schedule.id, status: 'queued', reviewCount: reviews.length, jobId: job.id });
+  };
+
+  const run = async (claimed: ClaimedSchedule): Promise<ScheduleRun> => {
+    const { schedule, cursor } = claimed;
+    pulling.add(schedule.id);
+    try {
+      let pulled: PullResult;
+      try {
+        pulled = await pullReviews(schedule.source, cursor, { watchDir, fetch, outbound });
+      } catch (err) {
+        return fail(schedule.id, (err as Error).message);
+      }
+      if (!pulled.reviews.length) {
+        schedules.saveCursor(schedule.id, pulled.cursor);
+        return schedules.addRun({ scheduleId: schedule.id, status: 'skipped', reviewCount: 0 });
+      }
+      return submit(claimed, pulled);
+    } finally {
+      pulling.delete(schedule.id);
+    }
+  };
+
+  const tick = () => {
+    for (const claimed of schedules.claimDue()) {
+      if (pulling.has(claimed.schedule.id)) continue;
+      run(claimed).catch(err => console.error(err));
+    }
+  };
+
+  return {
+    start() {
+      timer = setInterval(tick, pollMs);
+      timer.unref();
+      tick();
+    },
+
+    stop() {
+      if (timer) clearInterval(timer);
+    },
+
+    // Runs one schedule now, due or not, and restarts its interval. Null while it is already pulling.
+    runNow(scheduleId: string): Promise<ScheduleRun> | null {
+      if (pulling.has(scheduleId)) return null;
+      const claimed = schedules.claim(scheduleId);
+      return claimed ? run(claimed) : null;
+    },
+  };
+}
+
+export type Scheduler = ReturnType<typeof createScheduler>;
@@ -0,0 +1,231 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomUUID } from 'crypto';
+import { summarizeSentiment } from '../src/lib/compare';
+import { restoreText } from '../src/lib/redaction';
+import type {
+  AnalysisSchedule, JobStatus, ScheduleFrequency, ScheduleRun, ScheduleRunStatus, ScheduleSnapshot, ScheduleSource, TemplateId
+} from '../src/types';
+import type { Db } from './db';
+import { parseStoredResult } from './reports';
+import type { SourceCursor } from './sources';
+
+export const FREQUENCY_HOURS: Record<ScheduleFrequency, number> = { hourly: 1, daily: 24, weekly: 24 * 7 };
+
+export const isFrequency = (value: unknown): value is ScheduleFrequency =>
+  typeof value === 'string' && Object.hasOwn(FREQUENCY_HOURS, value);
+
+// The runs listed for a schedule, newest kept.
+const MAX_RUNS = 200;
+
+interface ScheduleRow {
+  id: string;
+  workspace_id: string;
+  name: string;
+  source: string;
+  frequency: ScheduleFrequency;
+  template: TemplateId;
+  language: string;
+  report_language: string;
+  provider: string;
+  model: string;
+  enabled: number;
+  cursor: string;
+  next_run_at: string;
+  last_run_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  author: string | null;
+}
+
+interface RunRow {
+  id: string;
+  schedule_id: string;
+  job_id: string | null;
+  status: 'queued' | 'skipped' | 'failed';
+  review_count: number;
+  error: string | null;
+  created_at: string;
+  job_status: JobStatus | null;
+  job_error: string | null;
+  report_id: string | null;
+  result: string | null;
+  redactions: string | null;
+}
+
+export interface NewSchedule {
+  workspaceId: string;
+  name: string;
+  source: ScheduleSource;
+  frequency: ScheduleFrequency;
+  template: TemplateId;
+  language: string;
+  reportLanguage: string;
+  provider: string;
+  model: string;
+  createdBy: string;
+}
+
+export type ScheduleChanges = Partial<Pick<AnalysisSchedule, 'name' | 'frequency' | 'enabled'>>;
+
+// A schedule the scheduler has taken, with what it needs to run it.
+export interface ClaimedSchedule {
+  schedule: AnalysisSchedule;
+  cursor: SourceCursor;
+  createdBy: string | null;
+}
+
+export interface NewRun {
+  scheduleId: string;
+  status: RunRow['status'];
+  reviewCount: number;
+  jobId?: string;
+  error?: string;
+}
+
+const toSchedule = (row: ScheduleRow): AnalysisSchedule => ({
+  id: row.id,
+  workspaceId: row.workspace_id,
+  name: row.name,
+  source: JSON.parse(row.source),
+  frequency: row.frequency,
+  template: row.template,
+  language: row.language,
+  reportLanguage: row.report_language,
+  provider: row.provider,
+  model: row.model,
+  enabled: row.enabled === 1,
+  lastRunAt: row.last_run_at,
+  nextRunAt: row.next_run_at,
+  createdAt: row.created_at,
+  createdBy: row.author,
+});
+
+function toSnapshot(row: RunRow): ScheduleSnapshot | null {
+  if (!row.result) return null;
+  const result = parseStoredResult(row.result);
+  const redactions = JSON.parse(row.redactions ?? '{}');
+  const sentiment = summarizeSentiment(result.reviewInsights);
+  return {
+    reviewCount: row.review_count,
+    averageSentiment: sentiment.average,
+    positiveShare: sentiment.positiveShare,
+    negativeShare: sentiment.negativeShare,
+    // Restored here, since runs don't carry the report's redactions to the client.
+    painPoints: result.painPoints.map(({ text, frequency }) => ({ text: restoreText(text, redactions), frequency })),
+  };
+}
+
+const toRun = (row: RunRow): ScheduleRun => ({
+  id: row.id,
+  scheduleId: row.schedule_id,
+  createdAt: row.created_at,
+  status: (row.job_status ?? row.status) as ScheduleRunStatus,
+  reviewCount: row.review_count,
+  jobId: row.job_id,
+  reportId: row.report_id,
+  error: row.job_error ?? row.error,
+  snapshot: toSnapshot(row),
+});
+
+const SELECT_WITH_AUTHOR = `SELECT analysis_schedules.*, users.name AS author FROM analysis_schedules
+  LEFT JOIN users ON users.id = analysis_schedules.created_by`;
+
+const SELECT_RUNS = `SELECT schedule_runs.*, analysis_jobs.status AS job_status, analysis_jobs.error AS job_error,
+    analysis_jobs.report_id, reports.result, reports.redactions
+  FROM schedule_runs
+  LEFT JOIN analysis_jobs ON analysis_jobs.id = schedule_runs.job_id
+  LEFT JOIN reports ON reports.id = analysis_jobs.report_id`;
+
+const later = (from: Date, frequency: ScheduleFrequency) => new Date(from.getTime() + FREQUENCY_HOURS[frequency] * 60 * 60 * 1000);
+
+export function createScheduleStore(db: Db) {
+  const row = (id: string) => db.prepare(`${SELECT_WITH_AUTHOR} WHERE analysis_schedules.id = ?`).get(id) as ScheduleRow | undefined;
+
+  const get = (id: string): AnalysisSchedule | null => {
+    const found = row(id);
+    return found ? toSchedule(found) : null;
+  };
+
+  // Marks the schedule as run now and moves its next run on, so a slow pull isn't started twice.
+  const take = (found: ScheduleRow, now: Date): ClaimedSchedule => {
+    db.prepare('UPDATE analysis_schedules SET last_run_at = ?, next_run_at = ? WHERE id = ?')
+      .run(now.toISOString(), later(now, found.frequency).toISOString(), found.id);
+    return { schedule: toSchedule(row(found.id)!), cursor: JSON.parse(found.cursor), createdBy: found.created_by };
+  };
+
+  return {
+    // The first run is due at once, so the timeline starts with what's already there.
+    create(schedule: NewSchedule): AnalysisSchedule {
+      const id = randomUUID();
+      const now = new Date().toISOString();
+      db.prepare(`INSERT INTO analysis_schedules (id, workspace_id, name, source, frequency, template, language, report_language,
+          provider, model, next_run_at, created_by, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+        .run(id, schedule.workspaceId, schedule.name.trim(), JSON.stringify(schedule.source), schedule.frequency, schedule.template,
+          schedule.language, schedule.reportLanguage, schedule.provider, schedule.model, now, schedule.createdBy, now);
+      return get(id)!;
+    },
+
+    get,
+
+    list(workspaceId: string): AnalysisSchedule[] {
+      const rows = db.prepare(`${SELECT_WITH_AUTHOR} WHERE workspace_id = ? ORDER BY analysis_schedules.created_at`).all(workspaceId) as ScheduleRow[];
+      return rows.map(toSchedule);
+    },
+
+    // A new frequency counts from the last run; a schedule overdue after either change runs on the next check.
+    update(id: string, changes: ScheduleChanges): AnalysisSchedule | null {
+      const found = row(id);
+      if (!found) return null;
+      const frequency = changes.frequency ?? found.frequency;
+      const nextRunAt = found.last_run_at ? later(new Date(found.last_run_at), frequency).toISOString() : found.next_run_at;
+      db.prepare('UPDATE analysis_schedules SET name = ?, frequency = ?, enabled = ?, next_run_at = ? WHERE id = ?')
+        .run(changes.name?.trim() ?? found.name, frequency, Number(changes.enabled ?? found.enabled === 1), nextRunAt, id);
+      return get(id);
+    },
+
+    remove(id: string): boolean {
+      return db.prepare('DELETE FROM analysis_schedules WHERE id = ?').run(id).changes > 0;
+    },
+
+    // Takes every enabled schedule that is due.
+    claimDue(now = new Date()): ClaimedSchedule[] {
+      return db.transaction(() => {
+        const due = db.prepare(`${SELECT_WITH_AUTHOR} WHERE enabled = 1 AND next_run_at <= ? ORDER BY next_run_at`)
+          .all(now.toISOString()) as ScheduleRow[];
+        return due.map(found => take(found, now));
+      })();
+    },
+
+    // Takes one schedule whether or not it is due, for Run now.
+    claim(id: string, now = new Date()): ClaimedSchedule | null {
+      const found = row(id);
+      return found ? take(found, now) : null;
+    },
+
+    saveCursor(id: string, cursor: SourceCursor) {
+      db.prepare('UPDATE analysis_schedules SET cursor = ? WHERE id = ?').run(JSON.stringify(cursor), id);
+    },
+
+    addRun(run: NewRun): ScheduleRun {
+      const id = randomUUID();
+      db.prepare(`INSERT INTO schedule_runs (id, schedule_id, job_id, status, review_count, error, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)`)
+        .run(id, run.scheduleId, run.jobId ?? null, run.status, run.reviewCount, run.error ?? null, new Date().toISOString());
+      return toRun(db.prepare(`${SELECT_RUNS} WHERE schedule_runs.id = ?`).get(id) as RunRow);
+    },
+
+    // Oldest first, each with its report's results in brief once there is one.
+    runs(scheduleId: string): ScheduleRun[] {
+      const rows = db.prepare(`${SELECT_RUNS} WHERE schedule_id = ? ORDER BY schedule_runs.created_at DESC LIMIT ?`)
+        .all(scheduleId, MAX_RUNS) as RunRow[];
+      return rows.reverse().map(toRun);
+    },
+  };
+}
+
+export type ScheduleStore = ReturnType<typeof createScheduleStore>;
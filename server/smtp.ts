@@ -0,0 +1,206 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomUUID } from 'crypto';
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // "tls" connects over TLS (usually port 465), "starttls" upgrades a plain
+  // connection and refuses servers that can't, "none" sends in the clear, as
+  // to a local catcher.
+  security: 'tls' | 'starttls' | 'none';
+  user?: string;
+  pass?: string;
+  // The sender, e.g. "Sale Squid <reports@example.com>".
+  from: string;
+}
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// The server's reply code, or 0 when it couldn't be reached. 5xx replies won't succeed on a retry.
+export class SmtpError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+
+  get permanent() {
+    return this.code >= 500;
+  }
+}
+
+interface Reply {
+  code: number;
+  text: string;
+}
+
+const TIMEOUT_MS = 30_000;
+
+// Reads whole replies, including multi-line ones such as EHLO's, off a socket.
+function replyReader(socket: net.Socket) {
+  let buffer = '';
+  const lines: string[] = [];
+  let failure: Error | null = null;
+  let waiting: { resolve: (reply: Reply) => void; reject: (err: Error) => void } | null = null;
+
+  const flush = () => {
+    if (!waiting) return;
+    const last = lines.findIndex(line => /^\d{3}(?: |$)/.test(line));
+    if (last !== -1) {
+      const reply = lines.splice(0, last + 1);
+      const { resolve } = waiting;
+      waiting = null;
+      resolve({ code: Number(reply[last].slice(0, 3)), text: reply.map(line => line.slice(4)).join('\n') });
+    } else if (failure) {
+      const { reject } = waiting;
+      waiting = null;
+      reject(failure);
+    }
+  };
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let end: number;
+    while ((end = buffer.indexOf('\r\n')) !== -1) {
+      lines.push(buffer.slice(0, end));
+      buffer = buffer.slice(end + 2);
+    }
+    flush();
+  };
+  const onError = (err: Error) => {
+    failure = new SmtpError(0, `Couldn't talk to the mail server: ${err.message}`);
+    flush();
+  };
+  const onClose = () => onError(new Error('the connection closed'));
+  socket.on('data', onData);
+  socket.on('error', onError);
+  socket.on('close', onClose);
+
+  return {
+    read: () => new Promise<Reply>((resolve, reject) => {
+      waiting = { resolve, reject };
+      flush();
+    }),
+    // Stops reading, so the socket can be handed to TLS.
+    detach() {
+      socket.off('data', onData);
+      socket.off('error', onError);
+      socket.off('close', onClose);
+    },
+  };
+}
+
+function connect({ host, port, security }: SmtpOptions) {
+  return new Promise<net.Socket>((resolve, reject) => {
+    const socket = security === 'tls' ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+    socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error('timed out')));
+    socket.once(security === 'tls' ? 'secureConnect' : 'connect', () => {
+      socket.off('error', onError);
+      resolve(socket);
+    });
+    const onError = (err: Error) => reject(new SmtpError(0, `Couldn't reach the mail server: ${err.message}`));
+    socket.once('error', onError);
+  });
+}
+
+function upgrade(socket: net.Socket, host: string) {
+  return new Promise<tls.TLSSocket>((resolve, reject) => {
+    const secure = tls.connect({ socket, servername: host }, () => resolve(secure));
+    secure.once('error', err => reject(new SmtpError(0, `TLS with the mail server failed: ${err.message}`)));
+  });
+}
+
+// Non-ASCII subjects and names go in RFC 2047 encoded words.
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+const base64Lines = (content: string) => Buffer.from(content, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+
+// The bare address from "Name <address>" or a plain address.
+export const mailAddress = (value: string) => /<([^>]+)>\s*$/.exec(value)?.[1] ?? value.trim();
+
+function formatFrom(from: string) {
+  const match = /^\s*(.*?)\s*<([^>]+)>\s*$/.exec(from);
+  return match && match[1] ? `${encodeHeader(match[1].replace(/^"|"$/g, ''))} <${match[2]}>` : mailAddress(from);
+}
+
+export function buildMessage(from: string, { to, subject, html, text }: MailMessage) {
+  const boundary = `sale-squid-${randomUUID()}`;
+  const domain = mailAddress(from).split('@')[1] ?? os.hostname();
+  return [
+    `From: ${formatFrom(from)}`,
+    `To: ${to.join(', ')}`,
+    `Subject: ${encodeHeader(subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+// Sends one message over SMTP. Enough of the protocol for a relay or a local
+// catcher: EHLO, STARTTLS, AUTH PLAIN and a single DATA transfer.
+export async function sendMail(options: SmtpOptions, message: MailMessage): Promise<Reply> {
+  let socket = await connect(options);
+  let reader = replyReader(socket);
+  const expect = async (codes: number[], what: string) => {
+    const reply = await reader.read();
+    if (!codes.includes(reply.code)) throw new SmtpError(reply.code, `The mail server refused ${what}: ${reply.code} ${reply.text}`);
+    return reply;
+  };
+  const command = (line: string, codes: number[], what: string) => {
+    socket.write(`${line}\r\n`);
+    return expect(codes, what);
+  };
+
+  try {
+    await expect([220], 'the connection');
+    const features = await command(`EHLO ${os.hostname()}`, [250], 'EHLO');
+    const offersTls = /^STARTTLS$/im.test(features.text);
+    if (options.security === 'starttls') {
+      if (!offersTls) throw new SmtpError(0, "The mail server doesn't offer STARTTLS.");
+      await command('STARTTLS', [220], 'STARTTLS');
+      reader.detach();
+      socket = await upgrade(socket, options.host);
+      reader = replyReader(socket);
+      await command(`EHLO ${os.hostname()}`, [250], 'EHLO');
+    }
+    if (options.user) {
+      const credentials = Buffer.from(`\0${options.user}\0${options.pass ?? ''}`, 'utf8').toString('base64');
+      await command(`AUTH PLAIN ${credentials}`, [235], 'the login');
+    }
+    await command(`MAIL FROM:<${mailAddress(options.from)}>`, [250], 'the sender');
+    for (const recipient of message.to) await command(`RCPT TO:<${recipient}>`, [250, 251], recipient);
+    await command('DATA', [354], 'the message');
+    // Lines starting with a dot are doubled, so none ends the message early.
+    const data = buildMessage(options.from, message).replace(/^\./gm, '..');
+    const accepted = await command(`${data}\r\n.`, [250], 'the message');
+    socket.write('QUIT\r\n');
+    return accepted;
+  } finally {
+    socket.end();
+  }
+}
@@ -0,0 +1,78 @@
+import http from 'http';
+import type { AddressInfo, LookupFunction } from 'net';
+import { describe, expect, it, vi } from 'vitest';
+import { createOutbound } from './outbound';
+import { pullReviews } from './sources';
+
+const FEED_URL = 'https://93.184.215.14/reviews.xml';
+const RSS = '<rss><channel><item><guid>1</guid><title>Slow shipping</title><description>Took two weeks.</description></item></channel></rss>';
+
+const pull = (send: typeof fetch, url = FEED_URL, allowHosts?: string[]) =>
+  pullReviews({ type: 'feed', url }, {}, { watchDir: '.', fetch: send, outbound: createOutbound(allowHosts) });
+
+describe('feed sources', () => {
+  it('read a public feed', async () => {
+    const { reviews } = await pull(async () => new Response(RSS));
+    expect(reviews).toEqual([{ text: 'Slow shipping. Took two weeks.', source: '93.184.215.14' }]);
+  });
+
+  it('refuse an internal host unless it is listed', async () => {
+    const send = vi.fn(async () => new Response(RSS));
+    await expect(pull(send, 'http://127.0.0.1:8080/feed')).rejects.toThrow(/private network/);
+    expect(send).not.toHaveBeenCalled();
+    await expect(pull(send, 'http://127.0.0.1:8080/feed', ['127.0.0.1'])).resolves.toMatchObject({ reviews: [{ text: 'Slow shipping. Took two weeks.' }] });
+  });
+
+  it('check where a redirect leads before following it', async () => {
+    const send = vi.fn(async (url: string | URL | Request, _init?: RequestInit) =>
+      String(url) === FEED_URL
+        ? new Response(null, { status: 302, headers: { Location: 'http://169.254.169.254/latest/meta-data' } })
+        : new Response(RSS)
+    );
+    await expect(pull(send)).rejects.toThrow(/169\.254\.169\.254 is on a private network/);
+    expect(send).toHaveBeenCalledOnce();
+    expect(send.mock.calls[0][1]).toMatchObject({ redirect: 'manual' });
+  });
+
+  it('stop reading a feed once it is too large', async () => {
+    let pulls = 0;
+    const chunk = new TextEncoder().encode('x'.repeat(1_000_000));
+    const endless = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulls++;
+        controller.enqueue(chunk);
+      },
+    });
+    await expect(pull(async () => new Response(endless))).rejects.toThrow('The feed is too large.');
+    expect(pulls).toBeLessThan(25);
+  });
+
+  it('connect only to the address that passed the check', async () => {
+    const received = vi.fn();
+    const server = http.createServer((_req, res) => {
+      received();
+      res.end(RSS);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    // Public for the check, then loopback by the time the request connects.
+    let lookups = 0;
+    const rebinding: LookupFunction = (_host, options, callback) => {
+      const address = ++lookups === 1 ? '93.184.215.14' : '127.0.0.1';
+      if (options.all) callback(null, [{ address, family: 4 }]);
+      else callback(null, address, 4);
+    };
+    try {
+      const pulled = pullReviews(
+        { type: 'feed', url: `http://feed.example:${port}/reviews.xml` },
+        {},
+        { watchDir: '.', outbound: createOutbound([], rebinding) }
+      );
+      await expect(pulled).rejects.toThrow("Couldn't fetch the feed: feed.example is on a private network.");
+      expect(lookups).toBe(2);
+      expect(received).not.toHaveBeenCalled();
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
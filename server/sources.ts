@@ -0,0 +1,248 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { applyMapping, cleanText, guessMapping, parseDate, parseImportFile } from '../src/lib/importReviews';
+import type { ReviewRecord, ScheduleSource } from '../src/types';
+import { refusalOf, type Outbound } from './outbound';
+
+// What a schedule has already pulled, so each run only sends what's new.
+export interface SourceCursor {
+  // Modification times of the files already read from a folder.
+  files?: Record<string, number>;
+  // Keys of the reviews or feed items already pulled, newest last.
+  seen?: string[];
+}
+
+export interface PullResult {
+  reviews: ReviewRecord[];
+  cursor: SourceCursor;
+}
+
+export interface SourceOptions {
+  // Folder sources are paths inside this directory.
+  watchDir: string;
+  fetch?: typeof fetch;
+  // Keeps feeds, and wherever they redirect, off the server's own network.
+  outbound: Outbound;
+}
+
+const IMPORTABLE = /\.(csv|tsv|json|jsonl|ndjson)$/i;
+
+// Older keys are forgotten past this; an item that old showing up again would be pulled twice.
+const MAX_SEEN = 20_000;
+
+const FEED_TIMEOUT_MS = 30_000;
+const MAX_FEED_CHARS = 20_000_000;
+const MAX_FEED_REDIRECTS = 5;
+
+const keyOf = (text: string) => createHash('sha256').update(text).digest('hex').slice(0, 24);
+const reviewKey = (review: ReviewRecord) => keyOf(`${review.product ?? ''}|${review.date ?? ''}|${review.text}`);
+
+const remember = (seen: string[], added: string[]) => [...seen, ...added].slice(-MAX_SEEN);
+
+// Null when the path would leave the watch directory.
+export function resolveFolder(watchDir: string, folder: string) {
+  const root = path.resolve(watchDir);
+  const resolved = path.resolve(root, folder);
+  return resolved === root || resolved.startsWith(root + path.sep) ? resolved : null;
+}
+
+// Reads files added or changed since the last run. A changed file only
+// contributes the rows it didn't have before, so appending to a CSV works.
+async function pullFolder(folder: string, cursor: SourceCursor, { watchDir }: SourceOptions): Promise<PullResult> {
+  const dir = resolveFolder(watchDir, folder);
+  if (!dir) throw new Error(`"${folder}" is outside the watch directory.`);
+  let names: string[];
+  try {
+    names = (await fs.readdir(dir)).filter(name => IMPORTABLE.test(name)).sort();
+  } catch {
+    throw new Error(`Folder "${folder}" doesn't exist in the watch directory.`);
+  }
+  const files = { ...cursor.files };
+  const seen = new Set(cursor.seen);
+  const reviews: ReviewRecord[] = [];
+  const added: string[] = [];
+  for (const name of names) {
+    const { mtimeMs } = await fs.stat(path.join(dir, name));
+    if (files[name] === mtimeMs) continue;
+    let records: ReviewRecord[];
+    try {
+      const parsed = parseImportFile(name, await fs.readFile(path.join(dir, name), 'utf8'));
+      records = applyMapping(parsed, guessMapping(parsed.columns)).records;
+    } catch (err) {
+      throw new Error(`${name}: ${(err as Error).message}`);
+    }
+    for (const record of records) {
+      const key = reviewKey(record);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      added.push(key);
+      reviews.push(record);
+    }
+    files[name] = mtimeMs;
+  }
+  return { reviews, cursor: { files, seen: remember(cursor.seen ?? [], added) } };
+}
+
+interface FeedItem {
+  id: string;
+  title: string;
+  body: string;
+  date?: string;
+}
+
+const XML_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+// Unwraps CDATA or decodes entities, then strips the HTML most feeds carry.
+function xmlText(raw: string | undefined) {
+  if (!raw) return '';
+  const cdata = raw.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  const decoded = cdata
+    ? cdata[1]
+    : raw.replace(/&(?:#(\d+)|#x([\da-f]+)|(\w+));/gi, (match, dec, hex, name) =>
+        dec ? String.fromCodePoint(Number(dec)) : hex ? String.fromCodePoint(parseInt(hex, 16)) : XML_ENTITIES[name] ?? match
+      );
+  return cleanText(decoded);
+}
+
+// The first of the named elements with any text, namespace prefixes ignored.
+function element(block: string, ...names: string[]) {
+  for (const name of names) {
+    const match = block.match(new RegExp(`<(?:[\\w-]+:)?${name}\\b[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>`, 'i'));
+    const text = xmlText(match?.[1]);
+    if (text) return text;
+  }
+  return '';
+}
+
+// RSS 2.0 items or Atom entries. Feeds are simple enough not to need a full XML parser.
+function parseXmlFeed(xml: string): FeedItem[] {
+  const blocks = [...xml.matchAll(/<(item|entry)\b[^>]*>([\s\S]*?)<\/\1>/gi)].map(match => match[2]);
+  return blocks.map(block => {
+    const link = element(block, 'link') || block.match(/<link\b[^>]*href="([^"]+)"/i)?.[1] || '';
+    const title = element(block, 'title');
+    const body = element(block, 'encoded', 'description', 'content', 'summary');
+    return {
+      id: element(block, 'guid', 'id') || link || keyOf(`${title}|${body}`),
+      title,
+      body,
+      date: element(block, 'pubDate', 'published', 'updated', 'date') || undefined,
+    };
+  });
+}
+
+// JSON Feed 1.x: https://www.jsonfeed.org/version/1.1/
+function parseJsonFeed(data: unknown): FeedItem[] {
+  const items = (data as { items?: unknown })?.items;
+  if (!Array.isArray(items)) throw new Error('JSON feed has no "items" array.');
+  return items.map(item => {
+    const fields = (item ?? {}) as Record<string, unknown>;
+    const str = (key: string) => (typeof fields[key] === 'string' ? (fields[key] as string) : '');
+    const title = cleanText(str('title'));
+    const body = cleanText(str('content_text') || str('content_html') || str('summary'));
+    return {
+      id: str('id') || str('url') || keyOf(`${title}|${body}`),
+      title,
+      body,
+      date: str('date_published') || str('date_modified') || undefined,
+    };
+  });
+}
+
+export function parseFeed(text: string): FeedItem[] {
+  const trimmed = text.replace(/^\uFEFF/, '').trim();
+  if (trimmed.startsWith('{')) {
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      throw new Error('Feed is not valid JSON.');
+    }
+    return parseJsonFeed(data);
+  }
+  if (!/<(rss|feed|rdf:RDF)\b/i.test(trimmed)) throw new Error('Feed is not RSS, Atom or JSON Feed.');
+  return parseXmlFeed(trimmed);
+}
+
+// A headline and its body read as one review; either alone is fine too.
+function feedReview(item: FeedItem, source: string): ReviewRecord | null {
+  const { title, body } = item;
+  const text = title && body && !body.startsWith(title) ? `${title}${/[.!?]$/.test(title) ? '' : '.'} ${body}` : body || title;
+  if (!text) return null;
+  const review: ReviewRecord = { text, source };
+  const date = item.date ? parseDate(item.date) : undefined;
+  if (date) review.date = date;
+  return review;
+}
+
+// Follows redirects by hand, so a public feed can't send the server on to an internal host.
+async function fetchFeed(url: string, { fetch: send = fetch, outbound }: SourceOptions) {
+  const signal = AbortSignal.timeout(FEED_TIMEOUT_MS);
+  let target = url;
+  for (let redirects = 0; ; redirects++) {
+    const check = await outbound.check(target);
+    if ('error' in check) throw new Error(check.error);
+    const res = await send(target, outbound.pin({
+      headers: { Accept: 'application/rss+xml, application/atom+xml, application/feed+json, application/json, text/xml;q=0.9, */*;q=0.8' },
+      redirect: 'manual',
+      signal,
+    }));
+    const location = res.status >= 300 && res.status < 400 ? res.headers.get('location') : null;
+    if (!location) return res;
+    if (redirects === MAX_FEED_REDIRECTS) throw new Error('it redirects too many times.');
+    target = new URL(location, target).toString();
+    if (!/^https?:/.test(target)) throw new Error('it redirects away from http and https.');
+  }
+}
+
+// Stops reading, rather than buffering the rest, once the feed is too large.
+async function readFeed(res: Response) {
+  if (!res.body) return '';
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return text + decoder.decode();
+    text += decoder.decode(value, { stream: true });
+    if (text.length > MAX_FEED_CHARS) {
+      await reader.cancel();
+      throw new Error('The feed is too large.');
+    }
+  }
+}
+
+async function pullFeed(url: string, cursor: SourceCursor, options: SourceOptions): Promise<PullResult> {
+  let res: Response;
+  try {
+    res = await fetchFeed(url, options);
+  } catch (err) {
+    throw new Error(`Couldn't fetch the feed: ${refusalOf(err) ?? (err as Error).message}`);
+  }
+  if (!res.ok) throw new Error(`The feed answered ${res.status}.`);
+  const text = await readFeed(res);
+  const seen = new Set(cursor.seen);
+  const source = new URL(url).hostname;
+  const reviews: ReviewRecord[] = [];
+  const added: string[] = [];
+  for (const item of parseFeed(text)) {
+    const key = keyOf(item.id);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    added.push(key);
+    const review = feedReview(item, source);
+    if (review) reviews.push(review);
+  }
+  return { reviews, cursor: { seen: remember(cursor.seen ?? [], added) } };
+}
+
+// New reviews since `cursor`, and the cursor to save once they're queued.
+// Throws with a message worth showing on the run when the source can't be read.
+export function pullReviews(source: ScheduleSource, cursor: SourceCursor, options: SourceOptions): Promise<PullResult> {
+  return source.type === 'folder' ? pullFolder(source.path, cursor, options) : pullFeed(source.url, cursor, options);
+}
@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomUUID } from 'crypto';
+import { PLANS } from '../src/lib/plans';
+import type { DailyUsage, PlanId, TokenUsage, WorkspaceUsage } from '../src/types';
+import type { Db } from './db';
+
+export type UsageKind = 'analysis' | 'question';
+
+// A rough count for providers that don't report usage: about four characters a token.
+export const estimateUsage = (prompt: string, output: string): TokenUsage => ({
+  inputTokens: Math.ceil(prompt.length / 4),
+  outputTokens: Math.ceil(output.length / 4),
+});
+
+// Quotas reset on the first of each calendar month, UTC.
+export function billingPeriod(now = new Date()) {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  return { start: start.toISOString(), end: end.toISOString() };
+}
+
+interface DailyRow {
+  date: string;
+  reviews: number;
+  input_tokens: number;
+  output_tokens: number;
+  analyses: number;
+  questions: number;
+}
+
+const quotaMessage = (plan: PlanId, limit: number, used: number, requested: number, resetsAt: string) => {
+  const left = Math.max(0, limit - used);
+  const reset = new Date(resetsAt).toLocaleDateString('en-US', { month: 'long', day: 'numeric', timeZone: 'UTC' });
+  return `This analysis has ${requested} reviews, but your workspace has ${left} of the ${PLANS[plan].name} plan's ${limit.toLocaleString('en-US')} monthly reviews left. ` +
+    `The quota resets on ${reset}. Upgrade the plan or analyze fewer reviews.`;
+};
+
+export function createUsageStore(db: Db) {
+  const reviewsUsed = (workspaceId: string, { start, end }: { start: string; end: string }) =>
+    (db.prepare('SELECT COALESCE(SUM(reviews), 0) AS n FROM usage_events WHERE workspace_id = ? AND created_at >= ? AND created_at < ?')
+      .get(workspaceId, start, end) as { n: number }).n;
+
+  return {
+    // Records the start of a metered call. Reviews are counted against the plan
+    // up front, so two analyses started together can't both slip under the
+    // limit; the check and the insert run in one transaction.
+    start(workspaceId: string, userId: string | null, kind: UsageKind, plan: PlanId, reviews = 0): { id: string } | { error: string } {
+      return db.transaction(() => {
+        const now = new Date();
+        const period = billingPeriod(now);
+        const limit = PLANS[plan].monthlyReviews;
+        const used = reviewsUsed(workspaceId, period);
+        if (limit !== null && reviews > 0 && used + reviews > limit) {
+          return { error: quotaMessage(plan, limit, used, reviews, period.end) };
+        }
+        const id = randomUUID();
+        db.prepare(`INSERT INTO usage_events (id, workspace_id, user_id, kind, reviews, created_at)
+          VALUES (?, ?, ?, ?, ?, ?)`).run(id, workspaceId, userId, kind, reviews, now.toISOString());
+        return { id };
+      })();
+    },
+
+    addTokens(id: string, { inputTokens, outputTokens }: TokenUsage) {
+      db.prepare('UPDATE usage_events SET input_tokens = input_tokens + ?, output_tokens = output_tokens + ? WHERE id = ?')
+        .run(inputTokens, outputTokens, id);
+    },
+
+    // A failed or stopped analysis gives its reviews back; the tokens it used stay counted.
+    refundReviews(id: string) {
+      db.prepare('UPDATE usage_events SET reviews = 0 WHERE id = ?').run(id);
+    },
+
+    summary(workspaceId: string, plan: PlanId, now = new Date()): WorkspaceUsage {
+      const period = billingPeriod(now);
+      const rows = db.prepare(`SELECT substr(created_at, 1, 10) AS date, SUM(reviews) AS reviews,
+          SUM(input_tokens) AS input_tokens, SUM(output_tokens) AS output_tokens,
+          SUM(kind = 'analysis') AS analyses, SUM(kind = 'question') AS questions
+        FROM usage_events WHERE workspace_id = ? AND created_at >= ? AND created_at < ?
+        GROUP BY date ORDER BY date`).all(workspaceId, period.start, period.end) as DailyRow[];
+      const byDate = new Map(rows.map(row => [row.date, row]));
+
+      // Every day of the period so far, including days without usage.
+      const daily: DailyUsage[] = [];
+      const today = now.toISOString().slice(0, 10);
+      for (const day = new Date(period.start); day.toISOString().slice(0, 10) <= today; day.setUTCDate(day.getUTCDate() + 1)) {
+        const date = day.toISOString().slice(0, 10);
+        const row = byDate.get(date);
+        daily.push({ date, reviews: row?.reviews ?? 0, inputTokens: row?.input_tokens ?? 0, outputTokens: row?.output_tokens ?? 0 });
+      }
+
+      const total = (key: 'reviews' | 'input_tokens' | 'output_tokens' | 'analyses' | 'questions') =>
+        rows.reduce((sum, row) => sum + row[key], 0);
+      return {
+        plan,
+        periodStart: period.start,
+        periodEnd: period.end,
+        reviewLimit: PLANS[plan].monthlyReviews,
+        reviewsUsed: total('reviews'),
+        inputTokens: total('input_tokens'),
+        outputTokens: total('output_tokens'),
+        analyses: total('analyses'),
+        questions: total('questions'),
+        daily,
+      };
+    },
+  };
+}
+
+export type UsageStore = ReturnType<typeof createUsageStore>;
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Type } from "@google/genai";
+
+// The subset of Gemini's response schema the analysis schemas use.
+interface SchemaNode {
+  type?: Type;
+  properties?: Record<string, SchemaNode>;
+  required?: string[];
+  items?: SchemaNode;
+  enum?: string[];
+  minItems?: string;
+  maxItems?: string;
+  minimum?: number;
+  maximum?: number;
+}
+
+// Lists a limited number of problems; the repair prompt only needs a sample.
+const MAX_ISSUES = 20;
+
+function describe(value: unknown) {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return `a ${typeof value}`;
+}
+
+function walk(value: unknown, schema: SchemaNode, path: string, issues: string[]) {
+  if (issues.length >= MAX_ISSUES) return;
+  const at = path || 'response';
+
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        issues.push(`${at} must be an object, got ${describe(value)}`);
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required ?? []) {
+        if (record[key] === undefined || record[key] === null) issues.push(`${path ? `${path}.` : ''}${key} is missing`);
+      }
+      for (const [key, child] of Object.entries(schema.properties ?? {})) {
+        if (record[key] !== undefined && record[key] !== null) walk(record[key], child, path ? `${path}.${key}` : key, issues);
+      }
+      return;
+    }
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) {
+        issues.push(`${at} must be an array, got ${describe(value)}`);
+        return;
+      }
+      if (schema.minItems !== undefined && value.length < Number(schema.minItems)) {
+        issues.push(`${at} must have at least ${schema.minItems} items, got ${value.length}`);
+      }
+      if (schema.maxItems !== undefined && value.length > Number(schema.maxItems)) {
+        issues.push(`${at} must have at most ${schema.maxItems} items, got ${value.length}`);
+      }
+      if (schema.items) value.forEach((item, i) => walk(item, schema.items!, `${at}[${i}]`, issues));
+      return;
+    }
+    case Type.STRING:
+      if (typeof value !== 'string') issues.push(`${at} must be a string, got ${describe(value)}`);
+      else if (schema.enum && !schema.enum.includes(value)) issues.push(`${at} must be one of ${schema.enum.join(', ')}, got "${value}"`);
+      return;
+    case Type.NUMBER:
+    case Type.INTEGER:
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push(`${at} must be a number, got ${describe(value)}`);
+      } else if (schema.type === Type.INTEGER && !Number.isInteger(value)) {
+        issues.push(`${at} must be a whole number, got ${value}`);
+      } else if ((schema.minimum !== undefined && value < schema.minimum) || (schema.maximum !== undefined && value > schema.maximum)) {
+        issues.push(`${at} must be between ${schema.minimum ?? '-∞'} and ${schema.maximum ?? '∞'}, got ${value}`);
+      }
+      return;
+    case Type.BOOLEAN:
+      if (typeof value !== 'boolean') issues.push(`${at} must be a boolean, got ${describe(value)}`);
+      return;
+  }
+}
+
+// Checks a value against the same schema object sent as `responseSchema`.
+export function validateAgainstSchema(value: unknown, schema: object): string[] {
+  const issues: string[] = [];
+  walk(value, schema as SchemaNode, '', issues);
+  return issues;
+}
+
+// Parses raw model text and validates it; any problems are listed in `issues`.
+export function parseModelOutput(text: string, schema: object): { value: unknown; issues: string[] } {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (err) {
+    return { value: undefined, issues: [`response is not valid JSON (${(err as Error).message})`] };
+  }
+  return { value, issues: validateAgainstSchema(value, schema) };
+}
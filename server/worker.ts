@@ -0,0 +1,178 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { EventEmitter } from 'events';
+import { restoreJson } from '../src/lib/redaction';
+import type { AnalysisErrorCategory, AnalysisEvent, SavedReport } from '../src/types';
+import { runAnalysis } from './analysis';
+import { toAnalysisError } from './errors';
+import type { ClaimedJob, JobStore } from './jobs';
+import { selectModel } from './providers';
+import type { ProviderEntry } from './providers/types';
+import type { ReportStore } from './reports';
+import type { UsageStore } from './usage';
+
+export interface WorkerOptions {
+  // Jobs run at the same time.
+  concurrency?: number;
+  // How often due jobs, such as retries, are looked for.
+  pollMs?: number;
+  // Runs per job, the first included.
+  maxAttempts?: number;
+  // Wait before the first retry; each later one waits twice as long.
+  retryDelayMs?: number;
+}
+
+export interface WorkerDeps extends WorkerOptions {
+  providers: ProviderEntry[];
+  jobs: JobStore;
+  reports: ReportStore;
+  usage: UsageStore;
+  // Called with each report a job saves, e.g. to send it to webhooks.
+  onReport?: (report: SavedReport) => void;
+}
+
+// Failures that usually pass on their own. Anything else fails the job at once.
+const RETRYABLE: AnalysisErrorCategory[] = ['quota', 'network'];
+
+const STOPPED = 'The analysis was stopped before it finished.';
+
+// Runs queued analysis jobs in the background. Jobs live in SQLite, so they
+// survive closed tabs and restarts; live listeners get the same events the
+// analyzer stream sends, including partial results, which are not stored.
+export function createJobWorker({
+  providers,
+  jobs,
+  reports,
+  usage,
+  onReport,
+  concurrency = 2,
+  pollMs = 1_000,
+  maxAttempts = 5,
+  retryDelayMs = 5_000,
+}: WorkerDeps) {
+  const events = new EventEmitter();
+  events.setMaxListeners(0);
+  const running = new Map<string, AbortController>();
+  let timer: NodeJS.Timeout | null = null;
+  let stopping = false;
+
+  const emit = (jobId: string, event: AnalysisEvent) => events.emit(jobId, event);
+
+  // A failed job gives its reviews back to the plan.
+  const fail = (jobId: string, usageId: string | null, error: string, category: AnalysisErrorCategory) => {
+    if (usageId) usage.refundReviews(usageId);
+    emit(jobId, { type: 'job', job: jobs.fail(jobId, error, category) });
+    emit(jobId, { type: 'error', error, category });
+  };
+
+  const execute = async (claimed: ClaimedJob) => {
+    const { job, request, createdBy, usageId } = claimed;
+    const controller = new AbortController();
+    running.set(job.id, controller);
+    emit(job.id, { type: 'job', job });
+    try {
+      const selected = selectModel(providers, request.provider, request.model);
+      if ('error' in selected) {
+        fail(job.id, usageId, selected.error, 'unknown');
+        return;
+      }
+      const { reviews, redactions, language, reportLanguage, title, model, context } = request;
+      const result = await runAnalysis(selected.entry.provider, { reviews, language, reportLanguage, context }, {
+        model,
+        signal: controller.signal,
+        onProgress: progress => {
+          jobs.setProgress(job.id, progress);
+          emit(job.id, { type: 'progress', progress });
+        },
+        // Partials go straight to the analyzer's screen, so they carry the originals, as
+        // the finished report does once the client restores it.
+        onPartial: partial => emit(job.id, { type: 'partial', result: restoreJson(partial, redactions) }),
+        onUsage: tokens => {
+          if (usageId) usage.addTokens(usageId, tokens);
+        },
+      });
+      const report = reports.create({ reviews, redactions, language, reportLanguage, title, model, result, workspaceId: job.workspaceId, createdBy });
+      emit(job.id, { type: 'job', job: jobs.succeed(job.id, report.id) });
+      emit(job.id, { type: 'report', report });
+      try {
+        onReport?.(report);
+      } catch (err) {
+        // The analysis itself succeeded, so this mustn't send it round for a retry.
+        console.error(err);
+      }
+    } catch (err) {
+      // Shutting down leaves the job running; it is queued again on the next start.
+      if (stopping) return;
+      if (controller.signal.aborted) {
+        fail(job.id, usageId, STOPPED, 'unknown');
+        return;
+      }
+      console.error(err);
+      const error = toAnalysisError(err);
+      if (RETRYABLE.includes(error.category) && job.attempts < maxAttempts) {
+        const runAt = new Date(Date.now() + retryDelayMs * 2 ** (job.attempts - 1));
+        emit(job.id, { type: 'job', job: jobs.retry(job.id, runAt, error.message, error.category) });
+      } else {
+        fail(job.id, usageId, error.message, error.category);
+      }
+    } finally {
+      running.delete(job.id);
+      tick();
+    }
+  };
+
+  function tick() {
+    while (!stopping && running.size < concurrency) {
+      const claimed = jobs.claim();
+      if (!claimed) return;
+      void execute(claimed);
+    }
+  }
+
+  return {
+    start() {
+      stopping = false;
+      jobs.requeueInterrupted();
+      timer = setInterval(tick, pollMs);
+      timer.unref();
+      tick();
+    },
+
+    stop() {
+      stopping = true;
+      if (timer) clearInterval(timer);
+      for (const controller of running.values()) controller.abort();
+    },
+
+    // Picks up a newly queued job without waiting for the next poll.
+    wake() {
+      setImmediate(tick);
+    },
+
+    // Listens to one job's events; returns the function that stops listening.
+    subscribe(jobId: string, listener: (event: AnalysisEvent) => void) {
+      events.on(jobId, listener);
+      return () => {
+        events.off(jobId, listener);
+      };
+    },
+
+    // Stops a running job or fails a queued one. Returns false once it has finished.
+    cancel(jobId: string): boolean {
+      const controller = running.get(jobId);
+      if (controller) {
+        controller.abort();
+        return true;
+      }
+      const queued = jobs.takeQueued(jobId);
+      if (!queued) return false;
+      fail(jobId, queued.usageId, STOPPED, 'unknown');
+      return true;
+    },
+  };
+}
+
+export type JobWorker = ReturnType<typeof createJobWorker>;
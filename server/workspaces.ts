@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomUUID } from 'crypto';
+import type { Response } from 'express';
+import type { PlanId, Workspace, WorkspaceMember, WorkspaceRole } from '../src/types';
+import { currentUser } from './auth';
+import type { Db } from './db';
+
+export const ROLES: WorkspaceRole[] = ['viewer', 'editor'];
+
+export const isRole = (role: unknown): role is WorkspaceRole => ROLES.includes(role as WorkspaceRole);
+
+// Whether a member with `role` may do something that needs `needed`.
+export const allows = (role: WorkspaceRole | null, needed: WorkspaceRole) =>
+  role === 'editor' || (role === 'viewer' && needed === 'viewer');
+
+interface MemberRow {
+  user_id: string;
+  email: string;
+  name: string;
+  role: WorkspaceRole;
+}
+
+export function createWorkspaceStore(db: Db) {
+  return {
+    // The creator becomes its first editor.
+    create(name: string, ownerId: string): Workspace {
+      const workspace: Workspace = { id: randomUUID(), name: name.trim(), role: 'editor', plan: 'starter' };
+      const now = new Date().toISOString();
+      db.transaction(() => {
+        db.prepare('INSERT INTO workspaces (id, name, created_at) VALUES (?, ?, ?)').run(workspace.id, workspace.name, now);
+        db.prepare('INSERT INTO workspace_members (workspace_id, user_id, role, created_at) VALUES (?, ?, ?, ?)')
+          .run(workspace.id, ownerId, 'editor', now);
+      })();
+      return workspace;
+    },
+
+    listFor(userId: string): Workspace[] {
+      return db.prepare(`SELECT workspaces.id, workspaces.name, workspace_members.role, workspaces.plan FROM workspace_members
+        JOIN workspaces ON workspaces.id = workspace_members.workspace_id
+        WHERE workspace_members.user_id = ? ORDER BY workspaces.created_at`).all(userId) as Workspace[];
+    },
+
+    // Null when the user isn't a member.
+    roleOf(workspaceId: string, userId: string): WorkspaceRole | null {
+      const row = db.prepare('SELECT role FROM workspace_members WHERE workspace_id = ? AND user_id = ?')
+        .get(workspaceId, userId) as { role: WorkspaceRole } | undefined;
+      return row?.role ?? null;
+    },
+
+    nameOf(id: string): string | null {
+      const row = db.prepare('SELECT name FROM workspaces WHERE id = ?').get(id) as { name: string } | undefined;
+      return row?.name ?? null;
+    },
+
+    planOf(id: string): PlanId | null {
+      const row = db.prepare('SELECT plan FROM workspaces WHERE id = ?').get(id) as { plan: PlanId } | undefined;
+      return row?.plan ?? null;
+    },
+
+    setPlan(id: string, plan: PlanId): boolean {
+      return db.prepare('UPDATE workspaces SET plan = ? WHERE id = ?').run(plan, id).changes > 0;
+    },
+
+    rename(id: string, name: string): boolean {
+      return db.prepare('UPDATE workspaces SET name = ? WHERE id = ?').run(name.trim(), id).changes > 0;
+    },
+
+    members(workspaceId: string): WorkspaceMember[] {
+      const rows = db.prepare(`SELECT users.id AS user_id, users.email, users.name, workspace_members.role FROM workspace_members
+        JOIN users ON users.id = workspace_members.user_id
+        WHERE workspace_members.workspace_id = ? ORDER BY users.name COLLATE NOCASE`).all(workspaceId) as MemberRow[];
+      return rows.map(row => ({ userId: row.user_id, email: row.email, name: row.name, role: row.role }));
+    },
+
+    // Returns false when the user is already a member.
+    addMember(workspaceId: string, userId: string, role: WorkspaceRole): boolean {
+      return db.prepare('INSERT OR IGNORE INTO workspace_members (workspace_id, user_id, role, created_at) VALUES (?, ?, ?, ?)')
+        .run(workspaceId, userId, role, new Date().toISOString()).changes > 0;
+    },
+
+    setRole(workspaceId: string, userId: string, role: WorkspaceRole): boolean {
+      return db.prepare('UPDATE workspace_members SET role = ? WHERE workspace_id = ? AND user_id = ?')
+        .run(role, workspaceId, userId).changes > 0;
+    },
+
+    removeMember(workspaceId: string, userId: string): boolean {
+      return db.prepare('DELETE FROM workspace_members WHERE workspace_id = ? AND user_id = ?').run(workspaceId, userId).changes > 0;
+    },
+
+    // Used to stop the last editor from leaving or being demoted.
+    editorCount(workspaceId: string): number {
+      return (db.prepare("SELECT COUNT(*) AS n FROM workspace_members WHERE workspace_id = ? AND role = 'editor'")
+        .get(workspaceId) as { n: number }).n;
+    },
+  };
+}
+
+export type WorkspaceStore = ReturnType<typeof createWorkspaceStore>;
+
+// Builds a check that the signed-in user's role in a workspace allows `needed`.
+// When it doesn't, the check answers 404 with `notFound` to non-members, so
+// nobody learns the workspace or its contents exist, or 403 with `message`, and
+// returns false.
+export function workspaceAccess(workspaces: WorkspaceStore, needed: WorkspaceRole, message: string) {
+  return (res: Response, workspaceId: string, notFound = 'Workspace not found.') => {
+    const role = workspaces.roleOf(workspaceId, currentUser(res).id);
+    if (!role) {
+      res.status(404).json({ error: notFound });
+      return false;
+    }
+    if (!allows(role, needed)) {
+      res.status(403).json({ error: message });
+      return false;
+    }
+    return true;
+  };
+}
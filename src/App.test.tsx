@@ -0,0 +1,153 @@
+import { act, render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { SAMPLE_RESULT, SAMPLE_REVIEWS, sampleReport } from '../test/sampleReport';
+import App from './App';
+import * as api from './lib/api';
+import type { Account, AnalysisResult } from './types';
+
+vi.mock('./lib/api', async importOriginal => {
+  const actual = await importOriginal<typeof import('./lib/api')>();
+  return {
+    ...actual,
+    getAccount: vi.fn(),
+    getRedactionRules: vi.fn(),
+    listModels: vi.fn(),
+    listMyJobs: vi.fn(),
+    requestAnalysis: vi.fn(),
+  };
+});
+
+const account: Account = {
+  user: { id: 'user-1', email: 'ana@example.com', name: 'Ana' },
+  workspaces: [{ id: 'workspace-1', name: "Ana's Workspace", role: 'editor', plan: 'pro' }],
+};
+
+async function renderSignedIn() {
+  const user = userEvent.setup();
+  render(<App />);
+  await screen.findByRole('button', { name: /Ana's Workspace/ });
+  return { user, input: screen.getByPlaceholderText(/Paste your customer reviews here/) };
+}
+
+// The strength meter sits next to its "Review Strength:" caption.
+const meterLabel = () => within(screen.getByText('Review Strength:').parentElement!).getAllByText(/\w+/).at(-1)!.textContent;
+
+describe('App', () => {
+  beforeEach(() => {
+    vi.mocked(api.getAccount).mockResolvedValue(account);
+    vi.mocked(api.getRedactionRules).mockResolvedValue({ kinds: [], terms: [] });
+    vi.mocked(api.listModels).mockResolvedValue([{ id: 'gemini', label: 'Google Gemini', models: ['gemini-2.5-flash'], available: true }]);
+    vi.mocked(api.listMyJobs).mockResolvedValue([]);
+    vi.mocked(api.requestAnalysis).mockReset();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('rates the pasted reviews on the strength meter', async () => {
+    const { user, input } = await renderSignedIn();
+    expect(meterLabel()).toBe('Empty');
+
+    await user.type(input, 'Slow shipping');
+    expect(meterLabel()).toBe('Weak');
+    expect(screen.getByText('1 Reviews · 2 Words')).toBeInTheDocument();
+
+    await user.clear(input);
+    await user.click(input);
+    await user.paste(SAMPLE_REVIEWS);
+    expect(meterLabel()).toBe('Good');
+    expect(screen.getByText(/^5 Reviews · \d+ Words$/)).toBeInTheDocument();
+
+    await user.paste(`\n${SAMPLE_REVIEWS}`);
+    expect(meterLabel()).toBe('Excellent');
+  });
+
+  it('sends the pasted reviews and renders the report', async () => {
+    vi.mocked(api.requestAnalysis).mockResolvedValue(sampleReport());
+    const { user, input } = await renderSignedIn();
+
+    await user.click(input);
+    await user.paste(SAMPLE_REVIEWS);
+    await user.click(screen.getByRole('button', { name: /Generate Sales Strategy/ }));
+
+    expect(api.requestAnalysis).toHaveBeenCalledWith(
+      expect.objectContaining({
+        reviews: SAMPLE_REVIEWS.split('\n').map(text => ({ text })),
+        reportLanguage: 'English',
+        provider: 'gemini',
+        model: 'gemini-2.5-flash',
+        workspaceId: 'workspace-1',
+      }),
+      expect.anything()
+    );
+    expect(await screen.findByText('Mixed, leaning negative')).toBeInTheDocument();
+    expect(screen.getByText('2 Identified')).toBeInTheDocument();
+    expect(screen.getByText('Slow shipping with broken tracking')).toBeInTheDocument();
+    expect(screen.getByText('Refund requests go unanswered')).toBeInTheDocument();
+    // Blockers also seed the forecast and the initiative board.
+    expect(screen.getByRole('heading', { name: 'Sales Blockers' })).toBeInTheDocument();
+    expect(screen.getAllByText('Discount codes fail at checkout').length).toBeGreaterThan(1);
+    // Strategy fields are rendered as Markdown.
+    expect(screen.getByRole('heading', { name: 'Lead with quality' })).toBeInTheDocument();
+    expect(screen.getByText('durable materials').tagName).toBe('STRONG');
+    expect(screen.getByRole('heading', { name: 'Pillar 1: Reliable checkout' })).toBeInTheDocument();
+    expect(screen.getByText('Rebuild coupon validation')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /Generating Strategy/ })).not.toBeInTheDocument();
+  });
+
+  it('fills the report in as it streams, and notes what never arrived after a stop', async () => {
+    let stream!: (partial: Partial<AnalysisResult>) => void;
+    vi.mocked(api.requestAnalysis).mockImplementation((_body, { onPartial, signal } = {}) => {
+      stream = onPartial!;
+      return new Promise((_resolve, reject) => signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError'))));
+    });
+    const { user, input } = await renderSignedIn();
+
+    await user.click(input);
+    await user.paste(SAMPLE_REVIEWS);
+    await user.click(screen.getByRole('button', { name: /Generate Sales Strategy/ }));
+    expect(screen.getByRole('button', { name: /Generating Strategy/ })).toBeDisabled();
+
+    act(() => stream({ painPoints: SAMPLE_RESULT.painPoints }));
+    expect(await screen.findByText('Slow shipping with broken tracking')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /Stop/ }));
+    expect((await screen.findAllByText(/Not generated/i)).length).toBeGreaterThan(0);
+    expect(screen.getByText('Slow shipping with broken tracking')).toBeInTheDocument();
+  });
+
+  it("explains a failure the user can act on", async () => {
+    vi.mocked(api.requestAnalysis).mockRejectedValue(
+      new api.AnalysisFailedError('The model returned a response that did not match the report format, even after a repair attempt.', 'invalid_json')
+    );
+    const { user, input } = await renderSignedIn();
+
+    await user.type(input, 'Slow shipping');
+    await user.click(screen.getByRole('button', { name: /Generate Sales Strategy/ }));
+
+    expect(await screen.findByText(/did not match the report format/)).toBeInTheDocument();
+    expect(screen.queryByText('Sentiment')).not.toBeInTheDocument();
+  });
+
+  it('hides unexpected errors behind a generic message', async () => {
+    vi.mocked(api.requestAnalysis).mockRejectedValue(new api.RequestError('SQLITE_BUSY: database is locked', 500));
+    const { user, input } = await renderSignedIn();
+
+    await user.type(input, 'Slow shipping');
+    await user.click(screen.getByRole('button', { name: /Generate Sales Strategy/ }));
+
+    expect(await screen.findByText('Failed to analyze reviews. Please try again.')).toBeInTheDocument();
+    expect(screen.queryByText(/SQLITE_BUSY/)).not.toBeInTheDocument();
+  });
+
+  it('asks visitors to sign up before analyzing', async () => {
+    vi.mocked(api.getAccount).mockResolvedValue(null);
+    const user = userEvent.setup();
+    render(<App />);
+
+    await user.type(screen.getByPlaceholderText(/Paste your customer reviews here/), 'Slow shipping');
+    await user.click(screen.getByRole('button', { name: /Generate Sales Strategy/ }));
+
+    expect(await screen.findByRole('heading', { name: 'Create your account' })).toBeInTheDocument();
+    expect(api.requestAnalysis).not.toHaveBeenCalled();
+  });
+});
@@ -3,10 +3,9 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useMemo } from 'react';
-import { GoogleGenAI, Type } from "@google/genai";
+import React, { useDeferredValue, useEffect, useState, useMemo, useRef } from 'react';
 import { 
-  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, Legend
+  BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend
 } from 'recharts';
 import { 
   TrendingUp, 
@@ -18,115 +17,389 @@ import {
   AlertCircle,
   BarChart3,
   Lightbulb,
-  ChevronRight,
-  Sparkles
+  Sparkles,
+  History,
+  Building2,
+  ShieldCheck,
+  CalendarClock,
+  Bell,
+  Users
 } from 'lucide-react';
 import Markdown from 'react-markdown';
 import { cn } from './lib/utils';
+import { AnalysisFailedError, getAccount, getRedactionRules, getReport, logOut, RequestError, requestAnalysis } from './lib/api';
+import { compareReports, type Comparison } from './lib/compare';
+import { clearBoard } from './lib/board';
+import { PLANS } from './lib/plans';
+import { redactReviews } from './lib/redaction';
+import { countWords, hasMetadata, parseReviewText, reviewStrength } from './lib/reviews';
+import { aspectFrequency, averageScore, growthPotential, sentimentDistribution } from './lib/sentiment';
+import { HistoryPanel } from './components/HistoryPanel';
+import { ExportMenu } from './components/ExportMenu';
+import { ReviewImporter } from './components/ReviewImporter';
+import { AnalysisProgressBar } from './components/AnalysisProgressBar';
+import { FindingItem } from './components/FindingItem';
+import { ReviewEvidence } from './components/ReviewEvidence';
+import { ForecastPanel } from './components/ForecastPanel';
+import { ComparePanel, type CompareSet } from './components/ComparePanel';
+import { ComparisonView } from './components/ComparisonView';
+import { CompetitorPanel } from './components/CompetitorPanel';
+import { PositioningPanel, type PositioningKind } from './components/PositioningPanel';
+import { ModelPicker, type ModelChoice } from './components/ModelPicker';
+import { FollowUpChat } from './components/FollowUpChat';
+import { InitiativeBoard } from './components/InitiativeBoard';
+import { AuthDialog, type AuthMode } from './components/AuthDialog';
+import { WorkspacePanel } from './components/WorkspacePanel';
+import { UsagePanel } from './components/UsagePanel';
+import { BusinessContextPanel } from './components/BusinessContextPanel';
+import { PrivacyPanel } from './components/PrivacyPanel';
+import { SchedulesPanel } from './components/SchedulesPanel';
+import { NotificationsPanel } from './components/NotificationsPanel';
+import { JobTray } from './components/JobTray';
+import { DEFAULT_REPORT_LANGUAGE, isReportLanguage, languageAttributes, reportLabels, REPORT_LANGUAGES, REVIEW_LANGUAGES } from './lib/i18n';
+import { DEFAULT_TEMPLATE, DEFAULT_TEMPLATES, isTemplateId, TEMPLATE_IDS } from './lib/promptTemplates';
+import { buildForecast, DEFAULT_BASELINE, modelUpliftPct, seedAssumptions, type BlockerAssumption, type ForecastBaseline } from './lib/forecast';
+import type { Account, AnalysisJob, AnalysisProgress, AnalysisResult, RedactionRules, ReviewRecord, SavedReport, TemplateId } from './types';
 
-// Initialize Gemini
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || '' });
-
-interface AnalysisResult {
-  painPoints: string[];
-  sentiment: string;
-  salesBlockers: string[];
-  marketingStrategy: string;
-  salesStrategy: string;
-  growthProjection: { month: string; current: number; projected: number }[];
-  annualIncrementPlan: string;
+// Cards render from a full result; fields that haven't streamed in yet stay empty.
+function fillPartial(partial: Partial<AnalysisResult>): AnalysisResult {
+  return {
+    painPoints: [],
+    sentiment: '',
+    salesBlockers: [],
+    marketingStrategy: '',
+    salesStrategy: '',
+    growthProjection: [],
+    annualIncrementPlan: '',
+    reviewInsights: [],
+    initiatives: [],
+    ...partial,
+  };
 }
 
+type FindingKind = 'painPoints' | 'salesBlockers' | PositioningKind;
+
+function findingAt(result: AnalysisResult, kind: FindingKind, index: number) {
+  return kind === 'painPoints' || kind === 'salesBlockers' ? result[kind][index] : result.positioning?.[kind][index];
+}
+
+// The forecast baseline is the business's own numbers, so it outlives any one report.
+const BASELINE_KEY = 'sale-squid:forecast-baseline';
+const MODEL_KEY = 'sale-squid:model';
+const REPORT_LANGUAGE_KEY = 'sale-squid:report-language';
+const WORKSPACE_KEY = 'sale-squid:workspace';
+const TEMPLATE_KEY = 'sale-squid:template';
+
 export default function App() {
   const [reviews, setReviews] = useState('');
+  // Structured rows from a file import; when set they replace the textarea input.
+  const [imported, setImported] = useState<{ fileName: string; records: ReviewRecord[] } | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const [progressTitle, setProgressTitle] = useState<string | null>(null);
+  const [activeJob, setActiveJob] = useState<AnalysisJob | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [mode, setMode] = useState<'single' | 'compare' | 'competitors'>('single');
+  const [comparison, setComparison] = useState<{ data: Comparison; beforeLabel: string; afterLabel: string } | null>(null);
   const [result, setResult] = useState<AnalysisResult | null>(null);
+  // Fields received so far while a report streams in; null once it is complete.
+  const [received, setReceived] = useState<Set<keyof AnalysisResult> | null>(null);
+  const [activeReport, setActiveReport] = useState<SavedReport | null>(null);
+  const [selectedFinding, setSelectedFinding] = useState<{ kind: FindingKind; index: number } | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [account, setAccount] = useState<Account | null>(null);
+  const [authMode, setAuthMode] = useState<AuthMode | null>(null);
+  const [isWorkspacesOpen, setIsWorkspacesOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [isContextOpen, setIsContextOpen] = useState(false);
+  const [isPrivacyOpen, setIsPrivacyOpen] = useState(false);
+  const [isSchedulesOpen, setIsSchedulesOpen] = useState(false);
+  const [isNotificationsOpen, setIsNotificationsOpen] = useState(false);
+  const [redactionRules, setRedactionRules] = useState<RedactionRules | null>(null);
+  const [workspaceId, setWorkspaceId] = useState<string | null>(() => localStorage.getItem(WORKSPACE_KEY));
+  const chartRef = useRef<HTMLDivElement>(null);
   const [error, setError] = useState<string | null>(null);
   const [language, setLanguage] = useState('Auto-detect');
+  // Each team keeps reading reports in its own language across visits.
+  const [reportLanguage, setReportLanguage] = useState(() => {
+    const saved = localStorage.getItem(REPORT_LANGUAGE_KEY);
+    return isReportLanguage(saved) ? saved : DEFAULT_REPORT_LANGUAGE;
+  });
+  // Which prompt template frames the strategy.
+  const [analysisType, setAnalysisType] = useState<TemplateId>(() => {
+    const saved = localStorage.getItem(TEMPLATE_KEY);
+    return isTemplateId(saved) ? saved : DEFAULT_TEMPLATE;
+  });
+  // The language of the report on screen, which labels and text direction follow.
+  const [resultLanguage, setResultLanguage] = useState(DEFAULT_REPORT_LANGUAGE);
+  const [baseline, setBaseline] = useState<ForecastBaseline>(() => {
+    try {
+      return { ...DEFAULT_BASELINE, ...JSON.parse(localStorage.getItem(BASELINE_KEY) || '{}') };
+    } catch {
+      return DEFAULT_BASELINE;
+    }
+  });
+  const [assumptions, setAssumptions] = useState<BlockerAssumption[]>([]);
+  const [modelChoice, setModelChoice] = useState<ModelChoice | null>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(MODEL_KEY) || 'null');
+    } catch {
+      return null;
+    }
+  });
+
+  const records = useMemo(() => imported?.records ?? parseReviewText(reviews), [imported, reviews]);
+  const strength = useMemo(() => reviewStrength(records), [records]);
 
-  const languages = [
-    'Auto-detect', 'English', 'Spanish', 'French', 'German', 'Chinese', 
-    'Japanese', 'Hindi', 'Arabic', 'Portuguese', 'Russian', 'Bengali',
-    'Indonesian', 'Urdu', 'Telugu', 'Marathi', 'Tamil', 'Turkish'
-  ];
-
-  const reviewStrength = useMemo(() => {
-    const words = reviews.trim().split(/\s+/).filter(w => w.length > 0).length;
-    if (words === 0) return { label: 'Empty', color: 'bg-slate-200', width: '0%' };
-    if (words < 10) return { label: 'Weak', color: 'bg-red-400', width: '25%' };
-    if (words < 30) return { label: 'Fair', color: 'bg-amber-400', width: '50%' };
-    if (words < 60) return { label: 'Good', color: 'bg-indigo-400', width: '75%' };
-    return { label: 'Excellent', color: 'bg-emerald-500', width: '100%' };
-  }, [reviews]);
-
-  const analyzeReviews = async (textToUse?: string) => {
-    const finalReviews = textToUse || reviews;
-    if (!finalReviews.trim()) return;
-    
+  // The remembered workspace, or the first one if it's gone or was never picked.
+  const workspace = account?.workspaces.find(w => w.id === workspaceId) ?? account?.workspaces[0] ?? null;
+  const canEdit = workspace?.role === 'editor';
+  // Pinning follows the role in the report's own workspace, which may not be the current one.
+  const canPin = account?.workspaces.find(w => w.id === activeReport?.workspaceId)?.role === 'editor';
+
+  const getStarted = () => {
+    if (account) document.getElementById('analyzer')?.scrollIntoView({ behavior: 'smooth' });
+    else setAuthMode('signup');
+  };
+
+  // Trying Pro means switching the workspace's plan, which happens in the usage panel.
+  const tryPro = () => {
+    if (account) setIsUsageOpen(true);
+    else setAuthMode('signup');
+  };
+
+  const signOut = async () => {
+    try {
+      await logOut();
+    } catch (err) {
+      console.error(err);
+    }
+    abortRef.current?.abort();
+    setAccount(null);
+    setIsWorkspacesOpen(false);
+    setIsUsageOpen(false);
+    setIsContextOpen(false);
+    setResult(null);
+    setReceived(null);
+    setActiveReport(null);
+    setComparison(null);
+  };
+
+  // Runs need an account, and new analyses need an editor role in the current workspace.
+  const canRun = (analyzes: boolean) => {
+    if (!account) {
+      setAuthMode('signup');
+      return false;
+    }
+    if (analyzes && !canEdit) {
+      setError(workspace
+        ? `You are a viewer in ${workspace.name}. Ask an editor to make you one, or switch workspace, to run new analyses.`
+        : 'Create a workspace to run analyses.');
+      return false;
+    }
+    return true;
+  };
+
+  // Shared by single and compare runs: one cancellable run at a time, with progress.
+  const runTask = async (task: (signal: AbortSignal) => Promise<void>) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsAnalyzing(true);
+    setProgress(null);
+    setProgressTitle(null);
+    setActiveJob(null);
     setError(null);
+    // Asked while the user is here, so a run that finishes in another tab can still say so.
+    if ('Notification' in window && Notification.permission === 'default') {
+      Notification.requestPermission().catch(console.error);
+    }
 
     try {
-      const response = await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: `Analyze the following customer reviews (Input Language: ${language}) and provide a comprehensive sales and marketing strategy specifically designed to maximize the company's Annual Sale Growth Rate.
-        
-        Reviews:
-        ${finalReviews}
-        
-        Focus on:
-        1. Identifying core customer problems (pain points) that are currently capping growth.
-        2. Identifying specific "Growth Levers" - areas where improvements will directly impact the Annual Sale Growth Rate.
-        3. Providing actionable marketing and sales solutions to overcome sales blockers.
-        4. Creating a professional "Strategic Sales Growth Plan" structured with pillars like Market Expansion, Sales Enablement, and Customer Lifetime Value (CLV) optimization, including specific quarterly milestones.
-        5. Providing a 6-month data projection (current vs projected revenue growth in percentage) showing the acceleration of the growth rate.
-        
-        Note: If the reviews are in a language other than English, please translate the core insights internally to provide the strategy in English.`,
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              painPoints: { type: Type.ARRAY, items: { type: Type.STRING } },
-              sentiment: { type: Type.STRING },
-              salesBlockers: { type: Type.ARRAY, items: { type: Type.STRING } },
-              marketingStrategy: { type: Type.STRING },
-              salesStrategy: { type: Type.STRING },
-              annualIncrementPlan: { type: Type.STRING, description: "Professional Strategic Sales Growth Plan with pillars and milestones" },
-              growthProjection: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    month: { type: Type.STRING },
-                    current: { type: Type.NUMBER, description: "Current growth rate %" },
-                    projected: { type: Type.NUMBER, description: "Projected growth rate % after strategy" }
-                  },
-                  required: ["month", "current", "projected"]
-                }
-              }
-            },
-            required: ["painPoints", "sentiment", "salesBlockers", "marketingStrategy", "salesStrategy", "annualIncrementPlan", "growthProjection"]
-          }
-        }
-      });
-
-      const data = JSON.parse(response.text || '{}');
-      setResult(data);
+      await task(controller.signal);
     } catch (err) {
+      if (controller.signal.aborted) return;
       console.error(err);
-      setError("Failed to analyze reviews. Please try again.");
+      // Refusals such as an exhausted plan quota say what to do next, so they are shown as-is.
+      const explained = (err instanceof AnalysisFailedError && err.category !== 'unknown')
+        || (err instanceof RequestError && err.status < 500);
+      setError(explained ? (err as Error).message : "Failed to analyze reviews. Please try again.");
     } finally {
-      setIsAnalyzing(false);
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsAnalyzing(false);
+        setProgress(null);
+        setActiveJob(null);
+      }
     }
   };
 
-  const handlePaste = (e: React.ClipboardEvent) => {
-    const pastedText = e.clipboardData.getData('text');
-    if (pastedText.trim()) {
-      setReviews(pastedText);
-      analyzeReviews(pastedText);
+  const analyzeReviews = async (recordsToUse?: ReviewRecord[]) => {
+    const finalReviews = recordsToUse || records;
+    if (finalReviews.length === 0 || !canRun(true)) return;
+
+    await runTask(async signal => {
+      const report = await requestAnalysis(
+        { reviews: finalReviews, language, reportLanguage, template: analysisType, workspaceId: workspace?.id, ...modelChoice },
+        {
+          signal,
+          onJob: setActiveJob,
+          onProgress: setProgress,
+          onPartial: partial => {
+            setResult(fillPartial(partial));
+            setResultLanguage(reportLanguage);
+            setReceived(new Set(Object.keys(partial) as (keyof AnalysisResult)[]));
+            setActiveReport(null);
+            setSelectedFinding(null);
+          },
+        }
+      );
+      setResult(report.result);
+      setResultLanguage(report.reportLanguage);
+      setReceived(null);
+      setActiveReport(report);
+      setSelectedFinding(null);
+    });
+  };
+
+  // Analyzes each new review set in turn (saved reports are reused as-is), then diffs them.
+  const compareSets = (before: CompareSet, after: CompareSet) =>
+    canRun('records' in before || 'records' in after) &&
+    runTask(async signal => {
+      const resolve = async (set: CompareSet, step: number) => {
+        if ('reportId' in set) return getReport(set.reportId);
+        setProgress(null);
+        setProgressTitle(`${set.label} (${step} of 2)`);
+        return requestAnalysis(
+          { reviews: set.records, language, reportLanguage, template: analysisType, title: set.label, workspaceId: workspace?.id, ...modelChoice },
+          { signal, onJob: setActiveJob, onProgress: setProgress }
+        );
+      };
+      const beforeReport = await resolve(before, 1);
+      const afterReport = await resolve(after, 2);
+      setComparison({ data: compareReports(beforeReport, afterReport), beforeLabel: before.label, afterLabel: after.label });
+      setTimeout(() => document.getElementById('results')?.scrollIntoView({ behavior: 'smooth' }), 0);
+    });
+
+  // Shows the reviews behind a finding in place of the input.
+  const selectFinding = (kind: FindingKind, index: number) => {
+    setSelectedFinding({ kind, index });
+    document.getElementById('analyzer')?.scrollIntoView({ behavior: 'smooth' });
+  };
+
+  const reviewStats = useMemo(() => {
+    const insights = result?.reviewInsights ?? [];
+    return {
+      count: insights.length,
+      average: averageScore(insights),
+      distribution: sentimentDistribution(insights),
+      aspects: aspectFrequency(insights),
+      potential: growthPotential(insights),
+    };
+  }, [result]);
+
+  useEffect(() => {
+    localStorage.setItem(BASELINE_KEY, JSON.stringify(baseline));
+  }, [baseline]);
+
+  useEffect(() => {
+    if (modelChoice) localStorage.setItem(MODEL_KEY, JSON.stringify(modelChoice));
+  }, [modelChoice]);
+
+  useEffect(() => {
+    localStorage.setItem(REPORT_LANGUAGE_KEY, reportLanguage);
+  }, [reportLanguage]);
+
+  useEffect(() => {
+    localStorage.setItem(TEMPLATE_KEY, analysisType);
+  }, [analysisType]);
+
+  // A still-valid session cookie signs the user straight back in.
+  useEffect(() => {
+    getAccount().then(setAccount).catch(console.error);
+  }, []);
+
+  useEffect(() => {
+    if (workspace) localStorage.setItem(WORKSPACE_KEY, workspace.id);
+  }, [workspace?.id]);
+
+  // The analyzer says up front how much of its input will be redacted.
+  useEffect(() => {
+    setRedactionRules(null);
+    if (!workspace) return;
+    let cancelled = false;
+    getRedactionRules(workspace.id)
+      .then(rules => {
+        if (!cancelled) setRedactionRules(rules);
+      })
+      .catch(console.error);
+    return () => {
+      cancelled = true;
+    };
+  }, [workspace?.id]);
+
+  const deferredRecords = useDeferredValue(records);
+  const redactedCount = useMemo(
+    () => (redactionRules && deferredRecords.length ? Object.keys(redactReviews(deferredRecords, redactionRules).redactions).length : 0),
+    [deferredRecords, redactionRules]
+  );
+
+  // Each new or reopened report reseeds the per-blocker assumptions.
+  useEffect(() => {
+    setAssumptions(result ? seedAssumptions(result) : []);
+  }, [result]);
+
+  const forecast = useMemo(() => buildForecast(baseline, assumptions), [baseline, assumptions]);
+  const labels = reportLabels(resultLanguage);
+
+  // Stands in for a card whose field hasn't streamed in yet, or never will after a stop.
+  const pendingNote = (field: keyof AnalysisResult) =>
+    received && !received.has(field) ? (
+      <p className="flex items-center gap-2 text-sm text-slate-400">
+        {isAnalyzing ? (
+          <>
+            <Loader2 className="w-4 h-4 animate-spin" />
+            {labels.generating}
+          </>
+        ) : (
+          labels.notGenerated
+        )}
+      </p>
+    ) : null;
+
+  const evidenceFinding = selectedFinding && result ? findingAt(result, selectedFinding.kind, selectedFinding.index) : null;
+  const evidence = evidenceFinding && activeReport && (
+    <ReviewEvidence finding={evidenceFinding} reviews={activeReport.reviews} onClose={() => setSelectedFinding(null)} />
+  );
+
+  // Stopping keeps whatever part of the report has already streamed in.
+  const cancelAnalysis = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsAnalyzing(false);
+    setProgress(null);
+    setActiveJob(null);
+  };
+
+  // Reopening a saved report renders it as-is; the model is not called again.
+  const openReport = (report: SavedReport) => {
+    if (hasMetadata(report.reviews)) {
+      setImported({ fileName: report.title, records: report.reviews });
+      setReviews('');
+    } else {
+      setImported(null);
+      setReviews(report.reviews.map(r => r.text).join('\n'));
     }
+    setLanguage(report.language);
+    setMode('single');
+    setResult(report.result);
+    setResultLanguage(report.reportLanguage);
+    setReceived(null);
+    setActiveReport(report);
+    setSelectedFinding(null);
+    setError(null);
+    setIsHistoryOpen(false);
+    setIsSchedulesOpen(false);
+    setTimeout(() => document.getElementById('results')?.scrollIntoView({ behavior: 'smooth' }), 0);
   };
 
   return (
@@ -144,8 +417,68 @@ export default function App() {
             <a href="#features" className="text-sm font-medium text-slate-600 hover:text-indigo-600 transition-colors">Features</a>
             <a href="#how-it-works" className="text-sm font-medium text-slate-600 hover:text-indigo-600 transition-colors">How it works</a>
             <a href="#pricing" className="text-sm font-medium text-slate-600 hover:text-indigo-600 transition-colors">Pricing</a>
+            {account ? (
+              <>
+                <button
+                  onClick={() => setIsHistoryOpen(true)}
+                  className="flex items-center gap-1.5 text-sm font-medium text-slate-600 hover:text-indigo-600 transition-colors"
+                >
+                  <History className="w-4 h-4" />
+                  History
+                </button>
+                <button
+                  onClick={() => setIsUsageOpen(true)}
+                  className="flex items-center gap-1.5 text-sm font-medium text-slate-600 hover:text-indigo-600 transition-colors"
+                >
+                  <BarChart3 className="w-4 h-4" />
+                  Usage
+                </button>
+                <button
+                  onClick={() => setIsContextOpen(true)}
+                  className="flex items-center gap-1.5 text-sm font-medium text-slate-600 hover:text-indigo-600 transition-colors"
+                >
+                  <Building2 className="w-4 h-4" />
+                  Business
+                </button>
+                <button
+                  onClick={() => setIsPrivacyOpen(true)}
+                  className="flex items-center gap-1.5 text-sm font-medium text-slate-600 hover:text-indigo-600 transition-colors"
+                >
+                  <ShieldCheck className="w-4 h-4" />
+                  Privacy
+                </button>
+                <button
+                  onClick={() => setIsSchedulesOpen(true)}
+                  className="flex items-center gap-1.5 text-sm font-medium text-slate-600 hover:text-indigo-600 transition-colors"
+                >
+                  <CalendarClock className="w-4 h-4" />
+                  Schedules
+                </button>
+                <button
+                  onClick={() => setIsNotificationsOpen(true)}
+                  className="flex items-center gap-1.5 text-sm font-medium text-slate-600 hover:text-indigo-600 transition-colors"
+                >
+                  <Bell className="w-4 h-4" />
+                  Notifications
+                </button>
+                <button
+                  onClick={() => setIsWorkspacesOpen(true)}
+                  className="flex items-center gap-1.5 max-w-48 text-sm font-medium text-slate-600 hover:text-indigo-600 transition-colors"
+                >
+                  <Users className="w-4 h-4 flex-shrink-0" />
+                  <span className="truncate">{workspace?.name ?? 'Workspaces'}</span>
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={() => setAuthMode('login')}
+                className="text-sm font-medium text-slate-600 hover:text-indigo-600 transition-colors"
+              >
+                Sign In
+              </button>
+            )}
             <button 
-              onClick={() => document.getElementById('analyzer')?.scrollIntoView({ behavior: 'smooth' })}
+              onClick={getStarted}
               className="px-4 py-2 bg-slate-900 text-white text-sm font-medium rounded-full hover:bg-slate-800 transition-all"
             >
               Get Started
@@ -223,7 +556,7 @@ export default function App() {
               <div className="text-5xl font-bold text-indigo-500/20 mb-4">01</div>
               <h3 className="text-xl font-bold mb-2">Import Reviews</h3>
               <p className="text-slate-400 text-sm leading-relaxed">
-                Paste your customer reviews from Amazon, Shopify, or any platform directly into our analyzer.
+                Paste your customer reviews or drop a CSV, JSON or JSONL export from Amazon, Shopify, Trustpilot, or any platform into our analyzer.
               </p>
             </div>
             <div className="relative z-10">
@@ -250,54 +583,151 @@ export default function App() {
               <div className="flex items-center gap-2">
                 <MessageSquare className="text-indigo-600 w-5 h-5" />
                 <h2 className="text-xl font-semibold text-slate-900">Input Customer Reviews</h2>
-              </div>
-              <div className="flex items-center gap-2">
-                <label htmlFor="language" className="text-sm font-medium text-slate-500">Review Language:</label>
-                <select 
-                  id="language"
-                  value={language}
-                  onChange={(e) => setLanguage(e.target.value)}
-                  className="text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-1.5 outline-none focus:ring-2 focus:ring-indigo-500 transition-all"
-                >
-                  {languages.map(lang => (
-                    <option key={lang} value={lang}>{lang}</option>
+                <div className="ml-2 flex gap-1 p-1 bg-slate-100 rounded-lg text-xs font-semibold">
+                  {(['single', 'compare', 'competitors'] as const).map(m => (
+                    <button
+                      key={m}
+                      onClick={() => setMode(m)}
+                      disabled={isAnalyzing}
+                      className={cn(
+                        "px-3 py-1 rounded-md transition-colors",
+                        mode === m ? "bg-white text-indigo-600 shadow-sm" : "text-slate-500 hover:text-slate-700"
+                      )}
+                    >
+                      {m === 'single' ? 'Analyze' : m === 'compare' ? 'Compare' : 'Competitors'}
+                    </button>
                   ))}
-                </select>
+                </div>
               </div>
-            </div>
-            <textarea
-              className="w-full h-48 p-4 rounded-xl border border-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none resize-none bg-slate-50/50"
-              placeholder="Paste your customer reviews here to automatically generate a sales strategy..."
-              value={reviews}
-              onChange={(e) => setReviews(e.target.value)}
-              onPaste={handlePaste}
-            />
-            <div className="mt-2 flex items-center justify-between">
-              <div className="flex items-center gap-2">
-                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Review Strength:</span>
-                <div className="w-24 h-1.5 bg-slate-100 rounded-full overflow-hidden">
-                  <div 
-                    className={cn("h-full transition-all duration-500", reviewStrength.color)} 
-                    style={{ width: reviewStrength.width }}
-                  />
+              <div className="flex flex-wrap items-center gap-4">
+                <ModelPicker value={modelChoice} disabled={isAnalyzing} onChange={setModelChoice} />
+                <div className="flex items-center gap-2">
+                  <label htmlFor="analysis-type" className="text-sm font-medium text-slate-500">Analysis Type:</label>
+                  <select
+                    id="analysis-type"
+                    value={analysisType}
+                    onChange={(e) => setAnalysisType(e.target.value as TemplateId)}
+                    disabled={isAnalyzing}
+                    className="text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-1.5 outline-none focus:ring-2 focus:ring-indigo-500 transition-all"
+                  >
+                    {TEMPLATE_IDS.map(id => (
+                      <option key={id} value={id}>{DEFAULT_TEMPLATES[id].name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex items-center gap-2">
+                  <label htmlFor="language" className="text-sm font-medium text-slate-500">Review Language:</label>
+                  <select 
+                    id="language"
+                    value={language}
+                    onChange={(e) => setLanguage(e.target.value)}
+                    className="text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-1.5 outline-none focus:ring-2 focus:ring-indigo-500 transition-all"
+                  >
+                    {REVIEW_LANGUAGES.map(lang => (
+                      <option key={lang} value={lang}>{lang}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex items-center gap-2">
+                  <label htmlFor="report-language" className="text-sm font-medium text-slate-500">Report Language:</label>
+                  <select
+                    id="report-language"
+                    value={reportLanguage}
+                    onChange={(e) => setReportLanguage(e.target.value)}
+                    disabled={isAnalyzing}
+                    className="text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-1.5 outline-none focus:ring-2 focus:ring-indigo-500 transition-all"
+                  >
+                    {REPORT_LANGUAGES.map(lang => (
+                      <option key={lang} value={lang}>{lang}</option>
+                    ))}
+                  </select>
                 </div>
-                <span className="text-[10px] font-bold text-slate-500 uppercase">{reviewStrength.label}</span>
               </div>
-              <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">
-                {reviews.trim().split(/\s+/).filter(w => w.length > 0).length} Words
-              </span>
-            </div>
-            <div className="mt-3 flex items-start gap-2 text-xs text-slate-500 bg-slate-50 p-3 rounded-lg border border-slate-100">
-              <Lightbulb className="w-4 h-4 text-amber-500 flex-shrink-0" />
-              <p>
-                <strong>Pro Tip:</strong> For the best results, include at least 5-10 detailed reviews. 
-                Our AI works best with specific feedback about product quality, shipping, or customer support.
-              </p>
             </div>
-            <div className="mt-6 flex flex-col md:flex-row justify-between items-center gap-4">
-              <button 
-                onClick={() => {
-                  const example = `- The checkout process is too long and confusing. I almost gave up.
+            {mode === 'compare' ? (
+              <ComparePanel workspaceId={workspace?.id ?? null} isAnalyzing={isAnalyzing} onCompare={compareSets} />
+            ) : mode === 'competitors' ? (
+              <>
+                {evidence && <div className="mb-6">{evidence}</div>}
+                <CompetitorPanel
+                  plan={workspace?.plan ?? null}
+                  isAnalyzing={isAnalyzing}
+                  onAnalyze={analyzeReviews}
+                  onUpgrade={tryPro}
+                />
+              </>
+            ) : (
+              <>
+                <ReviewImporter
+                  onImport={(importedRecords, fileName) => setImported({ fileName, records: importedRecords })}
+                />
+                {evidence || (imported ? (
+                  <div className="h-48 p-4 rounded-xl border border-slate-200 bg-slate-50/50 flex flex-col">
+                    <div className="flex items-center justify-between mb-3">
+                      <p className="text-sm font-semibold text-slate-900">
+                        {imported.records.length.toLocaleString()} reviews from {imported.fileName}
+                      </p>
+                      <button
+                        onClick={() => setImported(null)}
+                        className="text-xs font-medium text-slate-500 hover:text-red-600 underline underline-offset-4"
+                      >
+                        Clear import
+                      </button>
+                    </div>
+                    <ul className="flex-1 overflow-y-auto space-y-1 text-sm text-slate-600">
+                      {imported.records.slice(0, 50).map((record, i) => (
+                        <li key={i} className="truncate">
+                          {record.rating !== undefined && <span className="text-amber-500 font-semibold mr-2">{record.rating}★</span>}
+                          {record.text}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ) : (
+                  <textarea
+                    className="w-full h-48 p-4 rounded-xl border border-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none resize-none bg-slate-50/50"
+                    placeholder="Paste your customer reviews here, one per line..."
+                    value={reviews}
+                    onChange={(e) => setReviews(e.target.value)}
+                  />
+                ))}
+                <div className="mt-2 flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Review Strength:</span>
+                    <div className="w-24 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                      <div 
+                        className={cn("h-full transition-all duration-500", strength.color)} 
+                        style={{ width: strength.width }}
+                      />
+                    </div>
+                    <span className="text-[10px] font-bold text-slate-500 uppercase">{strength.label}</span>
+                  </div>
+                  <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+                    {records.length} Reviews · {countWords(records)} Words
+                  </span>
+                </div>
+                {redactedCount > 0 && (
+                  <div className="mt-3 flex items-center gap-2 text-xs text-slate-500">
+                    <ShieldCheck className="w-4 h-4 text-emerald-500 flex-shrink-0" />
+                    <p>
+                      {redactedCount} personal {redactedCount === 1 ? 'detail' : 'details'} will be replaced with placeholders before the model sees them.{' '}
+                      <button onClick={() => setIsPrivacyOpen(true)} className="font-medium text-indigo-600 hover:text-indigo-700 underline underline-offset-2">
+                        Preview
+                      </button>
+                    </p>
+                  </div>
+                )}
+                <div className="mt-3 flex items-start gap-2 text-xs text-slate-500 bg-slate-50 p-3 rounded-lg border border-slate-100">
+                  <Lightbulb className="w-4 h-4 text-amber-500 flex-shrink-0" />
+                  <p>
+                    <strong>Pro Tip:</strong> For the best results, include at least 5-10 detailed reviews. 
+                    Our AI works best with specific feedback about product quality, shipping, or customer support.
+                  </p>
+                </div>
+                <div className="mt-6 flex flex-col md:flex-row justify-between items-center gap-4">
+                  <button 
+                    onClick={() => {
+                      const example = `- The checkout process is too long and confusing. I almost gave up.
 - I love the product but shipping took 3 weeks without any updates.
 - Customer support didn't respond to my email for 4 days.
 - The mobile app crashes whenever I try to apply a discount code.
@@ -305,36 +735,42 @@ export default function App() {
 - I wish there was a subscription option for recurring orders.
 - The website is slow to load on my phone.
 - Finding specific items in the search bar is frustratingly difficult.`;
-                  setReviews(example);
-                  analyzeReviews(example);
-                }}
-                className="text-sm font-medium text-indigo-600 hover:text-indigo-700 underline underline-offset-4"
-              >
-                Try with Example Reviews
-              </button>
-              <button
-                onClick={() => analyzeReviews()}
-                disabled={isAnalyzing || !reviews.trim()}
-                className={cn(
-                  "flex items-center gap-2 px-8 py-3 rounded-full font-semibold text-white transition-all",
-                  isAnalyzing || !reviews.trim() 
-                    ? "bg-slate-300 cursor-not-allowed" 
-                    : "bg-indigo-600 hover:bg-indigo-700 shadow-lg shadow-indigo-200"
-                )}
-              >
-                {isAnalyzing ? (
-                  <>
-                    <Loader2 className="w-5 h-5 animate-spin" />
-                    Generating Strategy...
-                  </>
-                ) : (
-                  <>
-                    <Target className="w-5 h-5" />
-                    Generate Sales Strategy
-                  </>
-                )}
-              </button>
-            </div>
+                      setReviews(example);
+                      setImported(null);
+                      analyzeReviews(parseReviewText(example));
+                    }}
+                    className="text-sm font-medium text-indigo-600 hover:text-indigo-700 underline underline-offset-4"
+                  >
+                    Try with Example Reviews
+                  </button>
+                  <button
+                    onClick={() => analyzeReviews()}
+                    disabled={isAnalyzing || records.length === 0}
+                    className={cn(
+                      "flex items-center gap-2 px-8 py-3 rounded-full font-semibold text-white transition-all",
+                      isAnalyzing || records.length === 0 
+                        ? "bg-slate-300 cursor-not-allowed" 
+                        : "bg-indigo-600 hover:bg-indigo-700 shadow-lg shadow-indigo-200"
+                    )}
+                  >
+                    {isAnalyzing ? (
+                      <>
+                        <Loader2 className="w-5 h-5 animate-spin" />
+                        Generating Strategy...
+                      </>
+                    ) : (
+                      <>
+                        <Target className="w-5 h-5" />
+                        Generate Sales Strategy
+                      </>
+                    )}
+                  </button>
+                </div>
+              </>
+            )}
+            {isAnalyzing && (
+              <AnalysisProgressBar progress={progress} job={activeJob} title={progressTitle} hasPartial={!!received} onCancel={cancelAnalysis} />
+            )}
           </div>
         </section>
 
@@ -345,60 +781,160 @@ export default function App() {
           </div>
         )}
 
+        {/* Comparison Section */}
+        {mode === 'compare' && comparison && (
+          <ComparisonView
+            comparison={comparison.data}
+            beforeLabel={comparison.beforeLabel}
+            afterLabel={comparison.afterLabel}
+            onOpenReport={openReport}
+          />
+        )}
+
         {/* Results Section */}
-        {result && (
-          <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-700">
+        {mode !== 'compare' && result && (
+          <div id="results" {...languageAttributes(resultLanguage)} className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-700">
+            {received && !isAnalyzing && (
+              <div className="p-4 bg-amber-50 border border-amber-100 rounded-xl flex items-center gap-3 text-amber-800">
+                <AlertCircle className="w-5 h-5" />
+                <p className="text-sm font-medium">{labels.incomplete}</p>
+              </div>
+            )}
+
             {/* Summary Cards */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-              <div className="glass-card p-6 border-l-4 border-l-indigo-500">
-                <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-2">Sentiment</h3>
-                <p className="text-2xl font-bold text-slate-900">{result.sentiment}</p>
+              <div className="glass-card p-6 border-s-4 border-s-indigo-500">
+                <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-2">{labels.sentiment}</h3>
+                {pendingNote('sentiment') ?? <p className="text-2xl font-bold text-slate-900">{result.sentiment}</p>}
+                {reviewStats.count > 0 && (
+                  <p className="mt-1 text-xs text-slate-500">
+                    {labels.averageScore(`${reviewStats.average >= 0 ? '+' : ''}${reviewStats.average.toFixed(2)}`, reviewStats.count)}
+                  </p>
+                )}
               </div>
-              <div className="glass-card p-6 border-l-4 border-l-amber-500">
-                <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-2">Key Pain Points</h3>
-                <p className="text-2xl font-bold text-slate-900">{result.painPoints.length} Identified</p>
+              <div className="glass-card p-6 border-s-4 border-s-amber-500">
+                <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-2">{labels.keyPainPoints}</h3>
+                <p className="text-2xl font-bold text-slate-900">{labels.identified(result.painPoints.length)}</p>
               </div>
-              <div className="glass-card p-6 border-l-4 border-l-emerald-500">
-                <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-2">Growth Potential</h3>
-                <p className="text-2xl font-bold text-slate-900">High</p>
+              <div className="glass-card p-6 border-s-4 border-s-emerald-500">
+                <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-2">{labels.growthPotential}</h3>
+                <p className="text-2xl font-bold text-slate-900">{labels.potential[reviewStats.potential.label]}</p>
+                {reviewStats.potential.label !== 'Unknown' && (
+                  <p className="mt-1 text-xs text-slate-500">
+                    {labels.headroom(
+                      Math.round(reviewStats.potential.headroom * 100),
+                      reviewStats.potential.topFixable.map(aspect => labels.aspects[aspect]),
+                    )}
+                  </p>
+                )}
               </div>
             </div>
 
+            {/* Sentiment & Aspect Charts */}
+            {reviewStats.count > 0 && (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                <div className="glass-card p-6">
+                  <h2 className="text-xl font-semibold text-slate-900 mb-1">{labels.sentimentDistribution}</h2>
+                  <p className="text-slate-500 text-sm mb-6">{labels.sentimentDistributionHint}</p>
+                  <div className="h-64 w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={reviewStats.distribution.map(d => ({ ...d, bucket: labels.buckets[d.bucket] }))}>
+                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                        <XAxis dataKey="bucket" axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 11 }} />
+                        <YAxis allowDecimals={false} axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} />
+                        <Tooltip cursor={{ fill: '#f8fafc' }} contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }} />
+                        <Bar dataKey="count" name={labels.reviews} radius={[6, 6, 0, 0]}>
+                          {reviewStats.distribution.map(d => (
+                            <Cell key={d.bucket} fill={d.color} />
+                          ))}
+                        </Bar>
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+
+                <div className="glass-card p-6">
+                  <h2 className="text-xl font-semibold text-slate-900 mb-1">{labels.aspectFrequency}</h2>
+                  <p className="text-slate-500 text-sm mb-6">{labels.aspectFrequencyHint}</p>
+                  <div className="h-64 w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={reviewStats.aspects.map(a => ({ ...a, aspect: labels.aspects[a.aspect] }))} layout="vertical" margin={{ left: 24 }}>
+                        <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#f1f5f9" />
+                        <XAxis type="number" allowDecimals={false} axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} />
+                        <YAxis type="category" dataKey="aspect" axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 11 }} width={90} />
+                        <Tooltip cursor={{ fill: '#f8fafc' }} contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }} />
+                        <Legend verticalAlign="top" height={32} />
+                        <Bar dataKey="negative" name={labels.buckets.Negative} stackId="sentiment" fill="#f97316" />
+                        <Bar dataKey="neutral" name={labels.buckets.Neutral} stackId="sentiment" fill="#cbd5e1" />
+                        <Bar dataKey="positive" name={labels.buckets.Positive} stackId="sentiment" fill="#4f46e5" radius={[0, 6, 6, 0]} />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Where we stand against competitors */}
+            {result.positioning && (
+              <PositioningPanel
+                positioning={result.positioning}
+                labels={labels}
+                selected={selectedFinding}
+                onSelect={selectFinding}
+              />
+            )}
+
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
               {/* Pain Points & Blockers */}
               <div className="space-y-6">
                 <div className="glass-card p-6">
                   <div className="flex items-center gap-2 mb-6">
                     <AlertCircle className="text-amber-500 w-5 h-5" />
-                    <h2 className="text-xl font-semibold text-slate-900">Customer Pain Points</h2>
+                    <h2 className="text-xl font-semibold text-slate-900">{labels.painPoints}</h2>
                   </div>
-                  <ul className="space-y-4">
-                    {result.painPoints.map((point, i) => (
-                      <li key={i} className="flex gap-3 items-start">
-                        <div className="mt-1 w-5 h-5 rounded-full bg-amber-100 flex items-center justify-center flex-shrink-0">
-                          <span className="text-[10px] font-bold text-amber-700">{i + 1}</span>
-                        </div>
-                        <p className="text-slate-700 text-sm leading-relaxed">{point}</p>
-                      </li>
-                    ))}
-                  </ul>
+                  {pendingNote('painPoints') ?? (
+                    <ul className="space-y-4">
+                      {result.painPoints.map((point, i) => (
+                        <FindingItem
+                          key={i}
+                          finding={point}
+                          selected={selectedFinding?.kind === 'painPoints' && selectedFinding.index === i}
+                          labels={labels}
+                          onSelect={() => selectFinding('painPoints', i)}
+                          marker={
+                            <div className="mt-1 w-5 h-5 rounded-full bg-amber-100 flex items-center justify-center flex-shrink-0">
+                              <span className="text-[10px] font-bold text-amber-700">{i + 1}</span>
+                            </div>
+                          }
+                        />
+                      ))}
+                    </ul>
+                  )}
                 </div>
 
                 <div className="glass-card p-6">
                   <div className="flex items-center gap-2 mb-6">
                     <BarChart3 className="text-indigo-600 w-5 h-5" />
-                    <h2 className="text-xl font-semibold text-slate-900">Sales Blockers</h2>
+                    <h2 className="text-xl font-semibold text-slate-900">{labels.salesBlockers}</h2>
                   </div>
-                  <ul className="space-y-4">
-                    {result.salesBlockers.map((blocker, i) => (
-                      <li key={i} className="flex gap-3 items-start">
-                        <div className="mt-1">
-                          <CheckCircle2 className="w-4 h-4 text-indigo-500" />
-                        </div>
-                        <p className="text-slate-700 text-sm leading-relaxed">{blocker}</p>
-                      </li>
-                    ))}
-                  </ul>
+                  {pendingNote('salesBlockers') ?? (
+                    <ul className="space-y-4">
+                      {result.salesBlockers.map((blocker, i) => (
+                        <FindingItem
+                          key={i}
+                          finding={blocker}
+                          selected={selectedFinding?.kind === 'salesBlockers' && selectedFinding.index === i}
+                          labels={labels}
+                          onSelect={() => selectFinding('salesBlockers', i)}
+                          marker={
+                            <div className="mt-1">
+                              <CheckCircle2 className="w-4 h-4 text-indigo-500" />
+                            </div>
+                          }
+                        />
+                      ))}
+                    </ul>
+                  )}
                 </div>
               </div>
 
@@ -407,113 +943,91 @@ export default function App() {
                 <div className="glass-card p-6">
                   <div className="flex items-center gap-2 mb-4">
                     <Target className="text-indigo-600 w-5 h-5" />
-                    <h2 className="text-xl font-semibold text-slate-900">Marketing Strategy</h2>
-                  </div>
-                  <div className="markdown-body">
-                    <Markdown>{result.marketingStrategy}</Markdown>
+                    <h2 className="text-xl font-semibold text-slate-900">{labels.marketingStrategy}</h2>
                   </div>
+                  {pendingNote('marketingStrategy') ?? (
+                    <div className="markdown-body">
+                      <Markdown>{result.marketingStrategy}</Markdown>
+                    </div>
+                  )}
                 </div>
 
                 <div className="glass-card p-6">
                   <div className="flex items-center gap-2 mb-4">
                     <Lightbulb className="text-emerald-500 w-5 h-5" />
-                    <h2 className="text-xl font-semibold text-slate-900">Sales Optimization</h2>
-                  </div>
-                  <div className="markdown-body">
-                    <Markdown>{result.salesStrategy}</Markdown>
+                    <h2 className="text-xl font-semibold text-slate-900">{labels.salesOptimization}</h2>
                   </div>
+                  {pendingNote('salesStrategy') ?? (
+                    <div className="markdown-body">
+                      <Markdown>{result.salesStrategy}</Markdown>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
 
             {/* Growth Projection Chart */}
-            <div className="glass-card p-8">
-              <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
-                <div>
-                  <h2 className="text-2xl font-bold text-slate-900">Sales Increment Analysis</h2>
-                  <p className="text-slate-500 text-sm">Monthly and annual growth rate projections</p>
-                </div>
-                <div className="flex items-center gap-4">
-                  <div className="flex items-center gap-2">
-                    <div className="w-3 h-3 rounded-full bg-slate-300" />
-                    <span className="text-xs font-medium text-slate-500">Current Monthly</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <div className="w-3 h-3 rounded-full bg-indigo-600" />
-                    <span className="text-xs font-medium text-slate-500">Projected Monthly</span>
-                  </div>
-                </div>
-              </div>
-              
-              <div className="h-[400px] w-full">
-                <ResponsiveContainer width="100%" height="100%">
-                  <LineChart data={result.growthProjection}>
-                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
-                    <XAxis 
-                      dataKey="month" 
-                      axisLine={false} 
-                      tickLine={false} 
-                      tick={{ fill: '#64748b', fontSize: 12 }}
-                      dy={10}
-                    />
-                    <YAxis 
-                      axisLine={false} 
-                      tickLine={false} 
-                      tick={{ fill: '#64748b', fontSize: 12 }}
-                      tickFormatter={(value) => `${value}%`}
-                    />
-                    <Tooltip 
-                      contentStyle={{ 
-                        borderRadius: '12px', 
-                        border: 'none', 
-                        boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' 
-                      }}
-                    />
-                    <Legend verticalAlign="top" height={36}/>
-                    <Line 
-                      name="Current Monthly Growth"
-                      type="monotone" 
-                      dataKey="current" 
-                      stroke="#cbd5e1" 
-                      strokeWidth={3} 
-                      dot={{ r: 4, fill: '#cbd5e1' }} 
-                      activeDot={{ r: 6 }}
-                    />
-                    <Line 
-                      name="Projected Monthly Growth"
-                      type="monotone" 
-                      dataKey="projected" 
-                      stroke="#4f46e5" 
-                      strokeWidth={3} 
-                      dot={{ r: 4, fill: '#4f46e5' }} 
-                      activeDot={{ r: 6 }}
-                    />
-                  </LineChart>
-                </ResponsiveContainer>
-              </div>
-              <div className="mt-8 p-4 bg-indigo-50 rounded-xl border border-indigo-100">
-                <p className="text-sm text-indigo-900 font-medium text-center">
-                  Estimated Annual Increment: <span className="text-lg font-bold">+{Math.round((result.growthProjection[5].projected - result.growthProjection[0].current) * 2.5)}%</span> based on monthly compounding strategies.
-                </p>
-              </div>
-            </div>
+            <ForecastPanel
+              baseline={baseline}
+              assumptions={assumptions}
+              forecast={forecast}
+              seededFromPct={modelUpliftPct(result)}
+              chartRef={chartRef}
+              labels={labels.forecast}
+              onBaselineChange={setBaseline}
+              onAssumptionsChange={setAssumptions}
+              onReseed={() => setAssumptions(seedAssumptions(result))}
+            />
 
             {/* Strategic Sales Growth Plan */}
             <div className="glass-card p-8 bg-indigo-900 text-white border-none">
               <div className="flex items-center gap-3 mb-6">
                 <TrendingUp className="text-indigo-300 w-6 h-6" />
-                <h2 className="text-2xl font-bold">Strategic Sales Growth Plan</h2>
-              </div>
-              <div className="markdown-body text-indigo-50 prose-invert prose-sm max-w-none">
-                <Markdown>{result.annualIncrementPlan}</Markdown>
+                <h2 className="text-2xl font-bold">{labels.growthPlan}</h2>
               </div>
+              {pendingNote('annualIncrementPlan') ?? (
+                <div className="markdown-body text-indigo-50 prose-invert prose-sm max-w-none">
+                  <Markdown>{result.annualIncrementPlan}</Markdown>
+                </div>
+              )}
               <div className="mt-8 pt-8 border-t border-indigo-800 flex justify-end">
-                <button className="flex items-center gap-2 px-6 py-3 bg-white text-indigo-900 rounded-full font-bold hover:bg-indigo-50 transition-colors">
-                  Download Full Report
-                  <ChevronRight className="w-4 h-4" />
-                </button>
+                <ExportMenu
+                  chartRef={chartRef}
+                  report={{
+                    title: activeReport?.title || 'Sale Squid Report',
+                    createdAt: activeReport?.createdAt,
+                    language,
+                    reportLanguage: resultLanguage,
+                    model: activeReport?.model,
+                    result,
+                    pins: activeReport?.pins,
+                    forecast,
+                    currency: baseline.currency,
+                  }}
+                />
               </div>
             </div>
+
+            {/* Initiatives from the growth plan as a task board */}
+            <InitiativeBoard
+              reportId={activeReport?.id ?? null}
+              title={activeReport?.title || 'Sale Squid Report'}
+              initiatives={result.initiatives}
+              blockers={result.salesBlockers}
+              labels={labels.board}
+              pending={pendingNote('initiatives')}
+            />
+
+            {/* Follow-up chat, once the report is complete and saved */}
+            {activeReport && !received && (
+              <FollowUpChat
+                report={activeReport}
+                model={modelChoice}
+                labels={labels.chat}
+                canPin={canPin}
+                onPinsChange={(pins) => setActiveReport({ ...activeReport, pins })}
+              />
+            )}
           </div>
         )}
 
@@ -525,29 +1039,29 @@ export default function App() {
           </div>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
             <div className="glass-card p-8 flex flex-col">
-              <h3 className="text-lg font-bold mb-2">Starter</h3>
-              <div className="text-4xl font-bold mb-4">$0 <span className="text-sm font-normal text-slate-500">/mo</span></div>
+              <h3 className="text-lg font-bold mb-2">{PLANS.starter.name}</h3>
+              <div className="text-4xl font-bold mb-4">${PLANS.starter.monthlyPriceUsd} <span className="text-sm font-normal text-slate-500">/mo</span></div>
               <p className="text-slate-600 text-sm mb-6">Perfect for small businesses testing the waters.</p>
               <ul className="space-y-3 mb-8 flex-grow">
                 <li className="flex items-center gap-2 text-sm text-slate-600">
-                  <CheckCircle2 className="w-4 h-4 text-indigo-500" /> 100 Reviews/mo
+                  <CheckCircle2 className="w-4 h-4 text-indigo-500" /> {PLANS.starter.monthlyReviews!.toLocaleString('en-US')} Reviews/mo
                 </li>
                 <li className="flex items-center gap-2 text-sm text-slate-600">
                   <CheckCircle2 className="w-4 h-4 text-indigo-500" /> Basic Strategy
                 </li>
               </ul>
-              <button className="w-full py-3 rounded-full border border-slate-200 font-semibold hover:bg-slate-50 transition-all">
+              <button onClick={getStarted} className="w-full py-3 rounded-full border border-slate-200 font-semibold hover:bg-slate-50 transition-all">
                 Get Started
               </button>
             </div>
             <div className="glass-card p-8 flex flex-col border-2 border-indigo-500 relative">
               <div className="absolute -top-4 left-1/2 -translate-x-1/2 bg-indigo-500 text-white px-4 py-1 rounded-full text-xs font-bold">MOST POPULAR</div>
-              <h3 className="text-lg font-bold mb-2">Pro</h3>
-              <div className="text-4xl font-bold mb-4">$49 <span className="text-sm font-normal text-slate-500">/mo</span></div>
+              <h3 className="text-lg font-bold mb-2">{PLANS.pro.name}</h3>
+              <div className="text-4xl font-bold mb-4">${PLANS.pro.monthlyPriceUsd} <span className="text-sm font-normal text-slate-500">/mo</span></div>
               <p className="text-slate-600 text-sm mb-6">For growing companies needing deep insights.</p>
               <ul className="space-y-3 mb-8 flex-grow">
                 <li className="flex items-center gap-2 text-sm text-slate-600">
-                  <CheckCircle2 className="w-4 h-4 text-indigo-500" /> 5,000 Reviews/mo
+                  <CheckCircle2 className="w-4 h-4 text-indigo-500" /> {PLANS.pro.monthlyReviews!.toLocaleString('en-US')} Reviews/mo
                 </li>
                 <li className="flex items-center gap-2 text-sm text-slate-600">
                   <CheckCircle2 className="w-4 h-4 text-indigo-500" /> Advanced Growth Roadmap
@@ -556,12 +1070,12 @@ export default function App() {
                   <CheckCircle2 className="w-4 h-4 text-indigo-500" /> Competitor Analysis
                 </li>
               </ul>
-              <button className="w-full py-3 rounded-full bg-indigo-600 text-white font-semibold hover:bg-indigo-700 shadow-lg shadow-indigo-200 transition-all">
+              <button onClick={tryPro} className="w-full py-3 rounded-full bg-indigo-600 text-white font-semibold hover:bg-indigo-700 shadow-lg shadow-indigo-200 transition-all">
                 Try Pro Free
               </button>
             </div>
             <div className="glass-card p-8 flex flex-col">
-              <h3 className="text-lg font-bold mb-2">Enterprise</h3>
+              <h3 className="text-lg font-bold mb-2">{PLANS.enterprise.name}</h3>
               <div className="text-4xl font-bold mb-4">Custom</div>
               <p className="text-slate-600 text-sm mb-6">Tailored solutions for large scale operations.</p>
               <ul className="space-y-3 mb-8 flex-grow">
@@ -583,6 +1097,91 @@ export default function App() {
         </section>
       </main>
 
+      <HistoryPanel
+        open={isHistoryOpen}
+        workspaceId={workspace?.id ?? null}
+        canEdit={canEdit}
+        activeId={activeReport?.id ?? null}
+        onClose={() => setIsHistoryOpen(false)}
+        onOpenReport={openReport}
+        onRenamed={(report) => {
+          if (report.id === activeReport?.id) setActiveReport(report);
+        }}
+        onDeleted={(id) => {
+          clearBoard(id);
+          if (id === activeReport?.id) {
+            setResult(null);
+            setActiveReport(null);
+          }
+        }}
+      />
+
+      {account && (
+        <WorkspacePanel
+          open={isWorkspacesOpen}
+          account={account}
+          workspaceId={workspace?.id ?? null}
+          onClose={() => setIsWorkspacesOpen(false)}
+          onSwitch={setWorkspaceId}
+          onAccountChange={setAccount}
+          onSignOut={signOut}
+        />
+      )}
+
+      <BusinessContextPanel
+        open={isContextOpen}
+        workspace={workspace}
+        template={analysisType}
+        reviews={records}
+        language={language}
+        reportLanguage={reportLanguage}
+        onClose={() => setIsContextOpen(false)}
+      />
+
+      <PrivacyPanel
+        open={isPrivacyOpen}
+        workspace={workspace}
+        rules={redactionRules}
+        reviews={records}
+        onClose={() => setIsPrivacyOpen(false)}
+        onSaved={setRedactionRules}
+      />
+
+      <SchedulesPanel
+        open={isSchedulesOpen}
+        workspace={workspace}
+        template={analysisType}
+        language={language}
+        reportLanguage={reportLanguage}
+        model={modelChoice}
+        onClose={() => setIsSchedulesOpen(false)}
+        onOpenReport={openReport}
+      />
+
+      <NotificationsPanel
+        open={isNotificationsOpen}
+        workspace={workspace}
+        onClose={() => setIsNotificationsOpen(false)}
+      />
+
+      <UsagePanel
+        open={isUsageOpen}
+        workspace={workspace}
+        onClose={() => setIsUsageOpen(false)}
+        onPlanChanged={(id, plan) =>
+          setAccount(current => current && { ...current, workspaces: current.workspaces.map(w => (w.id === id ? { ...w, plan } : w)) })
+        }
+      />
+
+      {account && (
+        <JobTray
+          activeJobId={activeJob?.id ?? null}
+          onOpenReport={reportId => getReport(reportId).then(openReport)}
+        />
+      )}
+
+      <AuthDialog mode={authMode} onModeChange={setAuthMode} onSignedIn={setAccount} />
+
       {/* Footer */}
       <footer className="bg-white border-t border-slate-200 py-12 mt-20">
         <div className="container mx-auto px-4">
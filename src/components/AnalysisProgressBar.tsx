@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Loader2, Square, X } from 'lucide-react';
+import type { AnalysisJob, AnalysisProgress } from '../types';
+
+interface AnalysisProgressBarProps {
+  progress: AnalysisProgress | null;
+  // The server job behind the run, once it has been queued.
+  job?: AnalysisJob | null;
+  // Names the review set being analyzed when more than one runs in sequence.
+  title?: string | null;
+  // Once part of the report has streamed in, stopping keeps it on screen.
+  hasPartial?: boolean;
+  onCancel: () => void;
+}
+
+// Why a queued job is waiting: for a free worker, or to retry after a failed attempt.
+function queuedLabel(job: AnalysisJob) {
+  if (!job.retryAt) return 'Waiting for the analysis to start...';
+  const reason = job.errorCategory === 'quota' ? 'Model rate limit reached' : 'Model service unreachable';
+  const at = new Date(job.retryAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+  return `${reason} · retrying at ${at} (attempt ${job.attempts + 1})`;
+}
+
+export function AnalysisProgressBar({ progress, job, title, hasPartial, onCancel }: AnalysisProgressBarProps) {
+  const total = progress?.totalBatches ?? 1;
+  const completed = progress?.completedBatches ?? 0;
+  // The final strategy pass counts as one more step after the batches.
+  const steps = total > 1 ? total + 1 : 1;
+  const done = progress?.stage === 'map' ? completed : progress && total > 1 ? total : 0;
+  const label = job?.status === 'queued'
+    ? queuedLabel(job)
+    : !progress
+    ? 'Starting analysis...'
+    : progress.stage === 'map'
+      ? `Reading batch ${Math.min(completed + 1, total)} of ${total} (${completed} done)`
+      : total > 1
+        ? `Merged findings from ${total} batches · generating strategy...`
+        : 'Generating strategy...';
+
+  return (
+    <div className="mt-6 p-4 bg-indigo-50/60 border border-indigo-100 rounded-xl">
+      <div className="flex items-center justify-between gap-4 mb-2">
+        <div className="flex items-center gap-2 text-sm font-medium text-indigo-900">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          {title ? `${title}: ${label}` : label}
+        </div>
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-1 text-xs font-bold text-slate-500 hover:text-red-600 uppercase tracking-wider"
+        >
+          {hasPartial ? <Square className="w-3.5 h-3.5" /> : <X className="w-3.5 h-3.5" />}
+          {hasPartial ? 'Stop' : 'Cancel'}
+        </button>
+      </div>
+      <div className="w-full h-1.5 bg-white rounded-full overflow-hidden">
+        <div
+          className="h-full bg-indigo-500 transition-all duration-500"
+          style={{ width: `${Math.max(5, (done / steps) * 100)}%` }}
+        />
+      </div>
+      {job && (
+        <p className="mt-2 text-xs text-indigo-900/60">
+          This runs on the server: you can leave the page, and the report will be saved to History.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Check, Copy, KeyRound, Plus, Trash2 } from 'lucide-react';
+import { createApiKey, listApiKeys, revokeApiKey } from '../lib/api';
+import type { ApiKey, CreatedApiKey } from '../types';
+
+interface ApiKeysSectionProps {
+  workspaceId: string;
+  workspaceName: string;
+}
+
+const DEFAULT_RATE_LIMIT = 60;
+
+const inputClass = "min-w-0 text-sm px-3 py-2 border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500";
+
+// Editors only: keys act as editors of the workspace through the public API.
+export function ApiKeysSection({ workspaceId, workspaceName }: ApiKeysSectionProps) {
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [rateLimit, setRateLimit] = useState(DEFAULT_RATE_LIMIT);
+  // The new key's secret, shown until the panel moves on; the server keeps only a hash.
+  const [created, setCreated] = useState<CreatedApiKey | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setCreated(null);
+    setError(null);
+    listApiKeys(workspaceId)
+      .then(list => {
+        if (!cancelled) setKeys(list);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId]);
+
+  const handleCreate = async () => {
+    if (!name.trim()) return;
+    setError(null);
+    try {
+      const key = await createApiKey(workspaceId, name, rateLimit);
+      setKeys(list => [...list, key]);
+      setCreated(key);
+      setCopied(false);
+      setName('');
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleRevoke = async (key: ApiKey) => {
+    if (!window.confirm(`Revoke "${key.name}"? Scripts using it will stop working.`)) return;
+    setError(null);
+    try {
+      await revokeApiKey(workspaceId, key.id);
+      setKeys(list => list.filter(k => k.id !== key.id));
+      if (created?.id === key.id) setCreated(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const copySecret = async () => {
+    if (!created) return;
+    await navigator.clipboard.writeText(created.secret);
+    setCopied(true);
+  };
+
+  return (
+    <section>
+      <h3 className="px-2 mb-2 text-xs font-bold text-slate-400 uppercase tracking-wider truncate">API Keys for {workspaceName}</h3>
+
+      {error && <p className="mb-2 p-3 text-sm text-red-700 bg-red-50 border border-red-100 rounded-lg">{error}</p>}
+
+      {created && (
+        <div className="mb-3 p-3 rounded-xl border border-emerald-200 bg-emerald-50">
+          <p className="text-xs font-semibold text-emerald-800 mb-2">Copy this key now. It won't be shown again.</p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 min-w-0 truncate text-xs bg-white border border-emerald-100 rounded-lg px-2 py-1.5">{created.secret}</code>
+            <button onClick={copySecret} className="p-1.5 text-emerald-700 hover:text-emerald-900" aria-label="Copy API key">
+              {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <ul className="space-y-1">
+        {keys.map(key => (
+          <li key={key.id} className="flex items-center gap-2 px-3 py-2 rounded-xl border border-slate-100">
+            <KeyRound className="w-4 h-4 text-slate-400 flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-semibold text-slate-900 truncate">{key.name}</p>
+              <p className="text-xs text-slate-500 truncate">
+                <code>{key.prefix}…</code> · {key.rateLimit}/min ·{' '}
+                {key.lastUsedAt ? `used ${new Date(key.lastUsedAt).toLocaleString()}` : 'never used'}
+                {key.createdBy && ` · by ${key.createdBy}`}
+              </p>
+            </div>
+            <button onClick={() => handleRevoke(key)} className="p-1 text-slate-400 hover:text-red-600" aria-label={`Revoke ${key.name}`}>
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <form
+        className="flex items-center gap-2 mt-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleCreate();
+        }}
+      >
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Key name, e.g. Nightly ETL" className={`${inputClass} flex-1`} />
+        <label className="flex items-center gap-1 text-xs text-slate-500">
+          <input
+            type="number"
+            min={1}
+            max={600}
+            value={rateLimit}
+            onChange={(e) => setRateLimit(Math.max(1, Math.round(Number(e.target.value)) || 1))}
+            className={`${inputClass} w-20`}
+            aria-label="Requests per minute"
+          />
+          /min
+        </label>
+        <button type="submit" disabled={!name.trim()} className="p-2 text-indigo-600 disabled:text-slate-300" aria-label="Create API key">
+          <Plus className="w-5 h-5" />
+        </button>
+      </form>
+      <p className="mt-3 px-2 text-xs text-slate-400">
+        Keys can submit analyses and read this workspace's reports, and count against its plan.
+        See the <a href="/api/v1/openapi.json" target="_blank" rel="noreferrer" className="underline underline-offset-2 hover:text-indigo-600">OpenAPI document</a> for the endpoints.
+      </p>
+    </section>
+  );
+}
@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Loader2, X } from 'lucide-react';
+import { logIn, signUp } from '../lib/api';
+import { cn } from '../lib/utils';
+import type { Account } from '../types';
+
+export type AuthMode = 'login' | 'signup';
+
+interface AuthDialogProps {
+  // The dialog is closed while this is null.
+  mode: AuthMode | null;
+  onModeChange: (mode: AuthMode | null) => void;
+  onSignedIn: (account: Account) => void;
+}
+
+const inputClass = "w-full p-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none bg-slate-50/50 text-sm";
+
+export function AuthDialog({ mode, onModeChange, onSignedIn }: AuthDialogProps) {
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+    setPassword('');
+  }, [mode]);
+
+  if (!mode) return null;
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const account = mode === 'signup' ? await signUp({ email, name, password }) : await logIn({ email, password });
+      onSignedIn(account);
+      onModeChange(null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/30" onClick={() => onModeChange(null)} />
+      <form onSubmit={submit} className="relative w-full max-w-sm bg-white rounded-2xl shadow-xl p-8">
+        <button
+          type="button"
+          onClick={() => onModeChange(null)}
+          className="absolute top-4 right-4 p-1 text-slate-400 hover:text-slate-700"
+          aria-label="Close"
+        >
+          <X className="w-5 h-5" />
+        </button>
+        <h2 className="text-2xl font-bold text-slate-900 mb-1">{mode === 'signup' ? 'Create your account' : 'Welcome back'}</h2>
+        <p className="text-sm text-slate-500 mb-6">
+          {mode === 'signup'
+            ? 'Reports you run are saved to your workspace, where teammates you invite can see them.'
+            : 'Sign in to run analyses and see your workspace reports.'}
+        </p>
+
+        <div className="space-y-3">
+          {mode === 'signup' && (
+            <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" autoComplete="name" required className={inputClass} />
+          )}
+          <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="Email" autoComplete="email" required className={inputClass} />
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder={mode === 'signup' ? 'Password (8+ characters)' : 'Password'}
+            autoComplete={mode === 'signup' ? 'new-password' : 'current-password'}
+            minLength={mode === 'signup' ? 8 : undefined}
+            required
+            className={inputClass}
+          />
+        </div>
+
+        {error && <p className="mt-4 text-sm font-medium text-red-600">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className={cn(
+            "mt-6 w-full flex items-center justify-center gap-2 py-3 rounded-full font-semibold text-white transition-all",
+            isSubmitting ? "bg-slate-300 cursor-not-allowed" : "bg-indigo-600 hover:bg-indigo-700 shadow-lg shadow-indigo-200"
+          )}
+        >
+          {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+          {mode === 'signup' ? 'Sign Up' : 'Sign In'}
+        </button>
+
+        <p className="mt-4 text-center text-sm text-slate-500">
+          {mode === 'signup' ? 'Already have an account?' : 'New to Sale Squid?'}{' '}
+          <button
+            type="button"
+            onClick={() => onModeChange(mode === 'signup' ? 'login' : 'signup')}
+            className="font-medium text-indigo-600 hover:text-indigo-700 underline underline-offset-4"
+          >
+            {mode === 'signup' ? 'Sign in' : 'Create an account'}
+          </button>
+        </p>
+      </form>
+    </div>
+  );
+}
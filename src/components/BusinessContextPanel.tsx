@@ -0,0 +1,368 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Building2, Eye, History, Loader2, RotateCcw, Save, X } from 'lucide-react';
+import {
+  getBusinessProfile, listTemplates, listTemplateVersions, previewPrompt, resetTemplate, saveBusinessProfile, saveTemplate
+} from '../lib/api';
+import { DEFAULT_TEMPLATES, EMPTY_PROFILE, MAX_TEMPLATE_CHARS, PROFILE_FIELDS, TEMPLATE_IDS, TEMPLATE_VARIABLES, unknownVariables } from '../lib/promptTemplates';
+import { cn } from '../lib/utils';
+import type { BusinessProfile, PromptTemplate, PromptTemplateVersion, ReviewRecord, TemplateId, Workspace } from '../types';
+
+interface BusinessContextPanelProps {
+  open: boolean;
+  workspace: Workspace | null;
+  // The analysis type picked in the analyzer, opened first.
+  template: TemplateId;
+  // The analyzer's current input, so the preview shows the prompt as it would be sent.
+  reviews: ReviewRecord[];
+  language: string;
+  reportLanguage: string;
+  onClose: () => void;
+}
+
+// The preview shows the first reviews only; the rest would follow the same way.
+const PREVIEW_REVIEWS = 20;
+
+const inputClass = "w-full text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500 disabled:text-slate-500";
+
+const describeVersion = (template: PromptTemplate) =>
+  template.version === 0
+    ? 'Built-in default'
+    : `Version ${template.version}${template.isDefault ? ' (default wording)' : ''} · ${template.updatedBy ?? 'Unknown'}, ${new Date(template.updatedAt!).toLocaleDateString()}`;
+
+export function BusinessContextPanel({ open, workspace, template: initialTemplate, reviews, language, reportLanguage, onClose }: BusinessContextPanelProps) {
+  const [tab, setTab] = useState<'profile' | 'templates'>('profile');
+  const [profile, setProfile] = useState<BusinessProfile>(EMPTY_PROFILE);
+  const [savedProfile, setSavedProfile] = useState<BusinessProfile | null>(null);
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [templateId, setTemplateId] = useState<TemplateId>(initialTemplate);
+  const [draft, setDraft] = useState('');
+  const [versions, setVersions] = useState<PromptTemplateVersion[]>([]);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const editorRef = useRef<HTMLTextAreaElement>(null);
+
+  const workspaceId = workspace?.id ?? null;
+  const canEdit = workspace?.role === 'editor';
+  const current = templates.find(t => t.id === templateId);
+  const unknown = unknownVariables(draft);
+  const profileChanged = !!savedProfile && JSON.stringify(profile) !== JSON.stringify(savedProfile);
+  const templateChanged = !!current && draft !== current.body;
+
+  // Refetched on every open, since teammates may have edited either one.
+  useEffect(() => {
+    if (!open || !workspaceId) return;
+    let cancelled = false;
+    setError(null);
+    setNotice(null);
+    setPreview(null);
+    setTemplateId(initialTemplate);
+    Promise.all([getBusinessProfile(workspaceId), listTemplates(workspaceId)])
+      .then(([loadedProfile, loadedTemplates]) => {
+        if (cancelled) return;
+        setProfile(loadedProfile);
+        setSavedProfile(loadedProfile);
+        setTemplates(loadedTemplates);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, workspaceId]);
+
+  useEffect(() => {
+    if (!open || !workspaceId || !current) return;
+    let cancelled = false;
+    setDraft(current.body);
+    setPreview(null);
+    listTemplateVersions(workspaceId, current.id)
+      .then(list => {
+        if (!cancelled) setVersions(list);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [open, workspaceId, current?.id, current?.version]);
+
+  const run = async (action: () => Promise<string | void>) => {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const message = await action();
+      if (message) setNotice(message);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const replaceTemplate = (updated: PromptTemplate) =>
+    setTemplates(list => list.map(t => (t.id === updated.id ? updated : t)));
+
+  const handleSaveProfile = () =>
+    run(async () => {
+      const saved = await saveBusinessProfile(workspaceId!, profile);
+      setProfile(saved);
+      setSavedProfile(saved);
+      return 'Business Profile saved. New analyses in this workspace will use it.';
+    });
+
+  const handleSaveTemplate = () =>
+    run(async () => {
+      const saved = await saveTemplate(workspaceId!, templateId, draft);
+      replaceTemplate(saved);
+      return `Saved as version ${saved.version}.`;
+    });
+
+  const handleReset = () => {
+    if (!window.confirm(`Reset the ${DEFAULT_TEMPLATES[templateId].name} template to the built-in wording? Earlier versions stay in the history.`)) return;
+    run(async () => {
+      const saved = await resetTemplate(workspaceId!, templateId);
+      replaceTemplate(saved);
+      return saved.version ? `Reset to the default wording as version ${saved.version}.` : 'Already using the default wording.';
+    });
+  };
+
+  const handlePreview = () =>
+    run(async () => {
+      const { prompt } = await previewPrompt(workspaceId!, templateId, {
+        body: draft,
+        profile,
+        reviews: reviews.slice(0, PREVIEW_REVIEWS),
+        language,
+        reportLanguage,
+      });
+      setPreview(prompt);
+    });
+
+  // Puts {{name}} at the cursor, or at the end when the editor hasn't been focused.
+  const insertVariable = (name: string) => {
+    const editor = editorRef.current;
+    const at = editor?.selectionStart ?? draft.length;
+    const end = editor?.selectionEnd ?? at;
+    setDraft(`${draft.slice(0, at)}{{${name}}}${draft.slice(end)}`);
+    requestAnimationFrame(() => {
+      editor?.focus();
+      editor?.setSelectionRange(at + name.length + 4, at + name.length + 4);
+    });
+  };
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end">
+      <div className="absolute inset-0 bg-slate-900/30" onClick={onClose} />
+      <aside className="relative w-full max-w-2xl h-full bg-white shadow-xl flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div className="flex items-center gap-2 min-w-0">
+            <Building2 className="text-indigo-600 w-5 h-5 flex-shrink-0" />
+            <h2 className="text-xl font-semibold text-slate-900 truncate">Business Context{workspace && ` · ${workspace.name}`}</h2>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700" aria-label="Close business context">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex gap-1 mx-6 mt-4 p-1 bg-slate-100 rounded-lg text-xs font-semibold">
+          {(['profile', 'templates'] as const).map(t => (
+            <button
+              key={t}
+              onClick={() => setTab(t)}
+              className={cn(
+                "flex-1 py-1.5 rounded-md transition-colors",
+                tab === t ? "bg-white text-indigo-600 shadow-sm" : "text-slate-500 hover:text-slate-700"
+              )}
+            >
+              {t === 'profile' ? 'Business Profile' : 'Prompt Templates'}
+            </button>
+          ))}
+        </div>
+
+        {error && <p className="mx-6 mt-4 p-3 text-sm text-red-700 bg-red-50 border border-red-100 rounded-lg">{error}</p>}
+        {notice && <p className="mx-6 mt-4 p-3 text-sm text-emerald-700 bg-emerald-50 border border-emerald-100 rounded-lg">{notice}</p>}
+
+        {!workspaceId ? (
+          <p className="p-6 text-sm text-slate-500">Create a workspace to set up its Business Profile and templates.</p>
+        ) : !savedProfile ? (
+          !error && (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-5 h-5 text-slate-400 animate-spin" />
+            </div>
+          )
+        ) : tab === 'profile' ? (
+          <div className="flex-1 overflow-y-auto p-6 space-y-4">
+            <p className="text-sm text-slate-500">
+              Every analysis in this workspace tells the model about the business, so strategies fit your industry,
+              price point and the channels you actually sell through. Leave out anything you'd rather not share.
+            </p>
+            {(Object.keys(PROFILE_FIELDS) as (keyof BusinessProfile)[]).map(key => (
+              <label key={key} className="block">
+                <span className="block mb-1 text-xs font-semibold text-slate-600">{PROFILE_FIELDS[key].label}</span>
+                {key === 'notes' ? (
+                  <textarea
+                    value={profile[key]}
+                    onChange={(e) => setProfile({ ...profile, [key]: e.target.value })}
+                    placeholder={PROFILE_FIELDS[key].placeholder}
+                    disabled={!canEdit}
+                    className={cn(inputClass, "h-24 resize-none")}
+                  />
+                ) : (
+                  <input
+                    value={profile[key]}
+                    onChange={(e) => setProfile({ ...profile, [key]: e.target.value })}
+                    placeholder={PROFILE_FIELDS[key].placeholder}
+                    disabled={!canEdit}
+                    className={inputClass}
+                  />
+                )}
+              </label>
+            ))}
+            <div className="flex items-center justify-between gap-4 pt-2">
+              <p className="text-xs text-slate-400">{canEdit ? 'Shared with everyone in the workspace.' : 'Only editors can change the profile.'}</p>
+              <button
+                onClick={handleSaveProfile}
+                disabled={!canEdit || !profileChanged || busy}
+                className="flex items-center gap-2 px-5 py-2 rounded-full text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 disabled:cursor-not-allowed transition-colors"
+              >
+                <Save className="w-4 h-4" />
+                Save Profile
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-6 space-y-4">
+            <div className="grid grid-cols-3 gap-2">
+              {TEMPLATE_IDS.map(id => (
+                <button
+                  key={id}
+                  onClick={() => setTemplateId(id)}
+                  className={cn(
+                    "p-3 rounded-xl border text-left transition-colors",
+                    id === templateId ? "border-indigo-300 bg-indigo-50" : "border-slate-100 hover:bg-slate-50"
+                  )}
+                >
+                  <p className="text-sm font-semibold text-slate-900">{DEFAULT_TEMPLATES[id].name}</p>
+                  <p className="text-[11px] text-slate-500 line-clamp-2">{DEFAULT_TEMPLATES[id].description}</p>
+                </button>
+              ))}
+            </div>
+            {current && (
+              <>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <p className="text-xs font-semibold text-slate-500">{describeVersion(current)}</p>
+                  {versions.length > 0 && (
+                    <label className="flex items-center gap-2 text-xs text-slate-500">
+                      <History className="w-3.5 h-3.5" />
+                      <select
+                        value=""
+                        onChange={(e) => {
+                          const version = versions.find(v => v.version === Number(e.target.value));
+                          if (version) setDraft(version.body);
+                        }}
+                        className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 outline-none focus:ring-2 focus:ring-indigo-500"
+                      >
+                        <option value="">Load an earlier version…</option>
+                        {versions.map(v => (
+                          <option key={v.version} value={v.version}>
+                            v{v.version} · {v.createdBy ?? 'Unknown'}, {new Date(v.createdAt).toLocaleString()}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+                </div>
+                <p className="text-sm text-slate-500">
+                  This wording frames the strategy. The reviews, the evidence rules and the report language are always
+                  added around it.
+                </p>
+                <textarea
+                  ref={editorRef}
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  disabled={!canEdit}
+                  maxLength={MAX_TEMPLATE_CHARS}
+                  spellCheck={false}
+                  className={cn(inputClass, "h-72 font-mono text-xs leading-relaxed resize-y")}
+                />
+                <div>
+                  <p className="mb-2 text-[10px] font-bold text-slate-400 uppercase tracking-wider">Variables</p>
+                  <div className="flex flex-wrap gap-1.5">
+                    {TEMPLATE_VARIABLES.map(v => (
+                      <button
+                        key={v.name}
+                        onClick={() => insertVariable(v.name)}
+                        disabled={!canEdit}
+                        title={v.description}
+                        className="px-2 py-1 rounded-md bg-slate-100 font-mono text-[11px] text-slate-600 hover:bg-indigo-50 hover:text-indigo-700 disabled:hover:bg-slate-100 disabled:hover:text-slate-600"
+                      >
+                        {`{{${v.name}}}`}
+                      </button>
+                    ))}
+                  </div>
+                  {unknown.length > 0 && (
+                    <p className="mt-2 text-xs text-red-600">
+                      Unknown {unknown.length === 1 ? 'variable' : 'variables'}: {unknown.map(v => `{{${v}}}`).join(', ')}
+                    </p>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center justify-between gap-3 pt-2">
+                  <div className="flex items-center gap-4">
+                    <button
+                      onClick={handlePreview}
+                      disabled={busy || !draft.trim()}
+                      className="flex items-center gap-1.5 text-sm font-medium text-indigo-600 hover:text-indigo-700 disabled:text-slate-300"
+                    >
+                      <Eye className="w-4 h-4" />
+                      Preview prompt
+                    </button>
+                    {canEdit && (
+                      <button
+                        onClick={handleReset}
+                        disabled={busy || current.isDefault}
+                        className="flex items-center gap-1.5 text-sm font-medium text-slate-500 hover:text-red-600 disabled:text-slate-300"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                        Reset to default
+                      </button>
+                    )}
+                  </div>
+                  <button
+                    onClick={handleSaveTemplate}
+                    disabled={!canEdit || !templateChanged || unknown.length > 0 || !draft.trim() || busy}
+                    className="flex items-center gap-2 px-5 py-2 rounded-full text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 disabled:cursor-not-allowed transition-colors"
+                  >
+                    <Save className="w-4 h-4" />
+                    Save as New Version
+                  </button>
+                </div>
+                {!canEdit && <p className="text-xs text-slate-400">Only editors can change templates.</p>}
+                {preview !== null && (
+                  <div>
+                    <p className="mb-2 text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+                      Rendered prompt{reviews.length > PREVIEW_REVIEWS && ` · first ${PREVIEW_REVIEWS} of ${reviews.length} reviews`}
+                    </p>
+                    <pre className="max-h-96 overflow-auto p-4 rounded-xl bg-slate-900 text-slate-100 text-xs leading-relaxed whitespace-pre-wrap">{preview}</pre>
+                    <p className="mt-2 text-xs text-slate-400">
+                      Large review sets are read in batches first; the final pass gets the same wording with the merged findings.
+                    </p>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { GitCompare, Loader2 } from 'lucide-react';
+import { listReports } from '../lib/api';
+import { parseReviewText } from '../lib/reviews';
+import { cn } from '../lib/utils';
+import { ReviewImporter } from './ReviewImporter';
+import type { ReportSummary, ReviewRecord } from '../types';
+
+// One side of a comparison: fresh reviews to analyze, or a report already in History.
+export type CompareSet =
+  | { label: string; records: ReviewRecord[] }
+  | { label: string; reportId: string };
+
+interface SideState {
+  label: string;
+  source: 'reviews' | 'saved';
+  text: string;
+  imported: { fileName: string; records: ReviewRecord[] } | null;
+  reportId: string;
+}
+
+interface ComparePanelProps {
+  // Saved reports are offered from this workspace.
+  workspaceId: string | null;
+  isAnalyzing: boolean;
+  onCompare: (before: CompareSet, after: CompareSet) => void;
+}
+
+const emptySide = (label: string): SideState => ({ label, source: 'reviews', text: '', imported: null, reportId: '' });
+
+function toSet(side: SideState): CompareSet | null {
+  const label = side.label.trim() || 'Untitled';
+  if (side.source === 'saved') return side.reportId ? { label, reportId: side.reportId } : null;
+  const records = side.imported?.records ?? parseReviewText(side.text);
+  return records.length ? { label, records } : null;
+}
+
+function CompareSide({ title, side, reports, onChange }: {
+  title: string;
+  side: SideState;
+  reports: ReportSummary[];
+  onChange: (side: SideState) => void;
+}) {
+  const count = side.imported?.records.length ?? parseReviewText(side.text).length;
+  return (
+    <div className="flex-1 min-w-0">
+      <div className="flex items-center gap-2 mb-3">
+        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{title}</span>
+        <input
+          value={side.label}
+          onChange={(e) => onChange({ ...side, label: e.target.value })}
+          placeholder="Label, e.g. Q1"
+          className="flex-1 text-sm font-semibold bg-slate-50 border border-slate-200 rounded-lg px-3 py-1.5 outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+      </div>
+      <div className="flex gap-1 p-1 mb-3 bg-slate-100 rounded-lg text-xs font-semibold">
+        {(['reviews', 'saved'] as const).map(source => (
+          <button
+            key={source}
+            onClick={() => onChange({ ...side, source })}
+            className={cn(
+              "flex-1 py-1.5 rounded-md transition-colors",
+              side.source === source ? "bg-white text-indigo-600 shadow-sm" : "text-slate-500 hover:text-slate-700"
+            )}
+          >
+            {source === 'reviews' ? 'New reviews' : 'Saved report'}
+          </button>
+        ))}
+      </div>
+      {side.source === 'saved' ? (
+        <select
+          value={side.reportId}
+          onChange={(e) => onChange({ ...side, reportId: e.target.value })}
+          className="w-full text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          <option value="">{reports.length ? 'Choose a saved report…' : 'No saved reports yet'}</option>
+          {reports.map(r => (
+            <option key={r.id} value={r.id}>{r.title} · {new Date(r.createdAt).toLocaleDateString()}</option>
+          ))}
+        </select>
+      ) : (
+        <>
+          <ReviewImporter onImport={(records, fileName) => onChange({ ...side, imported: { fileName, records } })} />
+          {side.imported ? (
+            <div className="h-40 p-4 rounded-xl border border-slate-200 bg-slate-50/50 flex items-center justify-between gap-3">
+              <p className="text-sm font-semibold text-slate-900">
+                {side.imported.records.length.toLocaleString()} reviews from {side.imported.fileName}
+              </p>
+              <button
+                onClick={() => onChange({ ...side, imported: null })}
+                className="text-xs font-medium text-slate-500 hover:text-red-600 underline underline-offset-4"
+              >
+                Clear import
+              </button>
+            </div>
+          ) : (
+            <textarea
+              className="w-full h-40 p-4 rounded-xl border border-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none resize-none bg-slate-50/50 text-sm"
+              placeholder="Paste reviews, one per line..."
+              value={side.text}
+              onChange={(e) => onChange({ ...side, text: e.target.value })}
+            />
+          )}
+          <p className="mt-1 text-[10px] font-bold text-slate-400 uppercase tracking-wider text-right">{count} Reviews</p>
+        </>
+      )}
+    </div>
+  );
+}
+
+export function ComparePanel({ workspaceId, isAnalyzing, onCompare }: ComparePanelProps) {
+  const [before, setBefore] = useState(() => emptySide('Before'));
+  const [after, setAfter] = useState(() => emptySide('After'));
+  const [reports, setReports] = useState<ReportSummary[]>([]);
+
+  const needsReports = before.source === 'saved' || after.source === 'saved';
+  useEffect(() => {
+    if (!needsReports || !workspaceId) return;
+    let cancelled = false;
+    listReports(workspaceId)
+      .then(list => {
+        if (!cancelled) setReports(list);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [needsReports, workspaceId]);
+
+  const beforeSet = toSet(before);
+  const afterSet = toSet(after);
+  const ready = !!beforeSet && !!afterSet && !isAnalyzing;
+
+  return (
+    <>
+      <p className="mb-4 text-sm text-slate-500">
+        Compare two periods (Q1 vs Q2) or two products. Each side is analyzed on its own and saved to History,
+        then pain points and blockers are matched to show what was resolved, what is new and what persists.
+      </p>
+      <div className="flex flex-col md:flex-row gap-6">
+        <CompareSide title="Before" side={before} reports={reports} onChange={setBefore} />
+        <CompareSide title="After" side={after} reports={reports} onChange={setAfter} />
+      </div>
+      <div className="mt-6 flex justify-end">
+        <button
+          onClick={() => beforeSet && afterSet && onCompare(beforeSet, afterSet)}
+          disabled={!ready}
+          className={cn(
+            "flex items-center gap-2 px-8 py-3 rounded-full font-semibold text-white transition-all",
+            !ready ? "bg-slate-300 cursor-not-allowed" : "bg-indigo-600 hover:bg-indigo-700 shadow-lg shadow-indigo-200"
+          )}
+        >
+          {isAnalyzing ? (
+            <>
+              <Loader2 className="w-5 h-5 animate-spin" />
+              Comparing...
+            </>
+          ) : (
+            <>
+              <GitCompare className="w-5 h-5" />
+              Compare Review Sets
+            </>
+          )}
+        </button>
+      </div>
+    </>
+  );
+}
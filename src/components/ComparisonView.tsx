@@ -0,0 +1,160 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { AlertCircle, ArrowRight, CheckCircle2, GitCompare, Repeat, TrendingDown, TrendingUp } from 'lucide-react';
+import type { Comparison, FindingDiff } from '../lib/compare';
+import { cn } from '../lib/utils';
+import { severityStyles } from './FindingItem';
+import type { Finding, SavedReport } from '../types';
+
+interface ComparisonViewProps {
+  comparison: Comparison;
+  beforeLabel: string;
+  afterLabel: string;
+  onOpenReport: (report: SavedReport) => void;
+}
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+function Delta({ value, format, higherIsBetter = true }: { value: number; format: (v: number) => string; higherIsBetter?: boolean }) {
+  const better = higherIsBetter ? value > 0 : value < 0;
+  const flat = Math.abs(value) < 0.005;
+  const Icon = value >= 0 ? TrendingUp : TrendingDown;
+  return (
+    <span className={cn("inline-flex items-center gap-1 text-xs font-bold", flat ? "text-slate-400" : better ? "text-emerald-600" : "text-red-600")}>
+      {!flat && <Icon className="w-3.5 h-3.5" />}
+      {value > 0 ? '+' : ''}{format(value)}
+    </span>
+  );
+}
+
+function FindingLine({ finding, detail }: { finding: Finding; detail?: React.ReactNode }) {
+  return (
+    <li className="p-3 rounded-lg bg-white border border-slate-100">
+      <p className="text-sm text-slate-700 leading-relaxed">{finding.text}</p>
+      <div className="mt-1 flex flex-wrap items-center gap-2">
+        <span className={cn("px-2 py-0.5 rounded-full text-[10px] font-bold uppercase", severityStyles[finding.severity])}>
+          {finding.severity}
+        </span>
+        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+          {detail ?? `${finding.frequency} ${finding.frequency === 1 ? 'review' : 'reviews'}`}
+        </span>
+      </div>
+    </li>
+  );
+}
+
+function DiffColumn({ title, icon, tone, empty, children }: {
+  title: string;
+  icon: React.ReactNode;
+  tone: string;
+  empty: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className={cn("p-4 rounded-xl", tone)}>
+      <div className="flex items-center gap-2 mb-3">
+        {icon}
+        <h4 className="text-sm font-bold uppercase tracking-wider">{title}</h4>
+      </div>
+      {empty ? <p className="text-sm text-slate-500">None</p> : <ul className="space-y-2">{children}</ul>}
+    </div>
+  );
+}
+
+function FindingDiffSection({ title, diff }: { title: string; diff: FindingDiff }) {
+  return (
+    <div className="glass-card p-6">
+      <h3 className="text-lg font-semibold text-slate-900 mb-4">{title}</h3>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <DiffColumn
+          title={`Resolved (${diff.resolved.length})`}
+          icon={<CheckCircle2 className="w-4 h-4" />}
+          tone="bg-emerald-50 text-emerald-700"
+          empty={diff.resolved.length === 0}
+        >
+          {diff.resolved.map((f, i) => <FindingLine key={i} finding={f} />)}
+        </DiffColumn>
+        <DiffColumn
+          title={`New (${diff.new.length})`}
+          icon={<AlertCircle className="w-4 h-4" />}
+          tone="bg-red-50 text-red-700"
+          empty={diff.new.length === 0}
+        >
+          {diff.new.map((f, i) => <FindingLine key={i} finding={f} />)}
+        </DiffColumn>
+        <DiffColumn
+          title={`Persisting (${diff.persisting.length})`}
+          icon={<Repeat className="w-4 h-4" />}
+          tone="bg-amber-50 text-amber-700"
+          empty={diff.persisting.length === 0}
+        >
+          {diff.persisting.map((p, i) => (
+            <FindingLine
+              key={i}
+              finding={p.after}
+              detail={
+                <span className="inline-flex items-center gap-1">
+                  {percent(p.beforeShare)} <ArrowRight className="w-3 h-3" /> {percent(p.afterShare)} of reviews
+                </span>
+              }
+            />
+          ))}
+        </DiffColumn>
+      </div>
+    </div>
+  );
+}
+
+export function ComparisonView({ comparison, beforeLabel, afterLabel, onOpenReport }: ComparisonViewProps) {
+  const { before, after, averageDelta } = comparison.sentiment;
+  const stats = [
+    { label: 'Average sentiment', before: before.average.toFixed(2), after: after.average.toFixed(2), delta: averageDelta, format: (v: number) => v.toFixed(2), higherIsBetter: true },
+    { label: 'Positive reviews', before: percent(before.positiveShare), after: percent(after.positiveShare), delta: after.positiveShare - before.positiveShare, format: (v: number) => `${Math.round(v * 100)} pts`, higherIsBetter: true },
+    { label: 'Negative reviews', before: percent(before.negativeShare), after: percent(after.negativeShare), delta: after.negativeShare - before.negativeShare, format: (v: number) => `${Math.round(v * 100)} pts`, higherIsBetter: false },
+  ];
+
+  return (
+    <div id="results" className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-700">
+      <div className="glass-card p-6">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+          <div className="flex items-center gap-2">
+            <GitCompare className="text-indigo-600 w-5 h-5" />
+            <h2 className="text-xl font-semibold text-slate-900">{beforeLabel} vs {afterLabel}</h2>
+          </div>
+          <div className="flex gap-4">
+            {[{ label: beforeLabel, report: comparison.before }, { label: afterLabel, report: comparison.after }].map(side => (
+              <button
+                key={side.report.id}
+                onClick={() => onOpenReport(side.report)}
+                className="text-xs font-medium text-indigo-600 hover:text-indigo-700 underline underline-offset-4"
+              >
+                Open {side.label} report ({side.report.reviews.length} reviews)
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {stats.map(stat => (
+            <div key={stat.label} className="p-4 rounded-xl bg-slate-50 border border-slate-100">
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">{stat.label}</p>
+              <div className="flex items-center gap-2 text-lg font-bold text-slate-900">
+                {stat.before} <ArrowRight className="w-4 h-4 text-slate-400" /> {stat.after}
+              </div>
+              <Delta value={stat.delta} format={stat.format} higherIsBetter={stat.higherIsBetter} />
+            </div>
+          ))}
+        </div>
+        {(before.reviewCount === 0 || after.reviewCount === 0) && (
+          <p className="mt-4 text-xs text-slate-500">One of the reports has no per-review scores, so its sentiment reads as neutral.</p>
+        )}
+      </div>
+
+      <FindingDiffSection title="Customer Pain Points" diff={comparison.painPoints} />
+      <FindingDiffSection title="Sales Blockers" diff={comparison.salesBlockers} />
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { Crosshair, Loader2, Lock, Plus, X } from 'lucide-react';
+import { PLANS } from '../lib/plans';
+import { MAX_COMPETITORS } from '../lib/positioning';
+import { parseReviewText } from '../lib/reviews';
+import { cn } from '../lib/utils';
+import { ReviewImporter } from './ReviewImporter';
+import type { PlanId, ReviewRecord } from '../types';
+
+interface SourceState {
+  name: string;
+  text: string;
+  imported: { fileName: string; records: ReviewRecord[] } | null;
+}
+
+interface CompetitorPanelProps {
+  // The current workspace's plan; null when signed out.
+  plan: PlanId | null;
+  isAnalyzing: boolean;
+  onAnalyze: (records: ReviewRecord[]) => void;
+  onUpgrade: () => void;
+}
+
+const emptySource = (name = ''): SourceState => ({ name, text: '', imported: null });
+
+const recordsOf = (source: SourceState) => source.imported?.records ?? parseReviewText(source.text);
+
+function ReviewSource({ title, source, placeholder, onChange, onRemove }: {
+  title: string;
+  source: SourceState;
+  // Competitors are named; our own side is not.
+  placeholder?: string;
+  onChange: (source: SourceState) => void;
+  onRemove?: () => void;
+}) {
+  return (
+    <div className="min-w-0">
+      <div className="flex items-center gap-2 mb-3 h-8">
+        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{title}</span>
+        {placeholder !== undefined && (
+          <input
+            value={source.name}
+            onChange={(e) => onChange({ ...source, name: e.target.value })}
+            placeholder={placeholder}
+            className="flex-1 min-w-0 text-sm font-semibold bg-slate-50 border border-slate-200 rounded-lg px-3 py-1.5 outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        )}
+        {onRemove && (
+          <button onClick={onRemove} className="p-1 text-slate-400 hover:text-red-600" aria-label="Remove competitor">
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+      <ReviewImporter onImport={(records, fileName) => onChange({ ...source, imported: { fileName, records } })} />
+      {source.imported ? (
+        <div className="h-32 p-4 rounded-xl border border-slate-200 bg-slate-50/50 flex items-center justify-between gap-3">
+          <p className="text-sm font-semibold text-slate-900">
+            {source.imported.records.length.toLocaleString()} reviews from {source.imported.fileName}
+          </p>
+          <button
+            onClick={() => onChange({ ...source, imported: null })}
+            className="text-xs font-medium text-slate-500 hover:text-red-600 underline underline-offset-4"
+          >
+            Clear import
+          </button>
+        </div>
+      ) : (
+        <textarea
+          className="w-full h-32 p-4 rounded-xl border border-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none resize-none bg-slate-50/50 text-sm"
+          placeholder="Paste reviews, one per line..."
+          value={source.text}
+          onChange={(e) => onChange({ ...source, text: e.target.value })}
+        />
+      )}
+      <p className="mt-1 text-[10px] font-bold text-slate-400 uppercase tracking-wider text-right">{recordsOf(source).length} Reviews</p>
+    </div>
+  );
+}
+
+export function CompetitorPanel({ plan, isAnalyzing, onAnalyze, onUpgrade }: CompetitorPanelProps) {
+  const [own, setOwn] = useState(() => emptySource());
+  const [competitors, setCompetitors] = useState(() => [emptySource()]);
+
+  const allowed = plan === null || PLANS[plan].competitorAnalysis;
+  const ownRecords = recordsOf(own);
+  // Competitors without reviews are left out; ones with reviews need a distinct name.
+  const filled = competitors.filter(c => recordsOf(c).length > 0);
+  const names = filled.map(c => c.name.trim());
+  const problem = !ownRecords.length
+    ? 'Add your own reviews.'
+    : !filled.length
+      ? 'Add reviews for at least one competitor.'
+      : names.some(name => !name)
+        ? 'Name every competitor you added reviews for.'
+        : new Set(names.map(n => n.toLowerCase())).size < names.length
+          ? 'Give each competitor a different name.'
+          : null;
+  const ready = allowed && !problem && !isAnalyzing;
+
+  const updateCompetitor = (index: number, source: SourceState) =>
+    setCompetitors(list => list.map((c, i) => (i === index ? source : c)));
+
+  // Our reviews go in untagged, so a competitor tag carried over from a saved file can't mislabel them.
+  const analyze = () =>
+    onAnalyze([
+      ...ownRecords.map(({ competitor: _, ...record }) => record),
+      ...filled.flatMap(c => recordsOf(c).map(record => ({ ...record, competitor: c.name.trim() }))),
+    ]);
+
+  return (
+    <>
+      <p className="mb-4 text-sm text-slate-500">
+        Load your reviews alongside up to {MAX_COMPETITORS} competitors'. The report adds opportunities where they are
+        weaker, threats where they beat you, feature gaps and price perception, and the marketing strategy is written
+        against them.
+      </p>
+      {!allowed && (
+        <div className="mb-4 p-3 flex flex-wrap items-center justify-between gap-3 rounded-lg border border-amber-100 bg-amber-50 text-sm text-amber-800">
+          <p className="flex items-center gap-2">
+            <Lock className="w-4 h-4 flex-shrink-0" />
+            Competitor analysis is part of the {PLANS.pro.name} plan.
+          </p>
+          <button onClick={onUpgrade} className="text-xs font-semibold text-indigo-600 hover:text-indigo-700 underline underline-offset-4">
+            Try {PLANS.pro.name}
+          </button>
+        </div>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <ReviewSource title="Your reviews" source={own} onChange={setOwn} />
+        {competitors.map((competitor, i) => (
+          <ReviewSource
+            key={i}
+            title={`Competitor ${i + 1}`}
+            source={competitor}
+            placeholder="Name, e.g. Acme"
+            onChange={source => updateCompetitor(i, source)}
+            onRemove={competitors.length > 1 ? () => setCompetitors(list => list.filter((_, j) => j !== i)) : undefined}
+          />
+        ))}
+      </div>
+      <div className="mt-6 flex flex-col md:flex-row justify-between items-center gap-4">
+        <button
+          onClick={() => setCompetitors(list => [...list, emptySource()])}
+          disabled={competitors.length >= MAX_COMPETITORS}
+          className="flex items-center gap-1.5 text-sm font-medium text-indigo-600 hover:text-indigo-700 disabled:text-slate-300 disabled:cursor-not-allowed"
+        >
+          <Plus className="w-4 h-4" />
+          Add competitor
+        </button>
+        <div className="flex items-center gap-4">
+          {allowed && problem && <p className="text-xs text-slate-500">{problem}</p>}
+          <button
+            onClick={analyze}
+            disabled={!ready}
+            className={cn(
+              "flex items-center gap-2 px-8 py-3 rounded-full font-semibold text-white transition-all",
+              !ready ? "bg-slate-300 cursor-not-allowed" : "bg-indigo-600 hover:bg-indigo-700 shadow-lg shadow-indigo-200"
+            )}
+          >
+            {isAnalyzing ? (
+              <>
+                <Loader2 className="w-5 h-5 animate-spin" />
+                Analyzing...
+              </>
+            ) : (
+              <>
+                <Crosshair className="w-5 h-5" />
+                Analyze Against Competitors
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
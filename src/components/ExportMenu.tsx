@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { ChevronRight, FileCode, FileJson, FileText, FileType, Loader2, Printer } from 'lucide-react';
+import { captureChartImage, exportReport, type ExportFormat, type ExportableReport } from '../lib/export';
+
+interface ExportMenuProps {
+  report: ExportableReport;
+  chartRef: React.RefObject<HTMLElement | null>;
+}
+
+const formats: { id: ExportFormat; label: string; icon: typeof FileText }[] = [
+  { id: 'pdf', label: 'PDF (print-ready)', icon: Printer },
+  { id: 'markdown', label: 'Markdown (.md)', icon: FileText },
+  { id: 'doc', label: 'Word (.doc)', icon: FileType },
+  { id: 'html', label: 'HTML (.html)', icon: FileCode },
+  { id: 'json', label: 'Raw data (.json)', icon: FileJson },
+];
+
+export function ExportMenu({ report, chartRef }: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setOpen(false);
+    setIsExporting(true);
+    try {
+      const chart = format === 'json' ? null : await captureChartImage(chartRef.current).catch(() => null);
+      exportReport(format, report, chart);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(o => !o)}
+        disabled={isExporting}
+        className="flex items-center gap-2 px-6 py-3 bg-white text-indigo-900 rounded-full font-bold hover:bg-indigo-50 transition-colors"
+      >
+        Download Full Report
+        {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <ChevronRight className="w-4 h-4" />}
+      </button>
+      {open && (
+        <ul className="absolute right-0 bottom-full mb-2 w-56 bg-white rounded-xl shadow-xl border border-slate-100 py-2 text-slate-700 z-10">
+          {formats.map(({ id, label, icon: Icon }) => (
+            <li key={id}>
+              <button
+                onClick={() => handleExport(id)}
+                className="w-full flex items-center gap-3 px-4 py-2 text-sm hover:bg-indigo-50 text-left"
+              >
+                <Icon className="w-4 h-4 text-indigo-600" />
+                {label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
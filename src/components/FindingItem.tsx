@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import type { ReportLabels } from '../lib/i18n';
+import { cn } from '../lib/utils';
+import type { Finding, Severity } from '../types';
+
+export const severityStyles: Record<Severity, string> = {
+  low: 'bg-slate-100 text-slate-600',
+  medium: 'bg-amber-100 text-amber-700',
+  high: 'bg-orange-100 text-orange-700',
+  critical: 'bg-red-100 text-red-700',
+};
+
+interface FindingItemProps {
+  finding: Finding;
+  marker: React.ReactNode;
+  selected: boolean;
+  labels: ReportLabels;
+  onSelect: () => void;
+}
+
+export function FindingItem({ finding, marker, selected, labels, onSelect }: FindingItemProps) {
+  const unsupported = finding.frequency === 0;
+  return (
+    <li>
+      <button
+        onClick={onSelect}
+        className={cn(
+          "w-full flex gap-3 items-start text-start p-2 -m-2 rounded-lg transition-colors",
+          selected ? "bg-indigo-50 ring-1 ring-indigo-200" : "hover:bg-slate-50"
+        )}
+      >
+        {marker}
+        <div className="flex-1">
+          <p className="text-slate-700 text-sm leading-relaxed">{finding.text}</p>
+          <div className="mt-1 flex flex-wrap items-center gap-2">
+            <span className={cn("px-2 py-0.5 rounded-full text-[10px] font-bold uppercase", severityStyles[finding.severity])}>
+              {labels.severity[finding.severity]}
+            </span>
+            <span className={cn("text-[10px] font-bold uppercase tracking-wider", unsupported ? "text-red-500" : "text-slate-400")}>
+              {unsupported ? labels.noSupportingReviews : labels.reviewCount(finding.frequency)}
+            </span>
+          </div>
+        </div>
+      </button>
+    </li>
+  );
+}
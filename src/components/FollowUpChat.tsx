@@ -0,0 +1,243 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader2, MessagesSquare, Pin as PinIcon, PinOff, Send, Square } from 'lucide-react';
+import Markdown from 'react-markdown';
+import { AnalysisFailedError, askFollowUp, pinAnswer, RequestError, unpinAnswer } from '../lib/api';
+import type { ReportLabels } from '../lib/i18n';
+import { cn } from '../lib/utils';
+import type { ChatMessage, Pin, SavedReport } from '../types';
+import type { ModelChoice } from './ModelPicker';
+
+interface FollowUpChatProps {
+  report: SavedReport;
+  model: ModelChoice | null;
+  labels: ReportLabels['chat'];
+  // Viewers can ask questions but not pin answers to the shared report.
+  canPin: boolean;
+  onPinsChange: (pins: Pin[]) => void;
+}
+
+// The conversation itself lives only in the browser; pinned answers are saved with the report.
+export function FollowUpChat({ report, model, labels, canPin, onPinsChange }: FollowUpChatProps) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [draft, setDraft] = useState('');
+  // The answer streaming in, or null when no question is pending.
+  const [streaming, setStreaming] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pinning, setPinning] = useState<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  // Another report starts a fresh conversation.
+  useEffect(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setMessages([]);
+    setStreaming(null);
+    setError(null);
+  }, [report.id]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [messages, streaming]);
+
+  const ask = async () => {
+    const question = draft.trim();
+    if (!question || streaming !== null) return;
+    const conversation: ChatMessage[] = [...messages, { role: 'user', content: question }];
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setMessages(conversation);
+    setDraft('');
+    setStreaming('');
+    setError(null);
+
+    try {
+      const answer = await askFollowUp(
+        report.id,
+        { messages: conversation, ...model },
+        { signal: controller.signal, onText: setStreaming }
+      );
+      setMessages([...conversation, { role: 'assistant', content: answer }]);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error(err);
+      const explained = (err instanceof AnalysisFailedError && err.category !== 'unknown')
+        || (err instanceof RequestError && err.status < 500);
+      setError(explained ? (err as Error).message : labels.failed);
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setStreaming(null);
+      }
+    }
+  };
+
+  // Stopping keeps the part of the answer that has already arrived.
+  const stop = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    if (streaming) setMessages(current => [...current, { role: 'assistant', content: streaming }]);
+    setStreaming(null);
+  };
+
+  const pinFor = (answer: string) => report.pins.find(p => p.answer === answer.trim());
+
+  const togglePin = async (index: number) => {
+    const answer = messages[index].content;
+    const existing = pinFor(answer);
+    setPinning(index);
+    try {
+      if (existing) {
+        await unpinAnswer(report.id, existing.id);
+        onPinsChange(report.pins.filter(p => p.id !== existing.id));
+      } else {
+        const pin = await pinAnswer(report.id, { question: messages[index - 1]?.content ?? '', answer });
+        onPinsChange([...report.pins, pin]);
+      }
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setPinning(null);
+    }
+  };
+
+  const unpin = async (pin: Pin) => {
+    try {
+      await unpinAnswer(report.id, pin.id);
+      onPinsChange(report.pins.filter(p => p.id !== pin.id));
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="glass-card p-6">
+      <div className="flex items-start justify-between gap-4 mb-1">
+        <div className="flex items-center gap-2">
+          <MessagesSquare className="text-indigo-600 w-5 h-5" />
+          <h2 className="text-xl font-semibold text-slate-900">{labels.title}</h2>
+        </div>
+        {messages.length > 0 && streaming === null && (
+          <button
+            onClick={() => setMessages([])}
+            className="text-xs font-medium text-slate-500 hover:text-red-600 underline underline-offset-4"
+          >
+            {labels.clear}
+          </button>
+        )}
+      </div>
+      <p className="text-slate-500 text-sm mb-6">{labels.hint}</p>
+
+      {report.pins.length > 0 && (
+        <div className="mb-6">
+          <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-3">{labels.pinnedAnswers}</h3>
+          <ul className="space-y-3">
+            {report.pins.map(pin => (
+              <li key={pin.id} className="p-4 rounded-xl border border-indigo-100 bg-indigo-50/50">
+                <div className="flex items-start justify-between gap-4 mb-2">
+                  <p className="text-sm font-semibold text-slate-900">{pin.question}</p>
+                  {canPin && (
+                    <button onClick={() => unpin(pin)} className="p-1 text-slate-400 hover:text-red-600" aria-label={labels.unpin} title={labels.unpin}>
+                      <PinOff className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+                <div className="markdown-body text-sm">
+                  <Markdown>{pin.answer}</Markdown>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {(messages.length > 0 || streaming !== null) && (
+        <div className="max-h-[32rem] overflow-y-auto space-y-4 mb-4">
+          {messages.map((message, i) =>
+            message.role === 'user' ? (
+              <div key={i} className="flex justify-end">
+                <p className="max-w-[80%] px-4 py-2 rounded-2xl bg-indigo-600 text-white text-sm whitespace-pre-wrap">
+                  <span className="sr-only">{labels.you}: </span>
+                  {message.content}
+                </p>
+              </div>
+            ) : (
+              <div key={i}>
+                <div className="markdown-body px-4 py-3 rounded-2xl bg-slate-50 border border-slate-100">
+                  <Markdown>{message.content}</Markdown>
+                </div>
+                {canPin && (
+                  <button
+                    onClick={() => togglePin(i)}
+                    disabled={pinning !== null}
+                    className={cn(
+                      "mt-1 flex items-center gap-1 text-xs font-medium transition-colors",
+                      pinFor(message.content) ? "text-indigo-600 hover:text-red-600" : "text-slate-400 hover:text-indigo-600"
+                    )}
+                  >
+                    {pinning === i ? <Loader2 className="w-3 h-3 animate-spin" /> : pinFor(message.content) ? <PinOff className="w-3 h-3" /> : <PinIcon className="w-3 h-3" />}
+                    {pinFor(message.content) ? labels.unpin : labels.pin}
+                  </button>
+                )}
+              </div>
+            )
+          )}
+          {streaming !== null && (
+            <div className="markdown-body px-4 py-3 rounded-2xl bg-slate-50 border border-slate-100">
+              {streaming ? <Markdown>{streaming}</Markdown> : <Loader2 className="w-4 h-4 animate-spin text-slate-400" />}
+            </div>
+          )}
+          <div ref={endRef} />
+        </div>
+      )}
+
+      {error && <p className="mb-3 text-sm font-medium text-red-600">{error}</p>}
+
+      <div className="flex items-end gap-3">
+        <textarea
+          rows={2}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              ask();
+            }
+          }}
+          placeholder={labels.placeholder}
+          className="flex-1 p-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none resize-none bg-slate-50/50 text-sm"
+        />
+        {streaming !== null ? (
+          <button
+            onClick={stop}
+            className="flex items-center gap-2 px-5 py-3 rounded-full font-semibold text-slate-700 bg-white border border-slate-200 hover:bg-slate-50 transition-all"
+          >
+            <Square className="w-4 h-4" />
+            {labels.stop}
+          </button>
+        ) : (
+          <button
+            onClick={ask}
+            disabled={!draft.trim()}
+            className={cn(
+              "flex items-center gap-2 px-5 py-3 rounded-full font-semibold text-white transition-all",
+              draft.trim() ? "bg-indigo-600 hover:bg-indigo-700 shadow-lg shadow-indigo-200" : "bg-slate-300 cursor-not-allowed"
+            )}
+          >
+            <Send className="w-4 h-4" />
+            {labels.ask}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import {
+  Area, CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis
+} from 'recharts';
+import { Calculator } from 'lucide-react';
+import { formatMoney, type BlockerAssumption, type Forecast, type ForecastBaseline } from '../lib/forecast';
+import type { ReportLabels } from '../lib/i18n';
+
+interface ForecastPanelProps {
+  baseline: ForecastBaseline;
+  assumptions: BlockerAssumption[];
+  forecast: Forecast;
+  // Model's average projected-minus-current gap that seeded the uplifts, if any.
+  seededFromPct: number | null;
+  chartRef: React.RefObject<HTMLDivElement | null>;
+  labels: ReportLabels['forecast'];
+  onBaselineChange: (baseline: ForecastBaseline) => void;
+  onAssumptionsChange: (assumptions: BlockerAssumption[]) => void;
+  onReseed: () => void;
+}
+
+const CURRENCIES = ['USD', 'EUR', 'GBP', 'INR', 'JPY', 'AUD', 'CAD'];
+const HORIZONS = [6, 12, 18, 24];
+
+const inputClass = "w-full text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-1.5 outline-none focus:ring-2 focus:ring-indigo-500 transition-all";
+
+function NumberField({ label, value, step, min, suffix, onChange }: {
+  label: string;
+  value: number;
+  step: number;
+  min?: number;
+  suffix?: string;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label className="block">
+      <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{label}{suffix && ` (${suffix})`}</span>
+      <input
+        type="number"
+        value={value}
+        step={step}
+        min={min}
+        onChange={(e) => onChange(Number(e.target.value) || 0)}
+        className={inputClass}
+      />
+    </label>
+  );
+}
+
+export function ForecastPanel({
+  baseline, assumptions, forecast, seededFromPct, chartRef, labels, onBaselineChange, onAssumptionsChange, onReseed,
+}: ForecastPanelProps) {
+  const money = (value: number) => formatMoney(value, baseline.currency);
+  const updateAssumption = (index: number, patch: Partial<BlockerAssumption>) =>
+    onAssumptionsChange(assumptions.map((a, i) => (i === index ? { ...a, ...patch } : a)));
+  const signed = (value: number) => `${value >= 0 ? '+' : ''}${value}%`;
+
+  return (
+    <div className="glass-card p-8">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900">{labels.title}</h2>
+          <p className="text-slate-500 text-sm">{labels.hint}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-8">
+        <NumberField
+          label={labels.monthlyRevenue}
+          suffix={baseline.currency}
+          value={baseline.monthlyRevenue}
+          step={1000}
+          min={0}
+          onChange={(monthlyRevenue) => onBaselineChange({ ...baseline, monthlyRevenue })}
+        />
+        <NumberField
+          label={labels.currentGrowth}
+          suffix={labels.perMonth}
+          value={baseline.monthlyGrowthPct}
+          step={0.1}
+          onChange={(monthlyGrowthPct) => onBaselineChange({ ...baseline, monthlyGrowthPct })}
+        />
+        <NumberField
+          label={labels.band}
+          suffix={labels.bandUnit}
+          value={baseline.bandPct}
+          step={5}
+          min={0}
+          onChange={(bandPct) => onBaselineChange({ ...baseline, bandPct })}
+        />
+        <label className="block">
+          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{labels.horizon}</span>
+          <select
+            value={baseline.horizonMonths}
+            onChange={(e) => onBaselineChange({ ...baseline, horizonMonths: Number(e.target.value) })}
+            className={inputClass}
+          >
+            {HORIZONS.map(h => <option key={h} value={h}>{labels.months(h)}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{labels.currency}</span>
+          <select
+            value={baseline.currency}
+            onChange={(e) => onBaselineChange({ ...baseline, currency: e.target.value })}
+            className={inputClass}
+          >
+            {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div ref={chartRef} className="h-[400px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={forecast.months}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+            <XAxis
+              dataKey="month"
+              axisLine={false}
+              tickLine={false}
+              tick={{ fill: '#64748b', fontSize: 12 }}
+              dy={10}
+            />
+            <YAxis
+              axisLine={false}
+              tickLine={false}
+              tick={{ fill: '#64748b', fontSize: 12 }}
+              tickFormatter={(value) => formatMoney(value, baseline.currency, true)}
+              width={80}
+              domain={['auto', 'auto']}
+            />
+            <Tooltip
+              formatter={(value) => (Array.isArray(value) ? value.map(v => money(Number(v))).join(' – ') : money(Number(value)))}
+              contentStyle={{
+                borderRadius: '12px',
+                border: 'none',
+                boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)'
+              }}
+            />
+            <Legend verticalAlign="top" height={36}/>
+            <Area
+              name={labels.bandSeries}
+              type="monotone"
+              dataKey="band"
+              stroke="none"
+              fill="#818cf8"
+              fillOpacity={0.2}
+            />
+            <Line
+              name={labels.noAction}
+              type="monotone"
+              dataKey="noAction"
+              stroke="#cbd5e1"
+              strokeWidth={3}
+              strokeDasharray="6 4"
+              dot={false}
+              activeDot={{ r: 6 }}
+            />
+            <Line
+              name={labels.base}
+              type="monotone"
+              dataKey="base"
+              stroke="#4f46e5"
+              strokeWidth={3}
+              dot={{ r: 4, fill: '#4f46e5' }}
+              activeDot={{ r: 6 }}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="mt-8 p-4 bg-indigo-50 rounded-xl border border-indigo-100">
+        <p className="text-sm text-indigo-900 font-medium text-center">
+          {labels.annualIncrement}: <span className="text-lg font-bold">{signed(forecast.incrementPct.base)}</span>
+          {' '}{labels.annualRange(
+            signed(forecast.incrementPct.pessimistic),
+            signed(forecast.incrementPct.optimistic),
+            money(forecast.annual.base - forecast.annual.noAction),
+          )}
+        </p>
+      </div>
+
+      <div className="mt-8">
+        <div className="flex items-center justify-between gap-4 mb-3">
+          <div className="flex items-center gap-2">
+            <Calculator className="text-indigo-600 w-4 h-4" />
+            <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider">{labels.assumptions}</h3>
+          </div>
+          <button onClick={onReseed} className="text-xs font-medium text-indigo-600 hover:text-indigo-700 underline underline-offset-4">
+            {labels.reset}
+          </button>
+        </div>
+        <p className="text-xs text-slate-500 mb-4">
+          {seededFromPct === null
+            ? labels.seededDefault
+            : labels.seededFrom(seededFromPct.toFixed(2))}
+          {' '}{labels.formula}
+        </p>
+        {assumptions.length === 0 ? (
+          <p className="text-sm text-slate-500">{labels.noBlockers}</p>
+        ) : (
+          <div className="overflow-x-auto border border-slate-100 rounded-xl">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-start text-xs text-slate-500 uppercase">
+                <tr>
+                  <th className="px-3 py-2 font-semibold">{labels.address}</th>
+                  <th className="px-3 py-2 font-semibold">{labels.blocker}</th>
+                  <th className="px-3 py-2 font-semibold w-32">{labels.uplift}</th>
+                  <th className="px-3 py-2 font-semibold w-32">{labels.ramp}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {assumptions.map((a, i) => (
+                  <tr key={i} className="border-t border-slate-100">
+                    <td className="px-3 py-2">
+                      <input
+                        type="checkbox"
+                        checked={a.addressed}
+                        onChange={(e) => updateAssumption(i, { addressed: e.target.checked })}
+                        className="accent-indigo-600"
+                        aria-label={labels.addressBlocker(a.blocker)}
+                      />
+                    </td>
+                    <td className="px-3 py-2 text-slate-700">{a.blocker}</td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="number"
+                        step={0.05}
+                        value={a.upliftPct}
+                        onChange={(e) => updateAssumption(i, { upliftPct: Number(e.target.value) || 0 })}
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="number"
+                        min={1}
+                        value={a.rampMonths}
+                        onChange={(e) => updateAssumption(i, { rampMonths: Math.max(1, Number(e.target.value) || 1) })}
+                        className={inputClass}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
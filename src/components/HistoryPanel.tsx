@@ -0,0 +1,196 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Check, History, Loader2, Pencil, Search, Trash2, X } from 'lucide-react';
+import { deleteReport, getReport, listReports, renameReport } from '../lib/api';
+import { cn } from '../lib/utils';
+import type { ReportSummary, SavedReport } from '../types';
+
+interface HistoryPanelProps {
+  open: boolean;
+  // Reports shared in this workspace are listed; nothing is listed while signed out.
+  workspaceId: string | null;
+  // Viewers can open reports but not rename or delete them.
+  canEdit: boolean;
+  activeId: string | null;
+  onClose: () => void;
+  onOpenReport: (report: SavedReport) => void;
+  onRenamed: (report: SavedReport) => void;
+  onDeleted: (id: string) => void;
+}
+
+export function HistoryPanel({ open, workspaceId, canEdit, activeId, onClose, onOpenReport, onRenamed, onDeleted }: HistoryPanelProps) {
+  const [search, setSearch] = useState('');
+  const [reports, setReports] = useState<ReportSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  useEffect(() => {
+    if (!open || !workspaceId) return;
+    let cancelled = false;
+    setIsLoading(true);
+    const timer = setTimeout(() => {
+      listReports(workspaceId, search)
+        .then(list => {
+          if (!cancelled) setReports(list);
+        })
+        .catch(err => {
+          if (!cancelled) setError(err.message);
+        })
+        .finally(() => {
+          if (!cancelled) setIsLoading(false);
+        });
+    }, 200);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [open, workspaceId, search]);
+
+  const handleOpen = async (id: string) => {
+    try {
+      onOpenReport(await getReport(id));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleRename = async (id: string) => {
+    if (!draftTitle.trim()) return;
+    try {
+      const updated = await renameReport(id, draftTitle);
+      setReports(list => list.map(r => (r.id === id ? { ...r, title: updated.title } : r)));
+      setEditingId(null);
+      onRenamed(updated);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleDelete = async (report: ReportSummary) => {
+    if (!window.confirm(`Delete "${report.title}"? This cannot be undone.`)) return;
+    try {
+      await deleteReport(report.id);
+      setReports(list => list.filter(r => r.id !== report.id));
+      onDeleted(report.id);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end">
+      <div className="absolute inset-0 bg-slate-900/30" onClick={onClose} />
+      <aside className="relative w-full max-w-md h-full bg-white shadow-xl flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div className="flex items-center gap-2">
+            <History className="text-indigo-600 w-5 h-5" />
+            <h2 className="text-xl font-semibold text-slate-900">History</h2>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700" aria-label="Close history">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-slate-100">
+          <div className="flex items-center gap-2 px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg focus-within:ring-2 focus-within:ring-indigo-500">
+            <Search className="w-4 h-4 text-slate-400" />
+            <input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search saved reports..."
+              className="flex-1 bg-transparent text-sm outline-none"
+            />
+          </div>
+        </div>
+
+        {error && (
+          <p className="mx-4 mt-4 p-3 text-sm text-red-700 bg-red-50 border border-red-100 rounded-lg">{error}</p>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {isLoading && reports.length === 0 ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-5 h-5 text-slate-400 animate-spin" />
+            </div>
+          ) : reports.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center py-8">
+              {search ? 'No reports match your search.' : 'Saved reports will appear here after your first analysis.'}
+            </p>
+          ) : (
+            reports.map(report => (
+              <div
+                key={report.id}
+                className={cn(
+                  "group p-3 rounded-xl border transition-colors",
+                  report.id === activeId ? "border-indigo-300 bg-indigo-50" : "border-slate-100 hover:bg-slate-50"
+                )}
+              >
+                {editingId === report.id ? (
+                  <form
+                    className="flex items-center gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      handleRename(report.id);
+                    }}
+                  >
+                    <input
+                      autoFocus
+                      value={draftTitle}
+                      onChange={(e) => setDraftTitle(e.target.value)}
+                      className="flex-1 text-sm px-2 py-1 border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                    <button type="submit" className="p-1 text-emerald-600" aria-label="Save title">
+                      <Check className="w-4 h-4" />
+                    </button>
+                    <button type="button" onClick={() => setEditingId(null)} className="p-1 text-slate-400" aria-label="Cancel rename">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </form>
+                ) : (
+                  <div className="flex items-start gap-2">
+                    <button onClick={() => handleOpen(report.id)} className="flex-1 text-left">
+                      <p className="text-sm font-semibold text-slate-900">{report.title}</p>
+                      <p className="text-xs text-slate-500 mt-1">
+                        {new Date(report.createdAt).toLocaleString()} · {report.language} → {report.reportLanguage} · {report.model}
+                        {report.createdBy && ` · by ${report.createdBy}`}
+                      </p>
+                    </button>
+                    {canEdit && (
+                      <>
+                        <button
+                          onClick={() => {
+                            setEditingId(report.id);
+                            setDraftTitle(report.title);
+                          }}
+                          className="p-1 text-slate-400 hover:text-indigo-600"
+                          aria-label="Rename report"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(report)}
+                          className="p-1 text-slate-400 hover:text-red-600"
+                          aria-label="Delete report"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { CalendarRange, Download, SquareKanban } from 'lucide-react';
+import { boardToCsv, cardFor, loadBoard, saveBoard, STATUSES, type BoardCard, type BoardState } from '../lib/board';
+import { downloadFile, slugify } from '../lib/export';
+import type { ReportLabels } from '../lib/i18n';
+import { QUARTERS } from '../lib/initiatives';
+import { cn } from '../lib/utils';
+import type { Finding, Initiative } from '../types';
+
+type View = 'status' | 'quarter';
+
+interface InitiativeBoardProps {
+  // Edits are only kept for saved reports; a streaming or stopped one has no id.
+  reportId: string | null;
+  title: string;
+  initiatives: Initiative[];
+  blockers: Finding[];
+  labels: ReportLabels['board'];
+  // Shown instead of the columns while the initiatives are still streaming in.
+  pending?: React.ReactNode;
+}
+
+const inputClass = "w-full text-xs bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 outline-none focus:ring-2 focus:ring-indigo-500 transition-all";
+
+const STATUS_STYLES: Record<BoardCard['status'], string> = {
+  todo: 'border-slate-200',
+  in_progress: 'border-amber-300',
+  done: 'border-emerald-300 opacity-75',
+};
+
+export function InitiativeBoard({ reportId, title, initiatives, blockers, labels, pending }: InitiativeBoardProps) {
+  const [view, setView] = useState<View>('status');
+  const [board, setBoard] = useState<BoardState>(() => (reportId ? loadBoard(reportId) : {}));
+
+  useEffect(() => {
+    setBoard(reportId ? loadBoard(reportId) : {});
+  }, [reportId]);
+
+  const update = (index: number, patch: Partial<BoardCard>) => {
+    const next = { ...board, [index]: { ...cardFor(board, initiatives[index], index), ...patch } };
+    setBoard(next);
+    if (reportId) saveBoard(reportId, next);
+  };
+
+  const exportCsv = () =>
+    downloadFile(`${slugify(title)}-initiatives.csv`, boardToCsv(initiatives, board, blockers), 'text/csv');
+
+  const columns =
+    view === 'status'
+      ? STATUSES.map(status => ({ key: status, heading: labels.status[status], matches: (card: BoardCard) => card.status === status }))
+      : QUARTERS.map(quarter => ({ key: quarter, heading: quarter, matches: (_: BoardCard, item: Initiative) => item.quarter === quarter }));
+
+  return (
+    <div className="glass-card p-8">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900">{labels.title}</h2>
+          <p className="text-slate-500 text-sm">{labels.hint}</p>
+        </div>
+        {!pending && initiatives.length > 0 && (
+          <div className="flex items-center gap-3">
+            <div className="flex rounded-full bg-slate-100 p-1 text-sm font-medium">
+              {([['status', labels.byStatus, SquareKanban], ['quarter', labels.byQuarter, CalendarRange]] as const).map(([key, label, Icon]) => (
+                <button
+                  key={key}
+                  onClick={() => setView(key)}
+                  className={cn(
+                    "flex items-center gap-1.5 px-3 py-1 rounded-full transition-all",
+                    view === key ? "bg-white text-indigo-600 shadow-sm" : "text-slate-500 hover:text-slate-700"
+                  )}
+                >
+                  <Icon className="w-4 h-4" />
+                  {label}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={exportCsv}
+              className="flex items-center gap-2 px-4 py-1.5 rounded-full text-sm font-semibold text-slate-700 bg-white border border-slate-200 hover:bg-slate-50 transition-all"
+            >
+              <Download className="w-4 h-4" />
+              {labels.exportCsv}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {pending ?? (initiatives.length === 0 ? (
+        <p className="text-sm text-slate-400">{labels.empty}</p>
+      ) : (
+        <div className={cn("grid gap-4", view === 'status' ? "md:grid-cols-3" : "md:grid-cols-2 xl:grid-cols-4")}>
+          {columns.map(column => {
+            const items = initiatives
+              .map((item, index) => ({ item, index, card: cardFor(board, item, index) }))
+              .filter(({ item, card }) => column.matches(card, item));
+            return (
+              <div key={column.key} className="rounded-2xl bg-slate-50/80 p-3">
+                <h3 className="flex items-center justify-between px-1 mb-3 text-sm font-bold text-slate-500 uppercase tracking-wider">
+                  {column.heading}
+                  <span className="text-xs font-semibold text-slate-400">{items.length}</span>
+                </h3>
+                <ul className="space-y-3">
+                  {items.map(({ item, index, card }) => (
+                    <li key={index} className={cn("p-4 rounded-xl border bg-white text-start", STATUS_STYLES[card.status])}>
+                      <div className="flex flex-wrap items-center gap-1.5 mb-2 text-[10px] font-bold uppercase tracking-wider">
+                        <span className="px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-600">{item.pillar}</span>
+                        <span className="px-2 py-0.5 rounded-full bg-slate-100 text-slate-500">
+                          {view === 'status' ? item.quarter : labels.status[card.status]}
+                        </span>
+                        <span className="px-2 py-0.5 rounded-full bg-slate-100 text-slate-500">{labels.effort[item.effort]}</span>
+                      </div>
+                      <p className="font-semibold text-slate-900 text-sm mb-2">{item.title}</p>
+                      {item.expectedImpact && (
+                        <p className="text-xs text-slate-600 mb-2">
+                          <span className="font-semibold">{labels.impact}:</span> {item.expectedImpact}
+                        </p>
+                      )}
+                      {item.blockers.length > 0 && (
+                        <div className="text-xs text-slate-500 mb-3">
+                          <span className="font-semibold">{labels.addresses}:</span>
+                          <ul className="list-disc ps-4">
+                            {item.blockers.map(b => blockers[b] && <li key={b}>{blockers[b].text}</li>)}
+                          </ul>
+                        </div>
+                      )}
+                      <div className="grid grid-cols-2 gap-2">
+                        <label className="block">
+                          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{labels.owner}</span>
+                          <input
+                            value={card.owner}
+                            placeholder={item.ownerRole}
+                            onChange={(e) => update(index, { owner: e.target.value })}
+                            className={inputClass}
+                          />
+                        </label>
+                        <label className="block">
+                          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{labels.statusLabel}</span>
+                          <select
+                            value={card.status}
+                            onChange={(e) => update(index, { status: e.target.value as BoardCard['status'] })}
+                            className={inputClass}
+                          >
+                            {STATUSES.map(status => <option key={status} value={status}>{labels.status[status]}</option>)}
+                          </select>
+                        </label>
+                      </div>
+                    </li>
+                  ))}
+                  {items.length === 0 && <li className="px-1 text-xs text-slate-400">{labels.noItems}</li>}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle, CheckCircle2, FileText, Loader2, X } from 'lucide-react';
+import { listMyJobs, markJobSeen } from '../lib/api';
+import type { AnalysisJob } from '../types';
+
+interface JobTrayProps {
+  // The run the analyzer is already showing, left out of the tray.
+  activeJobId: string | null;
+  onOpenReport: (reportId: string) => Promise<void>;
+}
+
+const POLL_MS = 5_000;
+
+const isActive = (job: AnalysisJob) => job.status === 'queued' || job.status === 'running';
+
+function describe(job: AnalysisJob) {
+  if (job.status === 'queued') {
+    return job.retryAt
+      ? `Retrying at ${new Date(job.retryAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+      : 'Waiting to start';
+  }
+  const progress = job.progress;
+  if (!progress) return 'Starting...';
+  return progress.stage === 'map' && progress.totalBatches > 1
+    ? `Batch ${progress.completedBatches} of ${progress.totalBatches}`
+    : 'Generating strategy...';
+}
+
+// Desktop notifications only matter when the user is looking elsewhere.
+function notify(job: AnalysisJob) {
+  if (!document.hidden || !('Notification' in window) || Notification.permission !== 'granted') return;
+  const body = job.status === 'succeeded' ? `"${job.title}" is ready.` : `"${job.title}" failed: ${job.error}`;
+  new Notification('Sale Squid analysis', { body, tag: job.id });
+}
+
+// Analyses the user started that are still running elsewhere, or finished while
+// they were away. Completed ones stay until opened or dismissed.
+export function JobTray({ activeJobId, onOpenReport }: JobTrayProps) {
+  const [jobs, setJobs] = useState<AnalysisJob[]>([]);
+  const [openingId, setOpeningId] = useState<string | null>(null);
+  const previous = useRef<Map<string, AnalysisJob> | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => {
+      listMyJobs()
+        .then(next => {
+          if (cancelled) return;
+          // Only jobs seen running in this tab notify; ones found finished on load just show a card.
+          const before = previous.current;
+          if (before) {
+            for (const job of next) {
+              const earlier = before.get(job.id);
+              if (earlier && isActive(earlier) && !isActive(job)) notify(job);
+            }
+          }
+          previous.current = new Map(next.map(job => [job.id, job]));
+          setJobs(next);
+        })
+        .catch(console.error);
+    };
+    refresh();
+    const timer = setInterval(refresh, POLL_MS);
+    const onVisible = () => {
+      if (!document.hidden) refresh();
+    };
+    document.addEventListener('visibilitychange', onVisible);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', onVisible);
+    };
+  }, []);
+
+  const dismiss = (id: string) => {
+    setJobs(current => current.filter(job => job.id !== id));
+    markJobSeen(id).catch(console.error);
+  };
+
+  const open = async (job: AnalysisJob) => {
+    setOpeningId(job.id);
+    try {
+      await onOpenReport(job.reportId!);
+      dismiss(job.id);
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  const shown = jobs.filter(job => job.id !== activeJobId);
+  if (shown.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 end-4 z-40 w-80 space-y-2" aria-live="polite">
+      {shown.map(job => (
+        <div key={job.id} className="bg-white border border-slate-200 rounded-xl shadow-lg p-4">
+          <div className="flex items-start gap-3">
+            {isActive(job) ? (
+              <Loader2 className="w-5 h-5 text-indigo-600 animate-spin shrink-0" />
+            ) : job.status === 'succeeded' ? (
+              <CheckCircle2 className="w-5 h-5 text-emerald-600 shrink-0" />
+            ) : (
+              <AlertCircle className="w-5 h-5 text-red-600 shrink-0" />
+            )}
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-semibold text-slate-900 truncate" title={job.title}>{job.title}</p>
+              <p className="text-xs text-slate-500 mt-0.5">
+                {isActive(job) ? describe(job) : job.status === 'succeeded' ? 'Analysis finished.' : job.error}
+              </p>
+              {job.status === 'running' && job.progress && (
+                <div className="mt-2 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-indigo-600 transition-all duration-500"
+                    style={{ width: `${Math.max(5, (job.progress.completedBatches / (job.progress.totalBatches + 1)) * 100)}%` }}
+                  />
+                </div>
+              )}
+              {job.status === 'succeeded' && job.reportId && (
+                <button
+                  onClick={() => open(job)}
+                  disabled={openingId === job.id}
+                  className="mt-2 flex items-center gap-1.5 text-xs font-semibold text-indigo-600 hover:text-indigo-700 disabled:opacity-50"
+                >
+                  {openingId === job.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <FileText className="w-3.5 h-3.5" />}
+                  Open report
+                </button>
+              )}
+            </div>
+            {!isActive(job) && (
+              <button
+                onClick={() => dismiss(job.id)}
+                className="p-1 text-slate-400 hover:text-slate-600 rounded"
+                aria-label="Dismiss"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
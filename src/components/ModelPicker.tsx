@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { listModels } from '../lib/api';
+import type { ProviderInfo } from '../types';
+
+export interface ModelChoice {
+  provider: string;
+  model: string;
+}
+
+interface ModelPickerProps {
+  value: ModelChoice | null;
+  disabled?: boolean;
+  onChange: (choice: ModelChoice) => void;
+}
+
+const isOffered = (providers: ProviderInfo[], choice: ModelChoice | null) =>
+  !!choice && providers.some(p => p.available && p.id === choice.provider && p.models.includes(choice.model));
+
+export function ModelPicker({ value, disabled, onChange }: ModelPickerProps) {
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
+
+  useEffect(() => {
+    listModels()
+      .then(setProviders)
+      .catch(err => console.error(err));
+  }, []);
+
+  // Falls back to the first usable model when the saved choice is no longer offered.
+  useEffect(() => {
+    if (providers.length === 0 || isOffered(providers, value)) return;
+    const first = providers.find(p => p.available);
+    if (first) onChange({ provider: first.id, model: first.models[0] });
+  }, [providers, value, onChange]);
+
+  return (
+    <div className="flex items-center gap-2">
+      <label htmlFor="model" className="text-sm font-medium text-slate-500">Model:</label>
+      <select
+        id="model"
+        value={value ? `${value.provider}:${value.model}` : ''}
+        disabled={disabled || providers.length === 0}
+        onChange={(e) => {
+          const [provider, ...model] = e.target.value.split(':');
+          onChange({ provider, model: model.join(':') });
+        }}
+        className="max-w-[14rem] text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-1.5 outline-none focus:ring-2 focus:ring-indigo-500 transition-all"
+      >
+        {providers.length === 0 && <option value="">Loading models...</option>}
+        {providers.map(p => (
+          <optgroup key={p.id} label={p.available ? p.label : `${p.label} (${p.unavailableReason})`}>
+            {p.models.map(m => (
+              <option key={m} value={`${p.id}:${m}`} disabled={!p.available}>{m}</option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,327 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Bell, Check, Copy, Loader2, Mail, Plus, RefreshCw, Save, Send, Trash2, Webhook as WebhookIcon, X } from 'lucide-react';
+import {
+  createWebhook, deleteWebhook, getNotificationSettings, listDeliveries, retryDelivery, saveDigestSettings, setWebhookEnabled,
+  testWebhook
+} from '../lib/api';
+import { cn } from '../lib/utils';
+import type { Delivery, DeliveryStatus, NotificationSettings, Webhook, Workspace } from '../types';
+
+interface NotificationsPanelProps {
+  open: boolean;
+  workspace: Workspace | null;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<DeliveryStatus, string> = {
+  pending: 'bg-amber-50 text-amber-700',
+  sending: 'bg-indigo-50 text-indigo-700',
+  succeeded: 'bg-emerald-50 text-emerald-700',
+  failed: 'bg-red-50 text-red-700',
+};
+
+// While a delivery is still being tried, the log is refreshed this often.
+const POLL_MS = 5_000;
+
+const inputClass = "min-w-0 text-sm px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500";
+
+const formatTime = (at: string) =>
+  new Date(at).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', second: '2-digit' });
+
+function deliveryDetail(delivery: Delivery) {
+  const last = delivery.attempts.at(-1);
+  if (delivery.status === 'pending' && delivery.nextAttemptAt && last) return `${last.error} Next try ${formatTime(delivery.nextAttemptAt)}.`;
+  if (!last) return delivery.status === 'sending' ? 'Sending…' : 'Waiting to send.';
+  return last.error ?? `Delivered${last.responseStatus ? ` (${last.responseStatus})` : ''}.`;
+}
+
+export function NotificationsPanel({ open, workspace, onClose }: NotificationsPanelProps) {
+  const [settings, setSettings] = useState<NotificationSettings | null>(null);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [digestEnabled, setDigestEnabled] = useState(false);
+  const [recipientsText, setRecipientsText] = useState('');
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const workspaceId = workspace?.id ?? null;
+  const canManage = workspace?.role === 'editor';
+
+  const refreshLog = useCallback(() => {
+    if (!workspaceId) return;
+    listDeliveries(workspaceId)
+      .then(setDeliveries)
+      .catch(err => setError(err.message));
+  }, [workspaceId]);
+
+  useEffect(() => {
+    if (!open || !workspaceId || !canManage) return;
+    let cancelled = false;
+    setSettings(null);
+    setError(null);
+    setNotice(null);
+    getNotificationSettings(workspaceId)
+      .then(loaded => {
+        if (cancelled) return;
+        setSettings(loaded);
+        setDigestEnabled(loaded.digest.enabled);
+        setRecipientsText(loaded.digest.recipients.join('\n'));
+      })
+      .catch(err => {
+        if (!cancelled) setError(err.message);
+      });
+    refreshLog();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, workspaceId, canManage, refreshLog]);
+
+  const inFlight = deliveries.some(d => d.status === 'pending' || d.status === 'sending');
+  useEffect(() => {
+    if (!open || !inFlight) return;
+    const timer = setInterval(refreshLog, POLL_MS);
+    return () => clearInterval(timer);
+  }, [open, inFlight, refreshLog]);
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const updateWebhooks = (update: (webhooks: Webhook[]) => Webhook[]) =>
+    setSettings(current => current && { ...current, webhooks: update(current.webhooks) });
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    void run(async () => {
+      const webhook = await createWebhook(workspaceId!, url.trim(), description);
+      updateWebhooks(list => [...list, webhook]);
+      setUrl('');
+      setDescription('');
+      setNotice('Webhook added. Send a test to check that it arrives and the signature verifies.');
+    });
+  };
+
+  const handleToggle = (webhook: Webhook) =>
+    run(async () => {
+      const updated = await setWebhookEnabled(workspaceId!, webhook.id, !webhook.enabled);
+      updateWebhooks(list => list.map(w => (w.id === updated.id ? updated : w)));
+    });
+
+  const handleTest = (webhook: Webhook) =>
+    run(async () => {
+      const delivery = await testWebhook(workspaceId!, webhook.id);
+      setDeliveries(list => [delivery, ...list]);
+    });
+
+  const handleDelete = (webhook: Webhook) => {
+    if (!window.confirm(`Delete the webhook to ${webhook.url}? Its deliveries are removed from the log.`)) return;
+    void run(async () => {
+      await deleteWebhook(workspaceId!, webhook.id);
+      updateWebhooks(list => list.filter(w => w.id !== webhook.id));
+      setDeliveries(list => list.filter(d => d.target !== webhook.url || d.channel !== 'webhook'));
+    });
+  };
+
+  const copySecret = async (webhook: Webhook) => {
+    await navigator.clipboard.writeText(webhook.secret);
+    setCopiedId(webhook.id);
+  };
+
+  const handleSaveDigest = () =>
+    run(async () => {
+      const recipients = recipientsText.split(/[\n,;]/).map(r => r.trim()).filter(Boolean);
+      const digest = await saveDigestSettings(workspaceId!, { enabled: digestEnabled, recipients });
+      setSettings(current => current && { ...current, digest });
+      setRecipientsText(digest.recipients.join('\n'));
+      setNotice(digest.enabled ? 'Digest saved. It goes out when the next analysis finishes.' : 'Digest saved and turned off.');
+    });
+
+  const handleRetry = (delivery: Delivery) =>
+    run(async () => {
+      const updated = await retryDelivery(workspaceId!, delivery.id);
+      setDeliveries(list => list.map(d => (d.id === updated.id ? updated : d)));
+    });
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end">
+      <div className="absolute inset-0 bg-slate-900/30" onClick={onClose} />
+      <aside className="relative w-full max-w-2xl h-full bg-white shadow-xl flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div className="flex items-center gap-2 min-w-0">
+            <Bell className="text-indigo-600 w-5 h-5 flex-shrink-0" />
+            <h2 className="text-xl font-semibold text-slate-900 truncate">Notifications{workspace && ` · ${workspace.name}`}</h2>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700" aria-label="Close notifications">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && <p className="mx-6 mt-4 p-3 text-sm text-red-700 bg-red-50 border border-red-100 rounded-lg">{error}</p>}
+        {notice && <p className="mx-6 mt-4 p-3 text-sm text-emerald-700 bg-emerald-50 border border-emerald-100 rounded-lg">{notice}</p>}
+
+        {!workspace ? (
+          <p className="p-6 text-sm text-slate-500">Create a workspace to send its reports to webhooks and inboxes.</p>
+        ) : !canManage ? (
+          <p className="p-6 text-sm text-slate-500">Only editors can manage webhooks and email digests.</p>
+        ) : !settings ? (
+          !error && (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-5 h-5 text-slate-400 animate-spin" />
+            </div>
+          )
+        ) : (
+          <div className="flex-1 overflow-y-auto p-6 space-y-8">
+            <section>
+              <h3 className="mb-1 text-xs font-bold text-slate-400 uppercase tracking-wider">Webhooks</h3>
+              <p className="mb-3 text-sm text-slate-500">
+                Each finished analysis is posted as signed JSON with the report's summary: sentiment, top pain points and
+                blockers, and the plan. Failed deliveries are retried with growing waits.
+              </p>
+              <ul className="space-y-2">
+                {settings.webhooks.map(webhook => (
+                  <li key={webhook.id} className="p-3 rounded-xl border border-slate-100">
+                    <div className="flex items-center gap-2">
+                      <WebhookIcon className={cn("w-4 h-4 flex-shrink-0", webhook.enabled ? "text-indigo-500" : "text-slate-300")} />
+                      <div className="flex-1 min-w-0">
+                        <p className={cn("text-sm font-semibold truncate", webhook.enabled ? "text-slate-900" : "text-slate-400")}>{webhook.url}</p>
+                        <p className="text-xs text-slate-500 truncate">
+                          {webhook.description || 'No description'}
+                          {webhook.createdBy && ` · by ${webhook.createdBy}`}
+                        </p>
+                      </div>
+                      <label className="flex items-center gap-1.5 text-xs text-slate-500 cursor-pointer">
+                        <input type="checkbox" checked={webhook.enabled} onChange={() => handleToggle(webhook)} className="accent-indigo-600" />
+                        On
+                      </label>
+                      <button onClick={() => handleTest(webhook)} className="p-1.5 text-slate-400 hover:text-indigo-600" aria-label={`Send a test to ${webhook.url}`} title="Send test">
+                        <Send className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => handleDelete(webhook)} className="p-1.5 text-slate-400 hover:text-red-600" aria-label={`Delete the webhook to ${webhook.url}`}>
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <div className="flex items-center gap-2 mt-2">
+                      <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Signing secret</span>
+                      <code className="flex-1 min-w-0 truncate text-xs text-slate-500">{webhook.secret.slice(0, 10)}…</code>
+                      <button onClick={() => copySecret(webhook)} className="p-1 text-slate-400 hover:text-indigo-600" aria-label="Copy signing secret">
+                        {copiedId === webhook.id ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+              <form onSubmit={handleAdd} className="flex items-center gap-2 mt-3">
+                <input value={url} onChange={(e) => setUrl(e.target.value)} placeholder="https://hooks.example.com/sale-squid" className={`${inputClass} flex-1`} />
+                <input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Description" className={`${inputClass} w-40`} />
+                <button type="submit" disabled={!url.trim()} className="p-2 text-indigo-600 disabled:text-slate-300" aria-label="Add webhook">
+                  <Plus className="w-5 h-5" />
+                </button>
+              </form>
+              <p className="mt-2 text-xs text-slate-400">
+                Check the X-Sale-Squid-Signature header against an HMAC-SHA256 of the timestamp, a dot and the raw body.
+                See <code>webhooks</code> in the <a href="/api/v1/openapi.json" target="_blank" rel="noreferrer" className="underline underline-offset-2 hover:text-indigo-600">OpenAPI document</a>.
+              </p>
+            </section>
+
+            <section className="pt-6 border-t border-slate-100">
+              <h3 className="mb-1 text-xs font-bold text-slate-400 uppercase tracking-wider">Email digest</h3>
+              {!settings.emailAvailable ? (
+                <p className="text-sm text-slate-500">
+                  Email isn't set up on this server. Set <code className="text-xs">SMTP_HOST</code> to send digests.
+                </p>
+              ) : (
+                <>
+                  <label className="flex items-center gap-2 mb-3 text-sm text-slate-700 cursor-pointer">
+                    <input type="checkbox" checked={digestEnabled} onChange={(e) => setDigestEnabled(e.target.checked)} className="accent-indigo-600" />
+                    Email a summary of each finished analysis: sentiment, the top sales blockers and the plan
+                  </label>
+                  <textarea
+                    value={recipientsText}
+                    onChange={(e) => setRecipientsText(e.target.value)}
+                    placeholder="One address per line"
+                    className={`${inputClass} w-full h-20 resize-none`}
+                  />
+                  <div className="flex justify-end mt-2">
+                    <button
+                      onClick={handleSaveDigest}
+                      className="flex items-center gap-2 px-5 py-2 rounded-full text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 transition-colors"
+                    >
+                      <Save className="w-4 h-4" />
+                      Save Digest
+                    </button>
+                  </div>
+                </>
+              )}
+            </section>
+
+            <section className="pt-6 border-t border-slate-100">
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Delivery log</h3>
+                <button onClick={refreshLog} className="p-1 text-slate-400 hover:text-indigo-600" aria-label="Refresh the delivery log">
+                  <RefreshCw className="w-4 h-4" />
+                </button>
+              </div>
+              {deliveries.length === 0 ? (
+                <p className="text-sm text-slate-500">Nothing sent yet.</p>
+              ) : (
+                <ol className="space-y-1">
+                  {deliveries.map(delivery => (
+                    <li key={delivery.id} className="px-3 py-2 rounded-lg bg-slate-50 text-sm">
+                      <div className="flex items-center gap-2">
+                        {delivery.channel === 'email'
+                          ? <Mail className="w-4 h-4 text-slate-400 flex-shrink-0" />
+                          : <WebhookIcon className="w-4 h-4 text-slate-400 flex-shrink-0" />}
+                        <span className="flex-1 min-w-0 truncate font-medium text-slate-700">
+                          {delivery.event === 'ping' ? 'Test' : delivery.reportTitle ?? 'Deleted report'}
+                          <span className="font-normal text-slate-400"> → {delivery.target}</span>
+                        </span>
+                        <span className={cn("px-2 py-0.5 rounded-md text-[11px] font-semibold capitalize", STATUS_STYLES[delivery.status])}>
+                          {delivery.status}
+                        </span>
+                        {delivery.status === 'failed' && (
+                          <button onClick={() => handleRetry(delivery)} className="text-xs font-semibold text-indigo-600 hover:text-indigo-700">
+                            Retry
+                          </button>
+                        )}
+                      </div>
+                      <p className="mt-1 text-xs text-slate-500 break-words">
+                        {formatTime(delivery.createdAt)} · {delivery.attempts.length} {delivery.attempts.length === 1 ? 'try' : 'tries'} · {deliveryDetail(delivery)}
+                      </p>
+                      {delivery.attempts.length > 1 && (
+                        <details className="mt-1 text-xs text-slate-500">
+                          <summary className="cursor-pointer select-none">Every try</summary>
+                          <ol className="mt-1 space-y-0.5">
+                            {delivery.attempts.map((attempt, i) => (
+                              <li key={i}>
+                                {formatTime(attempt.at)} · {attempt.responseStatus ?? 'no response'} · {attempt.error ?? 'delivered'}
+                              </li>
+                            ))}
+                          </ol>
+                        </details>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </section>
+          </div>
+        )}
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, Legend, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Crosshair, PackagePlus, ShieldAlert, Tag, TrendingUp } from 'lucide-react';
+import Markdown from 'react-markdown';
+import type { ReportLabels } from '../lib/i18n';
+import { ASPECTS } from '../lib/sentiment';
+import { FindingItem } from './FindingItem';
+import type { Positioning, PositioningFinding } from '../types';
+
+export type PositioningKind = 'opportunities' | 'threats' | 'featureGaps';
+
+interface PositioningPanelProps {
+  positioning: Positioning;
+  labels: ReportLabels;
+  selected: { kind: string; index: number } | null;
+  onSelect: (kind: PositioningKind, index: number) => void;
+}
+
+// Ours first, then one color per competitor.
+const BRAND_COLORS = ['#4f46e5', '#f97316', '#10b981', '#eab308', '#ec4899', '#64748b'];
+
+function FindingList({ kind, title, hint, icon, findings, labels, selected, onSelect }: {
+  kind: PositioningKind;
+  title: string;
+  hint: string;
+  icon: React.ReactNode;
+  findings: PositioningFinding[];
+  labels: ReportLabels;
+  selected: PositioningPanelProps['selected'];
+  onSelect: PositioningPanelProps['onSelect'];
+}) {
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-1">
+        {icon}
+        <h3 className="font-semibold text-slate-900">{title}</h3>
+      </div>
+      <p className="text-xs text-slate-500 mb-4">{hint}</p>
+      {findings.length === 0 ? (
+        <p className="text-sm text-slate-400">{labels.positioning.none}</p>
+      ) : (
+        <ul className="space-y-4">
+          {findings.map((finding, i) => (
+            <FindingItem
+              key={i}
+              finding={finding}
+              selected={selected?.kind === kind && selected.index === i}
+              labels={labels}
+              onSelect={() => onSelect(kind, i)}
+              marker={
+                <span className="mt-0.5 max-w-24 truncate px-2 py-0.5 rounded-full bg-slate-100 text-[10px] font-bold text-slate-600 flex-shrink-0">
+                  {finding.competitor}
+                </span>
+              }
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function PositioningPanel({ positioning, labels, selected, onSelect }: PositioningPanelProps) {
+  const text = labels.positioning;
+  const brands = positioning.scorecard.map(b => b.competitor ?? text.you);
+  // Brand names go in as series names, not data keys, since recharts reads dots in keys as paths.
+  const aspects = ASPECTS.filter(aspect => positioning.scorecard.some(b => b.aspects[aspect] !== undefined));
+  const chartData = [
+    { aspect: text.overall, ...Object.fromEntries(positioning.scorecard.map((b, i) => [`b${i}`, b.average])) },
+    ...aspects.map(aspect => ({
+      aspect: labels.aspects[aspect],
+      ...Object.fromEntries(positioning.scorecard.map((b, i) => [`b${i}`, b.aspects[aspect] ?? null])),
+    })),
+  ];
+  const list = { labels, selected, onSelect };
+
+  return (
+    <div className="glass-card p-6">
+      <div className="flex items-center gap-2 mb-1">
+        <Crosshair className="text-indigo-600 w-5 h-5" />
+        <h2 className="text-xl font-semibold text-slate-900">{text.title}</h2>
+      </div>
+      <p className="text-slate-500 text-sm mb-6">{text.hint(positioning.competitors)}</p>
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <FindingList
+          kind="opportunities"
+          title={text.opportunities}
+          hint={text.opportunitiesHint}
+          icon={<TrendingUp className="text-emerald-500 w-4 h-4" />}
+          findings={positioning.opportunities}
+          {...list}
+        />
+        <FindingList
+          kind="threats"
+          title={text.threats}
+          hint={text.threatsHint}
+          icon={<ShieldAlert className="text-red-500 w-4 h-4" />}
+          findings={positioning.threats}
+          {...list}
+        />
+        <FindingList
+          kind="featureGaps"
+          title={text.featureGaps}
+          hint={text.featureGapsHint}
+          icon={<PackagePlus className="text-amber-500 w-4 h-4" />}
+          findings={positioning.featureGaps}
+          {...list}
+        />
+      </div>
+      <div className="mt-8 pt-8 border-t border-slate-100 grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div>
+          <div className="flex items-center gap-2 mb-4">
+            <Tag className="text-indigo-500 w-4 h-4" />
+            <h3 className="font-semibold text-slate-900">{text.pricePerception}</h3>
+          </div>
+          <div className="markdown-body">
+            <Markdown>{positioning.pricePerception}</Markdown>
+          </div>
+        </div>
+        <div>
+          <h3 className="font-semibold text-slate-900 mb-1">{text.scorecard}</h3>
+          <p className="text-xs text-slate-500 mb-4">{text.scorecardHint}</p>
+          <div className="h-72 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData} layout="vertical" margin={{ left: 24 }}>
+                <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#f1f5f9" />
+                <XAxis type="number" domain={[-1, 1]} ticks={[-1, -0.5, 0, 0.5, 1]} axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} />
+                <YAxis type="category" dataKey="aspect" axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 11 }} width={90} />
+                <Tooltip cursor={{ fill: '#f8fafc' }} contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }} />
+                <Legend verticalAlign="top" height={32} />
+                <ReferenceLine x={0} stroke="#94a3b8" />
+                {brands.map((brand, i) => (
+                  <Bar key={i} dataKey={`b${i}`} name={brand} fill={BRAND_COLORS[i % BRAND_COLORS.length]} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useDeferredValue, useEffect, useMemo, useState } from 'react';
+import { Save, ShieldCheck, X } from 'lucide-react';
+import { saveRedactionRules } from '../lib/api';
+import {
+  DEFAULT_REDACTION_RULES, MAX_REDACTION_TERMS, normalizeRedactionRules, REDACTION_KIND_IDS, REDACTION_KINDS, redactReviews,
+  splitRedacted, summarizeRedactions
+} from '../lib/redaction';
+import { cn } from '../lib/utils';
+import type { RedactionKind, RedactionRules, ReviewRecord, Workspace } from '../types';
+
+interface PrivacyPanelProps {
+  open: boolean;
+  workspace: Workspace | null;
+  // The workspace's saved rules; null while they load.
+  rules: RedactionRules | null;
+  // The analyzer's current input, previewed with the rules being edited.
+  reviews: ReviewRecord[];
+  onClose: () => void;
+  onSaved: (rules: RedactionRules) => void;
+}
+
+// Only reviews with something redacted are listed, and only this many of them.
+const PREVIEW_LIMIT = 50;
+
+const termsToText = (terms: string[]) => terms.join('\n');
+
+export function PrivacyPanel({ open, workspace, rules, reviews, onClose, onSaved }: PrivacyPanelProps) {
+  const [kinds, setKinds] = useState<RedactionKind[]>(DEFAULT_REDACTION_RULES.kinds);
+  const [termsText, setTermsText] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const canEdit = workspace?.role === 'editor';
+  const draft = useMemo(() => normalizeRedactionRules({ kinds, terms: termsText.split('\n') }), [kinds, termsText]);
+  const changed = !!rules && JSON.stringify(draft) !== JSON.stringify(rules);
+
+  // Large pastes are redacted after the form has caught up with the typing.
+  const deferredDraft = useDeferredValue(draft);
+  const preview = useMemo(
+    () => (open ? redactReviews(reviews, deferredDraft) : null),
+    [open, reviews, deferredDraft]
+  );
+  const affected = preview ? preview.reviews.filter((review, i) => review.text !== reviews[i].text) : [];
+
+  // Each open starts from the saved rules, since a teammate may have changed them.
+  useEffect(() => {
+    if (!open || !rules) return;
+    setKinds(rules.kinds);
+    setTermsText(termsToText(rules.terms));
+  }, [open, rules]);
+
+  useEffect(() => {
+    setError(null);
+    setNotice(null);
+  }, [open]);
+
+  const toggle = (kind: RedactionKind) =>
+    setKinds(current => (current.includes(kind) ? current.filter(k => k !== kind) : [...current, kind]));
+
+  const handleSave = async () => {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const saved = await saveRedactionRules(workspace!.id, draft);
+      onSaved(saved);
+      setNotice('Redaction rules saved. They apply to analyses run from now on.');
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end">
+      <div className="absolute inset-0 bg-slate-900/30" onClick={onClose} />
+      <aside className="relative w-full max-w-2xl h-full bg-white shadow-xl flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div className="flex items-center gap-2 min-w-0">
+            <ShieldCheck className="text-indigo-600 w-5 h-5 flex-shrink-0" />
+            <h2 className="text-xl font-semibold text-slate-900 truncate">Privacy{workspace && ` · ${workspace.name}`}</h2>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700" aria-label="Close privacy settings">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && <p className="mx-6 mt-4 p-3 text-sm text-red-700 bg-red-50 border border-red-100 rounded-lg">{error}</p>}
+        {notice && <p className="mx-6 mt-4 p-3 text-sm text-emerald-700 bg-emerald-50 border border-emerald-100 rounded-lg">{notice}</p>}
+
+        {!workspace ? (
+          <p className="p-6 text-sm text-slate-500">Create a workspace to set up its redaction rules.</p>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-6 space-y-6">
+            <p className="text-sm text-slate-500">
+              Personal data is replaced with placeholders such as <code className="text-xs">[EMAIL_1]</code> before any
+              review is sent to a model, including in follow-up questions. The same value always gets the same placeholder,
+              and the app puts the originals back when it shows you the report.
+            </p>
+
+            <div>
+              <p className="mb-2 text-[10px] font-bold text-slate-400 uppercase tracking-wider">Redact</p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {REDACTION_KIND_IDS.map(kind => (
+                  <label
+                    key={kind}
+                    className={cn(
+                      "flex items-start gap-3 p-3 rounded-xl border transition-colors",
+                      kinds.includes(kind) ? "border-indigo-200 bg-indigo-50/50" : "border-slate-100",
+                      canEdit && "cursor-pointer hover:bg-slate-50"
+                    )}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={kinds.includes(kind)}
+                      onChange={() => toggle(kind)}
+                      disabled={!canEdit}
+                      className="mt-0.5 accent-indigo-600"
+                    />
+                    <span>
+                      <span className="block text-sm font-semibold text-slate-900">{REDACTION_KINDS[kind].label}</span>
+                      <span className="block text-[11px] text-slate-500">e.g. {REDACTION_KINDS[kind].example}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+              <p className="mt-2 text-xs text-slate-400">
+                Names are found from cues such as "Mr.", "my name is" or "our driver", then wherever else they appear.
+              </p>
+            </div>
+
+            <label className="block">
+              <span className="block mb-1 text-[10px] font-bold text-slate-400 uppercase tracking-wider">Always redact</span>
+              <textarea
+                value={termsText}
+                onChange={(e) => setTermsText(e.target.value)}
+                disabled={!canEdit}
+                placeholder="One per line, e.g. staff names or a store address"
+                className="w-full h-24 text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500 disabled:text-slate-500 resize-none"
+              />
+              <span className="block mt-1 text-xs text-slate-400">Whole words, any capitalization. Up to {MAX_REDACTION_TERMS} terms.</span>
+            </label>
+
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-xs text-slate-400">{canEdit ? 'Shared with everyone in the workspace.' : 'Only editors can change the rules.'}</p>
+              <button
+                onClick={handleSave}
+                disabled={!canEdit || !changed || busy}
+                className="flex items-center gap-2 px-5 py-2 rounded-full text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 disabled:cursor-not-allowed transition-colors"
+              >
+                <Save className="w-4 h-4" />
+                Save Rules
+              </button>
+            </div>
+
+            <div className="pt-6 border-t border-slate-100">
+              <p className="mb-1 text-[10px] font-bold text-slate-400 uppercase tracking-wider">Redaction preview</p>
+              {reviews.length === 0 ? (
+                <p className="text-sm text-slate-500">Paste or import reviews in the analyzer to see what would be sent.</p>
+              ) : affected.length === 0 ? (
+                <p className="text-sm text-slate-500">Nothing to redact in the {reviews.length.toLocaleString()} reviews in the analyzer.</p>
+              ) : (
+                <>
+                  <p className="text-sm text-slate-500 mb-3">
+                    {affected.length.toLocaleString()} of {reviews.length.toLocaleString()} reviews would be sent with placeholders.
+                    Hover one to see what it replaces.
+                  </p>
+                  <div className="flex flex-wrap gap-1.5 mb-3">
+                    {summarizeRedactions(preview!.redactions).map(({ label, count }) => (
+                      <span key={label} className="px-2 py-1 rounded-md bg-slate-100 text-[11px] font-semibold text-slate-600">
+                        {label}: {count}
+                      </span>
+                    ))}
+                  </div>
+                  <ol className="space-y-1">
+                    {affected.slice(0, PREVIEW_LIMIT).map((review, i) => (
+                      <li key={i} className="px-3 py-2 rounded-lg bg-slate-50 text-sm text-slate-700">
+                        {splitRedacted(review.text).map((part, j) =>
+                          j % 2 === 1 ? (
+                            <mark key={j} title={preview!.redactions[part]} className="bg-indigo-100 text-indigo-700 rounded px-0.5 font-mono text-xs">
+                              {part}
+                            </mark>
+                          ) : (
+                            part
+                          )
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                  {affected.length > PREVIEW_LIMIT && (
+                    <p className="mt-2 text-xs text-slate-400">Showing the first {PREVIEW_LIMIT}.</p>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { Quote, X } from 'lucide-react';
+import { cn } from '../lib/utils';
+import type { Finding, ReviewRecord } from '../types';
+
+interface ReviewEvidenceProps {
+  finding: Finding;
+  reviews: ReviewRecord[];
+  onClose: () => void;
+}
+
+// Beyond this many reviews only the cited ones are listed.
+const FULL_LIST_LIMIT = 300;
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Wraps every occurrence of the quotes in <mark>, case-insensitively.
+function highlight(text: string, quotes: string[]) {
+  if (quotes.length === 0) return text;
+  const pattern = new RegExp(`(${quotes.map(n => escapeRegExp(n).replace(/\s+/g, '\\s+')).join('|')})`, 'gi');
+  return text.split(pattern).map((part, i) =>
+    i % 2 === 1 ? <mark key={i} className="bg-amber-200 rounded px-0.5">{part}</mark> : part
+  );
+}
+
+export function ReviewEvidence({ finding, reviews, onClose }: ReviewEvidenceProps) {
+  const firstCitedRef = useRef<HTMLLIElement>(null);
+  const cited = new Set(finding.evidence);
+  const indices = reviews.length > FULL_LIST_LIMIT ? finding.evidence : reviews.map((_, i) => i);
+
+  useEffect(() => {
+    firstCitedRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [finding]);
+
+  return (
+    <div className="h-72 rounded-xl border border-indigo-200 bg-white flex flex-col">
+      <div className="flex items-start justify-between gap-4 p-4 border-b border-slate-100">
+        <div>
+          <p className="text-[10px] font-bold text-indigo-600 uppercase tracking-wider mb-1">
+            Evidence · {finding.frequency} of {reviews.length} reviews
+          </p>
+          <p className="text-sm font-semibold text-slate-900">{finding.text}</p>
+        </div>
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700" aria-label="Close evidence">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      {finding.evidence.length === 0 ? (
+        <p className="p-4 text-sm text-slate-500">
+          The model did not cite any input review for this item, so it may not be grounded in your data.
+        </p>
+      ) : (
+        <ol className="flex-1 overflow-y-auto p-2 space-y-1">
+          {indices.map(i => {
+            const isCited = cited.has(i);
+            return (
+              <li
+                key={i}
+                ref={isCited && i === finding.evidence[0] ? firstCitedRef : undefined}
+                className={cn(
+                  "flex gap-3 px-3 py-2 rounded-lg text-sm",
+                  isCited ? "bg-amber-50 border-l-4 border-amber-400 text-slate-800" : "text-slate-400"
+                )}
+              >
+                <span className="font-mono text-xs pt-0.5">#{i + 1}</span>
+                <span className="flex-1">
+                  {isCited ? highlight(reviews[i].text, finding.quotes) : reviews[i].text}
+                </span>
+                {reviews[i].competitor && (
+                  <span className="h-fit px-2 py-0.5 rounded-full bg-slate-100 text-[10px] font-bold text-slate-600">{reviews[i].competitor}</span>
+                )}
+                {isCited && reviews[i].rating !== undefined && (
+                  <span className="text-xs font-semibold text-amber-500">{reviews[i].rating}★</span>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+      {finding.quotes.length > 0 && (
+        <div className="flex items-center gap-2 px-4 py-2 border-t border-slate-100 text-xs text-slate-500">
+          <Quote className="w-3.5 h-3.5 text-amber-500" />
+          Highlighted passages are the quotes the model cited.
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useMemo, useRef, useState } from 'react';
+import { FileUp, Upload, X } from 'lucide-react';
+import {
+  applyMapping,
+  guessMapping,
+  parseImportFile,
+  REVIEW_FIELDS,
+  type ColumnMapping,
+  type ParsedFile,
+} from '../lib/importReviews';
+import { cn } from '../lib/utils';
+import type { ReviewRecord } from '../types';
+
+interface ReviewImporterProps {
+  onImport: (records: ReviewRecord[], fileName: string) => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+export function ReviewImporter({ onImport }: ReviewImporterProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [file, setFile] = useState<{ name: string; parsed: ParsedFile } | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+
+  const cleaned = useMemo(
+    () => (file && mapping ? applyMapping(file.parsed, mapping, file.name) : null),
+    [file, mapping]
+  );
+
+  const readFile = async (selected: File) => {
+    setError(null);
+    try {
+      const parsed = parseImportFile(selected.name, await selected.text());
+      if (parsed.rows.length === 0) throw new Error('No rows found in file.');
+      setFile({ name: selected.name, parsed });
+      setMapping(guessMapping(parsed.columns));
+    } catch (err) {
+      setError(`Could not read ${selected.name}: ${(err as Error).message}`);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const dropped = e.dataTransfer.files[0];
+    if (dropped) readFile(dropped);
+  };
+
+  const close = () => {
+    setFile(null);
+    setMapping(null);
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  return (
+    <>
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => inputRef.current?.click()}
+        className={cn(
+          "mb-4 flex items-center justify-center gap-3 p-4 rounded-xl border-2 border-dashed cursor-pointer transition-colors",
+          isDragging ? "border-indigo-400 bg-indigo-50" : "border-slate-200 hover:border-indigo-300 bg-slate-50/50"
+        )}
+      >
+        <Upload className="w-5 h-5 text-indigo-500" />
+        <p className="text-sm text-slate-600">
+          Drop a <strong>CSV</strong>, <strong>JSON</strong> or <strong>JSONL</strong> review export here, or <span className="text-indigo-600 underline underline-offset-4">browse</span>
+        </p>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.tsv,.txt,.json,.jsonl,.ndjson"
+          className="hidden"
+          onChange={(e) => e.target.files?.[0] && readFile(e.target.files[0])}
+        />
+      </div>
+      {error && <p className="mb-4 text-sm text-red-700">{error}</p>}
+
+      {file && mapping && cleaned && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-slate-900/30" onClick={close} />
+          <div className="relative w-full max-w-3xl max-h-[90vh] overflow-y-auto bg-white rounded-2xl shadow-xl p-6">
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center gap-2">
+                <FileUp className="text-indigo-600 w-5 h-5" />
+                <h2 className="text-xl font-semibold text-slate-900">Import {file.name}</h2>
+              </div>
+              <button onClick={close} className="p-1 text-slate-400 hover:text-slate-700" aria-label="Cancel import">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-3">Map Columns</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-6">
+              {REVIEW_FIELDS.map(({ field, label, required }) => (
+                <label key={field} className="flex items-center justify-between gap-3 text-sm">
+                  <span className="font-medium text-slate-700">
+                    {label}
+                    {required && <span className="text-red-500"> *</span>}
+                  </span>
+                  <select
+                    value={mapping[field]}
+                    onChange={(e) => setMapping({ ...mapping, [field]: e.target.value })}
+                    className="w-48 text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-1.5 outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    <option value="">{field === 'source' ? `File name (${file.name})` : '— Not mapped —'}</option>
+                    {file.parsed.columns.map(column => (
+                      <option key={column} value={column}>{column}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap gap-4 mb-4 text-xs font-bold uppercase tracking-wider">
+              <span className="text-slate-500">{cleaned.stats.total} rows</span>
+              <span className="text-emerald-600">{cleaned.stats.kept} kept</span>
+              <span className="text-amber-600">{cleaned.stats.duplicates} duplicates removed</span>
+              <span className="text-slate-400">{cleaned.stats.empty} empty skipped</span>
+            </div>
+
+            <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-3">Preview</h3>
+            <div className="overflow-x-auto border border-slate-100 rounded-xl mb-6">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-left text-xs text-slate-500 uppercase">
+                  <tr>
+                    {REVIEW_FIELDS.map(({ field, label }) => (
+                      <th key={field} className="px-3 py-2 font-semibold">{label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {cleaned.records.slice(0, PREVIEW_ROWS).map((record, i) => (
+                    <tr key={i} className="border-t border-slate-100 align-top">
+                      <td className="px-3 py-2 text-slate-700 max-w-xs">{record.text}</td>
+                      <td className="px-3 py-2 text-slate-500">{record.rating ?? '—'}</td>
+                      <td className="px-3 py-2 text-slate-500 whitespace-nowrap">{record.date ?? '—'}</td>
+                      <td className="px-3 py-2 text-slate-500">{record.product ?? '—'}</td>
+                      <td className="px-3 py-2 text-slate-500">{record.source ?? '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-end gap-3">
+              <button onClick={close} className="px-6 py-2 rounded-full border border-slate-200 font-semibold text-sm hover:bg-slate-50">
+                Cancel
+              </button>
+              <button
+                onClick={() => {
+                  onImport(cleaned.records, file.name);
+                  close();
+                }}
+                disabled={cleaned.records.length === 0}
+                className={cn(
+                  "px-6 py-2 rounded-full font-semibold text-sm text-white",
+                  cleaned.records.length === 0 ? "bg-slate-300 cursor-not-allowed" : "bg-indigo-600 hover:bg-indigo-700"
+                )}
+              >
+                Import {cleaned.records.length} Reviews
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
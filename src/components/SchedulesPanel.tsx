@@ -0,0 +1,424 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { CalendarClock, ExternalLink, Loader2, Pause, Play, Plus, Trash2, X } from 'lucide-react';
+import { createSchedule, deleteSchedule, getReport, listScheduleRuns, listSchedules, runSchedule, updateSchedule } from '../lib/api';
+import { DEFAULT_TEMPLATES } from '../lib/promptTemplates';
+import { buildTrend } from '../lib/trends';
+import { cn } from '../lib/utils';
+import type { AnalysisSchedule, SavedReport, ScheduleFrequency, ScheduleRun, ScheduleRunStatus, TemplateId, Workspace } from '../types';
+import type { ModelChoice } from './ModelPicker';
+
+interface SchedulesPanelProps {
+  open: boolean;
+  workspace: Workspace | null;
+  // New schedules run with the analyzer's current settings.
+  template: TemplateId;
+  language: string;
+  reportLanguage: string;
+  model: ModelChoice | null;
+  onClose: () => void;
+  onOpenReport: (report: SavedReport) => void;
+}
+
+const FREQUENCIES: { id: ScheduleFrequency; label: string }[] = [
+  { id: 'hourly', label: 'Every hour' },
+  { id: 'daily', label: 'Every day' },
+  { id: 'weekly', label: 'Every week' },
+];
+
+const STATUS_STYLES: Record<ScheduleRunStatus, string> = {
+  queued: 'bg-slate-100 text-slate-600',
+  running: 'bg-indigo-50 text-indigo-700',
+  succeeded: 'bg-emerald-50 text-emerald-700',
+  failed: 'bg-red-50 text-red-700',
+  skipped: 'bg-slate-50 text-slate-400',
+};
+
+const ISSUE_COLORS = ['#ef4444', '#f59e0b', '#0ea5e9', '#a855f7', '#10b981'];
+
+// While a run's analysis is still going, its status is refreshed this often.
+const POLL_MS = 5_000;
+
+const tooltipStyle = {
+  borderRadius: '12px',
+  border: 'none',
+  boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)'
+};
+
+const axisProps = { axisLine: false, tickLine: false, tick: { fill: '#64748b', fontSize: 11 } };
+
+const formatTime = (at: string) =>
+  new Date(at).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const describeSource = (schedule: AnalysisSchedule) =>
+  schedule.source.type === 'folder' ? `Folder ${schedule.source.path}` : new URL(schedule.source.url).host;
+
+export function SchedulesPanel({ open, workspace, template, language, reportLanguage, model, onClose, onOpenReport }: SchedulesPanelProps) {
+  const [schedules, setSchedules] = useState<AnalysisSchedule[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [runs, setRuns] = useState<ScheduleRun[]>([]);
+  const [name, setName] = useState('');
+  const [sourceType, setSourceType] = useState<'folder' | 'feed'>('feed');
+  const [location, setLocation] = useState('');
+  const [frequency, setFrequency] = useState<ScheduleFrequency>('daily');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const workspaceId = workspace?.id ?? null;
+  const canEdit = workspace?.role === 'editor';
+  const selected = schedules?.find(s => s.id === selectedId) ?? null;
+
+  useEffect(() => {
+    if (!open || !workspaceId) return;
+    let cancelled = false;
+    setSchedules(null);
+    setError(null);
+    setNotice(null);
+    listSchedules(workspaceId)
+      .then(list => {
+        if (cancelled) return;
+        setSchedules(list);
+        setSelectedId(current => (list.some(s => s.id === current) ? current : list[0]?.id ?? null));
+      })
+      .catch(err => {
+        if (!cancelled) setError(err.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, workspaceId]);
+
+  // Polls while any of the selected schedule's analyses is unfinished.
+  const pending = runs.some(run => run.status === 'queued' || run.status === 'running');
+  useEffect(() => {
+    if (!open || !selectedId) {
+      setRuns([]);
+      return;
+    }
+    let cancelled = false;
+    const load = () =>
+      listScheduleRuns(selectedId)
+        .then(list => {
+          if (!cancelled) setRuns(list);
+        })
+        .catch(err => {
+          if (!cancelled) setError(err.message);
+        });
+    load();
+    const timer = pending ? setInterval(load, POLL_MS) : null;
+    return () => {
+      cancelled = true;
+      if (timer) clearInterval(timer);
+    };
+  }, [open, selectedId, pending]);
+
+  const trend = useMemo(() => buildTrend(runs), [runs]);
+  const chartData = useMemo(
+    () => trend.points.map(point => ({
+      label: formatTime(point.at),
+      sentiment: Number(point.averageSentiment.toFixed(2)),
+      ...Object.fromEntries(trend.issues.map(issue => [issue.key, Math.round((point.shares[issue.key] ?? 0) * 100)])),
+    })),
+    [trend],
+  );
+
+  const replace = (schedule: AnalysisSchedule) =>
+    setSchedules(current => current?.map(s => (s.id === schedule.id ? schedule : s)) ?? [schedule]);
+
+  const act = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    void act(async () => {
+      const schedule = await createSchedule({
+        workspaceId: workspaceId!,
+        name,
+        source: sourceType === 'folder' ? { type: 'folder', path: location } : { type: 'feed', url: location },
+        frequency,
+        template,
+        language,
+        reportLanguage,
+        ...model,
+      });
+      setSchedules(current => [...(current ?? []), schedule]);
+      setSelectedId(schedule.id);
+      setName('');
+      setLocation('');
+      setNotice(`"${schedule.name}" will run within a minute, then ${FREQUENCIES.find(f => f.id === frequency)!.label.toLowerCase()}.`);
+    });
+  };
+
+  const handleToggle = (schedule: AnalysisSchedule) =>
+    act(async () => replace(await updateSchedule(schedule.id, { enabled: !schedule.enabled })));
+
+  const handleFrequency = (schedule: AnalysisSchedule, next: ScheduleFrequency) =>
+    act(async () => replace(await updateSchedule(schedule.id, { frequency: next })));
+
+  const handleRun = (schedule: AnalysisSchedule) =>
+    act(async () => {
+      const run = await runSchedule(schedule.id);
+      setSelectedId(schedule.id);
+      setRuns(current => (selectedId === schedule.id ? [...current, run] : [run]));
+      replace((await listSchedules(schedule.workspaceId)).find(s => s.id === schedule.id) ?? schedule);
+      setNotice(
+        run.status === 'skipped' ? 'No new reviews since the last run.'
+          : run.status === 'failed' ? null
+          : `${run.reviewCount.toLocaleString()} new reviews are being analyzed.`
+      );
+      if (run.status === 'failed') setError(run.error);
+    });
+
+  const handleDelete = (schedule: AnalysisSchedule) => {
+    if (!window.confirm(`Delete "${schedule.name}" and its timeline? The reports it made are kept.`)) return;
+    void act(async () => {
+      await deleteSchedule(schedule.id);
+      setSchedules(current => current?.filter(s => s.id !== schedule.id) ?? null);
+      if (selectedId === schedule.id) setSelectedId(null);
+    });
+  };
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end">
+      <div className="absolute inset-0 bg-slate-900/30" onClick={onClose} />
+      <aside className="relative w-full max-w-2xl h-full bg-white shadow-xl flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div className="flex items-center gap-2 min-w-0">
+            <CalendarClock className="text-indigo-600 w-5 h-5 flex-shrink-0" />
+            <h2 className="text-xl font-semibold text-slate-900 truncate">Schedules{workspace && ` · ${workspace.name}`}</h2>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700" aria-label="Close schedules">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && <p className="mx-6 mt-4 p-3 text-sm text-red-700 bg-red-50 border border-red-100 rounded-lg">{error}</p>}
+        {notice && <p className="mx-6 mt-4 p-3 text-sm text-emerald-700 bg-emerald-50 border border-emerald-100 rounded-lg">{notice}</p>}
+
+        {!workspace ? (
+          <p className="p-6 text-sm text-slate-500">Create a workspace to schedule analyses.</p>
+        ) : !schedules ? (
+          !error && (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-5 h-5 text-slate-400 animate-spin" />
+            </div>
+          )
+        ) : (
+          <div className="flex-1 overflow-y-auto p-6 space-y-8">
+            <p className="text-sm text-slate-500">
+              A schedule checks a feed, or a folder of CSV and JSON drops on the server, for reviews that arrived since its
+              last run and analyzes them on its own. Each run is saved as a report, and the trend shows how sentiment and
+              pain points move between runs.
+            </p>
+
+            {schedules.length > 0 && (
+              <ul className="space-y-2">
+                {schedules.map(schedule => (
+                  <li
+                    key={schedule.id}
+                    className={cn(
+                      "flex items-center gap-3 p-3 rounded-xl border transition-colors",
+                      schedule.id === selectedId ? "border-indigo-200 bg-indigo-50/50" : "border-slate-100 hover:bg-slate-50"
+                    )}
+                  >
+                    <button onClick={() => setSelectedId(schedule.id)} className="flex-1 min-w-0 text-left">
+                      <span className={cn("block text-sm font-semibold truncate", schedule.enabled ? "text-slate-900" : "text-slate-400")}>
+                        {schedule.name}
+                      </span>
+                      <span className="block text-[11px] text-slate-500 truncate">
+                        {describeSource(schedule)} · {DEFAULT_TEMPLATES[schedule.template].name} · {schedule.model}
+                      </span>
+                      <span className="block text-[11px] text-slate-400">
+                        {schedule.enabled ? `Next run ${formatTime(schedule.nextRunAt)}` : 'Paused'}
+                        {schedule.lastRunAt && ` · last ${formatTime(schedule.lastRunAt)}`}
+                      </span>
+                    </button>
+                    <select
+                      value={schedule.frequency}
+                      onChange={(e) => handleFrequency(schedule, e.target.value as ScheduleFrequency)}
+                      disabled={!canEdit || busy}
+                      aria-label={`How often "${schedule.name}" runs`}
+                      className="text-xs bg-white border border-slate-200 rounded-lg px-2 py-1 outline-none focus:ring-2 focus:ring-indigo-500"
+                    >
+                      {FREQUENCIES.map(f => (
+                        <option key={f.id} value={f.id}>{f.label}</option>
+                      ))}
+                    </select>
+                    {canEdit && (
+                      <div className="flex items-center gap-1">
+                        <button
+                          onClick={() => handleRun(schedule)}
+                          disabled={busy}
+                          className="px-2 py-1 rounded-lg text-xs font-semibold text-indigo-600 hover:bg-indigo-50 disabled:text-slate-300"
+                        >
+                          Run now
+                        </button>
+                        <button
+                          onClick={() => handleToggle(schedule)}
+                          disabled={busy}
+                          className="p-1.5 text-slate-400 hover:text-indigo-600 disabled:text-slate-300"
+                          aria-label={schedule.enabled ? `Pause "${schedule.name}"` : `Resume "${schedule.name}"`}
+                          title={schedule.enabled ? 'Pause' : 'Resume'}
+                        >
+                          {schedule.enabled ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                        </button>
+                        <button
+                          onClick={() => handleDelete(schedule)}
+                          disabled={busy}
+                          className="p-1.5 text-slate-400 hover:text-red-600 disabled:text-slate-300"
+                          aria-label={`Delete "${schedule.name}"`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {selected && (
+              <section>
+                <h3 className="mb-3 text-xs font-bold text-slate-400 uppercase tracking-wider">Trend · {selected.name}</h3>
+                {chartData.length === 0 ? (
+                  <p className="text-sm text-slate-500">The trend starts once a run's analysis finishes.</p>
+                ) : (
+                  <div className="h-64 w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={chartData}>
+                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                        <XAxis dataKey="label" {...axisProps} minTickGap={16} />
+                        <YAxis yAxisId="sentiment" {...axisProps} width={36} domain={[-1, 1]} />
+                        <YAxis yAxisId="share" orientation="right" {...axisProps} width={40} domain={[0, 100]} unit="%" />
+                        <Tooltip contentStyle={tooltipStyle} />
+                        <Legend verticalAlign="top" height={48} wrapperStyle={{ fontSize: 11 }} />
+                        <Line yAxisId="sentiment" name="Average sentiment" type="monotone" dataKey="sentiment" stroke="#4f46e5" strokeWidth={2.5} />
+                        {trend.issues.map((issue, i) => (
+                          <Line
+                            key={issue.key}
+                            yAxisId="share"
+                            name={issue.text}
+                            type="monotone"
+                            dataKey={issue.key}
+                            unit="%"
+                            stroke={ISSUE_COLORS[i % ISSUE_COLORS.length]}
+                            strokeWidth={1.5}
+                            strokeDasharray="4 3"
+                          />
+                        ))}
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
+                {trend.issues.length > 0 && (
+                  <p className="mt-2 text-xs text-slate-400">Dashed lines: share of each run's reviews raising the pain point.</p>
+                )}
+
+                {runs.length > 0 && (
+                  <ol className="mt-6 space-y-1">
+                    {[...runs].reverse().map(run => (
+                      <li key={run.id} className="flex items-center gap-3 px-3 py-2 rounded-lg bg-slate-50 text-sm">
+                        <span className="w-28 flex-shrink-0 text-slate-600">{formatTime(run.createdAt)}</span>
+                        <span className={cn("px-2 py-0.5 rounded-md text-[11px] font-semibold capitalize", STATUS_STYLES[run.status])}>
+                          {run.status}
+                        </span>
+                        <span className="flex-1 min-w-0 truncate text-slate-500" title={run.error ?? undefined}>
+                          {run.error ?? (run.status === 'skipped' ? 'No new reviews' : `${run.reviewCount.toLocaleString()} reviews`)}
+                        </span>
+                        {run.reportId && (
+                          <button
+                            onClick={() => act(async () => onOpenReport(await getReport(run.reportId!)))}
+                            disabled={busy}
+                            className="flex items-center gap-1 text-xs font-semibold text-indigo-600 hover:text-indigo-700"
+                          >
+                            <ExternalLink className="w-3.5 h-3.5" />
+                            Open report
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </section>
+            )}
+
+            {canEdit ? (
+              <form onSubmit={handleCreate} className="pt-6 border-t border-slate-100 space-y-3">
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">New schedule</p>
+                <input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Name, e.g. Trustpilot weekly"
+                  className="w-full text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+                <div className="flex gap-2">
+                  <select
+                    value={sourceType}
+                    onChange={(e) => setSourceType(e.target.value as 'folder' | 'feed')}
+                    aria-label="Source type"
+                    className="text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    <option value="feed">Feed URL</option>
+                    <option value="folder">Watched folder</option>
+                  </select>
+                  <input
+                    value={location}
+                    onChange={(e) => setLocation(e.target.value)}
+                    placeholder={sourceType === 'feed' ? 'https://example.com/reviews.rss' : 'e.g. trustpilot'}
+                    className="flex-1 min-w-0 text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                  <select
+                    value={frequency}
+                    onChange={(e) => setFrequency(e.target.value as ScheduleFrequency)}
+                    aria-label="How often it runs"
+                    className="text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    {FREQUENCIES.map(f => (
+                      <option key={f.id} value={f.id}>{f.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <p className="text-xs text-slate-400">
+                  {sourceType === 'feed'
+                    ? 'RSS, Atom or JSON Feed. Each item is read as one review.'
+                    : 'A folder inside the server\'s watch directory. New or grown CSV, TSV, JSON and JSONL files are picked up.'}
+                  {' '}Runs as {DEFAULT_TEMPLATES[template].name} in {reportLanguage}{model && ` with ${model.model}`}, as set in the analyzer.
+                </p>
+                <div className="flex justify-end">
+                  <button
+                    type="submit"
+                    disabled={busy || !name.trim() || !location.trim()}
+                    className="flex items-center gap-2 px-5 py-2 rounded-full text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 disabled:cursor-not-allowed transition-colors"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add Schedule
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <p className="text-xs text-slate-400">Only editors can add or change schedules.</p>
+            )}
+          </div>
+        )}
+      </aside>
+    </div>
+  );
+}
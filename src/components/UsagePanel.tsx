@@ -0,0 +1,216 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Area, AreaChart, Bar, BarChart, CartesianGrid, Legend, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis
+} from 'recharts';
+import { BarChart3, Loader2, X } from 'lucide-react';
+import { changePlan, getUsage } from '../lib/api';
+import { PLANS, SELF_SERVE_PLANS } from '../lib/plans';
+import { cn } from '../lib/utils';
+import type { PlanId, Workspace, WorkspaceUsage } from '../types';
+
+interface UsagePanelProps {
+  open: boolean;
+  workspace: Workspace | null;
+  onClose: () => void;
+  onPlanChanged: (workspaceId: string, plan: PlanId) => void;
+}
+
+const tooltipStyle = {
+  borderRadius: '12px',
+  border: 'none',
+  boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)'
+};
+
+const axisProps = { axisLine: false, tickLine: false, tick: { fill: '#64748b', fontSize: 11 } };
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const formatPrice = (plan: PlanId) => {
+  const price = PLANS[plan].monthlyPriceUsd;
+  return price === null ? 'Custom pricing' : `$${price}/mo`;
+};
+
+export function UsagePanel({ open, workspace, onClose, onPlanChanged }: UsagePanelProps) {
+  const [usage, setUsage] = useState<WorkspaceUsage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  const workspaceId = workspace?.id ?? null;
+  const canManage = workspace?.role === 'editor';
+
+  // Refetched on every open, so runs since the last look are counted.
+  useEffect(() => {
+    if (!open || !workspaceId) return;
+    let cancelled = false;
+    setUsage(null);
+    setError(null);
+    getUsage(workspaceId)
+      .then(summary => {
+        if (!cancelled) setUsage(summary);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, workspaceId]);
+
+  // Reviews add up over the month, so the chart shows how close the running total is to the limit.
+  const cumulative = useMemo(() => {
+    let total = 0;
+    return (usage?.daily ?? []).map(day => ({ date: formatDay(day.date), reviews: (total += day.reviews) }));
+  }, [usage]);
+  const tokens = useMemo(
+    () => (usage?.daily ?? []).map(day => ({ date: formatDay(day.date), input: day.inputTokens, output: day.outputTokens })),
+    [usage],
+  );
+
+  const handlePlan = async (plan: PlanId) => {
+    if (!workspaceId || plan === usage?.plan) return;
+    setIsSwitching(true);
+    setError(null);
+    try {
+      const summary = await changePlan(workspaceId, plan);
+      setUsage(summary);
+      onPlanChanged(workspaceId, summary.plan);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  if (!open) return null;
+
+  const limit = usage?.reviewLimit ?? null;
+  const share = usage && limit ? Math.min(1, usage.reviewsUsed / limit) : 0;
+  const resetsOn = usage && new Date(usage.periodEnd).toLocaleDateString(undefined, { month: 'long', day: 'numeric', timeZone: 'UTC' });
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end">
+      <div className="absolute inset-0 bg-slate-900/30" onClick={onClose} />
+      <aside className="relative w-full max-w-lg h-full bg-white shadow-xl flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div className="flex items-center gap-2 min-w-0">
+            <BarChart3 className="text-indigo-600 w-5 h-5 flex-shrink-0" />
+            <h2 className="text-xl font-semibold text-slate-900 truncate">Usage{workspace && ` · ${workspace.name}`}</h2>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700" aria-label="Close usage">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <p className="mx-4 mt-4 p-3 text-sm text-red-700 bg-red-50 border border-red-100 rounded-lg">{error}</p>
+        )}
+
+        {!usage ? (
+          !error && (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-5 h-5 text-slate-400 animate-spin" />
+            </div>
+          )
+        ) : (
+          <div className="flex-1 overflow-y-auto p-6 space-y-8">
+            <section>
+              <div className="flex items-baseline justify-between gap-4 mb-2">
+                <p className="text-sm font-semibold text-slate-900">
+                  {PLANS[usage.plan].name} plan <span className="font-normal text-slate-500">· {formatPrice(usage.plan)}</span>
+                </p>
+                <p className="text-xs text-slate-500">Resets on {resetsOn}</p>
+              </div>
+              <p className="text-3xl font-bold text-slate-900">
+                {usage.reviewsUsed.toLocaleString()}
+                <span className="text-base font-normal text-slate-500">
+                  {limit === null ? ' reviews this month' : ` / ${limit.toLocaleString()} reviews`}
+                </span>
+              </p>
+              {limit !== null && (
+                <div className="mt-3 w-full h-2 bg-slate-100 rounded-full overflow-hidden">
+                  <div
+                    className={cn("h-full transition-all", share >= 1 ? "bg-red-500" : share >= 0.8 ? "bg-amber-400" : "bg-indigo-500")}
+                    style={{ width: `${share * 100}%` }}
+                  />
+                </div>
+              )}
+              <p className="mt-3 text-xs text-slate-500">
+                {usage.analyses} {usage.analyses === 1 ? 'analysis' : 'analyses'} · {usage.questions} follow-up {usage.questions === 1 ? 'question' : 'questions'} ·{' '}
+                {(usage.inputTokens + usage.outputTokens).toLocaleString()} model tokens
+              </p>
+            </section>
+
+            <section>
+              <h3 className="mb-3 text-xs font-bold text-slate-400 uppercase tracking-wider">Reviews Analyzed This Month</h3>
+              <div className="h-48 w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <AreaChart data={cumulative}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                    <XAxis dataKey="date" {...axisProps} minTickGap={16} />
+                    <YAxis {...axisProps} width={48} allowDecimals={false} domain={[0, (max: number) => Math.max(max, limit ?? 0)]} />
+                    <Tooltip contentStyle={tooltipStyle} />
+                    {limit !== null && (
+                      <ReferenceLine y={limit} stroke="#ef4444" strokeDasharray="6 4" label={{ value: 'Limit', position: 'insideTopRight', fill: '#ef4444', fontSize: 11 }} />
+                    )}
+                    <Area name="Reviews" type="monotone" dataKey="reviews" stroke="#4f46e5" strokeWidth={2} fill="#818cf8" fillOpacity={0.2} />
+                  </AreaChart>
+                </ResponsiveContainer>
+              </div>
+            </section>
+
+            <section>
+              <h3 className="mb-3 text-xs font-bold text-slate-400 uppercase tracking-wider">Model Tokens by Day</h3>
+              <div className="h-48 w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={tokens}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                    <XAxis dataKey="date" {...axisProps} minTickGap={16} />
+                    <YAxis {...axisProps} width={48} tickFormatter={(value) => Number(value).toLocaleString(undefined, { notation: 'compact' })} />
+                    <Tooltip contentStyle={tooltipStyle} formatter={(value) => Number(value).toLocaleString()} />
+                    <Legend verticalAlign="top" height={28} />
+                    <Bar name="Input" dataKey="input" stackId="tokens" fill="#818cf8" />
+                    <Bar name="Output" dataKey="output" stackId="tokens" fill="#4f46e5" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </section>
+
+            <section>
+              <h3 className="mb-3 text-xs font-bold text-slate-400 uppercase tracking-wider">Plan</h3>
+              <div className="grid grid-cols-2 gap-2">
+                {SELF_SERVE_PLANS.map(plan => (
+                  <button
+                    key={plan}
+                    onClick={() => handlePlan(plan)}
+                    disabled={!canManage || isSwitching}
+                    className={cn(
+                      "p-3 rounded-xl border text-left transition-colors disabled:cursor-not-allowed",
+                      plan === usage.plan ? "border-indigo-300 bg-indigo-50" : "border-slate-100 hover:bg-slate-50"
+                    )}
+                  >
+                    <p className="text-sm font-semibold text-slate-900">{PLANS[plan].name}</p>
+                    <p className="text-xs text-slate-500">
+                      {formatPrice(plan)} · {PLANS[plan].monthlyReviews!.toLocaleString()} reviews
+                    </p>
+                  </button>
+                ))}
+              </div>
+              <p className="mt-3 text-xs text-slate-400">
+                {canManage
+                  ? 'Billing is not connected yet: switching plans takes effect immediately and nothing is charged.'
+                  : 'Only editors can change the plan.'}{' '}
+                For Enterprise, contact sales.
+              </p>
+            </section>
+          </div>
+        )}
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,285 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Check, LogOut, Pencil, Plus, Trash2, Users, X } from 'lucide-react';
+import { addMember, createWorkspace, listMembers, removeMember, renameWorkspace, setMemberRole } from '../lib/api';
+import { cn } from '../lib/utils';
+import { ApiKeysSection } from './ApiKeysSection';
+import type { Account, WorkspaceMember, WorkspaceRole } from '../types';
+
+interface WorkspacePanelProps {
+  open: boolean;
+  account: Account;
+  workspaceId: string | null;
+  onClose: () => void;
+  onSwitch: (workspaceId: string) => void;
+  onAccountChange: (account: Account) => void;
+  onSignOut: () => void;
+}
+
+const ROLE_OPTIONS: { value: WorkspaceRole; label: string }[] = [
+  { value: 'viewer', label: 'Viewer' },
+  { value: 'editor', label: 'Editor' },
+];
+
+const inputClass = "flex-1 min-w-0 text-sm px-3 py-2 border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500";
+
+export function WorkspacePanel({ open, account, workspaceId, onClose, onSwitch, onAccountChange, onSignOut }: WorkspacePanelProps) {
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>('viewer');
+  const [editingName, setEditingName] = useState<string | null>(null);
+
+  const workspace = account.workspaces.find(w => w.id === workspaceId) ?? null;
+  const canManage = workspace?.role === 'editor';
+
+  useEffect(() => {
+    if (!open || !workspaceId) return;
+    let cancelled = false;
+    setError(null);
+    listMembers(workspaceId)
+      .then(list => {
+        if (!cancelled) setMembers(list);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, workspaceId]);
+
+  // Every action reports its failure the same way.
+  const attempt = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleCreate = () =>
+    attempt(async () => {
+      if (!newName.trim()) return;
+      const created = await createWorkspace(newName);
+      onAccountChange({ ...account, workspaces: [...account.workspaces, created] });
+      onSwitch(created.id);
+      setNewName('');
+    });
+
+  const handleRename = () =>
+    attempt(async () => {
+      if (!workspace || !editingName?.trim()) return;
+      const renamed = await renameWorkspace(workspace.id, editingName);
+      onAccountChange({ ...account, workspaces: account.workspaces.map(w => (w.id === renamed.id ? renamed : w)) });
+      setEditingName(null);
+    });
+
+  const handleInvite = () =>
+    attempt(async () => {
+      if (!workspace || !inviteEmail.trim()) return;
+      const member = await addMember(workspace.id, inviteEmail, inviteRole);
+      setMembers(list => [...list, member]);
+      setInviteEmail('');
+    });
+
+  const handleRole = (member: WorkspaceMember, role: WorkspaceRole) =>
+    attempt(async () => {
+      const updated = await setMemberRole(workspace!.id, member.userId, role);
+      setMembers(list => list.map(m => (m.userId === updated.userId ? updated : m)));
+      if (member.userId === account.user.id) {
+        onAccountChange({ ...account, workspaces: account.workspaces.map(w => (w.id === workspace!.id ? { ...w, role } : w)) });
+      }
+    });
+
+  const handleRemove = (member: WorkspaceMember) =>
+    attempt(async () => {
+      const leaving = member.userId === account.user.id;
+      const prompt = leaving ? `Leave "${workspace!.name}"? You will lose access to its reports.` : `Remove ${member.name} from "${workspace!.name}"?`;
+      if (!window.confirm(prompt)) return;
+      await removeMember(workspace!.id, member.userId);
+      if (leaving) {
+        const remaining = account.workspaces.filter(w => w.id !== workspace!.id);
+        onAccountChange({ ...account, workspaces: remaining });
+        if (remaining[0]) onSwitch(remaining[0].id);
+      } else {
+        setMembers(list => list.filter(m => m.userId !== member.userId));
+      }
+    });
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end">
+      <div className="absolute inset-0 bg-slate-900/30" onClick={onClose} />
+      <aside className="relative w-full max-w-md h-full bg-white shadow-xl flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div className="flex items-center gap-2">
+            <Users className="text-indigo-600 w-5 h-5" />
+            <h2 className="text-xl font-semibold text-slate-900">Workspaces</h2>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700" aria-label="Close workspaces">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between gap-4 px-6 py-4 border-b border-slate-100">
+          <div className="min-w-0">
+            <p className="text-sm font-semibold text-slate-900 truncate">{account.user.name}</p>
+            <p className="text-xs text-slate-500 truncate">{account.user.email}</p>
+          </div>
+          <button onClick={onSignOut} className="flex items-center gap-1.5 text-sm font-medium text-slate-500 hover:text-red-600">
+            <LogOut className="w-4 h-4" />
+            Sign out
+          </button>
+        </div>
+
+        {error && (
+          <p className="mx-4 mt-4 p-3 text-sm text-red-700 bg-red-50 border border-red-100 rounded-lg">{error}</p>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          <section>
+            <h3 className="px-2 mb-2 text-xs font-bold text-slate-400 uppercase tracking-wider">Switch Workspace</h3>
+            <div className="space-y-1">
+              {account.workspaces.map(w => (
+                <button
+                  key={w.id}
+                  onClick={() => onSwitch(w.id)}
+                  className={cn(
+                    "w-full flex items-center justify-between gap-2 px-3 py-2 rounded-xl border text-left transition-colors",
+                    w.id === workspaceId ? "border-indigo-300 bg-indigo-50" : "border-slate-100 hover:bg-slate-50"
+                  )}
+                >
+                  <span className="text-sm font-semibold text-slate-900 truncate">{w.name}</span>
+                  <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{w.role}</span>
+                </button>
+              ))}
+            </div>
+            <form
+              className="flex items-center gap-2 mt-3"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleCreate();
+              }}
+            >
+              <input value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="New workspace name" className={inputClass} />
+              <button type="submit" disabled={!newName.trim()} className="p-2 text-indigo-600 disabled:text-slate-300" aria-label="Create workspace">
+                <Plus className="w-5 h-5" />
+              </button>
+            </form>
+          </section>
+
+          {workspace && (
+            <section>
+              <div className="flex items-center gap-2 px-2 mb-2">
+                {editingName !== null ? (
+                  <form
+                    className="flex-1 flex items-center gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      handleRename();
+                    }}
+                  >
+                    <input autoFocus value={editingName} onChange={(e) => setEditingName(e.target.value)} className={inputClass} />
+                    <button type="submit" className="p-1 text-emerald-600" aria-label="Save name">
+                      <Check className="w-4 h-4" />
+                    </button>
+                    <button type="button" onClick={() => setEditingName(null)} className="p-1 text-slate-400" aria-label="Cancel rename">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </form>
+                ) : (
+                  <>
+                    <h3 className="flex-1 text-xs font-bold text-slate-400 uppercase tracking-wider truncate">Members of {workspace.name}</h3>
+                    {canManage && (
+                      <button onClick={() => setEditingName(workspace.name)} className="p-1 text-slate-400 hover:text-indigo-600" aria-label="Rename workspace">
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                    )}
+                  </>
+                )}
+              </div>
+              <ul className="space-y-1">
+                {members.map(member => (
+                  <li key={member.userId} className="flex items-center gap-2 px-3 py-2 rounded-xl border border-slate-100">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-semibold text-slate-900 truncate">
+                        {member.name}
+                        {member.userId === account.user.id && <span className="font-normal text-slate-400"> (you)</span>}
+                      </p>
+                      <p className="text-xs text-slate-500 truncate">{member.email}</p>
+                    </div>
+                    {canManage ? (
+                      <select
+                        value={member.role}
+                        onChange={(e) => handleRole(member, e.target.value as WorkspaceRole)}
+                        className="text-xs bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 outline-none"
+                      >
+                        {ROLE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                      </select>
+                    ) : (
+                      <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{member.role}</span>
+                    )}
+                    {(canManage || member.userId === account.user.id) && (
+                      <button
+                        onClick={() => handleRemove(member)}
+                        className="p-1 text-slate-400 hover:text-red-600"
+                        aria-label={member.userId === account.user.id ? 'Leave workspace' : `Remove ${member.name}`}
+                      >
+                        {member.userId === account.user.id ? <LogOut className="w-4 h-4" /> : <Trash2 className="w-4 h-4" />}
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+              {canManage && (
+                <form
+                  className="flex items-center gap-2 mt-3"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    handleInvite();
+                  }}
+                >
+                  <input
+                    type="email"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    placeholder="Teammate's email"
+                    className={inputClass}
+                  />
+                  <select
+                    value={inviteRole}
+                    onChange={(e) => setInviteRole(e.target.value as WorkspaceRole)}
+                    className="text-sm bg-slate-50 border border-slate-200 rounded-lg px-2 py-2 outline-none"
+                  >
+                    {ROLE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                  </select>
+                  <button
+                    type="submit"
+                    disabled={!inviteEmail.trim()}
+                    className="px-4 py-2 rounded-full text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300"
+                  >
+                    Add
+                  </button>
+                </form>
+              )}
+              <p className="mt-3 px-2 text-xs text-slate-400">
+                Viewers can open reports and ask follow-up questions. Editors can also run analyses, rename, pin and delete, and manage members.
+                Teammates need an account before they can be added.
+              </p>
+            </section>
+          )}
+
+          {workspace && canManage && <ApiKeysSection workspaceId={workspace.id} workspaceName={workspace.name} />}
+        </div>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,332 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { restoreReport } from './redaction';
+import type { Account, AnalysisErrorCategory, AnalysisSchedule, Delivery, DigestSettings, NotificationSettings, Webhook, AnalysisEvent, AnalysisJob, AnalysisProgress, AnalysisResult, AnalyzeRequest, ApiKey, BusinessProfile, ChatEvent, ChatRequest, CreatedApiKey, Pin, PlanId, PromptTemplate, PromptTemplateVersion, ProviderInfo, RedactionRules, ReportSummary, ReviewRecord, SavedReport, ScheduleFrequency, ScheduleRun, ScheduleSource, TemplateId, Workspace, WorkspaceMember, WorkspaceRole, WorkspaceUsage } from '../types';
+
+// A non-2xx response, keeping the status so callers can tell a refusal (over
+// quota, not allowed) from the server failing.
+export class RequestError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: init?.body ? { 'Content-Type': 'application/json', ...init.headers } : init?.headers,
+  });
+  if (res.status === 204) return undefined as T;
+  const data = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new RequestError(data?.error || `Request failed with status ${res.status}`, res.status);
+  }
+  return data;
+}
+
+// Yields each JSON line of a newline-delimited response body as it arrives.
+async function* readNdjson<T>(res: Response): AsyncGenerator<T> {
+  const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop()!;
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line);
+    }
+  }
+  if (buffer.trim()) yield JSON.parse(buffer);
+}
+
+async function postForStream(url: string, body: object, signal?: AbortSignal) {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => null);
+    throw new RequestError(data?.error || `Request failed with status ${res.status}`, res.status);
+  }
+  return res;
+}
+
+// A failed analysis or follow-up answer, with the server's category for why it failed.
+export class AnalysisFailedError extends Error {
+  constructor(message: string, readonly category: AnalysisErrorCategory) {
+    super(message);
+    this.name = 'AnalysisFailedError';
+  }
+}
+
+export interface AnalysisCallbacks {
+  signal?: AbortSignal;
+  // The server's job for this analysis, whenever its status changes.
+  onJob?: (job: AnalysisJob) => void;
+  onProgress?: (progress: AnalysisProgress) => void;
+  onPartial?: (partial: Partial<AnalysisResult>) => void;
+}
+
+// The Gemini key lives on the server; the browser only ever talks to /api.
+// The analysis runs as a server-side job whose progress and partial report
+// arrive as a stream of events. Aborting `signal` cancels the job; leaving the
+// page doesn't, and the finished report waits in History.
+export async function requestAnalysis(body: AnalyzeRequest, { signal, onJob, onProgress, onPartial }: AnalysisCallbacks = {}): Promise<SavedReport> {
+  const res = await postForStream('/api/analyze', body, signal);
+  let jobId: string | null = null;
+  const cancel = () => {
+    if (jobId) cancelJob(jobId).catch(console.error);
+  };
+  signal?.addEventListener('abort', cancel);
+  try {
+    for await (const event of readNdjson<AnalysisEvent>(res)) {
+      if (event.type === 'job') {
+        jobId = event.job.id;
+        onJob?.(event.job);
+      } else if (event.type === 'progress') onProgress?.(event.progress);
+      else if (event.type === 'partial') onPartial?.(event.result);
+      else if (event.type === 'report') return restoreReport(event.report);
+      else throw new AnalysisFailedError(event.error, event.category);
+    }
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+  }
+  throw new Error('Analysis ended without a result.');
+}
+
+// Running jobs, and finished ones not yet seen, that the user started in the analyzer.
+export function listMyJobs() {
+  return request<AnalysisJob[]>('/api/jobs');
+}
+
+export function markJobSeen(id: string) {
+  return request<void>(`/api/jobs/${id}/seen`, { method: 'POST' });
+}
+
+export function cancelJob(id: string) {
+  return request<void>(`/api/jobs/${id}/cancel`, { method: 'POST' });
+}
+
+// Streams the answer to the conversation's last question about a saved report.
+export async function askFollowUp(reportId: string, body: ChatRequest, { signal, onText }: { signal?: AbortSignal; onText?: (text: string) => void } = {}): Promise<string> {
+  const res = await postForStream(`/api/reports/${reportId}/chat`, body, signal);
+  let text = '';
+  for await (const event of readNdjson<ChatEvent>(res)) {
+    if (event.type === 'delta') onText?.((text += event.text));
+    else if (event.type === 'done') return event.answer;
+    else throw new AnalysisFailedError(event.error, event.category);
+  }
+  throw new Error('The answer ended before it was complete.');
+}
+
+export function listModels() {
+  return request<ProviderInfo[]>('/api/models');
+}
+
+export function listReports(workspaceId: string, search = '') {
+  return request<ReportSummary[]>(`/api/reports?workspace=${encodeURIComponent(workspaceId)}&q=${encodeURIComponent(search)}`);
+}
+
+// Reports come back with the redacted originals put back in, for showing in the app.
+export function getReport(id: string) {
+  return request<SavedReport>(`/api/reports/${id}`).then(restoreReport);
+}
+
+export function renameReport(id: string, title: string) {
+  return request<SavedReport>(`/api/reports/${id}`, { method: 'PATCH', body: JSON.stringify({ title }) }).then(restoreReport);
+}
+
+export function deleteReport(id: string) {
+  return request<void>(`/api/reports/${id}`, { method: 'DELETE' });
+}
+
+export function pinAnswer(reportId: string, pin: { question: string; answer: string }) {
+  return request<Pin>(`/api/reports/${reportId}/pins`, { method: 'POST', body: JSON.stringify(pin) });
+}
+
+export function unpinAnswer(reportId: string, pinId: string) {
+  return request<void>(`/api/reports/${reportId}/pins/${pinId}`, { method: 'DELETE' });
+}
+
+// The session lives in an HttpOnly cookie, so the browser sends it with every /api call.
+export async function getAccount(): Promise<Account | null> {
+  const res = await fetch('/api/auth/me');
+  if (res.status === 401) return null;
+  if (!res.ok) throw new Error(`Request failed with status ${res.status}`);
+  return res.json();
+}
+
+export function signUp(details: { email: string; name: string; password: string }) {
+  return request<Account>('/api/auth/signup', { method: 'POST', body: JSON.stringify(details) });
+}
+
+export function logIn(credentials: { email: string; password: string }) {
+  return request<Account>('/api/auth/login', { method: 'POST', body: JSON.stringify(credentials) });
+}
+
+export function logOut() {
+  return request<void>('/api/auth/logout', { method: 'POST' });
+}
+
+export function createWorkspace(name: string) {
+  return request<Workspace>('/api/workspaces', { method: 'POST', body: JSON.stringify({ name }) });
+}
+
+export function renameWorkspace(id: string, name: string) {
+  return request<Workspace>(`/api/workspaces/${id}`, { method: 'PATCH', body: JSON.stringify({ name }) });
+}
+
+export function listMembers(workspaceId: string) {
+  return request<WorkspaceMember[]>(`/api/workspaces/${workspaceId}/members`);
+}
+
+export function addMember(workspaceId: string, email: string, role: WorkspaceRole) {
+  return request<WorkspaceMember>(`/api/workspaces/${workspaceId}/members`, { method: 'POST', body: JSON.stringify({ email, role }) });
+}
+
+export function setMemberRole(workspaceId: string, userId: string, role: WorkspaceRole) {
+  return request<WorkspaceMember>(`/api/workspaces/${workspaceId}/members/${userId}`, { method: 'PATCH', body: JSON.stringify({ role }) });
+}
+
+export function removeMember(workspaceId: string, userId: string) {
+  return request<void>(`/api/workspaces/${workspaceId}/members/${userId}`, { method: 'DELETE' });
+}
+
+export function getUsage(workspaceId: string) {
+  return request<WorkspaceUsage>(`/api/workspaces/${workspaceId}/usage`);
+}
+
+// Billing is a local stub: switching plans takes effect at once and charges nothing.
+export function changePlan(workspaceId: string, plan: PlanId) {
+  return request<WorkspaceUsage>(`/api/workspaces/${workspaceId}/plan`, { method: 'PUT', body: JSON.stringify({ plan }) });
+}
+
+export function listApiKeys(workspaceId: string) {
+  return request<ApiKey[]>(`/api/workspaces/${workspaceId}/keys`);
+}
+
+export function createApiKey(workspaceId: string, name: string, rateLimit: number) {
+  return request<CreatedApiKey>(`/api/workspaces/${workspaceId}/keys`, { method: 'POST', body: JSON.stringify({ name, rateLimit }) });
+}
+
+export function revokeApiKey(workspaceId: string, keyId: string) {
+  return request<void>(`/api/workspaces/${workspaceId}/keys/${keyId}`, { method: 'DELETE' });
+}
+
+export function getBusinessProfile(workspaceId: string) {
+  return request<BusinessProfile>(`/api/workspaces/${workspaceId}/profile`);
+}
+
+export function saveBusinessProfile(workspaceId: string, profile: BusinessProfile) {
+  return request<BusinessProfile>(`/api/workspaces/${workspaceId}/profile`, { method: 'PUT', body: JSON.stringify(profile) });
+}
+
+export function listTemplates(workspaceId: string) {
+  return request<PromptTemplate[]>(`/api/workspaces/${workspaceId}/templates`);
+}
+
+export function listTemplateVersions(workspaceId: string, template: TemplateId) {
+  return request<PromptTemplateVersion[]>(`/api/workspaces/${workspaceId}/templates/${template}/versions`);
+}
+
+// Saving an unchanged body returns the current version rather than adding one.
+export function saveTemplate(workspaceId: string, template: TemplateId, body: string) {
+  return request<PromptTemplate>(`/api/workspaces/${workspaceId}/templates/${template}`, { method: 'PUT', body: JSON.stringify({ body }) });
+}
+
+export function resetTemplate(workspaceId: string, template: TemplateId) {
+  return request<PromptTemplate>(`/api/workspaces/${workspaceId}/templates/${template}/reset`, { method: 'POST' });
+}
+
+export function getRedactionRules(workspaceId: string) {
+  return request<RedactionRules>(`/api/workspaces/${workspaceId}/redaction`);
+}
+
+export function saveRedactionRules(workspaceId: string, rules: RedactionRules) {
+  return request<RedactionRules>(`/api/workspaces/${workspaceId}/redaction`, { method: 'PUT', body: JSON.stringify(rules) });
+}
+
+// Renders the prompt the model would get, from unsaved edits when given.
+export function previewPrompt(
+  workspaceId: string,
+  template: TemplateId,
+  draft: { body?: string; profile?: BusinessProfile; reviews?: ReviewRecord[]; language?: string; reportLanguage?: string },
+) {
+  return request<{ prompt: string }>(`/api/workspaces/${workspaceId}/templates/${template}/preview`, { method: 'POST', body: JSON.stringify(draft) });
+}
+
+export function listSchedules(workspaceId: string) {
+  return request<AnalysisSchedule[]>(`/api/schedules?workspace=${encodeURIComponent(workspaceId)}`);
+}
+
+export function createSchedule(schedule: {
+  workspaceId: string;
+  name: string;
+  source: ScheduleSource;
+  frequency: ScheduleFrequency;
+  template: TemplateId;
+  language: string;
+  reportLanguage: string;
+  provider?: string;
+  model?: string;
+}) {
+  return request<AnalysisSchedule>('/api/schedules', { method: 'POST', body: JSON.stringify(schedule) });
+}
+
+export function updateSchedule(id: string, changes: { name?: string; frequency?: ScheduleFrequency; enabled?: boolean }) {
+  return request<AnalysisSchedule>(`/api/schedules/${id}`, { method: 'PATCH', body: JSON.stringify(changes) });
+}
+
+export function deleteSchedule(id: string) {
+  return request<void>(`/api/schedules/${id}`, { method: 'DELETE' });
+}
+
+// Pulls new reviews now; the analysis they queue finishes in the background.
+export function runSchedule(id: string) {
+  return request<ScheduleRun>(`/api/schedules/${id}/run`, { method: 'POST' });
+}
+
+export function listScheduleRuns(id: string) {
+  return request<ScheduleRun[]>(`/api/schedules/${id}/runs`);
+}
+
+export function getNotificationSettings(workspaceId: string) {
+  return request<NotificationSettings>(`/api/workspaces/${workspaceId}/notifications`);
+}
+
+export function createWebhook(workspaceId: string, url: string, description: string) {
+  return request<Webhook>(`/api/workspaces/${workspaceId}/webhooks`, { method: 'POST', body: JSON.stringify({ url, description }) });
+}
+
+export function setWebhookEnabled(workspaceId: string, webhookId: string, enabled: boolean) {
+  return request<Webhook>(`/api/workspaces/${workspaceId}/webhooks/${webhookId}`, { method: 'PATCH', body: JSON.stringify({ enabled }) });
+}
+
+export function deleteWebhook(workspaceId: string, webhookId: string) {
+  return request<void>(`/api/workspaces/${workspaceId}/webhooks/${webhookId}`, { method: 'DELETE' });
+}
+
+// Queues a signed test payload; how it went shows up in the delivery log.
+export function testWebhook(workspaceId: string, webhookId: string) {
+  return request<Delivery>(`/api/workspaces/${workspaceId}/webhooks/${webhookId}/test`, { method: 'POST' });
+}
+
+export function saveDigestSettings(workspaceId: string, settings: DigestSettings) {
+  return request<DigestSettings>(`/api/workspaces/${workspaceId}/digest`, { method: 'PUT', body: JSON.stringify(settings) });
+}
+
+export function listDeliveries(workspaceId: string) {
+  return request<Delivery[]>(`/api/workspaces/${workspaceId}/deliveries`);
+}
+
+export function retryDelivery(workspaceId: string, deliveryId: string) {
+  return request<Delivery>(`/api/workspaces/${workspaceId}/deliveries/${deliveryId}/retry`, { method: 'POST' });
+}
@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Finding, Initiative } from '../types';
+
+export type InitiativeStatus = 'todo' | 'in_progress' | 'done';
+
+export const STATUSES: InitiativeStatus[] = ['todo', 'in_progress', 'done'];
+
+// What the team has changed on a card; the initiative itself stays as generated.
+export interface BoardCard {
+  status: InitiativeStatus;
+  owner: string;
+}
+
+// Edits keyed by the initiative's position in the report.
+export type BoardState = Record<number, BoardCard>;
+
+// Boards live in this browser only, one per saved report.
+const boardKey = (reportId: string) => `sale-squid:board:${reportId}`;
+
+export function loadBoard(reportId: string): BoardState {
+  try {
+    return JSON.parse(localStorage.getItem(boardKey(reportId)) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+export function saveBoard(reportId: string, state: BoardState) {
+  localStorage.setItem(boardKey(reportId), JSON.stringify(state));
+}
+
+export function clearBoard(reportId: string) {
+  localStorage.removeItem(boardKey(reportId));
+}
+
+export function cardFor(state: BoardState, initiative: Initiative, index: number): BoardCard {
+  return state[index] ?? { status: 'todo', owner: initiative.ownerRole };
+}
+
+const STATUS_NAMES: Record<InitiativeStatus, string> = { todo: 'To Do', in_progress: 'In Progress', done: 'Done' };
+
+function csvCell(value: string | number) {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// English column names and statuses, so trackers can map the columns once.
+export function boardToCsv(initiatives: Initiative[], state: BoardState, blockers: Finding[]) {
+  const header = ['Title', 'Pillar', 'Quarter', 'Status', 'Owner', 'Owner Role', 'Effort', 'Expected Impact', 'Blockers Addressed'];
+  const rows = initiatives.map((initiative, i) => {
+    const card = cardFor(state, initiative, i);
+    return [
+      initiative.title,
+      initiative.pillar,
+      initiative.quarter,
+      STATUS_NAMES[card.status],
+      card.owner,
+      initiative.ownerRole,
+      initiative.effort,
+      initiative.expectedImpact,
+      initiative.blockers.map(b => blockers[b]?.text).filter(Boolean).join('; '),
+    ];
+  });
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
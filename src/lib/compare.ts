@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { SAME_ISSUE_THRESHOLD, similarity } from './findings';
+import { averageScore, NEGATIVE_THRESHOLD, POSITIVE_THRESHOLD } from './sentiment';
+import type { Finding, ReviewInsight, SavedReport } from '../types';
+
+export interface PersistingFinding {
+  before: Finding;
+  after: Finding;
+  // Share of each set's reviews raising the issue, so sets of different sizes compare fairly.
+  beforeShare: number;
+  afterShare: number;
+}
+
+export interface FindingDiff {
+  resolved: Finding[];
+  new: Finding[];
+  persisting: PersistingFinding[];
+}
+
+export interface SentimentSummary {
+  average: number;
+  positiveShare: number;
+  negativeShare: number;
+  reviewCount: number;
+}
+
+export interface Comparison {
+  before: SavedReport;
+  after: SavedReport;
+  painPoints: FindingDiff;
+  salesBlockers: FindingDiff;
+  sentiment: { before: SentimentSummary; after: SentimentSummary; averageDelta: number };
+}
+
+const share = (finding: Finding, reviewCount: number) => (reviewCount > 0 ? finding.frequency / reviewCount : 0);
+
+// Pairs each finding in `after` with its closest unmatched finding in `before`,
+// using the same wording similarity that merges findings across batches.
+export function diffFindings(before: Finding[], after: Finding[], beforeCount: number, afterCount: number): FindingDiff {
+  const unmatched = new Set(before.map((_, i) => i));
+  const persisting: PersistingFinding[] = [];
+  const added: Finding[] = [];
+
+  for (const finding of after) {
+    let best = -1;
+    let bestScore = SAME_ISSUE_THRESHOLD;
+    for (const i of unmatched) {
+      const score = similarity(before[i].text, finding.text);
+      if (score >= bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    }
+    if (best === -1) {
+      added.push(finding);
+      continue;
+    }
+    unmatched.delete(best);
+    persisting.push({
+      before: before[best],
+      after: finding,
+      beforeShare: share(before[best], beforeCount),
+      afterShare: share(finding, afterCount),
+    });
+  }
+
+  return {
+    resolved: before.filter((_, i) => unmatched.has(i)),
+    new: added,
+    persisting: persisting.sort((a, b) => (b.afterShare - b.beforeShare) - (a.afterShare - a.beforeShare)),
+  };
+}
+
+export function summarizeSentiment(insights: ReviewInsight[]): SentimentSummary {
+  const count = insights.length;
+  return {
+    average: averageScore(insights),
+    positiveShare: count ? insights.filter(i => i.score > POSITIVE_THRESHOLD).length / count : 0,
+    negativeShare: count ? insights.filter(i => i.score < NEGATIVE_THRESHOLD).length / count : 0,
+    reviewCount: count,
+  };
+}
+
+export function compareReports(before: SavedReport, after: SavedReport): Comparison {
+  const beforeCount = before.reviews.length;
+  const afterCount = after.reviews.length;
+  const beforeSentiment = summarizeSentiment(before.result.reviewInsights);
+  const afterSentiment = summarizeSentiment(after.result.reviewInsights);
+  return {
+    before,
+    after,
+    painPoints: diffFindings(before.result.painPoints, after.result.painPoints, beforeCount, afterCount),
+    salesBlockers: diffFindings(before.result.salesBlockers, after.result.salesBlockers, beforeCount, afterCount),
+    sentiment: {
+      before: beforeSentiment,
+      after: afterSentiment,
+      averageDelta: afterSentiment.average - beforeSentiment.average,
+    },
+  };
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { sampleReport } from '../../test/sampleReport';
+import { reportToMarkdown } from './export';
+
+describe('reportToMarkdown', () => {
+  it('writes the review breakdown in the report language', () => {
+    const markdown = reportToMarkdown(sampleReport({ reportLanguage: 'Japanese' }));
+
+    expect(markdown).toContain('## レビューの感情と観点');
+    expect(markdown).toMatch(/件のレビューの平均スコア/);
+    expect(markdown).toContain('成長ポテンシャル:');
+    expect(markdown).not.toMatch(/Review Sentiment|Average sentiment|Growth potential|negative, \d+ positive/);
+  });
+
+  it('keeps English reports as they were', () => {
+    const markdown = reportToMarkdown(sampleReport());
+
+    expect(markdown).toContain('## Review Sentiment & Aspects');
+    expect(markdown).toMatch(/negative, \d+ positive\)/);
+  });
+});
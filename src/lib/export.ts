@@ -0,0 +1,272 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import Markdown from 'react-markdown';
+import { aspectFrequency, averageScore, growthPotential, sentimentDistribution } from './sentiment';
+import { formatMoney, type Forecast } from './forecast';
+import { DEFAULT_REPORT_LANGUAGE, languageAttributes, reportLabels, type ReportLabels } from './i18n';
+import type { AnalysisResult, Aspect, Finding, Pin, Positioning } from '../types';
+
+export type ExportFormat = 'markdown' | 'html' | 'pdf' | 'doc' | 'json';
+
+export interface ExportableReport {
+  title: string;
+  createdAt?: string;
+  language: string;
+  reportLanguage?: string;
+  model?: string;
+  result: AnalysisResult;
+  forecast?: Forecast;
+  currency?: string;
+  pins?: Pin[];
+}
+
+interface Section {
+  heading: string;
+  markdown: string;
+}
+
+function formatFinding(finding: Finding) {
+  const support = finding.frequency === 0 ? 'no supporting reviews' : `${finding.frequency} reviews`;
+  const quote = finding.quotes[0] ? ` — “${finding.quotes[0]}”` : '';
+  return `**${finding.text}** (${finding.severity} severity, ${support})${quote}`;
+}
+
+function reviewBreakdown(result: AnalysisResult, labels: ReportLabels) {
+  const insights = result.reviewInsights ?? [];
+  if (insights.length === 0) return labels.noReviewScores;
+  const potential = growthPotential(insights);
+  return [
+    labels.averageScore(averageScore(insights).toFixed(2), insights.length),
+    `${labels.growthPotential}: **${labels.potential[potential.label]}** (${labels.headroom(Math.round(potential.headroom * 100), [])})`,
+    '',
+    ...sentimentDistribution(insights).map(d => `- ${labels.buckets[d.bucket]}: ${d.count}`),
+    '',
+    ...aspectFrequency(insights).map(a =>
+      `- **${labels.aspects[a.aspect]}**: ${labels.reviewCount(a.total)} (${labels.sentimentSplit(a.negative, a.positive)})`
+    ),
+  ].join('\n');
+}
+
+function positioningBreakdown(positioning: Positioning, labels: ReportLabels['positioning']) {
+  const list = (heading: string, findings: Positioning['opportunities']) =>
+    `### ${heading}\n\n${findings.length ? findings.map(f => `- [${f.competitor}] ${formatFinding(f)}`).join('\n') : labels.none}`;
+  const scored = (score: number) => `${score >= 0 ? '+' : ''}${score.toFixed(2)}`;
+  const scorecard = positioning.scorecard.map(b => {
+    const aspects = (Object.entries(b.aspects) as [Aspect, number][]).map(([aspect, score]) => `${aspect} ${scored(score)}`);
+    return `- **${b.competitor ?? labels.you}** (${b.reviews} reviews): overall ${scored(b.average)}${aspects.length ? ` · ${aspects.join(', ')}` : ''}`;
+  });
+  return [
+    `_${labels.hint(positioning.competitors)}_`,
+    list(labels.opportunities, positioning.opportunities),
+    list(labels.threats, positioning.threats),
+    list(labels.featureGaps, positioning.featureGaps),
+    `### ${labels.pricePerception}\n\n${positioning.pricePerception}`,
+    `### ${labels.scorecard}\n\n${scorecard.join('\n')}`,
+  ].join('\n\n');
+}
+
+// Headings and the review breakdown in the report's language; finding detail lines stay in English.
+function sections({ result, reportLanguage = DEFAULT_REPORT_LANGUAGE, pins = [] }: ExportableReport): Section[] {
+  const labels = reportLabels(reportLanguage);
+  const pinned = pins.map(p => `### ${p.question}\n\n${p.answer}`).join('\n\n');
+  return [
+    { heading: labels.sentiment, markdown: result.sentiment },
+    { heading: labels.reviewBreakdown, markdown: reviewBreakdown(result, labels) },
+    { heading: labels.painPoints, markdown: result.painPoints.map((p, i) => `${i + 1}. ${formatFinding(p)}`).join('\n') },
+    { heading: labels.salesBlockers, markdown: result.salesBlockers.map(b => `- ${formatFinding(b)}`).join('\n') },
+    ...(result.positioning ? [{ heading: labels.positioning.title, markdown: positioningBreakdown(result.positioning, labels.positioning) }] : []),
+    { heading: labels.marketingStrategy, markdown: result.marketingStrategy },
+    { heading: labels.salesOptimization, markdown: result.salesStrategy },
+    { heading: labels.growthPlan, markdown: result.annualIncrementPlan },
+    ...(pinned ? [{ heading: labels.chat.pinnedAnswers, markdown: pinned }] : []),
+  ];
+}
+
+// The deterministic forecast when one was built, otherwise the model's raw projection.
+function projectionRows({ result, forecast, currency = 'USD' }: ExportableReport) {
+  if (!forecast) {
+    return {
+      headers: ['Month', 'Current Monthly Growth', 'Projected Monthly Growth'],
+      rows: result.growthProjection.map(p => [p.month, `${p.current}%`, `${p.projected}%`]),
+    };
+  }
+  const money = (value: number) => formatMoney(value, currency);
+  return {
+    headers: ['Month', 'No Action', 'Pessimistic', 'Base', 'Optimistic', 'Uplift (pts)'],
+    rows: forecast.months.map(m => [m.month, money(m.noAction), money(m.pessimistic), money(m.base), money(m.optimistic), `${m.upliftPct}`]),
+  };
+}
+
+function incrementSummary({ forecast, currency = 'USD' }: ExportableReport) {
+  if (!forecast) return '';
+  const { incrementPct, annual } = forecast;
+  const signed = (value: number) => `${value >= 0 ? '+' : ''}${value}%`;
+  return `Estimated annual increment: ${signed(incrementPct.base)} (range ${signed(incrementPct.pessimistic)} to ${signed(incrementPct.optimistic)}), ${formatMoney(annual.base - annual.noAction, currency)} over 12 months versus no action.`;
+}
+
+function projectionTable(report: ExportableReport) {
+  const { headers, rows } = projectionRows(report);
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map((_, i) => (i === 0 ? '---' : '---:')).join(' | ')} |`,
+    ...rows.map(cells => `| ${cells.join(' | ')} |`),
+  ].join('\n');
+}
+
+function subtitle(report: ExportableReport) {
+  const parts = [
+    report.createdAt && `Generated ${new Date(report.createdAt).toLocaleString()}`,
+    `Review language: ${report.language}`,
+    report.reportLanguage && `Report language: ${report.reportLanguage}`,
+    report.model && `Model: ${report.model}`,
+  ];
+  return parts.filter(Boolean).join(' · ');
+}
+
+export function reportToMarkdown(report: ExportableReport, chartImage?: string | null) {
+  const body = sections(report).map(s => `## ${s.heading}\n\n${s.markdown}`);
+  const chart = chartImage ? `![Growth projection chart](${chartImage})` : '';
+  return [
+    `# ${report.title}`,
+    `_${subtitle(report)}_`,
+    ...body,
+    ['## Sales Increment Analysis', chart, incrementSummary(report), projectionTable(report)].filter(Boolean).join('\n\n'),
+  ].join('\n\n') + '\n';
+}
+
+export function escapeHtml(text: string) {
+  return text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+}
+
+function projectionTableHtml(report: ExportableReport) {
+  const { headers, rows } = projectionRows(report);
+  const head = headers.map(h => `<th>${escapeHtml(h)}</th>`).join('');
+  const body = rows.map(cells => `<tr>${cells.map(c => `<td>${escapeHtml(c)}</td>`).join('')}</tr>`).join('');
+  return `<table><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>`;
+}
+
+export const renderMarkdown = (markdown: string) => renderToStaticMarkup(createElement(Markdown, null, markdown));
+
+const PRINT_STYLES = `
+  body { font-family: Inter, ui-sans-serif, system-ui, sans-serif; color: #0f172a; max-width: 800px; margin: 40px auto; padding: 0 24px; line-height: 1.6; }
+  h1 { font-size: 28px; margin-bottom: 4px; }
+  h2 { font-size: 20px; color: #4338ca; border-bottom: 1px solid #e2e8f0; padding-bottom: 6px; margin-top: 32px; }
+  h3 { font-size: 16px; }
+  .subtitle { color: #64748b; font-size: 13px; }
+  table { border-collapse: collapse; width: 100%; font-size: 13px; }
+  th, td { border: 1px solid #e2e8f0; padding: 6px 10px; text-align: start; }
+  img { max-width: 100%; }
+  section { page-break-inside: avoid; }
+  @page { margin: 20mm; }
+`;
+
+export function reportToHtml(report: ExportableReport, chartImage?: string | null) {
+  const body = sections(report)
+    .map(s => `<section><h2>${escapeHtml(s.heading)}</h2>${renderMarkdown(s.markdown)}</section>`)
+    .join('\n');
+  const chart = chartImage ? `<img src="${chartImage}" alt="Growth projection chart" />` : '';
+  const { lang, dir } = languageAttributes(report.reportLanguage ?? DEFAULT_REPORT_LANGUAGE);
+  return `<!doctype html>
+<html lang="${lang}" dir="${dir}">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(report.title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(report.title)}</h1>
+<p class="subtitle">${escapeHtml(subtitle(report))}</p>
+${body}
+<section><h2>Sales Increment Analysis</h2>${chart}${incrementSummary(report) && `<p>${escapeHtml(incrementSummary(report))}</p>`}${projectionTableHtml(report)}</section>
+</body>
+</html>`;
+}
+
+// Renders the recharts SVG inside `container` to a PNG data URL.
+export async function captureChartImage(container: HTMLElement | null, scale = 2): Promise<string | null> {
+  const svg = container?.querySelector('svg.recharts-surface');
+  if (!svg) return null;
+
+  const { width, height } = svg.getBoundingClientRect();
+  const clone = svg.cloneNode(true) as SVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  const url = URL.createObjectURL(new Blob([new XMLSerializer().serializeToString(clone)], { type: 'image/svg+xml' }));
+
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('Could not render chart image'));
+      image.src = url;
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = width * scale;
+    canvas.height = height * scale;
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png');
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export function slugify(text: string) {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'report';
+}
+
+export function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// Prints through a hidden iframe so the browser's "Save as PDF" produces the document.
+function printHtml(html: string) {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+  const doc = frame.contentDocument!;
+  doc.open();
+  doc.write(html);
+  doc.close();
+  const pending = Array.from(doc.images)
+    .filter(img => !img.complete)
+    .map(img => new Promise(resolve => { img.onload = img.onerror = resolve; }));
+  Promise.all(pending).then(() => {
+    frame.contentWindow!.focus();
+    frame.contentWindow!.print();
+    setTimeout(() => frame.remove(), 1000);
+  });
+}
+
+export function exportReport(format: ExportFormat, report: ExportableReport, chartImage?: string | null) {
+  const name = slugify(report.title);
+  switch (format) {
+    case 'markdown':
+      return downloadFile(`${name}.md`, reportToMarkdown(report, chartImage), 'text/markdown');
+    case 'html':
+      return downloadFile(`${name}.html`, reportToHtml(report, chartImage), 'text/html');
+    case 'doc':
+      // Word opens HTML saved with a .doc extension, images and tables included.
+      return downloadFile(`${name}.doc`, reportToHtml(report, chartImage), 'application/msword');
+    case 'pdf':
+      return printHtml(reportToHtml(report, chartImage));
+    case 'json':
+      return downloadFile(`${name}.json`, JSON.stringify(report.forecast ? { ...report.result, forecast: report.forecast } : report.result, null, 2), 'application/json');
+  }
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import type { Finding } from '../types';
+import { diffFindings } from './compare';
+import { matchFinding, mergeFindings, SAME_ISSUE_THRESHOLD, similarity, tokenize } from './findings';
+
+const finding = (text: string, evidence: number[]): Finding => ({ text, frequency: evidence.length, severity: 'high', evidence, quotes: [] });
+
+describe('similarity', () => {
+  it('lines up English wording that differs only in inflection', () => {
+    expect(similarity('Checkout crashes on coupons', 'The checkout crashed with a coupon')).toBe(1);
+    expect(similarity('Slow shipping', 'Pricing is too high')).toBe(0);
+  });
+
+  it('splits Japanese into words and ignores particles and kana endings', () => {
+    expect([...tokenize('配送が遅延している')]).toEqual(['配送', '遅延']);
+    expect(similarity('配送が遅い', '配送が遅すぎる')).toBe(1);
+    expect(similarity('配送の遅延', '配送が遅延している')).toBe(1);
+    expect(similarity('クーポンコードが使えない', 'チェックアウトでクーポンコードが使えない')).toBeGreaterThanOrEqual(SAME_ISSUE_THRESHOLD);
+    expect(similarity('送料が高すぎる', '配送が遅い')).toBe(0);
+  });
+});
+
+describe('Japanese findings', () => {
+  it('merge across batches', () => {
+    const merged = mergeFindings([
+      [finding('配送が遅い', [0, 1]), finding('価格が高い', [2])],
+      [finding('配送が遅すぎる', [5])],
+    ]);
+    expect(merged.map(f => [f.text, f.evidence])).toEqual([['配送が遅い', [0, 1, 5]], ['価格が高い', [2]]]);
+  });
+
+  it('persist in a comparison when reworded', () => {
+    const diff = diffFindings([finding('配送の遅延', [0]), finding('価格が高い', [1])], [finding('配送が遅延している', [0])], 10, 10);
+    expect(diff.persisting.map(p => p.after.text)).toEqual(['配送が遅延している']);
+    expect(diff.resolved.map(f => f.text)).toEqual(['価格が高い']);
+    expect(diff.new).toEqual([]);
+  });
+
+  it('match a reworded reference', () => {
+    expect(matchFinding('配送が遅すぎる', [finding('価格が高い', [0]), finding('配送が遅い', [1])])).toBe(1);
+  });
+});
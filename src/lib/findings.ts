@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Finding, ReviewRecord, Severity } from '../types';
+
+export const SEVERITIES: Severity[] = ['low', 'medium', 'high', 'critical'];
+
+const MAX_QUOTES = 3;
+
+// A finding as the model returns it, before it is checked against the input.
+export interface RawFinding {
+  text?: string;
+  severity?: string;
+  reviewNumbers?: number[];
+  quotes?: string[];
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'of', 'on',
+  'or', 'the', 'to', 'too', 'with', 'no', 'not', 'very', 'when', 'while', 'during', 'lack',
+]);
+
+// Cheap stemming so "crashes"/"crash" and "delays"/"delayed" line up.
+const stem = (word: string) => (word.length <= 4 ? word : word.replace(/(?<=[sxz]|[cs]h)es$|ing$|ed$|s$/, ''));
+
+// Finds word boundaries in scripts written without spaces, such as Japanese.
+const segmenter = new Intl.Segmenter(undefined, { granularity: 'word' });
+const KANJI_OR_KATAKANA = /[\p{Script=Han}\p{Script=Katakana}]/u;
+const HIRAGANA = /\p{Script=Hiragana}/gu;
+const ALL_HIRAGANA = /^\p{Script=Hiragana}+$/u;
+// All-hiragana words this short are particles and auxiliaries ("が", "ない", "すぎる").
+const MAX_GRAMMAR_KANA = 3;
+
+// A Japanese word keeps its kanji and katakana, so "遅い" and "遅すぎる" both give "遅".
+const contentOf = (word: string) =>
+  KANJI_OR_KATAKANA.test(word) ? word.replace(HIRAGANA, '') : ALL_HIRAGANA.test(word) && word.length <= MAX_GRAMMAR_KANA ? '' : word;
+
+export function tokenize(text: string) {
+  const words = [...segmenter.segment(text.toLowerCase())]
+    .filter(segment => segment.isWordLike)
+    .flatMap(segment => segment.segment.split(/[^\p{L}\p{N}]+/u))
+    .map(contentOf);
+  return new Set(words.filter(w => w && !STOPWORDS.has(w)).map(stem));
+}
+
+// Jaccard overlap of the two phrases' content words, 0..1.
+export function similarity(a: string, b: string) {
+  const ta = tokenize(a);
+  const tb = tokenize(b);
+  if (ta.size === 0 || tb.size === 0) return 0;
+  let shared = 0;
+  for (const t of ta) if (tb.has(t)) shared++;
+  return shared / (ta.size + tb.size - shared);
+}
+
+export const SAME_ISSUE_THRESHOLD = 0.5;
+
+const squash = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const toSeverity = (value: unknown): Severity =>
+  SEVERITIES.includes(value as Severity) ? (value as Severity) : 'medium';
+
+// Keeps only cited review numbers that exist and quotes that really occur in
+// the input. A quote found in an uncited review adds that review as evidence.
+export function groundFinding(raw: RawFinding, reviews: ReviewRecord[]): Finding {
+  const evidence = new Set(
+    (raw.reviewNumbers ?? [])
+      .filter(n => Number.isInteger(n) && n >= 1 && n <= reviews.length)
+      .map(n => n - 1)
+  );
+  const quotes: string[] = [];
+  for (const quote of raw.quotes ?? []) {
+    const excerpt = quote.trim().replace(/^["“']|["”']$/g, '').trim();
+    const needle = squash(excerpt);
+    if (!needle || quotes.length >= MAX_QUOTES) continue;
+    let index = [...evidence].find(i => squash(reviews[i].text).includes(needle));
+    if (index === undefined) {
+      index = reviews.findIndex(r => squash(r.text).includes(needle));
+      if (index === -1) continue;
+      evidence.add(index);
+    }
+    quotes.push(excerpt);
+  }
+  const sorted = [...evidence].sort((a, b) => a - b);
+  return {
+    text: raw.text?.trim() ?? '',
+    frequency: sorted.length,
+    severity: toSeverity(raw.severity),
+    evidence: sorted,
+    quotes,
+  };
+}
+
+// The finding a model-written reference points at: an exact match, else the
+// closest wording if it is close enough to be the same issue. -1 for none.
+export function matchFinding(reference: string, findings: Finding[]) {
+  const exact = findings.findIndex(f => squash(f.text) === squash(reference));
+  if (exact !== -1) return exact;
+  let best = -1;
+  let bestScore = SAME_ISSUE_THRESHOLD;
+  findings.forEach((f, i) => {
+    const score = similarity(f.text, reference);
+    if (score >= bestScore) {
+      best = i;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+// Folds near-duplicate findings from several batches together, pooling their
+// evidence. The wording backed by the most reviews represents the group.
+export function mergeFindings(lists: Finding[][], threshold = SAME_ISSUE_THRESHOLD): Finding[] {
+  const groups: { best: Finding; severity: number; evidence: Set<number>; quotes: string[] }[] = [];
+  for (const finding of lists.flat()) {
+    if (!finding.text) continue;
+    let group = groups.find(g => similarity(g.best.text, finding.text) >= threshold);
+    if (!group) {
+      group = { best: finding, severity: 0, evidence: new Set(), quotes: [] };
+      groups.push(group);
+    } else if (finding.frequency > group.best.frequency) {
+      group.best = finding;
+    }
+    group.severity = Math.max(group.severity, SEVERITIES.indexOf(finding.severity));
+    finding.evidence.forEach(i => group.evidence.add(i));
+    for (const quote of finding.quotes) {
+      if (group.quotes.length < MAX_QUOTES && !group.quotes.includes(quote)) group.quotes.push(quote);
+    }
+  }
+  return groups
+    .map(g => ({
+      text: g.best.text,
+      frequency: g.evidence.size,
+      severity: SEVERITIES[g.severity],
+      evidence: [...g.evidence].sort((a, b) => a - b),
+      quotes: g.quotes,
+    }))
+    .sort((a, b) => b.frequency - a.frequency || SEVERITIES.indexOf(b.severity) - SEVERITIES.indexOf(a.severity));
+}
+
+// Reports saved before evidence linking stored findings as bare strings.
+export function normalizeFindings(items: unknown): Finding[] {
+  if (!Array.isArray(items)) return [];
+  return items.map(item =>
+    typeof item === 'string'
+      ? { text: item, frequency: 0, severity: 'medium', evidence: [], quotes: [] }
+      : {
+          text: String(item?.text ?? ''),
+          frequency: Number(item?.frequency) || 0,
+          severity: toSeverity(item?.severity),
+          evidence: Array.isArray(item?.evidence) ? item.evidence : [],
+          quotes: Array.isArray(item?.quotes) ? item.quotes : [],
+        }
+  );
+}
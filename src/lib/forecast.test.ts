@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { SAMPLE_RESULT } from '../../test/sampleReport';
+import { modelUpliftPct, seedAssumptions } from './forecast';
+
+describe('modelUpliftPct', () => {
+  it('averages the gap across all six months of the projection', () => {
+    // Gaps of 0 through 5 points, month by month.
+    expect(modelUpliftPct(SAMPLE_RESULT)).toBe(2.5);
+  });
+
+  it('copes with a short or missing projection', () => {
+    expect(modelUpliftPct({ ...SAMPLE_RESULT, growthProjection: SAMPLE_RESULT.growthProjection.slice(0, 2) })).toBe(0.5);
+    expect(modelUpliftPct({ ...SAMPLE_RESULT, growthProjection: [] })).toBeNull();
+    expect(modelUpliftPct({ ...SAMPLE_RESULT, growthProjection: undefined as never })).toBeNull();
+  });
+
+  it('never projects a negative uplift', () => {
+    const shrinking = SAMPLE_RESULT.growthProjection.map(p => ({ ...p, projected: p.current - 1 }));
+    expect(modelUpliftPct({ ...SAMPLE_RESULT, growthProjection: shrinking })).toBe(0);
+  });
+});
+
+describe('seedAssumptions', () => {
+  it('splits the projected uplift across the sales blockers', () => {
+    const result = {
+      ...SAMPLE_RESULT,
+      salesBlockers: [
+        { ...SAMPLE_RESULT.salesBlockers[0], severity: 'critical' as const, frequency: 1 },
+        { ...SAMPLE_RESULT.salesBlockers[0], text: 'No subscription option', severity: 'low' as const, frequency: 1 },
+      ],
+    };
+    const [critical, low] = seedAssumptions(result);
+    expect(critical.upliftPct + low.upliftPct).toBeCloseTo(2.5);
+    expect(critical.upliftPct).toBeGreaterThan(low.upliftPct);
+    expect(low).toMatchObject({ blocker: 'No subscription option', addressed: true });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { SEVERITIES } from './findings';
+import type { AnalysisResult, Severity } from '../types';
+
+export interface BlockerAssumption {
+  blocker: string;
+  addressed: boolean;
+  // Extra monthly growth, in percentage points, once the fix is fully in effect.
+  upliftPct: number;
+  // Months for the fix to ramp linearly up to full effect.
+  rampMonths: number;
+}
+
+// The business's own numbers; everything else is derived from them.
+export interface ForecastBaseline {
+  monthlyRevenue: number;
+  // Current month-over-month growth, in percent.
+  monthlyGrowthPct: number;
+  horizonMonths: number;
+  // The optimistic/pessimistic band: fixes deliver ± this share of their uplift.
+  bandPct: number;
+  currency: string;
+}
+
+export interface ForecastMonth {
+  month: string;
+  noAction: number;
+  pessimistic: number;
+  base: number;
+  optimistic: number;
+  // Total uplift in effect this month under the base scenario, in percentage points.
+  upliftPct: number;
+  band: [number, number];
+}
+
+export interface ScenarioTotals {
+  noAction: number;
+  pessimistic: number;
+  base: number;
+  optimistic: number;
+}
+
+export interface Forecast {
+  months: ForecastMonth[];
+  // Revenue summed over the first twelve months (or the horizon if shorter).
+  annual: ScenarioTotals;
+  // Annual revenue versus doing nothing, in percent.
+  incrementPct: Omit<ScenarioTotals, 'noAction'>;
+}
+
+export const DEFAULT_BASELINE: ForecastBaseline = {
+  monthlyRevenue: 100_000,
+  monthlyGrowthPct: 2,
+  horizonMonths: 12,
+  bandPct: 50,
+  currency: 'USD',
+};
+
+// Used when the model gave no usable projection to seed from.
+const DEFAULT_UPLIFT: Record<Severity, number> = { low: 0.1, medium: 0.25, high: 0.5, critical: 0.75 };
+const DEFAULT_RAMP: Record<Severity, number> = { low: 2, medium: 3, high: 4, critical: 4 };
+
+const round = (n: number, digits = 2) => Math.round(n * 10 ** digits) / 10 ** digits;
+
+// Average projected-minus-current gap from the model's projection, in
+// percentage points, or null when the projection is missing or unusable.
+export function modelUpliftPct(result: AnalysisResult): number | null {
+  const points = (result.growthProjection ?? []).filter(p => Number.isFinite(p.current) && Number.isFinite(p.projected));
+  if (points.length === 0) return null;
+  const gap = points.reduce((sum, p) => sum + (p.projected - p.current), 0) / points.length;
+  return Math.max(0, gap);
+}
+
+// The model's projection only seeds the uplift: its average gap is split across
+// blockers in proportion to severity and how many reviews raised each one.
+export function seedAssumptions(result: AnalysisResult): BlockerAssumption[] {
+  const blockers = result.salesBlockers ?? [];
+  const weights = blockers.map(b => (SEVERITIES.indexOf(b.severity) + 1) * Math.max(1, b.frequency));
+  const totalWeight = weights.reduce((a, b) => a + b, 0);
+  const total = modelUpliftPct(result);
+  return blockers.map((b, i) => ({
+    blocker: b.text,
+    addressed: true,
+    upliftPct: round(total === null || totalWeight === 0 ? DEFAULT_UPLIFT[b.severity] : (total * weights[i]) / totalWeight),
+    rampMonths: DEFAULT_RAMP[b.severity],
+  }));
+}
+
+function monthLabel(start: Date, offset: number) {
+  const date = new Date(start.getFullYear(), start.getMonth() + offset, 1);
+  return date.toLocaleString('en-US', { month: 'short', year: 'numeric' });
+}
+
+// Uplift in effect `month` months in (1-based), before any scenario factor.
+export function upliftAt(assumptions: BlockerAssumption[], month: number) {
+  return assumptions
+    .filter(a => a.addressed)
+    .reduce((sum, a) => sum + a.upliftPct * Math.min(1, month / Math.max(1, a.rampMonths)), 0);
+}
+
+// revenue[m] = revenue[m-1] × (1 + (baseline growth + uplift[m] × scenario factor) / 100)
+// where the factor is 0 for no action, 1 for base, and 1 ± band for the bounds.
+export function buildForecast(baseline: ForecastBaseline, assumptions: BlockerAssumption[], start = new Date()): Forecast {
+  const band = baseline.bandPct / 100;
+  const factors: ScenarioTotals = { noAction: 0, pessimistic: 1 - band, base: 1, optimistic: 1 + band };
+  const revenue: ScenarioTotals = { noAction: baseline.monthlyRevenue, pessimistic: baseline.monthlyRevenue, base: baseline.monthlyRevenue, optimistic: baseline.monthlyRevenue };
+  const annual: ScenarioTotals = { noAction: 0, pessimistic: 0, base: 0, optimistic: 0 };
+  const firstMonth = new Date(start.getFullYear(), start.getMonth() + 1, 1);
+  const months: ForecastMonth[] = [];
+
+  for (let m = 1; m <= baseline.horizonMonths; m++) {
+    const uplift = upliftAt(assumptions, m);
+    for (const key of Object.keys(revenue) as (keyof ScenarioTotals)[]) {
+      revenue[key] *= 1 + (baseline.monthlyGrowthPct + uplift * factors[key]) / 100;
+      if (m <= 12) annual[key] += revenue[key];
+    }
+    months.push({
+      month: monthLabel(firstMonth, m - 1),
+      noAction: round(revenue.noAction, 0),
+      pessimistic: round(revenue.pessimistic, 0),
+      base: round(revenue.base, 0),
+      optimistic: round(revenue.optimistic, 0),
+      upliftPct: round(uplift),
+      band: [round(revenue.pessimistic, 0), round(revenue.optimistic, 0)],
+    });
+  }
+
+  const increment = (total: number) => (annual.noAction > 0 ? round((total / annual.noAction - 1) * 100, 1) : 0);
+  return {
+    months,
+    annual,
+    incrementPct: {
+      pessimistic: increment(annual.pessimistic),
+      base: increment(annual.base),
+      optimistic: increment(annual.optimistic),
+    },
+  };
+}
+
+export function formatMoney(value: number, currency: string, compact = false) {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: compact ? 1 : 0,
+    notation: compact ? 'compact' : 'standard',
+  }).format(value);
+}
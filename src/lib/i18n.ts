@@ -0,0 +1,172 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Aspect, Effort, Severity } from '../types';
+import type { InitiativeStatus } from './board';
+import type { GrowthPotential, SentimentBucket } from './sentiment';
+import { ar } from './locales/ar';
+import { en } from './locales/en';
+import { es } from './locales/es';
+import { hi } from './locales/hi';
+import { ja } from './locales/ja';
+import { ur } from './locales/ur';
+
+interface LanguageInfo {
+  // BCP 47 tag for the `lang` attribute and number formatting.
+  code: string;
+  rtl?: boolean;
+}
+
+const LANGUAGE_INFO: Record<string, LanguageInfo> = {
+  English: { code: 'en' },
+  Spanish: { code: 'es' },
+  French: { code: 'fr' },
+  German: { code: 'de' },
+  Chinese: { code: 'zh' },
+  Japanese: { code: 'ja' },
+  Hindi: { code: 'hi' },
+  Arabic: { code: 'ar', rtl: true },
+  Portuguese: { code: 'pt' },
+  Russian: { code: 'ru' },
+  Bengali: { code: 'bn' },
+  Indonesian: { code: 'id' },
+  Urdu: { code: 'ur', rtl: true },
+  Telugu: { code: 'te' },
+  Marathi: { code: 'mr' },
+  Tamil: { code: 'ta' },
+  Turkish: { code: 'tr' },
+};
+
+// Languages a report can be written in; reviews may additionally be auto-detected.
+export const REPORT_LANGUAGES = Object.keys(LANGUAGE_INFO);
+export const REVIEW_LANGUAGES = ['Auto-detect', ...REPORT_LANGUAGES];
+export const DEFAULT_REPORT_LANGUAGE = 'English';
+
+export const isReportLanguage = (language: unknown): language is string =>
+  typeof language === 'string' && Object.hasOwn(LANGUAGE_INFO, language);
+
+export function languageAttributes(language: string) {
+  const info = LANGUAGE_INFO[language] ?? LANGUAGE_INFO[DEFAULT_REPORT_LANGUAGE];
+  return { lang: info.code, dir: info.rtl ? 'rtl' as const : 'ltr' as const };
+}
+
+// Text the results section shows around the model's output.
+export interface ReportLabels {
+  incomplete: string;
+  generating: string;
+  notGenerated: string;
+  sentiment: string;
+  averageScore: (score: string, count: number) => string;
+  keyPainPoints: string;
+  identified: (count: number) => string;
+  growthPotential: string;
+  potential: Record<GrowthPotential['label'], string>;
+  headroom: (pct: number, topAspects: string[]) => string;
+  sentimentDistribution: string;
+  sentimentDistributionHint: string;
+  buckets: Record<SentimentBucket, string>;
+  aspectFrequency: string;
+  aspectFrequencyHint: string;
+  aspects: Record<Aspect, string>;
+  // The exported report's section of per-review scores.
+  reviewBreakdown: string;
+  noReviewScores: string;
+  sentimentSplit: (negative: number, positive: number) => string;
+  reviews: string;
+  painPoints: string;
+  salesBlockers: string;
+  marketingStrategy: string;
+  salesOptimization: string;
+  growthPlan: string;
+  severity: Record<Severity, string>;
+  reviewCount: (count: number) => string;
+  noSupportingReviews: string;
+  forecast: {
+    title: string;
+    hint: string;
+    monthlyRevenue: string;
+    currentGrowth: string;
+    perMonth: string;
+    band: string;
+    bandUnit: string;
+    horizon: string;
+    months: (count: number) => string;
+    currency: string;
+    bandSeries: string;
+    noAction: string;
+    base: string;
+    annualIncrement: string;
+    annualRange: (low: string, high: string, gain: string) => string;
+    assumptions: string;
+    reset: string;
+    seededDefault: string;
+    seededFrom: (pct: string) => string;
+    formula: string;
+    noBlockers: string;
+    address: string;
+    addressBlocker: (blocker: string) => string;
+    blocker: string;
+    uplift: string;
+    ramp: string;
+  };
+  chat: {
+    title: string;
+    hint: string;
+    placeholder: string;
+    ask: string;
+    stop: string;
+    you: string;
+    clear: string;
+    pin: string;
+    unpin: string;
+    pinnedAnswers: string;
+    failed: string;
+  };
+  positioning: {
+    title: string;
+    hint: (competitors: string[]) => string;
+    opportunities: string;
+    opportunitiesHint: string;
+    threats: string;
+    threatsHint: string;
+    featureGaps: string;
+    featureGapsHint: string;
+    pricePerception: string;
+    scorecard: string;
+    scorecardHint: string;
+    you: string;
+    overall: string;
+    none: string;
+  };
+  board: {
+    title: string;
+    hint: string;
+    byStatus: string;
+    byQuarter: string;
+    statusLabel: string;
+    status: Record<InitiativeStatus, string>;
+    effort: Record<Effort, string>;
+    owner: string;
+    impact: string;
+    addresses: string;
+    noItems: string;
+    exportCsv: string;
+    empty: string;
+  };
+}
+
+const LABELS: Record<string, ReportLabels> = {
+  English: en,
+  Spanish: es,
+  Japanese: ja,
+  Hindi: hi,
+  Arabic: ar,
+  Urdu: ur,
+};
+
+// Languages without a translation yet get English labels around their report.
+export function reportLabels(language: string): ReportLabels {
+  return LABELS[language] ?? en;
+}
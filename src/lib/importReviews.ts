@@ -0,0 +1,220 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ReviewRecord } from '../types';
+
+// Competitor tags come from where a file is loaded in the analyzer, not from a column.
+export type ReviewField = Exclude<keyof ReviewRecord, 'competitor'>;
+
+// Which source column feeds each review field; '' means not mapped.
+export type ColumnMapping = Record<ReviewField, string>;
+
+export interface ParsedFile {
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+export interface ImportStats {
+  total: number;
+  empty: number;
+  duplicates: number;
+  kept: number;
+}
+
+export const REVIEW_FIELDS: { field: ReviewField; label: string; required?: boolean }[] = [
+  { field: 'text', label: 'Review text', required: true },
+  { field: 'rating', label: 'Star rating' },
+  { field: 'date', label: 'Date' },
+  { field: 'product', label: 'Product / SKU' },
+  { field: 'source', label: 'Source' },
+];
+
+// Header names used by Shopify, Amazon, Trustpilot and similar exports.
+const COLUMN_HINTS: Record<ReviewField, RegExp> = {
+  text: /^(review[_ ]?)?(body|text|content|comment|message|review)$|^review[_ ]?(body|text|content)$/i,
+  rating: /rating|stars?$|score|overall/i,
+  date: /date|created|published|time/i,
+  product: /product|sku|asin|item|handle/i,
+  source: /source|platform|channel|site|marketplace/i,
+};
+
+export function detectDelimiter(headerLine: string) {
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, d) => (headerLine.split(d).length > headerLine.split(best).length ? d : best), ',');
+}
+
+// RFC 4180 CSV: quoted fields may contain delimiters, newlines and "" escapes.
+export function parseCsv(text: string, delimiter = detectDelimiter(text.split('\n', 1)[0])): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inQuotes) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        inQuotes = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      inQuotes = true;
+    } else if (c === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+function stringify(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function fromObjects(items: unknown[]): ParsedFile {
+  const objects = items.filter((item): item is Record<string, unknown> => !!item && typeof item === 'object' && !Array.isArray(item));
+  const columns = Array.from(new Set(objects.flatMap(o => Object.keys(o))));
+  const rows = objects.map(o => Object.fromEntries(columns.map(c => [c, stringify(o[c])])));
+  return { columns, rows };
+}
+
+// Accepts a top-level array, or an object wrapping one (e.g. { "reviews": [...] }).
+function findArray(data: unknown): unknown[] {
+  if (Array.isArray(data)) return data;
+  if (data && typeof data === 'object') {
+    const nested = Object.values(data).find(Array.isArray);
+    if (nested) return nested;
+  }
+  throw new Error('JSON file must contain an array of review objects.');
+}
+
+export function parseImportFile(fileName: string, content: string): ParsedFile {
+  const text = content.replace(/^\uFEFF/, '');
+  const ext = fileName.toLowerCase().split('.').pop();
+
+  if (ext === 'jsonl' || ext === 'ndjson') {
+    const items = text.split('\n').filter(l => l.trim()).map((line, i) => {
+      try {
+        return JSON.parse(line);
+      } catch {
+        throw new Error(`Line ${i + 1} is not valid JSON.`);
+      }
+    });
+    return fromObjects(items);
+  }
+
+  if (ext === 'json') {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('File is not valid JSON.');
+    }
+    return fromObjects(findArray(data));
+  }
+
+  const [header, ...body] = parseCsv(text);
+  if (!header) throw new Error('File is empty.');
+  const columns = header.map((h, i) => h.trim() || `Column ${i + 1}`);
+  const rows = body.map(cells => Object.fromEntries(columns.map((c, i) => [c, cells[i] ?? ''])));
+  return { columns, rows };
+}
+
+export function guessMapping(columns: string[]): ColumnMapping {
+  const mapping = { text: '', rating: '', date: '', product: '', source: '' } as ColumnMapping;
+  const taken = new Set<string>();
+  for (const { field } of REVIEW_FIELDS) {
+    const match = columns.find(c => !taken.has(c) && COLUMN_HINTS[field].test(c.trim()));
+    if (match) {
+      mapping[field] = match;
+      taken.add(match);
+    }
+  }
+  // Fall back to the first column that isn't claimed by anything else.
+  if (!mapping.text) mapping.text = columns.find(c => !taken.has(c)) || '';
+  return mapping;
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', '#39': "'", apos: "'", nbsp: ' ' };
+
+export function cleanText(text: string) {
+  return text
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(amp|lt|gt|quot|#39|apos|nbsp);/g, (_, e) => ENTITIES[e])
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// "4", "4.0", "4 stars", "4/5", "80%" → 1-5 scale.
+export function parseRating(value: string): number | undefined {
+  const match = value.match(/(\d+(?:\.\d+)?)\s*(?:\/\s*(\d+)|(%))?/);
+  if (!match) return undefined;
+  let rating = parseFloat(match[1]);
+  if (match[2]) rating = (rating / parseFloat(match[2])) * 5;
+  else if (match[3]) rating = (rating / 100) * 5;
+  if (!Number.isFinite(rating) || rating < 0) return undefined;
+  return Math.round(Math.min(rating, 5) * 10) / 10;
+}
+
+export function parseDate(value: string): string | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  const time = Date.parse(trimmed);
+  return Number.isNaN(time) ? trimmed : new Date(time).toISOString().slice(0, 10);
+}
+
+const dedupeKey = (r: ReviewRecord) => `${r.product?.toLowerCase() ?? ''}|${r.text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()}`;
+
+export function applyMapping(parsed: ParsedFile, mapping: ColumnMapping, defaultSource?: string) {
+  const seen = new Set<string>();
+  const records: ReviewRecord[] = [];
+  const stats: ImportStats = { total: parsed.rows.length, empty: 0, duplicates: 0, kept: 0 };
+
+  for (const row of parsed.rows) {
+    const text = mapping.text ? cleanText(row[mapping.text] ?? '') : '';
+    if (!text) {
+      stats.empty++;
+      continue;
+    }
+    const record: ReviewRecord = { text };
+    const rating = mapping.rating ? parseRating(row[mapping.rating] ?? '') : undefined;
+    const date = mapping.date ? parseDate(row[mapping.date] ?? '') : undefined;
+    const product = mapping.product ? cleanText(row[mapping.product] ?? '') : '';
+    const source = (mapping.source ? cleanText(row[mapping.source] ?? '') : '') || defaultSource;
+    if (rating !== undefined) record.rating = rating;
+    if (date) record.date = date;
+    if (product) record.product = product;
+    if (source) record.source = source;
+
+    const key = dedupeKey(record);
+    if (seen.has(key)) {
+      stats.duplicates++;
+      continue;
+    }
+    seen.add(key);
+    records.push(record);
+  }
+  stats.kept = records.length;
+  return { records, stats };
+}
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { matchFinding } from './findings';
+import type { Effort, Finding, Initiative, Quarter } from '../types';
+
+export const QUARTERS: Quarter[] = ['Q1', 'Q2', 'Q3', 'Q4'];
+export const EFFORTS: Effort[] = ['low', 'medium', 'high'];
+
+// An initiative as the model returns it, naming blockers by their text.
+export interface RawInitiative {
+  title?: string;
+  pillar?: string;
+  ownerRole?: string;
+  quarter?: string;
+  effort?: string;
+  expectedImpact?: string;
+  addresses?: string[];
+}
+
+const toQuarter = (value: unknown): Quarter => (QUARTERS.includes(value as Quarter) ? (value as Quarter) : 'Q1');
+const toEffort = (value: unknown): Effort => (EFFORTS.includes(value as Effort) ? (value as Effort) : 'medium');
+
+// Drops initiatives without a title and links each to the blockers it names.
+export function groundInitiatives(raw: RawInitiative[] | undefined, blockers: Finding[]): Initiative[] {
+  return (raw ?? [])
+    .filter(item => item.title?.trim())
+    .map(item => {
+      const matched = (item.addresses ?? []).map(ref => matchFinding(ref, blockers)).filter(i => i !== -1);
+      return {
+        title: item.title!.trim(),
+        pillar: item.pillar?.trim() || 'General',
+        ownerRole: item.ownerRole?.trim() || '',
+        quarter: toQuarter(item.quarter),
+        effort: toEffort(item.effort),
+        expectedImpact: item.expectedImpact?.trim() ?? '',
+        blockers: [...new Set(matched)].sort((a, b) => a - b),
+      };
+    });
+}
+
+// Reports saved before the task board have no initiatives.
+export function normalizeInitiatives(items: unknown): Initiative[] {
+  if (!Array.isArray(items)) return [];
+  return items.map(item => ({
+    title: String(item?.title ?? ''),
+    pillar: String(item?.pillar ?? ''),
+    ownerRole: String(item?.ownerRole ?? ''),
+    quarter: toQuarter(item?.quarter),
+    effort: toEffort(item?.effort),
+    expectedImpact: String(item?.expectedImpact ?? ''),
+    blockers: Array.isArray(item?.blockers) ? item.blockers : [],
+  }));
+}
@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ReportLabels } from '../i18n';
+
+export const ar: ReportLabels = {
+  incomplete: 'هذا التقرير غير مكتمل لأن التحليل توقف مبكرًا. لم يُحفظ في السجل.',
+  generating: 'جارٍ الإنشاء...',
+  notGenerated: 'لم يُنشأ قبل توقف التحليل.',
+  sentiment: 'الانطباع',
+  averageScore: (score, count) => `متوسط الدرجة ${score} عبر ${count} مراجعة`,
+  keyPainPoints: 'أبرز المشكلات',
+  identified: count => `${count} تم تحديدها`,
+  growthPotential: 'إمكانات النمو',
+  potential: { High: 'مرتفعة', Medium: 'متوسطة', Low: 'منخفضة', Unknown: 'غير معروفة' },
+  headroom: (pct, top) =>
+    `${pct}% من المراجعات سلبية بشأن مشكلات يمكن إصلاحها${top.length ? ` (غالبًا ${top.join('، ')})` : ''}`,
+  sentimentDistribution: 'توزيع الانطباع',
+  sentimentDistributionHint: 'المراجعات حسب درجة الانطباع',
+  buckets: {
+    'Very negative': 'سلبي جدًا',
+    Negative: 'سلبي',
+    Neutral: 'محايد',
+    Positive: 'إيجابي',
+    'Very positive': 'إيجابي جدًا',
+  },
+  aspectFrequency: 'تكرار الجوانب',
+  aspectFrequencyHint: 'عدد مرات ظهور كل موضوع، مقسّمًا حسب الانطباع',
+  aspects: {
+    shipping: 'الشحن',
+    checkout: 'إتمام الشراء',
+    support: 'الدعم',
+    pricing: 'الأسعار',
+    'app stability': 'استقرار التطبيق',
+    search: 'البحث',
+    'product quality': 'جودة المنتج',
+    other: 'أخرى',
+  },
+  reviewBreakdown: 'مشاعر المراجعات وجوانبها',
+  noReviewScores: 'لا توجد درجات لكل مراجعة في هذا التقرير.',
+  sentimentSplit: (negative, positive) => `${negative} سلبية، ${positive} إيجابية`,
+  reviews: 'المراجعات',
+  painPoints: 'مشكلات العملاء',
+  salesBlockers: 'عوائق المبيعات',
+  marketingStrategy: 'استراتيجية التسويق',
+  salesOptimization: 'تحسين المبيعات',
+  growthPlan: 'الخطة الاستراتيجية لنمو المبيعات',
+  severity: { low: 'منخفضة', medium: 'متوسطة', high: 'عالية', critical: 'حرجة' },
+  reviewCount: count => `${count} ${count === 1 ? 'مراجعة' : 'مراجعات'}`,
+  noSupportingReviews: 'لا توجد مراجعات داعمة',
+  forecast: {
+    title: 'تحليل زيادة المبيعات',
+    hint: 'توقع الإيرادات الشهرية بناءً على أرقامك الحالية وافتراضات العوائق أدناه',
+    monthlyRevenue: 'الإيرادات الشهرية',
+    currentGrowth: 'النمو الحالي',
+    perMonth: '% / شهر',
+    band: 'النطاق',
+    bandUnit: '± % من الزيادة',
+    horizon: 'المدة',
+    months: count => `${count} أشهر`,
+    currency: 'العملة',
+    bandSeries: 'متشائم – متفائل',
+    noAction: 'دون إجراء',
+    base: 'التوقع الأساسي',
+    annualIncrement: 'الزيادة السنوية المقدّرة',
+    annualRange: (low, high, gain) => `(من ${low} إلى ${high}) · ${gain} خلال 12 شهرًا مقارنة بعدم اتخاذ إجراء.`,
+    assumptions: 'الافتراضات لكل عائق',
+    reset: 'إعادة القيم الأولية',
+    seededDefault: 'لم يقدّم النموذج توقعًا صالحًا، لذا تبدأ الزيادات من قيم افتراضية حسب الخطورة.',
+    seededFrom: pct => `مأخوذة من توقع النموذج (متوسط +${pct} نقطة/شهر) وموزعة حسب الخطورة وعدد المراجعات.`,
+    formula: 'كل شهر: الإيرادات × (1 + (النمو الحالي + Σ الزيادة × min(1, الشهر ÷ فترة التدرج) × معامل السيناريو) ÷ 100)، بمعاملات 0 (دون إجراء) و1 (أساسي) و1 ± النطاق.',
+    noBlockers: 'لم تُحدَّد عوائق مبيعات، لذا يتبع التوقع نموك الحالي.',
+    address: 'معالجة',
+    addressBlocker: blocker => `معالجة ${blocker}`,
+    blocker: 'العائق',
+    uplift: 'الزيادة (نقطة/شهر)',
+    ramp: 'فترة التدرج (أشهر)',
+  },
+  chat: {
+    title: 'اسأل عن هذا التقرير',
+    hint: 'تُجاب أسئلة المتابعة من هذه المراجعات والنتائج. ثبّت الإجابات المفيدة لحفظها مع التقرير.',
+    placeholder: 'مثال: كيف نعالج عائق إتمام الشراء على الجوال؟',
+    ask: 'اسأل',
+    stop: 'إيقاف',
+    you: 'أنت',
+    clear: 'مسح المحادثة',
+    pin: 'تثبيت في التقرير',
+    unpin: 'إلغاء التثبيت',
+    pinnedAnswers: 'الإجابات المثبتة',
+    failed: 'تعذّر الحصول على إجابة. حاول مرة أخرى.',
+  },
+  positioning: {
+    title: 'التموضع التنافسي',
+    hint: competitors => `مراجعاتك مقارنةً بـ ${competitors.join('، ')}`,
+    opportunities: 'الفرص',
+    opportunitiesHint: 'حيث يكون المنافسون أضعف',
+    threats: 'التهديدات',
+    threatsHint: 'حيث يتفوق عليك المنافسون',
+    featureGaps: 'فجوات الميزات',
+    featureGapsHint: 'ما يمدحه العملاء لدى المنافسين ويفتقده منتجك',
+    pricePerception: 'تصوّر السعر',
+    scorecard: 'بطاقة أداء المشاعر',
+    scorecardHint: 'متوسط الدرجة لكل جانب لكل علامة تجارية، من -1 إلى +1',
+    you: 'أنت',
+    overall: 'الإجمالي',
+    none: 'لم يُحدَّد شيء',
+  },
+  board: {
+    title: 'لوحة المبادرات',
+    hint: 'خطة النمو في صورة مهام. تُحفظ تغييرات الحالة والمسؤول في هذا المتصفح.',
+    byStatus: 'اللوحة',
+    byQuarter: 'خارطة الطريق',
+    statusLabel: 'الحالة',
+    status: { todo: 'للتنفيذ', in_progress: 'قيد التنفيذ', done: 'مكتمل' },
+    effort: { low: 'جهد منخفض', medium: 'جهد متوسط', high: 'جهد مرتفع' },
+    owner: 'المسؤول',
+    impact: 'الأثر المتوقع',
+    addresses: 'يعالج',
+    noItems: 'لا شيء هنا بعد',
+    exportCsv: 'تصدير CSV',
+    empty: 'أُنشئ هذا التقرير قبل توليد المبادرات. أعد تشغيل التحليل للحصول على لوحة مهام.',
+  },
+};
@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ReportLabels } from '../i18n';
+
+export const en: ReportLabels = {
+  incomplete: 'This report is incomplete because the analysis stopped early. It was not saved to History.',
+  generating: 'Generating...',
+  notGenerated: 'Not generated before the analysis stopped.',
+  sentiment: 'Sentiment',
+  averageScore: (score, count) => `Average score ${score} across ${count} reviews`,
+  keyPainPoints: 'Key Pain Points',
+  identified: count => `${count} Identified`,
+  growthPotential: 'Growth Potential',
+  potential: { High: 'High', Medium: 'Medium', Low: 'Low', Unknown: 'Unknown' },
+  headroom: (pct, top) =>
+    `${pct}% of reviews are negative about fixable issues${top.length ? ` (mostly ${top.join(', ')})` : ''}`,
+  sentimentDistribution: 'Sentiment Distribution',
+  sentimentDistributionHint: 'Reviews by sentiment score',
+  buckets: {
+    'Very negative': 'Very negative',
+    Negative: 'Negative',
+    Neutral: 'Neutral',
+    Positive: 'Positive',
+    'Very positive': 'Very positive',
+  },
+  aspectFrequency: 'Aspect Frequency',
+  aspectFrequencyHint: 'How often each topic comes up, split by sentiment',
+  aspects: {
+    shipping: 'shipping',
+    checkout: 'checkout',
+    support: 'support',
+    pricing: 'pricing',
+    'app stability': 'app stability',
+    search: 'search',
+    'product quality': 'product quality',
+    other: 'other',
+  },
+  reviewBreakdown: 'Review Sentiment & Aspects',
+  noReviewScores: 'No per-review scores for this report.',
+  sentimentSplit: (negative, positive) => `${negative} negative, ${positive} positive`,
+  reviews: 'Reviews',
+  painPoints: 'Customer Pain Points',
+  salesBlockers: 'Sales Blockers',
+  marketingStrategy: 'Marketing Strategy',
+  salesOptimization: 'Sales Optimization',
+  growthPlan: 'Strategic Sales Growth Plan',
+  severity: { low: 'low', medium: 'medium', high: 'high', critical: 'critical' },
+  reviewCount: count => `${count} ${count === 1 ? 'review' : 'reviews'}`,
+  noSupportingReviews: 'No supporting reviews',
+  forecast: {
+    title: 'Sales Increment Analysis',
+    hint: 'Monthly revenue forecast from your baseline and the blocker assumptions below',
+    monthlyRevenue: 'Monthly revenue',
+    currentGrowth: 'Current growth',
+    perMonth: '% / mo',
+    band: 'Band',
+    bandUnit: '± % of uplift',
+    horizon: 'Horizon',
+    months: count => `${count} months`,
+    currency: 'Currency',
+    bandSeries: 'Pessimistic – Optimistic',
+    noAction: 'No Action',
+    base: 'Base Forecast',
+    annualIncrement: 'Estimated Annual Increment',
+    annualRange: (low, high, gain) => `(range ${low} to ${high}) · ${gain} over 12 months versus no action.`,
+    assumptions: 'Assumptions per Blocker',
+    reset: 'Reset to seeded values',
+    seededDefault: 'The model gave no usable projection, so uplifts start from severity-based defaults.',
+    seededFrom: pct => `Seeded from the model's projection (average +${pct} pts/month), split by severity and review count.`,
+    formula: 'Each month: revenue × (1 + (current growth + Σ uplift × min(1, month ÷ ramp) × scenario factor) ÷ 100), with factors 0 (no action), 1 (base) and 1 ± band.',
+    noBlockers: 'No sales blockers were identified, so the forecast follows your current growth.',
+    address: 'Address',
+    addressBlocker: blocker => `Address ${blocker}`,
+    blocker: 'Blocker',
+    uplift: 'Uplift (pts/mo)',
+    ramp: 'Ramp (months)',
+  },
+  chat: {
+    title: 'Ask About This Report',
+    hint: 'Follow-up questions are answered from these reviews and results. Pin useful answers to keep them with the report.',
+    placeholder: 'e.g. How would we fix the checkout blocker on mobile?',
+    ask: 'Ask',
+    stop: 'Stop',
+    you: 'You',
+    clear: 'Clear conversation',
+    pin: 'Pin to report',
+    unpin: 'Unpin',
+    pinnedAnswers: 'Pinned Answers',
+    failed: 'Could not get an answer. Please try again.',
+  },
+  positioning: {
+    title: 'Competitive Positioning',
+    hint: competitors => `Your reviews weighed against ${competitors.join(', ')}`,
+    opportunities: 'Opportunities',
+    opportunitiesHint: 'Where competitors are weaker',
+    threats: 'Threats',
+    threatsHint: 'Where competitors beat you',
+    featureGaps: 'Feature Gaps',
+    featureGapsHint: 'What customers praise competitors for that you lack',
+    pricePerception: 'Price Perception',
+    scorecard: 'Sentiment Scorecard',
+    scorecardHint: 'Average score per aspect for each brand, from -1 to +1',
+    you: 'You',
+    overall: 'Overall',
+    none: 'None identified',
+  },
+  board: {
+    title: 'Initiative Board',
+    hint: 'The growth plan as tasks. Status and owner changes are saved in this browser.',
+    byStatus: 'Board',
+    byQuarter: 'Roadmap',
+    statusLabel: 'Status',
+    status: { todo: 'To Do', in_progress: 'In Progress', done: 'Done' },
+    effort: { low: 'Low effort', medium: 'Medium effort', high: 'High effort' },
+    owner: 'Owner',
+    impact: 'Expected impact',
+    addresses: 'Addresses',
+    noItems: 'Nothing here yet',
+    exportCsv: 'Export CSV',
+    empty: 'This report was created before initiatives were generated. Run the analysis again to get a task board.',
+  },
+};
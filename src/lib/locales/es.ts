@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ReportLabels } from '../i18n';
+
+export const es: ReportLabels = {
+  incomplete: 'Este informe está incompleto porque el análisis se detuvo antes de tiempo. No se guardó en el Historial.',
+  generating: 'Generando...',
+  notGenerated: 'No se generó antes de que se detuviera el análisis.',
+  sentiment: 'Sentimiento',
+  averageScore: (score, count) => `Puntuación media ${score} en ${count} reseñas`,
+  keyPainPoints: 'Problemas clave',
+  identified: count => `${count} identificados`,
+  growthPotential: 'Potencial de crecimiento',
+  potential: { High: 'Alto', Medium: 'Medio', Low: 'Bajo', Unknown: 'Desconocido' },
+  headroom: (pct, top) =>
+    `El ${pct}% de las reseñas son negativas sobre problemas solucionables${top.length ? ` (sobre todo ${top.join(', ')})` : ''}`,
+  sentimentDistribution: 'Distribución del sentimiento',
+  sentimentDistributionHint: 'Reseñas por puntuación de sentimiento',
+  buckets: {
+    'Very negative': 'Muy negativo',
+    Negative: 'Negativo',
+    Neutral: 'Neutral',
+    Positive: 'Positivo',
+    'Very positive': 'Muy positivo',
+  },
+  aspectFrequency: 'Frecuencia de aspectos',
+  aspectFrequencyHint: 'Con qué frecuencia aparece cada tema, por sentimiento',
+  aspects: {
+    shipping: 'envío',
+    checkout: 'pago',
+    support: 'atención al cliente',
+    pricing: 'precios',
+    'app stability': 'estabilidad de la app',
+    search: 'búsqueda',
+    'product quality': 'calidad del producto',
+    other: 'otros',
+  },
+  reviewBreakdown: 'Sentimiento y aspectos de las reseñas',
+  noReviewScores: 'Este informe no tiene puntuaciones por reseña.',
+  sentimentSplit: (negative, positive) => `${negative} negativas, ${positive} positivas`,
+  reviews: 'Reseñas',
+  painPoints: 'Problemas de los clientes',
+  salesBlockers: 'Bloqueos de ventas',
+  marketingStrategy: 'Estrategia de marketing',
+  salesOptimization: 'Optimización de ventas',
+  growthPlan: 'Plan estratégico de crecimiento de ventas',
+  severity: { low: 'baja', medium: 'media', high: 'alta', critical: 'crítica' },
+  reviewCount: count => `${count} ${count === 1 ? 'reseña' : 'reseñas'}`,
+  noSupportingReviews: 'Sin reseñas que lo respalden',
+  forecast: {
+    title: 'Análisis del incremento de ventas',
+    hint: 'Previsión mensual de ingresos a partir de tu situación actual y de los supuestos por bloqueo',
+    monthlyRevenue: 'Ingresos mensuales',
+    currentGrowth: 'Crecimiento actual',
+    perMonth: '% / mes',
+    band: 'Banda',
+    bandUnit: '± % del incremento',
+    horizon: 'Horizonte',
+    months: count => `${count} meses`,
+    currency: 'Moneda',
+    bandSeries: 'Pesimista – Optimista',
+    noAction: 'Sin acción',
+    base: 'Previsión base',
+    annualIncrement: 'Incremento anual estimado',
+    annualRange: (low, high, gain) => `(rango de ${low} a ${high}) · ${gain} en 12 meses frente a no actuar.`,
+    assumptions: 'Supuestos por bloqueo',
+    reset: 'Restablecer valores iniciales',
+    seededDefault: 'El modelo no dio una proyección utilizable, así que los incrementos parten de valores por defecto según la gravedad.',
+    seededFrom: pct => `Calculado a partir de la proyección del modelo (media +${pct} pts/mes), repartido por gravedad y número de reseñas.`,
+    formula: 'Cada mes: ingresos × (1 + (crecimiento actual + Σ incremento × min(1, mes ÷ rampa) × factor del escenario) ÷ 100), con factores 0 (sin acción), 1 (base) y 1 ± banda.',
+    noBlockers: 'No se identificaron bloqueos de ventas, así que la previsión sigue tu crecimiento actual.',
+    address: 'Resolver',
+    addressBlocker: blocker => `Resolver ${blocker}`,
+    blocker: 'Bloqueo',
+    uplift: 'Incremento (pts/mes)',
+    ramp: 'Rampa (meses)',
+  },
+  chat: {
+    title: 'Pregunta sobre este informe',
+    hint: 'Las preguntas de seguimiento se responden a partir de estas reseñas y resultados. Fija las respuestas útiles para guardarlas con el informe.',
+    placeholder: 'p. ej. ¿Cómo resolveríamos el bloqueo del pago en el móvil?',
+    ask: 'Preguntar',
+    stop: 'Detener',
+    you: 'Tú',
+    clear: 'Borrar conversación',
+    pin: 'Fijar en el informe',
+    unpin: 'Quitar',
+    pinnedAnswers: 'Respuestas fijadas',
+    failed: 'No se pudo obtener una respuesta. Inténtalo de nuevo.',
+  },
+  positioning: {
+    title: 'Posicionamiento Competitivo',
+    hint: competitors => `Tus reseñas comparadas con ${competitors.join(', ')}`,
+    opportunities: 'Oportunidades',
+    opportunitiesHint: 'Donde la competencia es más débil',
+    threats: 'Amenazas',
+    threatsHint: 'Donde la competencia te supera',
+    featureGaps: 'Carencias de Funciones',
+    featureGapsHint: 'Lo que los clientes elogian de la competencia y a ti te falta',
+    pricePerception: 'Percepción del Precio',
+    scorecard: 'Comparativa de Sentimiento',
+    scorecardHint: 'Puntuación media por aspecto de cada marca, de -1 a +1',
+    you: 'Tú',
+    overall: 'General',
+    none: 'No se identificó ninguno',
+  },
+  board: {
+    title: 'Tablero de iniciativas',
+    hint: 'El plan de crecimiento en forma de tareas. Los cambios de estado y responsable se guardan en este navegador.',
+    byStatus: 'Tablero',
+    byQuarter: 'Hoja de ruta',
+    statusLabel: 'Estado',
+    status: { todo: 'Pendiente', in_progress: 'En curso', done: 'Hecho' },
+    effort: { low: 'Esfuerzo bajo', medium: 'Esfuerzo medio', high: 'Esfuerzo alto' },
+    owner: 'Responsable',
+    impact: 'Impacto esperado',
+    addresses: 'Resuelve',
+    noItems: 'Nada por aquí todavía',
+    exportCsv: 'Exportar CSV',
+    empty: 'Este informe se creó antes de que se generaran iniciativas. Vuelve a ejecutar el análisis para obtener un tablero de tareas.',
+  },
+};
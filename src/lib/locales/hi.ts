@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ReportLabels } from '../i18n';
+
+export const hi: ReportLabels = {
+  incomplete: 'यह रिपोर्ट अधूरी है क्योंकि विश्लेषण बीच में रुक गया। इसे इतिहास में सहेजा नहीं गया।',
+  generating: 'तैयार हो रहा है...',
+  notGenerated: 'विश्लेषण रुकने से पहले तैयार नहीं हुआ।',
+  sentiment: 'भावना',
+  averageScore: (score, count) => `${count} समीक्षाओं में औसत स्कोर ${score}`,
+  keyPainPoints: 'मुख्य समस्याएँ',
+  identified: count => `${count} पहचानी गईं`,
+  growthPotential: 'वृद्धि की संभावना',
+  potential: { High: 'उच्च', Medium: 'मध्यम', Low: 'कम', Unknown: 'अज्ञात' },
+  headroom: (pct, top) =>
+    `${pct}% समीक्षाएँ सुधारी जा सकने वाली समस्याओं को लेकर नकारात्मक हैं${top.length ? ` (मुख्यतः ${top.join(', ')})` : ''}`,
+  sentimentDistribution: 'भावना वितरण',
+  sentimentDistributionHint: 'भावना स्कोर के अनुसार समीक्षाएँ',
+  buckets: {
+    'Very negative': 'बहुत नकारात्मक',
+    Negative: 'नकारात्मक',
+    Neutral: 'तटस्थ',
+    Positive: 'सकारात्मक',
+    'Very positive': 'बहुत सकारात्मक',
+  },
+  aspectFrequency: 'पहलुओं की आवृत्ति',
+  aspectFrequencyHint: 'हर विषय कितनी बार आता है, भावना के अनुसार',
+  aspects: {
+    shipping: 'डिलीवरी',
+    checkout: 'चेकआउट',
+    support: 'ग्राहक सहायता',
+    pricing: 'कीमत',
+    'app stability': 'ऐप की स्थिरता',
+    search: 'खोज',
+    'product quality': 'उत्पाद की गुणवत्ता',
+    other: 'अन्य',
+  },
+  reviewBreakdown: 'समीक्षाओं की भावना और पहलू',
+  noReviewScores: 'इस रिपोर्ट में हर समीक्षा के स्कोर नहीं हैं।',
+  sentimentSplit: (negative, positive) => `${negative} नकारात्मक, ${positive} सकारात्मक`,
+  reviews: 'समीक्षाएँ',
+  painPoints: 'ग्राहकों की समस्याएँ',
+  salesBlockers: 'बिक्री में बाधाएँ',
+  marketingStrategy: 'मार्केटिंग रणनीति',
+  salesOptimization: 'बिक्री अनुकूलन',
+  growthPlan: 'रणनीतिक बिक्री वृद्धि योजना',
+  severity: { low: 'कम', medium: 'मध्यम', high: 'उच्च', critical: 'गंभीर' },
+  reviewCount: count => `${count} समीक्षा`,
+  noSupportingReviews: 'कोई समर्थक समीक्षा नहीं',
+  forecast: {
+    title: 'बिक्री वृद्धि विश्लेषण',
+    hint: 'आपके मौजूदा आँकड़ों और नीचे दी गई बाधा-वार मान्यताओं से मासिक राजस्व पूर्वानुमान',
+    monthlyRevenue: 'मासिक राजस्व',
+    currentGrowth: 'मौजूदा वृद्धि',
+    perMonth: '% / माह',
+    band: 'दायरा',
+    bandUnit: 'बढ़त का ± %',
+    horizon: 'अवधि',
+    months: count => `${count} महीने`,
+    currency: 'मुद्रा',
+    bandSeries: 'निराशावादी – आशावादी',
+    noAction: 'कोई कदम नहीं',
+    base: 'आधार पूर्वानुमान',
+    annualIncrement: 'अनुमानित वार्षिक वृद्धि',
+    annualRange: (low, high, gain) => `(${low} से ${high} तक) · कोई कदम न उठाने की तुलना में 12 महीनों में ${gain}।`,
+    assumptions: 'हर बाधा के लिए मान्यताएँ',
+    reset: 'शुरुआती मानों पर लौटें',
+    seededDefault: 'मॉडल से उपयोगी अनुमान नहीं मिला, इसलिए बढ़त गंभीरता पर आधारित डिफ़ॉल्ट मानों से शुरू होती है।',
+    seededFrom: pct => `मॉडल के अनुमान (औसत +${pct} अंक/माह) से लिया गया, गंभीरता और समीक्षाओं की संख्या के अनुसार बाँटा गया।`,
+    formula: 'हर महीने: राजस्व × (1 + (मौजूदा वृद्धि + Σ बढ़त × min(1, महीना ÷ रैंप) × परिदृश्य गुणक) ÷ 100), गुणक 0 (कोई कदम नहीं), 1 (आधार) और 1 ± दायरा।',
+    noBlockers: 'कोई बिक्री बाधा नहीं मिली, इसलिए पूर्वानुमान आपकी मौजूदा वृद्धि पर चलता है।',
+    address: 'हल करें',
+    addressBlocker: blocker => `${blocker} हल करें`,
+    blocker: 'बाधा',
+    uplift: 'बढ़त (अंक/माह)',
+    ramp: 'रैंप (महीने)',
+  },
+  chat: {
+    title: 'इस रिपोर्ट के बारे में पूछें',
+    hint: 'आगे के सवालों के जवाब इन्हीं समीक्षाओं और नतीजों से दिए जाते हैं। काम के जवाब पिन करें ताकि वे रिपोर्ट के साथ सहेजे रहें।',
+    placeholder: 'जैसे: मोबाइल पर चेकआउट की बाधा को हम कैसे दूर करें?',
+    ask: 'पूछें',
+    stop: 'रोकें',
+    you: 'आप',
+    clear: 'बातचीत साफ़ करें',
+    pin: 'रिपोर्ट में पिन करें',
+    unpin: 'पिन हटाएँ',
+    pinnedAnswers: 'पिन किए गए जवाब',
+    failed: 'जवाब नहीं मिल सका। कृपया फिर से कोशिश करें।',
+  },
+  positioning: {
+    title: 'प्रतिस्पर्धी स्थिति',
+    hint: competitors => `${competitors.join(', ')} की तुलना में आपकी समीक्षाएँ`,
+    opportunities: 'अवसर',
+    opportunitiesHint: 'जहाँ प्रतिस्पर्धी कमज़ोर हैं',
+    threats: 'खतरे',
+    threatsHint: 'जहाँ प्रतिस्पर्धी आपसे आगे हैं',
+    featureGaps: 'फ़ीचर की कमियाँ',
+    featureGapsHint: 'ग्राहक प्रतिस्पर्धियों की जिन बातों की तारीफ़ करते हैं और जो आपके पास नहीं हैं',
+    pricePerception: 'कीमत की धारणा',
+    scorecard: 'भावना स्कोरकार्ड',
+    scorecardHint: 'हर ब्रांड का पहलू-वार औसत स्कोर, -1 से +1 तक',
+    you: 'आप',
+    overall: 'कुल',
+    none: 'कोई नहीं मिला',
+  },
+  board: {
+    title: 'पहल बोर्ड',
+    hint: 'विकास योजना कार्यों के रूप में। स्थिति और ज़िम्मेदार व्यक्ति में बदलाव इसी ब्राउज़र में सहेजे जाते हैं।',
+    byStatus: 'बोर्ड',
+    byQuarter: 'रोडमैप',
+    statusLabel: 'स्थिति',
+    status: { todo: 'करना है', in_progress: 'प्रगति में', done: 'पूरा' },
+    effort: { low: 'कम प्रयास', medium: 'मध्यम प्रयास', high: 'अधिक प्रयास' },
+    owner: 'ज़िम्मेदार',
+    impact: 'अपेक्षित प्रभाव',
+    addresses: 'हल करता है',
+    noItems: 'अभी यहाँ कुछ नहीं है',
+    exportCsv: 'CSV निर्यात करें',
+    empty: 'यह रिपोर्ट पहलें बनने से पहले तैयार हुई थी। कार्य बोर्ड पाने के लिए विश्लेषण फिर से चलाएँ।',
+  },
+};
@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ReportLabels } from '../i18n';
+
+export const ja: ReportLabels = {
+  incomplete: '分析が途中で停止したため、このレポートは不完全です。履歴には保存されていません。',
+  generating: '生成中...',
+  notGenerated: '分析が停止する前に生成されませんでした。',
+  sentiment: 'センチメント',
+  averageScore: (score, count) => `${count}件のレビューの平均スコア ${score}`,
+  keyPainPoints: '主な課題',
+  identified: count => `${count}件を特定`,
+  growthPotential: '成長ポテンシャル',
+  potential: { High: '高', Medium: '中', Low: '低', Unknown: '不明' },
+  headroom: (pct, top) =>
+    `レビューの${pct}%が改善可能な問題に否定的です${top.length ? `（主に${top.join('、')}）` : ''}`,
+  sentimentDistribution: 'センチメント分布',
+  sentimentDistributionHint: 'センチメントスコア別のレビュー数',
+  buckets: {
+    'Very negative': '非常に否定的',
+    Negative: '否定的',
+    Neutral: '中立',
+    Positive: '肯定的',
+    'Very positive': '非常に肯定的',
+  },
+  aspectFrequency: '観点の出現頻度',
+  aspectFrequencyHint: '各トピックが言及される頻度（センチメント別）',
+  aspects: {
+    shipping: '配送',
+    checkout: '購入手続き',
+    support: 'サポート',
+    pricing: '価格',
+    'app stability': 'アプリの安定性',
+    search: '検索',
+    'product quality': '製品品質',
+    other: 'その他',
+  },
+  reviewBreakdown: 'レビューの感情と観点',
+  noReviewScores: 'このレポートにはレビューごとのスコアがありません。',
+  sentimentSplit: (negative, positive) => `否定的 ${negative}件、肯定的 ${positive}件`,
+  reviews: 'レビュー',
+  painPoints: '顧客の課題',
+  salesBlockers: '販売の阻害要因',
+  marketingStrategy: 'マーケティング戦略',
+  salesOptimization: '販売の最適化',
+  growthPlan: '戦略的売上成長計画',
+  severity: { low: '低', medium: '中', high: '高', critical: '重大' },
+  reviewCount: count => `${count}件のレビュー`,
+  noSupportingReviews: '裏付けとなるレビューなし',
+  forecast: {
+    title: '売上増加分析',
+    hint: '現在の数値と下記の阻害要因ごとの前提に基づく月次売上予測',
+    monthlyRevenue: '月間売上',
+    currentGrowth: '現在の成長率',
+    perMonth: '% / 月',
+    band: '幅',
+    bandUnit: '上乗せ分の ± %',
+    horizon: '予測期間',
+    months: count => `${count}か月`,
+    currency: '通貨',
+    bandSeries: '悲観 – 楽観',
+    noAction: '対策なし',
+    base: '基本予測',
+    annualIncrement: '推定年間増加率',
+    annualRange: (low, high, gain) => `（範囲 ${low} ～ ${high}）· 対策なしと比べて12か月で ${gain}`,
+    assumptions: '阻害要因ごとの前提',
+    reset: '初期値に戻す',
+    seededDefault: 'モデルから利用可能な予測が得られなかったため、上乗せ分は重大度に応じた既定値から始まります。',
+    seededFrom: pct => `モデルの予測（平均 +${pct} ポイント/月）を基に、重大度とレビュー数で配分しています。`,
+    formula: '各月: 売上 × (1 + (現在の成長率 + Σ 上乗せ × min(1, 月 ÷ 立ち上がり期間) × シナリオ係数) ÷ 100)。係数は 0（対策なし）、1（基本）、1 ± 幅。',
+    noBlockers: '販売の阻害要因が見つからなかったため、予測は現在の成長率に沿っています。',
+    address: '対策',
+    addressBlocker: blocker => `${blocker} に対策する`,
+    blocker: '阻害要因',
+    uplift: '上乗せ（ポイント/月）',
+    ramp: '立ち上がり（か月）',
+  },
+  chat: {
+    title: 'このレポートについて質問する',
+    hint: '追加の質問には、これらのレビューと分析結果をもとに回答します。役立つ回答はピン留めしてレポートに保存できます。',
+    placeholder: '例: モバイルでの購入手続きの阻害要因をどう解決すればよいですか？',
+    ask: '質問する',
+    stop: '停止',
+    you: 'あなた',
+    clear: '会話をクリア',
+    pin: 'レポートにピン留め',
+    unpin: 'ピン留めを解除',
+    pinnedAnswers: 'ピン留めした回答',
+    failed: '回答を取得できませんでした。もう一度お試しください。',
+  },
+  positioning: {
+    title: '競合ポジショニング',
+    hint: competitors => `${competitors.join('、')}と比較したあなたのレビュー`,
+    opportunities: '機会',
+    opportunitiesHint: '競合が弱い点',
+    threats: '脅威',
+    threatsHint: '競合に負けている点',
+    featureGaps: '機能ギャップ',
+    featureGapsHint: '顧客が競合を評価していて、あなたに欠けている点',
+    pricePerception: '価格の受け止め方',
+    scorecard: '感情スコアカード',
+    scorecardHint: 'ブランドごとの観点別平均スコア（-1〜+1）',
+    you: '自社',
+    overall: '全体',
+    none: '該当なし',
+  },
+  board: {
+    title: '施策ボード',
+    hint: '成長計画をタスクに分解したものです。ステータスと担当者の変更はこのブラウザに保存されます。',
+    byStatus: 'ボード',
+    byQuarter: 'ロードマップ',
+    statusLabel: 'ステータス',
+    status: { todo: '未着手', in_progress: '進行中', done: '完了' },
+    effort: { low: '工数：小', medium: '工数：中', high: '工数：大' },
+    owner: '担当者',
+    impact: '期待される効果',
+    addresses: '対象の阻害要因',
+    noItems: 'まだ項目はありません',
+    exportCsv: 'CSVをエクスポート',
+    empty: 'このレポートは施策の生成機能より前に作成されました。タスクボードを作成するには分析をもう一度実行してください。',
+  },
+};
@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ReportLabels } from '../i18n';
+
+export const ur: ReportLabels = {
+  incomplete: 'یہ رپورٹ نامکمل ہے کیونکہ تجزیہ جلد رک گیا۔ اسے ہسٹری میں محفوظ نہیں کیا گیا۔',
+  generating: 'تیار ہو رہا ہے...',
+  notGenerated: 'تجزیہ رکنے سے پہلے تیار نہیں ہوا۔',
+  sentiment: 'تاثر',
+  averageScore: (score, count) => `${count} جائزوں میں اوسط اسکور ${score}`,
+  keyPainPoints: 'اہم مسائل',
+  identified: count => `${count} کی نشاندہی`,
+  growthPotential: 'ترقی کی گنجائش',
+  potential: { High: 'زیادہ', Medium: 'درمیانی', Low: 'کم', Unknown: 'نامعلوم' },
+  headroom: (pct, top) =>
+    `${pct}% جائزے قابلِ حل مسائل کے بارے میں منفی ہیں${top.length ? ` (زیادہ تر ${top.join('، ')})` : ''}`,
+  sentimentDistribution: 'تاثر کی تقسیم',
+  sentimentDistributionHint: 'تاثر کے اسکور کے لحاظ سے جائزے',
+  buckets: {
+    'Very negative': 'بہت منفی',
+    Negative: 'منفی',
+    Neutral: 'غیر جانبدار',
+    Positive: 'مثبت',
+    'Very positive': 'بہت مثبت',
+  },
+  aspectFrequency: 'پہلوؤں کی تکرار',
+  aspectFrequencyHint: 'ہر موضوع کتنی بار آتا ہے، تاثر کے لحاظ سے',
+  aspects: {
+    shipping: 'ترسیل',
+    checkout: 'چیک آؤٹ',
+    support: 'کسٹمر سپورٹ',
+    pricing: 'قیمت',
+    'app stability': 'ایپ کا استحکام',
+    search: 'تلاش',
+    'product quality': 'مصنوعات کا معیار',
+    other: 'دیگر',
+  },
+  reviewBreakdown: 'جائزوں کے جذبات اور پہلو',
+  noReviewScores: 'اس رپورٹ میں ہر جائزے کے اسکور نہیں ہیں۔',
+  sentimentSplit: (negative, positive) => `${negative} منفی، ${positive} مثبت`,
+  reviews: 'جائزے',
+  painPoints: 'صارفین کے مسائل',
+  salesBlockers: 'فروخت کی رکاوٹیں',
+  marketingStrategy: 'مارکیٹنگ حکمتِ عملی',
+  salesOptimization: 'فروخت کی بہتری',
+  growthPlan: 'فروخت میں اضافے کا حکمتِ عملی منصوبہ',
+  severity: { low: 'کم', medium: 'درمیانی', high: 'زیادہ', critical: 'سنگین' },
+  reviewCount: count => `${count} ${count === 1 ? 'جائزہ' : 'جائزے'}`,
+  noSupportingReviews: 'کوئی تائیدی جائزہ نہیں',
+  forecast: {
+    title: 'فروخت میں اضافے کا تجزیہ',
+    hint: 'آپ کے موجودہ اعداد اور نیچے دی گئی رکاوٹوں کے مفروضوں پر مبنی ماہانہ آمدنی کی پیش گوئی',
+    monthlyRevenue: 'ماہانہ آمدنی',
+    currentGrowth: 'موجودہ اضافہ',
+    perMonth: '% / ماہ',
+    band: 'دائرہ',
+    bandUnit: 'اضافے کا ± %',
+    horizon: 'مدت',
+    months: count => `${count} ماہ`,
+    currency: 'کرنسی',
+    bandSeries: 'مایوس کن – پُرامید',
+    noAction: 'کوئی اقدام نہیں',
+    base: 'بنیادی پیش گوئی',
+    annualIncrement: 'متوقع سالانہ اضافہ',
+    annualRange: (low, high, gain) => `(${low} سے ${high} تک) · کوئی اقدام نہ کرنے کے مقابلے میں 12 ماہ میں ${gain}۔`,
+    assumptions: 'ہر رکاوٹ کے مفروضے',
+    reset: 'ابتدائی اقدار بحال کریں',
+    seededDefault: 'ماڈل نے قابلِ استعمال پیش گوئی نہیں دی، اس لیے اضافہ شدت کی بنیاد پر طے شدہ اقدار سے شروع ہوتا ہے۔',
+    seededFrom: pct => `ماڈل کی پیش گوئی (اوسط +${pct} پوائنٹس/ماہ) سے لیا گیا، شدت اور جائزوں کی تعداد کے لحاظ سے تقسیم کیا گیا۔`,
+    formula: 'ہر ماہ: آمدنی × (1 + (موجودہ اضافہ + Σ اضافہ × min(1, ماہ ÷ ریمپ) × منظرنامے کا ضریب) ÷ 100)، ضریب 0 (کوئی اقدام نہیں)، 1 (بنیادی) اور 1 ± دائرہ۔',
+    noBlockers: 'فروخت کی کوئی رکاوٹ نہیں ملی، اس لیے پیش گوئی آپ کے موجودہ اضافے پر چلتی ہے۔',
+    address: 'حل کریں',
+    addressBlocker: blocker => `${blocker} حل کریں`,
+    blocker: 'رکاوٹ',
+    uplift: 'اضافہ (پوائنٹس/ماہ)',
+    ramp: 'ریمپ (ماہ)',
+  },
+  chat: {
+    title: 'اس رپورٹ کے بارے میں پوچھیں',
+    hint: 'مزید سوالات کے جواب انہی جائزوں اور نتائج سے دیے جاتے ہیں۔ مفید جوابات پن کریں تاکہ وہ رپورٹ کے ساتھ محفوظ رہیں۔',
+    placeholder: 'مثلاً: موبائل پر چیک آؤٹ کی رکاوٹ کیسے دور کریں؟',
+    ask: 'پوچھیں',
+    stop: 'روکیں',
+    you: 'آپ',
+    clear: 'گفتگو صاف کریں',
+    pin: 'رپورٹ میں پن کریں',
+    unpin: 'پن ہٹائیں',
+    pinnedAnswers: 'پن کیے گئے جوابات',
+    failed: 'جواب نہیں مل سکا۔ دوبارہ کوشش کریں۔',
+  },
+  positioning: {
+    title: 'مسابقتی پوزیشننگ',
+    hint: competitors => `${competitors.join('، ')} کے مقابلے میں آپ کے ریویوز`,
+    opportunities: 'مواقع',
+    opportunitiesHint: 'جہاں حریف کمزور ہیں',
+    threats: 'خطرات',
+    threatsHint: 'جہاں حریف آپ سے آگے ہیں',
+    featureGaps: 'فیچر کی کمیاں',
+    featureGapsHint: 'گاہک حریفوں کی جن باتوں کی تعریف کرتے ہیں اور جو آپ کے پاس نہیں',
+    pricePerception: 'قیمت کا تاثر',
+    scorecard: 'جذبات کا اسکور کارڈ',
+    scorecardHint: 'ہر برانڈ کا پہلو وار اوسط اسکور، -1 سے +1 تک',
+    you: 'آپ',
+    overall: 'مجموعی',
+    none: 'کچھ نہیں ملا',
+  },
+  board: {
+    title: 'اقدامات کا بورڈ',
+    hint: 'ترقی کا منصوبہ کاموں کی صورت میں۔ حالت اور ذمہ دار میں تبدیلیاں اسی براؤزر میں محفوظ ہوتی ہیں۔',
+    byStatus: 'بورڈ',
+    byQuarter: 'روڈ میپ',
+    statusLabel: 'حالت',
+    status: { todo: 'کرنا ہے', in_progress: 'جاری ہے', done: 'مکمل' },
+    effort: { low: 'کم محنت', medium: 'درمیانی محنت', high: 'زیادہ محنت' },
+    owner: 'ذمہ دار',
+    impact: 'متوقع اثر',
+    addresses: 'حل کرتا ہے',
+    noItems: 'ابھی یہاں کچھ نہیں',
+    exportCsv: 'CSV برآمد کریں',
+    empty: 'یہ رپورٹ اقدامات بننے سے پہلے تیار ہوئی تھی۔ کاموں کا بورڈ حاصل کرنے کے لیے تجزیہ دوبارہ چلائیں۔',
+  },
+};
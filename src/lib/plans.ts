@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { PlanId } from '../types';
+
+export interface Plan {
+  id: PlanId;
+  name: string;
+  // Null when the price is agreed with sales.
+  monthlyPriceUsd: number | null;
+  // Reviews a workspace may analyze per calendar month; null for no limit.
+  monthlyReviews: number | null;
+  // Whether competitors' reviews may be analyzed alongside the workspace's own.
+  competitorAnalysis: boolean;
+  // Whether API keys may be created and used to call /api/v1.
+  apiAccess: boolean;
+}
+
+// The pricing section and the server's quota checks both read from here.
+export const PLANS: Record<PlanId, Plan> = {
+  starter: { id: 'starter', name: 'Starter', monthlyPriceUsd: 0, monthlyReviews: 100, competitorAnalysis: false, apiAccess: false },
+  pro: { id: 'pro', name: 'Pro', monthlyPriceUsd: 49, monthlyReviews: 5_000, competitorAnalysis: true, apiAccess: false },
+  enterprise: { id: 'enterprise', name: 'Enterprise', monthlyPriceUsd: null, monthlyReviews: null, competitorAnalysis: true, apiAccess: true },
+};
+
+// Plans a workspace can switch to itself; Enterprise is set up by sales.
+export const SELF_SERVE_PLANS: PlanId[] = ['starter', 'pro'];
+
+export const isPlanId = (plan: unknown): plan is PlanId => typeof plan === 'string' && Object.hasOwn(PLANS, plan);
@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { groundFinding, matchFinding, normalizeFindings, type RawFinding } from './findings';
+import { ASPECTS, averageScore } from './sentiment';
+import type { Aspect, BrandScore, Finding, Positioning, PositioningFinding, ReviewInsight, ReviewRecord } from '../types';
+
+// Competitors one analysis can weigh us against.
+export const MAX_COMPETITORS = 5;
+
+const MAX_QUOTES = 3;
+
+// A positioning finding as the model returns it. The single-pass prompt cites
+// reviews; the reduce pass, which never sees them, names the findings it draws on.
+export interface RawPositioningFinding extends RawFinding {
+  competitor?: string;
+  basedOn?: string[];
+}
+
+export interface RawPositioning {
+  opportunities?: RawPositioningFinding[];
+  threats?: RawPositioningFinding[];
+  featureGaps?: RawPositioningFinding[];
+  pricePerception?: string;
+}
+
+const squash = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Null stands for the business itself.
+const brandOf = (review: ReviewRecord | undefined) => review?.competitor ?? null;
+
+// Competitor names in the order their reviews first appear.
+export function competitorsIn(reviews: ReviewRecord[]) {
+  return [...new Set(reviews.map(r => r.competitor).filter((c): c is string => !!c))];
+}
+
+// Narrows a finding to one brand's reviews, keeping the quotes that occur in them.
+export function restrictFinding(finding: Finding, reviews: ReviewRecord[], brand: string | null): Finding {
+  const evidence = finding.evidence.filter(i => brandOf(reviews[i]) === brand);
+  const texts = evidence.map(i => squash(reviews[i].text));
+  const quotes = finding.quotes.filter(q => texts.some(text => text.includes(squash(q))));
+  return { ...finding, frequency: evidence.length, evidence, quotes };
+}
+
+// Our pain points or blockers from a run that also read competitors' reviews.
+// Findings only competitors' reviews support are dropped; unsupported ones stay flagged as before.
+export function ownFindings(findings: Finding[], reviews: ReviewRecord[]) {
+  return findings
+    .map(finding => ({ finding, own: restrictFinding(finding, reviews, null) }))
+    .filter(({ finding, own }) => own.frequency > 0 || finding.frequency === 0)
+    .map(({ own }) => own);
+}
+
+export const ownInsights = (insights: ReviewInsight[], reviews: ReviewRecord[]) =>
+  insights.filter(i => brandOf(reviews[i.index]) === null);
+
+// Sentiment per brand, ours first, overall and for each aspect its reviews discuss.
+export function buildScorecard(insights: ReviewInsight[], reviews: ReviewRecord[]): BrandScore[] {
+  return [null, ...competitorsIn(reviews)].map(competitor => {
+    const scored = insights.filter(i => brandOf(reviews[i.index]) === competitor);
+    const aspects: Partial<Record<Aspect, number>> = {};
+    for (const aspect of ASPECTS) {
+      const tagged = scored.filter(i => i.aspects.includes(aspect));
+      if (tagged.length) aspects[aspect] = round(averageScore(tagged));
+    }
+    return { competitor, reviews: scored.length, average: round(averageScore(scored)), aspects };
+  });
+}
+
+// Pools the evidence of the findings a reduce-pass item names.
+function fromSources(raw: RawPositioningFinding, sources: Finding[], reviews: ReviewRecord[]): Finding {
+  const matched = (raw.basedOn ?? []).map(ref => matchFinding(ref, sources)).filter(i => i !== -1).map(i => sources[i]);
+  const evidence = [...new Set(matched.flatMap(f => f.evidence))].sort((a, b) => a - b);
+  const quotes = [...new Set(matched.flatMap(f => f.quotes))].slice(0, MAX_QUOTES);
+  return { ...groundFinding({ text: raw.text, severity: raw.severity }, reviews), frequency: evidence.length, evidence, quotes };
+}
+
+// The named competitor when it is one of ours (any case), else the one its evidence is about.
+function competitorFor(raw: RawPositioningFinding, finding: Finding, reviews: ReviewRecord[], competitors: string[]) {
+  const named = typeof raw.competitor === 'string' ? squash(raw.competitor) : '';
+  return competitors.find(c => squash(c) === named)
+    ?? finding.evidence.map(i => reviews[i].competitor).find((c): c is string => !!c)
+    ?? competitors[0]
+    ?? '';
+}
+
+// Checks the model's positioning against the input the same way other findings are.
+// `sources` are the merged per-brand findings the reduce pass was shown.
+export function groundPositioning(
+  raw: RawPositioning | undefined,
+  reviews: ReviewRecord[],
+  insights: ReviewInsight[],
+  sources?: Finding[],
+): Positioning {
+  const competitors = competitorsIn(reviews);
+  const list = (items: RawPositioningFinding[] | undefined): PositioningFinding[] =>
+    (items ?? [])
+      .map(item => {
+        const finding = sources ? fromSources(item, sources, reviews) : groundFinding(item, reviews);
+        return { ...finding, competitor: competitorFor(item, finding, reviews, competitors) };
+      })
+      .filter(f => f.text);
+  return {
+    competitors,
+    opportunities: list(raw?.opportunities),
+    threats: list(raw?.threats),
+    featureGaps: list(raw?.featureGaps),
+    pricePerception: raw?.pricePerception?.trim() ?? '',
+    scorecard: buildScorecard(insights, reviews),
+  };
+}
+
+// Reports without competitors have no positioning; anything malformed is treated the same.
+export function normalizePositioning(value: unknown): Positioning | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const raw = value as Record<string, unknown>;
+  const list = (items: unknown): PositioningFinding[] =>
+    Array.isArray(items)
+      ? normalizeFindings(items).map((f, i) => ({ ...f, competitor: String(items[i]?.competitor ?? '') }))
+      : [];
+  return {
+    competitors: Array.isArray(raw.competitors) ? raw.competitors.map(String) : [],
+    opportunities: list(raw.opportunities),
+    threats: list(raw.threats),
+    featureGaps: list(raw.featureGaps),
+    pricePerception: typeof raw.pricePerception === 'string' ? raw.pricePerception : '',
+    scorecard: Array.isArray(raw.scorecard) ? raw.scorecard : [],
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { BusinessProfile, TemplateId } from '../types';
+
+// The part of the analysis prompt a workspace can reword: what kind of strategy
+// to write and what to focus on. The reviews, the evidence rules and the output
+// language are always added around it, so an edited template can't break grounding.
+interface TemplateDefault {
+  name: string;
+  description: string;
+  body: string;
+}
+
+const PROJECTION_AND_INITIATIVES = `5. Providing a 6-month data projection (current vs projected revenue growth in percentage) showing the acceleration of the growth rate.
+6. Breaking the growth plan down into 4 to 8 initiatives, each with its pillar, owner role, target quarter, effort, expected impact and the sales blockers it addresses.`;
+
+export const DEFAULT_TEMPLATES: Record<TemplateId, TemplateDefault> = {
+  ecommerce: {
+    name: 'E-commerce',
+    description: 'Online stores and marketplaces selling physical products.',
+    body: `Provide a comprehensive sales and marketing strategy specifically designed to maximize the company's Annual Sale Growth Rate.
+
+{{businessProfile}}
+
+Focus on:
+1. Identifying core customer problems (pain points) that are currently capping growth.
+2. Identifying specific "Growth Levers" - areas where improvements will directly impact the Annual Sale Growth Rate.
+3. Providing actionable marketing and sales solutions to overcome sales blockers.
+4. Creating a professional "Strategic Sales Growth Plan" structured with pillars like Market Expansion, Sales Enablement, and Customer Lifetime Value (CLV) optimization, including specific quarterly milestones.
+${PROJECTION_AND_INITIATIVES}`,
+  },
+  saas: {
+    name: 'SaaS',
+    description: 'Subscription software, where growth comes from activation, retention and expansion.',
+    body: `Provide a comprehensive growth strategy for a software-as-a-service business, designed to maximize its annual recurring revenue (ARR) growth rate.
+
+{{businessProfile}}
+
+Focus on:
+1. Identifying the product and service problems (pain points) that drive churn or stall adoption.
+2. Identifying specific "Growth Levers" across acquisition, activation, retention and expansion revenue.
+3. Providing actionable marketing and sales solutions to overcome sales blockers such as trial drop-off, missing integrations, pricing-tier friction and slow onboarding.
+4. Creating a professional "Strategic Sales Growth Plan" structured with pillars like Acquisition, Activation & Onboarding, and Retention & Expansion, including specific quarterly milestones.
+${PROJECTION_AND_INITIATIVES}`,
+  },
+  restaurant: {
+    name: 'Restaurant',
+    description: 'Restaurants, cafés and bars, where growth comes from covers, spend per guest and repeat visits.',
+    body: `Provide a comprehensive sales and marketing strategy for a restaurant, designed to grow its annual sales through more covers, higher spend per guest and more repeat visits.
+
+{{businessProfile}}
+
+Focus on:
+1. Identifying guest experience problems (pain points) with food, service, wait times, ambience, cleanliness and value that keep guests from coming back.
+2. Identifying specific "Growth Levers" such as repeat visits, average check size, off-peak traffic, delivery and catering.
+3. Providing actionable marketing and sales solutions to overcome sales blockers, including how to answer reviews on booking and review platforms and win back unhappy guests.
+4. Creating a professional "Strategic Sales Growth Plan" structured with pillars like Guest Experience, Local Marketing, and Off-Premise & Delivery, including specific quarterly milestones.
+${PROJECTION_AND_INITIATIVES}`,
+  },
+};
+
+export const TEMPLATE_IDS = Object.keys(DEFAULT_TEMPLATES) as TemplateId[];
+export const DEFAULT_TEMPLATE: TemplateId = 'ecommerce';
+
+export const isTemplateId = (id: unknown): id is TemplateId =>
+  typeof id === 'string' && Object.hasOwn(DEFAULT_TEMPLATES, id);
+
+// Labels and placeholders for the Business Profile form, in prompt order.
+export const PROFILE_FIELDS: Record<keyof BusinessProfile, { label: string; placeholder: string }> = {
+  businessName: { label: 'Business name', placeholder: 'e.g. Northwind Outdoor' },
+  industry: { label: 'Industry', placeholder: 'e.g. Outdoor apparel' },
+  pricePoint: { label: 'Price point', placeholder: 'e.g. Premium, average order $120' },
+  revenue: { label: 'Current revenue', placeholder: 'e.g. $80k a month, growing 2% a month' },
+  segments: { label: 'Target segments', placeholder: 'e.g. Weekend hikers, 25–45; trail runners' },
+  channels: { label: 'Sales channels', placeholder: 'e.g. Own web store, Amazon, two retail stores' },
+  notes: { label: 'Anything else', placeholder: 'e.g. No budget for paid ads this year' },
+};
+
+const PROFILE_KEYS = Object.keys(PROFILE_FIELDS) as (keyof BusinessProfile)[];
+
+export const EMPTY_PROFILE: BusinessProfile = Object.fromEntries(PROFILE_KEYS.map(key => [key, ''])) as unknown as BusinessProfile;
+
+export const MAX_TEMPLATE_CHARS = 8_000;
+const MAX_FIELD_CHARS = 1_000;
+
+export const TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+  { name: 'businessProfile', description: 'Every filled-in profile field, as a list' },
+  ...PROFILE_KEYS.map(key => ({ name: key, description: PROFILE_FIELDS[key].label })),
+  { name: 'reviewCount', description: 'Number of reviews analyzed' },
+  { name: 'reportLanguage', description: 'Language the report is written in' },
+];
+
+const VARIABLE = /\{\{\s*(\w+)\s*\}\}/g;
+
+const variablesIn = (body: string) => [...body.matchAll(VARIABLE)].map(([, name]) => name);
+
+// Names in {{…}} that nothing would fill in, so the template can't be saved with them.
+export function unknownVariables(body: string) {
+  const known = new Set(TEMPLATE_VARIABLES.map(v => v.name));
+  return [...new Set(variablesIn(body).filter(name => !known.has(name)))];
+}
+
+// Keeps the known fields as trimmed strings; anything else is dropped.
+export function normalizeProfile(value: unknown): BusinessProfile {
+  const fields = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  return Object.fromEntries(
+    PROFILE_KEYS.map(key => [key, typeof fields[key] === 'string' ? fields[key].trim().slice(0, MAX_FIELD_CHARS) : ''])
+  ) as unknown as BusinessProfile;
+}
+
+export const hasProfile = (profile: BusinessProfile) => PROFILE_KEYS.some(key => profile[key]);
+
+// The filled-in fields as a list the model can read; empty when nothing was filled in.
+export function formatProfile(profile: BusinessProfile) {
+  const lines = PROFILE_KEYS.filter(key => profile[key]).map(key => `- ${PROFILE_FIELDS[key].label}: ${profile[key]}`);
+  return lines.length
+    ? `About the business (make every strategy specific to it, and only recommend channels it sells through or could realistically add):\n${lines.join('\n')}`
+    : '';
+}
+
+export interface TemplateFacts {
+  reviewCount: number;
+  reportLanguage: string;
+}
+
+// Fills in the variables. A template that never mentions the profile still gets
+// it on top, so filling in the form always reaches the model.
+export function renderTemplate(body: string, profile: BusinessProfile, { reviewCount, reportLanguage }: TemplateFacts) {
+  const values: Record<string, string> = {
+    businessProfile: formatProfile(profile),
+    ...Object.fromEntries(PROFILE_KEYS.map(key => [key, profile[key] || 'not specified'])),
+    reviewCount: String(reviewCount),
+    reportLanguage,
+  };
+  const rendered = body.replace(VARIABLE, (match, name: string) => values[name] ?? match);
+  const mentionsProfile = variablesIn(body).some(name => name === 'businessProfile' || Object.hasOwn(PROFILE_FIELDS, name));
+  const text = mentionsProfile || !hasProfile(profile) ? rendered : `${formatProfile(profile)}\n\n${rendered}`;
+  return text.replace(/\n{3,}/g, '\n\n').trim();
+}
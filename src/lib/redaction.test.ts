@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { restoreJson } from './redaction';
+
+describe('restoreJson', () => {
+  it('puts the originals back in a partial result', () => {
+    const redactions = { '[EMAIL_1]': 'jane.doe@example.com', '[NAME_1]': 'Jane "JD" Doe' };
+    const partial = { sentiment: 'Mixed', painPoints: [{ text: 'No reply to [NAME_1] at [EMAIL_1] or [PHONE_9]', frequency: 1 }] };
+
+    expect(restoreJson(partial, redactions)).toEqual({
+      sentiment: 'Mixed',
+      painPoints: [{ text: 'No reply to Jane "JD" Doe at jane.doe@example.com or [PHONE_9]', frequency: 1 }],
+    });
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { RedactionKind, RedactionRules, Redactions, ReviewRecord, SavedReport } from '../types';
+
+// In the order they run: card numbers go before phone numbers, and order
+// numbers before both, so a long digit run is claimed by its most specific kind.
+export const REDACTION_KINDS: Record<RedactionKind, { label: string; example: string; tag: string }> = {
+  email: { label: 'Email addresses', example: 'jane.doe@example.com', tag: 'EMAIL' },
+  order: { label: 'Order numbers', example: 'order #A-10482', tag: 'ORDER' },
+  card: { label: 'Card numbers', example: '4111 1111 1111 1111', tag: 'CARD' },
+  phone: { label: 'Phone numbers', example: '+1 (555) 010-2030', tag: 'PHONE' },
+  address: { label: 'Street addresses', example: '12 Harbor Street, Apt 4', tag: 'ADDRESS' },
+  name: { label: 'Names', example: 'our driver Mike, Ms. Patel', tag: 'NAME' },
+};
+
+export const REDACTION_KIND_IDS = Object.keys(REDACTION_KINDS) as RedactionKind[];
+
+// A workspace's own terms can be anything, so they get a neutral tag.
+const TERM_TAG = 'REDACTED';
+
+export const DEFAULT_REDACTION_RULES: RedactionRules = { kinds: REDACTION_KIND_IDS, terms: [] };
+
+export const MAX_REDACTION_TERMS = 200;
+const MAX_TERM_CHARS = 100;
+
+// Known kinds in their running order and trimmed, distinct terms; anything else is dropped.
+export function normalizeRedactionRules(value: unknown): RedactionRules {
+  const fields = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const kinds = Array.isArray(fields.kinds) ? fields.kinds : DEFAULT_REDACTION_RULES.kinds;
+  const terms = Array.isArray(fields.terms) ? fields.terms : [];
+  return {
+    kinds: REDACTION_KIND_IDS.filter(kind => kinds.includes(kind)),
+    terms: [...new Set(terms.filter((t): t is string => typeof t === 'string').map(t => t.trim().slice(0, MAX_TERM_CHARS)).filter(Boolean))]
+      .slice(0, MAX_REDACTION_TERMS),
+  };
+}
+
+interface Detector {
+  kind: RedactionKind;
+  // Lookbehinds keep cue words such as "order" or "Mr." out of the match.
+  pattern: RegExp;
+  // The part of the match to redact, or null when it isn't what it looked like.
+  pick?: (match: string) => string | null;
+}
+
+const digitsOf = (text: string) => text.replace(/\D/g, '');
+
+// Rules out most long numbers that aren't card numbers.
+function passesLuhn(digits: string) {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) digit = digit * 2 > 9 ? digit * 2 - 9 : digit * 2;
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// Seven digits or more, and shaped like a phone number rather than a date or an amount.
+function isPhone(match: string) {
+  const digits = digitsOf(match);
+  if (digits.length < 7 || digits.length > 15 || /^\d{4}-\d{2}-\d{2}$/.test(match)) return false;
+  return match.startsWith('+') || match.includes('(') || digits.length >= 10 || /\d{3}[ .-]\d{4}$/.test(match);
+}
+
+// The cue words match at the start of a sentence too.
+const cues = (words: string[]) => words.map(w => `[${w[0].toUpperCase()}${w[0]}]${w.slice(1)}`).join('|');
+
+const NAME_WORD = String.raw`\p{Lu}[\p{Ll}'’-]+`;
+
+// Capitalized words that can follow a cue without being a name.
+const NOT_NAMES = new Set([
+  'The', 'And', 'But', 'He', 'She', 'It', 'They', 'We', 'You', 'This', 'That', 'There', 'Then', 'Was', 'Is',
+  'Who', 'Very', 'My', 'Our', 'Your', 'His', 'Her', 'Their', 'Not', 'Also',
+]);
+
+// One name, or a first and last name when the second word reads as one.
+function pickName(match: string) {
+  const [first, second] = match.split(/\s+/);
+  if (NOT_NAMES.has(first)) return null;
+  return second && !NOT_NAMES.has(second) ? match : first;
+}
+
+const NAME_CUES = cues([
+  'my name is', 'named', 'called', 'ask for', 'asked for', 'spoke to', 'spoke with', 'talked to', 'agent', 'rep',
+  'representative', 'driver', 'courier', 'manager', 'technician', 'installer', 'waiter', 'waitress', 'server',
+  'cashier', 'host', 'hostess', 'assistant', 'associate', 'employee', 'specialist', 'chef', 'bartender', 'barista',
+  'regards,', 'cheers,',
+]);
+
+const STREET_TYPES = 'Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Close|Crescent|Highway|Hwy|Parkway|Square|Sq';
+
+const DETECTORS: Detector[] = [
+  { kind: 'email', pattern: /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)+/gu },
+  {
+    kind: 'order',
+    pattern: /(?<=\b(?:order|ord|invoice|inv|ref|reference|tracking|confirmation|booking|reservation|ticket|case|rma)(?:\s*(?:#|no\.?|num(?:ber)?|id|code))?(?:\s+(?:is|was))?\s*[:#]?\s*)[A-Z0-9][A-Z0-9-]{3,}(?![\w-])/gi,
+    pick: match => (/\d/.test(match) ? match : null),
+  },
+  { kind: 'order', pattern: /(?<![\w&])#\d{4,}\b/g },
+  { kind: 'card', pattern: /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g, pick: match => (passesLuhn(digitsOf(match)) ? match : null) },
+  { kind: 'phone', pattern: /(?<![\w+])\+?\(?\d[\d ().-]{5,}\d(?!\w)/g, pick: match => (isPhone(match) ? match : null) },
+  {
+    kind: 'address',
+    pattern: new RegExp(
+      String.raw`\b\d{1,5}\s+(?:\p{Lu}[\p{L}'’-]*\s+){1,4}(?:${STREET_TYPES})\b\.?(?:,?\s*(?:Apt|Apartment|Suite|Ste|Unit|Flat|Floor)\.?\s*#?[\p{L}\p{N}]+)?`,
+      'gu'
+    ),
+  },
+  { kind: 'name', pattern: new RegExp(String.raw`(?<=\b(?:Mr|Mrs|Ms|Miss|Mx|Dr)\.?\s+)${NAME_WORD}(?:\s+${NAME_WORD})?`, 'gu'), pick: pickName },
+  { kind: 'name', pattern: new RegExp(String.raw`(?<=\b(?:${NAME_CUES})[,:]?\s+)${NAME_WORD}(?:\s+${NAME_WORD})?`, 'gu'), pick: pickName },
+  // A sign-off at the very end, such as "— Sarah K."
+  { kind: 'name', pattern: new RegExp(String.raw`(?<=(?:^|\s)[-–—~]\s?)${NAME_WORD}(?:\s\p{Lu}\.?)?(?=\s*$)`, 'gu'), pick: pickName },
+];
+
+const TAGS = [...REDACTION_KIND_IDS.map(kind => REDACTION_KINDS[kind].tag), TERM_TAG];
+const PLACEHOLDER = new RegExp(String.raw`\[(?:${TAGS.join('|')})_\d+\]`, 'g');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole words only, and case-insensitive. Longer values go first so they win over their prefixes.
+function literalPattern(values: string[]) {
+  const sorted = [...values].sort((a, b) => b.length - a.length).map(v => escapeRegExp(v).replace(/\s+/g, '\\s+'));
+  return new RegExp(String.raw`(?<![\p{L}\p{N}_])(?:${sorted.join('|')})(?![\p{L}\p{N}_])`, 'giu');
+}
+
+// Values too short to find again safely outside the context they were detected in.
+const MIN_REUSED_CHARS = 3;
+
+const NAME_PREFIX = `[${REDACTION_KINDS.name.tag}_`;
+
+const textKey = (text: string) => text.toLowerCase().replace(/\s+/g, ' ');
+
+// Replaces personal data with placeholders that stay the same for the same value,
+// so the model can still tell that two reviews mention the same customer or order.
+// Placeholders already in `existing` are reused and numbering carries on after them.
+export function createRedactor(rules: RedactionRules, existing: Redactions = {}) {
+  const redactions: Redactions = { ...existing };
+  const byValue = new Map<string, string>();
+  const counts = new Map<string, number>();
+  const canonical = (tag: string, value: string) =>
+    tag === REDACTION_KINDS.phone.tag || tag === REDACTION_KINDS.card.tag ? `${tag}:${digitsOf(value)}` : `${tag}:${textKey(value)}`;
+
+  for (const [placeholder, value] of Object.entries(existing)) {
+    const [, tag, n] = placeholder.match(/^\[(\w+)_(\d+)\]$/) ?? [];
+    if (!tag) continue;
+    byValue.set(canonical(tag, value), placeholder);
+    counts.set(tag, Math.max(counts.get(tag) ?? 0, Number(n)));
+  }
+
+  const placeholderFor = (tag: string, value: string) => {
+    const key = canonical(tag, value);
+    let placeholder = byValue.get(key);
+    if (!placeholder) {
+      const n = (counts.get(tag) ?? 0) + 1;
+      counts.set(tag, n);
+      placeholder = `[${tag}_${n}]`;
+      byValue.set(key, placeholder);
+      redactions[placeholder] = value;
+    }
+    return placeholder;
+  };
+
+  // Rebuilt only when a new value has been found.
+  let reused: { size: number; pattern: RegExp | null; byText: Map<string, string> } | null = null;
+
+  const detectors = DETECTORS.filter(d => rules.kinds.includes(d.kind));
+  const terms = rules.terms.length ? literalPattern(rules.terms) : null;
+
+  return {
+    redact(text: string) {
+      let redacted = terms ? text.replace(terms, term => placeholderFor(TERM_TAG, term)) : text;
+      for (const { kind, pattern, pick } of detectors) {
+        redacted = redacted.replace(pattern, match => {
+          const value = pick ? pick(match) : match;
+          return value ? placeholderFor(REDACTION_KINDS[kind].tag, value) + match.slice(value.length) : match;
+        });
+      }
+      // A value found once is redacted everywhere, even where no cue points to it,
+      // and so are the parts of a full name, which get placeholders of their own.
+      const known = Object.entries(redactions);
+      if (reused?.size !== known.length) {
+        const byText = new Map(known.map(([placeholder, value]) => [textKey(value), placeholder]));
+        const nameParts = known
+          .filter(([placeholder]) => placeholder.startsWith(NAME_PREFIX))
+          .flatMap(([, value]) => value.split(/\s+/))
+          .filter(part => !NOT_NAMES.has(part));
+        const values = [...byText.keys(), ...nameParts].filter(value => value.length >= MIN_REUSED_CHARS);
+        reused = { size: known.length, pattern: values.length ? literalPattern(values) : null, byText };
+      }
+      const { pattern, byText } = reused;
+      if (!pattern) return redacted;
+      return redacted.replace(pattern, match => {
+        const placeholder = byText.get(textKey(match));
+        if (placeholder && !placeholder.startsWith(NAME_PREFIX)) return placeholder;
+        // Names count only when capitalized, so "Will" doesn't take every "will" with it.
+        if (!/^\p{Lu}/u.test(match)) return match;
+        return placeholder ?? placeholderFor(REDACTION_KINDS.name.tag, match);
+      });
+    },
+    redactions,
+  };
+}
+
+// Redacts the text of every review. Values are collected over the whole set
+// first, so a name cued in a late review is also caught where it appears bare earlier.
+export function redactReviews(reviews: ReviewRecord[], rules: RedactionRules, existing?: Redactions) {
+  const redactor = createRedactor(rules, existing);
+  reviews.forEach(review => redactor.redact(review.text));
+  return {
+    reviews: reviews.map(review => ({ ...review, text: redactor.redact(review.text) })),
+    redactions: redactor.redactions,
+  };
+}
+
+// A report title redacted with the same placeholders as its reviews. Values
+// only the title mentions get new placeholders, added to the returned map.
+export function redactTitle(title: string, rules: RedactionRules, existing: Redactions) {
+  const redactor = createRedactor(rules, existing);
+  return { title: redactor.redact(title), redactions: redactor.redactions };
+}
+
+export const restoreText = (text: string, redactions: Redactions) =>
+  text.replace(PLACEHOLDER, placeholder => (Object.hasOwn(redactions, placeholder) ? redactions[placeholder] : placeholder));
+
+// A streamed answer can stop partway through a placeholder; that part waits for the next chunk.
+export const restoreStreamed = (text: string, redactions: Redactions) =>
+  restoreText(text.replace(/\[[A-Z]*(?:_\d*)?$/, ''), redactions);
+
+// Puts the originals back in every string of a JSON value, such as a partial
+// result streamed while an analysis runs.
+export function restoreJson<T>(value: T, redactions: Redactions): T {
+  if (!Object.keys(redactions).length) return value;
+  const json = JSON.stringify(value).replace(PLACEHOLDER, placeholder =>
+    Object.hasOwn(redactions, placeholder) ? JSON.stringify(redactions[placeholder]).slice(1, -1) : placeholder
+  );
+  return JSON.parse(json);
+}
+
+// Puts the originals back everywhere in a report, from the reviews to the
+// strategies the model wrote around the placeholders.
+export function restoreReport(report: SavedReport): SavedReport {
+  if (!Object.keys(report.redactions).length) return report;
+  return { ...restoreJson({ ...report, redactions: {} }, report.redactions), redactions: report.redactions };
+}
+
+// Odd entries are placeholders, for highlighting them in a preview.
+export const splitRedacted = (text: string) => text.split(new RegExp(`(${PLACEHOLDER.source})`));
+
+// How many distinct values of each kind were replaced, with the form's labels.
+export function summarizeRedactions(redactions: Redactions) {
+  const labels: Record<string, string> = {
+    ...Object.fromEntries(REDACTION_KIND_IDS.map(kind => [REDACTION_KINDS[kind].tag, REDACTION_KINDS[kind].label])),
+    [TERM_TAG]: 'Workspace terms',
+  };
+  const counts = new Map<string, number>();
+  for (const placeholder of Object.keys(redactions)) {
+    const tag = placeholder.slice(1, placeholder.lastIndexOf('_'));
+    counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return TAGS.filter(tag => counts.has(tag)).map(tag => ({ label: labels[tag], count: counts.get(tag)! }));
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { countWords, parseReviewText, reviewStrength } from './reviews';
+
+const words = (n: number) => [{ text: Array.from({ length: n }, () => 'word').join(' ') }];
+
+describe('parseReviewText', () => {
+  it('reads one review per line, without list markers', () => {
+    expect(parseReviewText('- Great fit\n2) Slow delivery\n\n')).toEqual([{ text: 'Great fit' }, { text: 'Slow delivery' }]);
+  });
+
+  it('reads paragraphs as reviews when blank lines separate them', () => {
+    expect(parseReviewText('Arrived late.\nBox was crushed.\n\nLove it!')).toEqual([
+      { text: 'Arrived late. Box was crushed.' },
+      { text: 'Love it!' },
+    ]);
+  });
+});
+
+describe('reviewStrength', () => {
+  it.each([
+    [0, 'Empty', '0%'],
+    [1, 'Weak', '25%'],
+    [9, 'Weak', '25%'],
+    [10, 'Fair', '50%'],
+    [29, 'Fair', '50%'],
+    [30, 'Good', '75%'],
+    [59, 'Good', '75%'],
+    [60, 'Excellent', '100%'],
+    [500, 'Excellent', '100%'],
+  ])('rates %i words as %s', (count, label, width) => {
+    expect(countWords(words(count))).toBe(count);
+    expect(reviewStrength(words(count))).toMatchObject({ label, width });
+  });
+
+  it('counts words across every review', () => {
+    expect(reviewStrength([...words(5), ...words(5)]).label).toBe('Fair');
+  });
+});
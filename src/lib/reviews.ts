@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ReviewRecord } from '../types';
+
+const BULLET = /^\s*(?:[-*•]|\d+[.)])\s+/;
+
+// Free text from the textarea: blank-line separated paragraphs when present,
+// otherwise one review per line. List markers are stripped.
+export function parseReviewText(text: string): ReviewRecord[] {
+  const blocks = /\n\s*\n/.test(text.trim()) ? text.split(/\n\s*\n/) : text.split('\n');
+  return blocks
+    .map(block => block.replace(BULLET, '').replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .map(line => ({ text: line }));
+}
+
+export function countWords(records: ReviewRecord[]) {
+  return records.reduce((sum, r) => sum + r.text.split(/\s+/).filter(w => w.length > 0).length, 0);
+}
+
+export interface ReviewStrength {
+  label: 'Empty' | 'Weak' | 'Fair' | 'Good' | 'Excellent';
+  color: string;
+  width: string;
+}
+
+// The meter under the analyzer: how much there is for the model to work with.
+export function reviewStrength(records: ReviewRecord[]): ReviewStrength {
+  const words = countWords(records);
+  if (words === 0) return { label: 'Empty', color: 'bg-slate-200', width: '0%' };
+  if (words < 10) return { label: 'Weak', color: 'bg-red-400', width: '25%' };
+  if (words < 30) return { label: 'Fair', color: 'bg-amber-400', width: '50%' };
+  if (words < 60) return { label: 'Good', color: 'bg-indigo-400', width: '75%' };
+  return { label: 'Excellent', color: 'bg-emerald-500', width: '100%' };
+}
+
+export function hasMetadata(records: ReviewRecord[]) {
+  return records.some(r => r.rating !== undefined || r.date || r.product || r.source || r.competitor);
+}
+
+// One line per review, numbered so the model (and later passes) can refer back to it.
+export function formatReviewsForPrompt(records: ReviewRecord[], offset = 0) {
+  return records
+    .map((r, i) => {
+      const meta = [
+        r.competitor && `competitor: ${r.competitor}`,
+        r.rating !== undefined && `${r.rating}★`,
+        r.date,
+        r.product,
+        r.source,
+      ].filter(Boolean);
+      return `[#${offset + i + 1}]${meta.length ? ` (${meta.join(' | ')})` : ''} ${r.text}`;
+    })
+    .join('\n');
+}
+
+// Accepts either structured records or a raw text blob from older clients and reports.
+export function normalizeReviews(input: unknown): ReviewRecord[] | null {
+  if (typeof input === 'string') return parseReviewText(input);
+  if (!Array.isArray(input)) return null;
+  const records: ReviewRecord[] = [];
+  for (const item of input) {
+    if (!item || typeof item !== 'object' || typeof item.text !== 'string') return null;
+    if (!item.text.trim()) continue;
+    records.push({
+      text: item.text.trim(),
+      ...(typeof item.rating === 'number' && Number.isFinite(item.rating) ? { rating: item.rating } : {}),
+      ...(typeof item.date === 'string' && item.date ? { date: item.date } : {}),
+      ...(typeof item.product === 'string' && item.product ? { product: item.product } : {}),
+      ...(typeof item.source === 'string' && item.source ? { source: item.source } : {}),
+      ...(typeof item.competitor === 'string' && item.competitor.trim() ? { competitor: item.competitor.trim() } : {}),
+    });
+  }
+  return records;
+}
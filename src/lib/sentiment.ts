@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Aspect, ReviewInsight, ReviewRecord } from '../types';
+
+export const ASPECTS: Aspect[] = [
+  'shipping', 'checkout', 'support', 'pricing', 'app stability', 'search', 'product quality', 'other',
+];
+
+// Operational problems the business can fix directly, as opposed to taste or price.
+export const FIXABLE_ASPECTS: Aspect[] = ['shipping', 'checkout', 'support', 'app stability', 'search'];
+
+export const NEGATIVE_THRESHOLD = -0.2;
+export const POSITIVE_THRESHOLD = 0.2;
+
+export const SENTIMENT_BUCKETS = [
+  { label: 'Very negative', max: -0.6, color: '#ef4444' },
+  { label: 'Negative', max: NEGATIVE_THRESHOLD, color: '#f97316' },
+  { label: 'Neutral', max: POSITIVE_THRESHOLD, color: '#cbd5e1' },
+  { label: 'Positive', max: 0.6, color: '#818cf8' },
+  { label: 'Very positive', max: Infinity, color: '#4f46e5' },
+] as const;
+
+export type SentimentBucket = (typeof SENTIMENT_BUCKETS)[number]['label'];
+
+export interface RawInsight {
+  reviewNumber?: number;
+  score?: number;
+  aspects?: string[];
+}
+
+// Drops insights for reviews that don't exist, clamps scores and unknown aspects.
+export function groundInsights(raw: RawInsight[] | undefined, reviews: ReviewRecord[]): ReviewInsight[] {
+  const byIndex = new Map<number, ReviewInsight>();
+  for (const item of raw ?? []) {
+    const n = item.reviewNumber;
+    if (!Number.isInteger(n) || n! < 1 || n! > reviews.length || typeof item.score !== 'number') continue;
+    const aspects = (item.aspects ?? []).filter((a): a is Aspect => ASPECTS.includes(a as Aspect));
+    byIndex.set(n! - 1, {
+      index: n! - 1,
+      score: Math.max(-1, Math.min(1, item.score)),
+      aspects: aspects.length ? Array.from(new Set(aspects)) : ['other'],
+    });
+  }
+  return [...byIndex.values()].sort((a, b) => a.index - b.index);
+}
+
+export function averageScore(insights: ReviewInsight[]) {
+  return insights.length ? insights.reduce((sum, i) => sum + i.score, 0) / insights.length : 0;
+}
+
+export function sentimentDistribution(insights: ReviewInsight[]) {
+  const counts = SENTIMENT_BUCKETS.map(b => ({ bucket: b.label, color: b.color, count: 0 }));
+  for (const { score } of insights) {
+    counts[SENTIMENT_BUCKETS.findIndex(b => score <= b.max)].count++;
+  }
+  return counts;
+}
+
+export function aspectFrequency(insights: ReviewInsight[]) {
+  return ASPECTS.map(aspect => {
+    const tagged = insights.filter(i => i.aspects.includes(aspect));
+    return {
+      aspect,
+      positive: tagged.filter(i => i.score > POSITIVE_THRESHOLD).length,
+      neutral: tagged.filter(i => i.score >= NEGATIVE_THRESHOLD && i.score <= POSITIVE_THRESHOLD).length,
+      negative: tagged.filter(i => i.score < NEGATIVE_THRESHOLD).length,
+      total: tagged.length,
+    };
+  })
+    .filter(a => a.total > 0)
+    .sort((a, b) => b.total - a.total);
+}
+
+export interface GrowthPotential {
+  label: 'High' | 'Medium' | 'Low' | 'Unknown';
+  // Share of all reviews that are negative about something fixable, 0..1.
+  headroom: number;
+  topFixable: Aspect[];
+}
+
+// Growth potential is the headroom left by fixable complaints: the more reviews
+// that are negative about shipping, checkout, support and the like, the more
+// sales there are to win back by fixing them.
+export function growthPotential(insights: ReviewInsight[]): GrowthPotential {
+  if (insights.length === 0) return { label: 'Unknown', headroom: 0, topFixable: [] };
+  const fixable = insights.filter(
+    i => i.score < NEGATIVE_THRESHOLD && i.aspects.some(a => FIXABLE_ASPECTS.includes(a))
+  );
+  const headroom = fixable.length / insights.length;
+  const topFixable = FIXABLE_ASPECTS
+    .map(aspect => ({ aspect, count: fixable.filter(i => i.aspects.includes(aspect)).length }))
+    .filter(a => a.count > 0)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 2)
+    .map(a => a.aspect);
+  const label = headroom >= 0.25 ? 'High' : headroom >= 0.1 ? 'Medium' : 'Low';
+  return { label, headroom, topFixable };
+}
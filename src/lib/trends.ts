@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { SAME_ISSUE_THRESHOLD, similarity } from './findings';
+import type { ScheduleRun } from '../types';
+
+export interface TrendPoint {
+  runId: string;
+  at: string;
+  reviewCount: number;
+  averageSentiment: number;
+  positiveShare: number;
+  negativeShare: number;
+  // Share of the run's reviews raising each tracked issue, by TrendIssue key. 0 when the run didn't raise it.
+  shares: Record<string, number>;
+}
+
+// A pain point followed across runs, however its wording drifted.
+export interface TrendIssue {
+  key: string;
+  // The most recent wording.
+  text: string;
+  // Runs that raised it.
+  runs: number;
+  latestShare: number;
+}
+
+export interface Trend {
+  points: TrendPoint[];
+  // The most raised issues, by their shares summed over every run.
+  issues: TrendIssue[];
+}
+
+// Builds the trend from the runs that produced a report, matching each run's
+// pain points to those of earlier runs with the same wording similarity the
+// report comparison uses.
+export function buildTrend(runs: ScheduleRun[], maxIssues = 5): Trend {
+  const tracked: (TrendIssue & { total: number })[] = [];
+  const points: TrendPoint[] = [];
+
+  for (const run of runs) {
+    const { snapshot } = run;
+    if (!snapshot) continue;
+    const shares: Record<string, number> = {};
+    const matched = new Set<string>();
+    for (const painPoint of snapshot.painPoints) {
+      let best: (typeof tracked)[number] | undefined;
+      let bestScore = SAME_ISSUE_THRESHOLD;
+      for (const issue of tracked) {
+        if (matched.has(issue.key)) continue;
+        const score = similarity(issue.text, painPoint.text);
+        if (score >= bestScore) {
+          best = issue;
+          bestScore = score;
+        }
+      }
+      if (!best) {
+        best = { key: `issue${tracked.length}`, text: painPoint.text, runs: 0, latestShare: 0, total: 0 };
+        tracked.push(best);
+      }
+      const share = snapshot.reviewCount > 0 ? painPoint.frequency / snapshot.reviewCount : 0;
+      matched.add(best.key);
+      best.text = painPoint.text;
+      best.runs++;
+      best.total += share;
+      shares[best.key] = share;
+    }
+    for (const issue of tracked) issue.latestShare = shares[issue.key] ?? 0;
+    points.push({
+      runId: run.id,
+      at: run.createdAt,
+      reviewCount: snapshot.reviewCount,
+      averageSentiment: snapshot.averageSentiment,
+      positiveShare: snapshot.positiveShare,
+      negativeShare: snapshot.negativeShare,
+      shares,
+    });
+  }
+
+  const issues = [...tracked]
+    .sort((a, b) => b.total - a.total)
+    .slice(0, maxIssues)
+    .map(({ total: _total, ...issue }) => issue);
+  return { points, issues };
+}
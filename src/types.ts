@@ -0,0 +1,465 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Shared between the React client and the Express server.
+
+export interface GrowthPoint {
+  month: string;
+  current: number;
+  projected: number;
+}
+
+export type Severity = 'low' | 'medium' | 'high' | 'critical';
+
+// A pain point or sales blocker, tied back to the reviews that raise it.
+export interface Finding {
+  text: string;
+  // Number of distinct input reviews cited as evidence.
+  frequency: number;
+  severity: Severity;
+  // 0-based indices into the analyzed reviews.
+  evidence: number[];
+  // Verbatim excerpts, each verified to occur in one of the input reviews.
+  quotes: string[];
+}
+
+export type Aspect =
+  | 'shipping'
+  | 'checkout'
+  | 'support'
+  | 'pricing'
+  | 'app stability'
+  | 'search'
+  | 'product quality'
+  | 'other';
+
+export interface ReviewInsight {
+  // 0-based index into the analyzed reviews.
+  index: number;
+  // -1 (very negative) to 1 (very positive).
+  score: number;
+  aspects: Aspect[];
+}
+
+export type Quarter = 'Q1' | 'Q2' | 'Q3' | 'Q4';
+
+export type Effort = 'low' | 'medium' | 'high';
+
+// One actionable item from the Strategic Sales Growth Plan.
+export interface Initiative {
+  title: string;
+  // e.g. Market Expansion, Sales Enablement, Customer Lifetime Value.
+  pillar: string;
+  // The role that should own it, e.g. "Head of E-commerce".
+  ownerRole: string;
+  quarter: Quarter;
+  effort: Effort;
+  expectedImpact: string;
+  // 0-based indices into the report's sales blockers.
+  blockers: number[];
+}
+
+// An opportunity, threat or feature gap against one competitor. Evidence
+// spans our reviews and theirs.
+export interface PositioningFinding extends Finding {
+  competitor: string;
+}
+
+// Review sentiment for one brand, averaged from -1 to 1.
+export interface BrandScore {
+  // Null for the business's own reviews.
+  competitor: string | null;
+  reviews: number;
+  average: number;
+  // Average per aspect, for the aspects its reviews discuss.
+  aspects: Partial<Record<Aspect, number>>;
+}
+
+// How the business stands against the competitors whose reviews were analyzed with its own.
+export interface Positioning {
+  competitors: string[];
+  // Where a competitor is weaker than us.
+  opportunities: PositioningFinding[];
+  // Where a competitor beats us.
+  threats: PositioningFinding[];
+  // Features customers get, or ask for, at a competitor that we don't offer.
+  featureGaps: PositioningFinding[];
+  // How customers see each brand's prices against what they get, in Markdown.
+  pricePerception: string;
+  scorecard: BrandScore[];
+}
+
+export interface AnalysisResult {
+  painPoints: Finding[];
+  sentiment: string;
+  salesBlockers: Finding[];
+  marketingStrategy: string;
+  salesStrategy: string;
+  growthProjection: GrowthPoint[];
+  annualIncrementPlan: string;
+  initiatives: Initiative[];
+  // Scores for the business's own reviews; competitors' are summed up in the scorecard.
+  reviewInsights: ReviewInsight[];
+  // Only present when competitor reviews were analyzed alongside our own.
+  positioning?: Positioning;
+}
+
+export interface ReviewRecord {
+  text: string;
+  rating?: number;
+  date?: string;
+  product?: string;
+  source?: string;
+  // The competitor the review is about; unset for the business's own reviews.
+  competitor?: string;
+}
+
+export interface AnalyzeRequest {
+  reviews: ReviewRecord[];
+  // Language the reviews are written in, or 'Auto-detect'.
+  language: string;
+  // Language the findings and strategy are written in; English when omitted.
+  reportLanguage?: string;
+  // Saved report title; defaults to the start of the first review.
+  title?: string;
+  // Provider id and model from GET /api/models; the server default when omitted.
+  provider?: string;
+  model?: string;
+  // Workspace the report is saved to; the user's first editable workspace when omitted.
+  workspaceId?: string;
+  // Which of the workspace's prompt templates frames the strategy; e-commerce when omitted.
+  template?: TemplateId;
+}
+
+export type TemplateId = 'ecommerce' | 'saas' | 'restaurant';
+
+// What the business tells the model about itself. Every field is free text and may be empty.
+export interface BusinessProfile {
+  businessName: string;
+  industry: string;
+  pricePoint: string;
+  revenue: string;
+  segments: string;
+  channels: string;
+  notes: string;
+}
+
+// A workspace's current wording for one analysis type. Version 0 is the built-in default.
+export interface PromptTemplate {
+  id: TemplateId;
+  name: string;
+  version: number;
+  body: string;
+  isDefault: boolean;
+  updatedAt: string | null;
+  updatedBy: string | null;
+}
+
+export interface PromptTemplateVersion {
+  version: number;
+  body: string;
+  createdAt: string;
+  // Name of the editor who saved it.
+  createdBy: string | null;
+}
+
+export type RedactionKind = 'email' | 'phone' | 'card' | 'address' | 'order' | 'name';
+
+// What a workspace strips from reviews before they reach a model. Terms are
+// redacted wherever they appear, e.g. staff names the detectors would miss.
+export interface RedactionRules {
+  kinds: RedactionKind[];
+  terms: string[];
+}
+
+// Placeholder, such as [EMAIL_1], to the text it stands for.
+export type Redactions = Record<string, string>;
+
+// One backend in the analyzer's model picker.
+export interface ProviderInfo {
+  id: string;
+  label: string;
+  models: string[];
+  available: boolean;
+  unavailableReason?: string;
+}
+
+export interface ReportSummary {
+  id: string;
+  title: string;
+  language: string;
+  reportLanguage: string;
+  model: string;
+  createdAt: string;
+  workspaceId: string;
+  // Who ran the analysis; null once their account is deleted.
+  createdBy: string | null;
+}
+
+// A follow-up answer kept with its report.
+export interface Pin {
+  id: string;
+  question: string;
+  answer: string;
+  createdAt: string;
+}
+
+export interface SavedReport extends ReportSummary {
+  reviews: ReviewRecord[];
+  result: AnalysisResult;
+  pins: Pin[];
+  // The reviews and results are stored as the model saw them, with placeholders.
+  redactions: Redactions;
+}
+
+export interface AnalysisProgress {
+  stage: 'map' | 'reduce';
+  completedBatches: number;
+  totalBatches: number;
+}
+
+// Why an analysis failed, so the UI can say more than "something went wrong".
+export type AnalysisErrorCategory = 'quota' | 'safety' | 'invalid_json' | 'network' | 'unknown';
+
+// Newline-delimited JSON events streamed back from POST /api/analyze.
+export type AnalysisEvent =
+  | { type: 'job'; job: AnalysisJob }
+  | { type: 'progress'; progress: AnalysisProgress }
+  | { type: 'partial'; result: Partial<AnalysisResult> }
+  | { type: 'report'; report: SavedReport }
+  | { type: 'error'; error: string; category: AnalysisErrorCategory };
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Body of POST /api/reports/:id/chat; the last message is the question to answer.
+export interface ChatRequest {
+  messages: ChatMessage[];
+  provider?: string;
+  model?: string;
+}
+
+// Newline-delimited JSON events streamed back from the chat endpoint.
+export type ChatEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; answer: string }
+  | { type: 'error'; error: string; category: AnalysisErrorCategory };
+
+export interface User {
+  id: string;
+  email: string;
+  name: string;
+}
+
+// Viewers can read a workspace's reports; editors can also run, change and delete them and manage members.
+export type WorkspaceRole = 'viewer' | 'editor';
+
+export type PlanId = 'starter' | 'pro' | 'enterprise';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  // The signed-in user's role in it.
+  role: WorkspaceRole;
+  plan: PlanId;
+}
+
+export interface WorkspaceMember {
+  userId: string;
+  email: string;
+  name: string;
+  role: WorkspaceRole;
+}
+
+// The signed-in user and the workspaces they belong to.
+export interface Account {
+  user: User;
+  workspaces: Workspace[];
+}
+
+// Tokens one model call consumed, as reported by the provider or estimated from the text.
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface DailyUsage {
+  // YYYY-MM-DD, in UTC like the billing period.
+  date: string;
+  reviews: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// A workspace's consumption in the current calendar month (UTC).
+export interface WorkspaceUsage {
+  plan: PlanId;
+  periodStart: string;
+  periodEnd: string;
+  // Null on plans without a limit.
+  reviewLimit: number | null;
+  reviewsUsed: number;
+  inputTokens: number;
+  outputTokens: number;
+  analyses: number;
+  questions: number;
+  daily: DailyUsage[];
+}
+
+// A workspace's key for the public API. The secret itself is shown once, at creation.
+export interface ApiKey {
+  id: string;
+  name: string;
+  // The start of the secret, enough to tell keys apart.
+  prefix: string;
+  // Requests allowed per minute.
+  rateLimit: number;
+  createdBy: string | null;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+export interface CreatedApiKey extends ApiKey {
+  secret: string;
+}
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+// Where a job was submitted: the analyzer in the app, the public API, or a schedule.
+export type JobSource = 'app' | 'api' | 'schedule';
+
+// An analysis run by the server's job worker, independent of any open tab.
+export interface AnalysisJob {
+  id: string;
+  workspaceId: string;
+  source: JobSource;
+  // The report title it will be saved under.
+  title: string;
+  status: JobStatus;
+  // Runs started so far, including retries.
+  attempts: number;
+  // When a job waiting to retry runs next; null otherwise.
+  retryAt: string | null;
+  progress: AnalysisProgress | null;
+  // Set once the job succeeds.
+  reportId: string | null;
+  // Why it failed, or why the last attempt failed while it waits to retry.
+  error: string | null;
+  errorCategory: AnalysisErrorCategory | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ScheduleFrequency = 'hourly' | 'daily' | 'weekly';
+
+// Where a schedule pulls new reviews from: CSV or JSON files dropped into a
+// folder under the server's watch directory, or an RSS, Atom or JSON Feed.
+export type ScheduleSource = { type: 'folder'; path: string } | { type: 'feed'; url: string };
+
+// A recurring analysis of whatever reviews arrived since its last run.
+export interface AnalysisSchedule {
+  id: string;
+  workspaceId: string;
+  name: string;
+  source: ScheduleSource;
+  frequency: ScheduleFrequency;
+  template: TemplateId;
+  language: string;
+  reportLanguage: string;
+  provider: string;
+  model: string;
+  // Paused schedules keep their runs but don't pull anything.
+  enabled: boolean;
+  lastRunAt: string | null;
+  nextRunAt: string;
+  createdAt: string;
+  // Name of the editor who set it up; its analyses are recorded as theirs.
+  createdBy: string | null;
+}
+
+// A run that found reviews follows its job; the others never got that far.
+export type ScheduleRunStatus = JobStatus | 'skipped';
+
+// One run's results in brief, for the trend chart.
+export interface ScheduleSnapshot {
+  reviewCount: number;
+  averageSentiment: number;
+  positiveShare: number;
+  negativeShare: number;
+  painPoints: { text: string; frequency: number }[];
+}
+
+export interface ScheduleRun {
+  id: string;
+  scheduleId: string;
+  createdAt: string;
+  status: ScheduleRunStatus;
+  // New reviews found; the analysis covers only these.
+  reviewCount: number;
+  jobId: string | null;
+  reportId: string | null;
+  error: string | null;
+  // Null until the report is saved, and again if it is deleted.
+  snapshot: ScheduleSnapshot | null;
+}
+
+// An endpoint sent a signed JSON payload whenever an analysis in the workspace finishes.
+export interface Webhook {
+  id: string;
+  url: string;
+  description: string;
+  // Signs each payload; receivers check the X-Sale-Squid-Signature header with it.
+  secret: string;
+  enabled: boolean;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+// Who gets the HTML summary of each finished analysis by email.
+export interface DigestSettings {
+  enabled: boolean;
+  recipients: string[];
+}
+
+export type DeliveryChannel = 'webhook' | 'email';
+
+export type DeliveryStatus = 'pending' | 'sending' | 'succeeded' | 'failed';
+
+// `ping` is the test a webhook is sent from the app.
+export type DeliveryEvent = 'analysis.completed' | 'ping';
+
+export interface DeliveryAttempt {
+  at: string;
+  // The webhook's HTTP status, or the mail server's reply code; null when it couldn't be reached.
+  responseStatus: number | null;
+  error: string | null;
+}
+
+// One report sent to one webhook, or to the digest's recipients, with every try.
+export interface Delivery {
+  id: string;
+  channel: DeliveryChannel;
+  event: DeliveryEvent;
+  // The webhook URL, or the recipients joined with commas.
+  target: string;
+  reportId: string | null;
+  reportTitle: string | null;
+  status: DeliveryStatus;
+  attempts: DeliveryAttempt[];
+  // When a pending delivery is tried next.
+  nextAttemptAt: string | null;
+  createdAt: string;
+  deliveredAt: string | null;
+}
+
+export interface NotificationSettings {
+  webhooks: Webhook[];
+  digest: DigestSettings;
+  // False when the server has no SMTP settings, so digests can't be sent.
+  emailAvailable: boolean;
+}
+
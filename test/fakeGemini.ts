@@ -0,0 +1,76 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { createMockProvider } from '../server/providers/mock';
+
+export { SAMPLE_REVIEWS } from './sampleReport';
+
+// The offline demo analyst stands in for the model: it reads the reviews in
+// the prompt and answers with exactly the fields the response schema asks for.
+const analyst = createMockProvider({ chunkDelayMs: 0 });
+
+export function fakeAnswer(prompt: string, schema: object) {
+  return analyst.generateJson({ model: 'fake', prompt, schema });
+}
+
+// Splits an answer into the chunks generateContentStream yields, the last one carrying the usage totals.
+export async function* geminiChunks(text: string, size = 200) {
+  for (let start = 0; start < text.length; start += size) {
+    const last = start + size >= text.length;
+    yield {
+      text: text.slice(start, start + size),
+      candidates: [{ finishReason: last ? 'STOP' : undefined }],
+      ...(last && { usageMetadata: { promptTokenCount: 120, candidatesTokenCount: 80, thoughtsTokenCount: 20 } }),
+    };
+  }
+}
+
+export interface FakeGemini {
+  baseUrl: string;
+  // Every prompt the server received, in order.
+  prompts: string[];
+  close(): Promise<void>;
+}
+
+// What a call is answered with instead of the fake analyst's report: an HTTP
+// error, or text streamed back as if the model wrote it.
+export type FakeReply = { status: number; body: unknown } | { text: string };
+
+// A local stand-in for the Gemini REST API, enough for the SDK's
+// streamGenerateContent calls. `override` can answer a call itself;
+// returning undefined falls back to the fake analyst.
+export async function startFakeGemini(override?: (prompt: string, call: number) => FakeReply | undefined): Promise<FakeGemini> {
+  const prompts: string[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', async () => {
+      const body = JSON.parse(raw || '{}');
+      const prompt: string = (body.contents ?? []).flatMap((c: { parts?: { text?: string }[] }) => c.parts ?? []).map((p: { text?: string }) => p.text ?? '').join('');
+      prompts.push(prompt);
+      const reply = override?.(prompt, prompts.length);
+      if (reply && 'status' in reply) {
+        res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(reply.body));
+        return;
+      }
+      const schema = body.generationConfig?.responseSchema ?? body.generationConfig?.responseJsonSchema;
+      const text = reply && 'text' in reply ? reply.text : schema ? await fakeAnswer(prompt, schema) : 'A short answer.';
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      for await (const chunk of geminiChunks(text)) {
+        const payload = {
+          candidates: [{ content: { role: 'model', parts: [{ text: chunk.text }] }, finishReason: chunk.candidates[0].finishReason }],
+          usageMetadata: chunk.usageMetadata,
+        };
+        res.write(`data: ${JSON.stringify(payload)}\r\n\r\n`);
+      }
+      res.end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    prompts,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
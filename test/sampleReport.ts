@@ -0,0 +1,54 @@
+import { parseReviewText } from '../src/lib/reviews';
+import type { AnalysisResult, SavedReport } from '../src/types';
+
+export const SAMPLE_REVIEWS = [
+  'Shipping took three weeks and the tracking number never worked.',
+  'Checkout kept failing when I entered my discount code, so I gave up on the order.',
+  'Great product quality, the material feels durable and it looks lovely.',
+  'Customer support never responded to my refund email.',
+  'Too expensive compared to other stores for the same item.',
+].join('\n');
+
+// A finished report as the server sends it, small enough to assert on by eye.
+export const SAMPLE_RESULT: AnalysisResult = {
+  sentiment: 'Mixed, leaning negative',
+  painPoints: [
+    { text: 'Slow shipping with broken tracking', frequency: 1, severity: 'high', evidence: [0], quotes: ['Shipping took three weeks'] },
+    { text: 'Refund requests go unanswered', frequency: 1, severity: 'medium', evidence: [3], quotes: ['never responded to my refund email'] },
+  ],
+  salesBlockers: [
+    { text: 'Discount codes fail at checkout', frequency: 1, severity: 'critical', evidence: [1], quotes: ['Checkout kept failing'] },
+  ],
+  marketingStrategy: '## Lead with quality\nShow the **durable materials** in every campaign.',
+  salesStrategy: '- Fix the discount code flow first',
+  growthProjection: ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun'].map((month, i) => ({ month, current: 2, projected: 2 + i })),
+  annualIncrementPlan: '### Pillar 1: Reliable checkout\nShip the checkout fix in Q1.',
+  initiatives: [
+    { title: 'Rebuild coupon validation', pillar: 'Sales Enablement', ownerRole: 'Head of E-commerce', quarter: 'Q1', effort: 'medium', expectedImpact: 'Recover abandoned orders', blockers: [0] },
+  ],
+  reviewInsights: [
+    { index: 0, score: -0.8, aspects: ['shipping'] },
+    { index: 1, score: -0.7, aspects: ['checkout'] },
+    { index: 2, score: 0.9, aspects: ['product quality'] },
+    { index: 3, score: -0.6, aspects: ['support'] },
+    { index: 4, score: -0.4, aspects: ['pricing'] },
+  ],
+};
+
+export function sampleReport(overrides: Partial<SavedReport> = {}): SavedReport {
+  return {
+    id: 'report-1',
+    title: 'Spring reviews',
+    language: 'English',
+    reportLanguage: 'English',
+    model: 'gemini-2.5-flash',
+    createdAt: '2026-03-01T12:00:00.000Z',
+    workspaceId: 'workspace-1',
+    createdBy: 'Ana',
+    reviews: parseReviewText(SAMPLE_REVIEWS),
+    result: SAMPLE_RESULT,
+    pins: [],
+    redactions: {},
+    ...overrides,
+  };
+}
@@ -0,0 +1,36 @@
+import '@testing-library/jest-dom/vitest';
+import { cleanup } from '@testing-library/react';
+import { cloneElement, createElement, type ReactElement } from 'react';
+import { afterEach, vi } from 'vitest';
+
+// jsdom lays nothing out, so these browser APIs are missing or inert there.
+class ResizeObserverStub {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+}
+globalThis.ResizeObserver ??= ResizeObserverStub as unknown as typeof ResizeObserver;
+Element.prototype.scrollIntoView ??= function () {};
+window.matchMedia ??= (query: string) => ({
+  matches: false,
+  media: query,
+  onchange: null,
+  addListener() {},
+  removeListener() {},
+  addEventListener() {},
+  removeEventListener() {},
+  dispatchEvent: () => false,
+});
+
+// Charts size themselves to their container, which is always 0×0 here; a fixed
+// size lets them render their SVG instead of warning.
+vi.mock('recharts', async importOriginal => ({
+  ...(await importOriginal<typeof import('recharts')>()),
+  ResponsiveContainer: ({ children }: { children: ReactElement<{ width?: number; height?: number }> }) =>
+    createElement('div', { style: { width: 800, height: 400 } }, cloneElement(children, { width: 800, height: 400 })),
+}));
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+});
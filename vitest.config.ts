@@ -0,0 +1,39 @@
+import react from '@vitejs/plugin-react';
+import { defineConfig } from 'vitest/config';
+
+// Server code runs under Node. The UI and the end-to-end flow render into
+// jsdom; the end-to-end tests also boot the real API against a fake Gemini.
+export default defineConfig({
+  plugins: [react()],
+  test: {
+    projects: [
+      {
+        extends: true,
+        test: {
+          name: 'server',
+          environment: 'node',
+          include: ['server/**/*.test.ts'],
+        },
+      },
+      {
+        extends: true,
+        test: {
+          name: 'ui',
+          environment: 'jsdom',
+          include: ['src/**/*.test.{ts,tsx}'],
+          setupFiles: ['test/setupDom.ts'],
+        },
+      },
+      {
+        extends: true,
+        test: {
+          name: 'e2e',
+          environment: 'jsdom',
+          include: ['e2e/**/*.test.{ts,tsx}'],
+          setupFiles: ['test/setupDom.ts'],
+          testTimeout: 30_000,
+        },
+      },
+    ],
+  },
+});